@@ -5,9 +5,10 @@ import { useSales } from '@/hooks/sales-store';
 import TransactionItem from '@/components/TransactionItem';
 import CustomHeader from '@/components/CustomHeader';
 import { CURRENCIES } from '@/constants/products';
+import { getPaymentShares, toLegCurrency } from '@/lib/payments';
 
 export default function HistoryScreen() {
-  const { transactions, settings, exchangeRates, deleteTransaction, updateTransaction, getProductTypeById, checkIfLocked } = useSales();
+  const { transactions, settings, exchangeRates, deleteTransaction, updateTransaction, getProductTypeById, productTypes, checkIfLocked, syncStatuses, refundTransaction, can } = useSales();
   const [selectedDateIndex, setSelectedDateIndex] = useState(0);
   const [currentView, setCurrentView] = useState<'transactions' | 'groups'>('transactions');
   const scrollViewRef = useRef<ScrollView>(null);
@@ -22,6 +23,17 @@ export default function HistoryScreen() {
     checkLockStatus();
   }, [checkIfLocked]);
   
+  // Refunds linked to each sale, so every row can tell what is still refundable
+  const refundsBySale = useMemo(() => {
+    const map = new Map<string, typeof transactions>();
+    transactions.forEach(transaction => {
+      if (transaction.refundOf) {
+        map.set(transaction.refundOf, [...(map.get(transaction.refundOf) || []), transaction]);
+      }
+    });
+    return map;
+  }, [transactions]);
+
   const transactionsByDate = useMemo(() => {
     const groups: { [key: string]: typeof transactions } = {};
     
@@ -102,8 +114,7 @@ export default function HistoryScreen() {
       const fromRate = exchangeRates[transaction.currency];
       const toRate = exchangeRates[mainCurrency];
       const conversionRate = toRate / fromRate;
-      const currency = transaction.currency;
-      const method = transaction.paymentMethod;
+      const paymentShares = getPaymentShares(transaction);
 
       transaction.items.forEach(item => {
         const productType = getProductTypeById(item.product.typeId);
@@ -121,18 +132,23 @@ export default function HistoryScreen() {
         const convertedAmount = item.product.price * item.quantity * conversionRate;
         group.total += convertedAmount;
 
-        if (!group.byCurrencyAndMethod[currency]) {
-          group.byCurrencyAndMethod[currency] = {};
-        }
-        if (!group.byCurrencyAndMethod[currency][method]) {
-          group.byCurrencyAndMethod[currency][method] = {
-            quantity: 0,
-            total: 0
-          };
-        }
+        paymentShares.forEach(leg => {
+          const currency = leg.currency;
+          const method = leg.method;
+
+          if (!group.byCurrencyAndMethod[currency]) {
+            group.byCurrencyAndMethod[currency] = {};
+          }
+          if (!group.byCurrencyAndMethod[currency][method]) {
+            group.byCurrencyAndMethod[currency][method] = {
+              quantity: 0,
+              total: 0
+            };
+          }
 
-        group.byCurrencyAndMethod[currency][method].quantity += item.quantity;
-        group.byCurrencyAndMethod[currency][method].total += item.product.price * item.quantity;
+          group.byCurrencyAndMethod[currency][method].quantity += item.quantity * leg.share;
+          group.byCurrencyAndMethod[currency][method].total += toLegCurrency(leg, item.product.price * item.quantity * leg.share);
+        });
 
         const existingItem = group.items.find(i => i.productName === item.product.name);
         if (existingItem) {
@@ -176,12 +192,15 @@ export default function HistoryScreen() {
     });
 
     return {
-      typeGroups: Array.from(typeGroups.entries()).map(([type, data]) => ({ type, ...data })).sort((a, b) => 
-        a.type === 'MagicPro Ideas' ? -1 : 1
-      ),
+      // Sort by the order defined in productTypes
+      typeGroups: Array.from(typeGroups.entries()).map(([type, data]) => ({ type, ...data })).sort((a, b) => {
+        const typeA = productTypes.find(t => t.name === a.type);
+        const typeB = productTypes.find(t => t.name === b.type);
+        return (typeA?.order ?? 999) - (typeB?.order ?? 999);
+      }),
       subgroups: Array.from(subgroups.entries()).map(([subgroupName, data]) => ({ subgroupName, ...data })).sort((a, b) => b.total - a.total)
     };
-  }, [currentDateData, mainCurrency, exchangeRates, getProductTypeById]);
+  }, [currentDateData, mainCurrency, exchangeRates, getProductTypeById, productTypes]);
   
   const getDateTitle = () => {
     if (!currentDateData) return "Today's Sales";
@@ -327,12 +346,16 @@ export default function HistoryScreen() {
               <FlatList
                 data={currentTransactions}
                 keyExtractor={(item) => item.id}
+                extraData={syncStatuses}
                 renderItem={({ item }) => (
                   <TransactionItem 
                     transaction={item} 
-                    onDelete={deleteTransaction}
-                    onUpdate={updateTransaction}
+                    onDelete={can('transaction.delete') ? deleteTransaction : undefined}
+                    onUpdate={can('transaction.edit') ? updateTransaction : undefined}
                     isLocked={isLocked}
+                    syncStatus={syncStatuses[item.id]}
+                    refunds={refundsBySale.get(item.id)}
+                    onRefund={can('transaction.refund') ? refundTransaction : undefined}
                   />
                 )}
                 contentContainerStyle={styles.list}
@@ -346,7 +369,7 @@ export default function HistoryScreen() {
                   <>
                     <Text style={styles.groupsSectionTitle}>By Type</Text>
                     {dayGroupsSummary.typeGroups.map(group => {
-                      const groupColor = group.type === 'MagicPro Ideas' ? '#2196F3' : '#FF9500';
+                      const groupColor = productTypes.find(t => t.name === group.type)?.color || '#999';
                       return (
                         <View key={group.type} style={styles.groupCard}>
                           <View style={styles.groupHeader}>
@@ -367,7 +390,7 @@ export default function HistoryScreen() {
                                     </Text>
                                     <View style={styles.methodData}>
                                       <Text style={styles.quantityText}>
-                                        {data.quantity} units
+                                        {Number.isInteger(data.quantity) ? data.quantity : data.quantity.toFixed(1)} units
                                       </Text>
                                       <Text style={styles.amountText}>
                                         {formatCurrency(data.total, currency)}
@@ -386,7 +409,7 @@ export default function HistoryScreen() {
                       <>
                         <Text style={styles.groupsSectionTitle}>By Subgroup</Text>
                         {dayGroupsSummary.subgroups.map(subgroup => {
-                          const subgroupColor = subgroup.type === 'MagicPro Ideas' ? '#2196F3' : '#FF9500';
+                          const subgroupColor = productTypes.find(t => t.name === subgroup.type)?.color || '#999';
                           return (
                             <View key={subgroup.subgroupName} style={styles.groupCard}>
                               <View style={styles.groupHeader}>
@@ -114,11 +114,8 @@ export default function SalesScreen() {
         console.log('ℹ️ Registry: No products yet. Complete setup in the Setup tab.');
       } else {
         console.log(`✅ Registry: ${products.length} products available`);
-        const magicStuffType = productTypes.find(t => t.name === 'Magic Stuff');
-        const magicProType = productTypes.find(t => t.name === 'MagicPro Ideas');
-        const magicStuffCount = magicStuffType ? products.filter(p => p.typeId === magicStuffType.id).length : 0;
-        const magicProCount = magicProType ? products.filter(p => p.typeId === magicProType.id).length : 0;
-        console.log(`🎯 Registry: Magic Stuff: ${magicStuffCount}, MagicPro Ideas: ${magicProCount}`);
+        const countsByType = productTypes.map(type => `${type.name}: ${products.filter(p => p.typeId === type.id).length}`);
+        console.log(`🎯 Registry: ${countsByType.join(', ')}`);
       }
     };
     
@@ -17,18 +17,23 @@ import {
 
 import { router, useFocusEffect } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Plus, Trash2, Save, ChevronUp, ChevronDown, RotateCcw, FileSpreadsheet, ChevronLeft, ChevronRight, Files, RefreshCw, Check, X, Palette, Download } from 'lucide-react-native';
+import { Plus, Trash2, Save, ChevronUp, ChevronDown, RotateCcw, FileSpreadsheet, ChevronLeft, ChevronRight, Files, RefreshCw, Check, X, Palette, Download, Upload, Shield } from 'lucide-react-native';
 import * as Sharing from 'expo-sharing';
 import { File, Paths } from 'expo-file-system';
 
 import { useSales } from '@/hooks/sales-store';
-import { Product, Currency, AppSettings, Transaction, Promo, PromoMode } from '@/types/sales';
+import { Product, Currency, AppSettings, Transaction, Promo, PromoMode, OverrideApprovalRules } from '@/types/sales';
 import { CURRENCIES } from '@/constants/products';
 import Colors from '@/constants/colors';
 import { useNavigationBlocker } from '@/hooks/navigation-blocker';
 import { useAuth } from '@/hooks/auth-store';
-import GoogleSheetsExportModal from '@/components/GoogleSheetsExportModal';
+import XlsxExportModal from '@/components/XlsxExportModal';
+import GoogleSheetsSyncModal from '@/components/GoogleSheetsSyncModal';
+import ProductImportModal from '@/components/ProductImportModal';
 import { databaseService } from '@/hooks/database';
+import { ExportData } from '@/lib/sheet-data';
+import { ProductSalesTotal } from '@/lib/transaction-items';
+import { createEventBundle } from '@/lib/event-bundle';
 
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -60,12 +65,14 @@ export default function SetupScreen() {
     updateProductType,
     deleteProductType,
     reorderProductTypes,
+    importProducts,
     currentEventId,
     promos,
     addPromo,
     updatePromo,
     deletePromo,
     reorderPromos,
+    can,
   } = useSales();
 
   const sortedProducts = [...products].sort((a, b) => a.order - b.order);
@@ -107,7 +114,25 @@ export default function SetupScreen() {
   const { enableBlocking, disableBlocking } = useNavigationBlocker();
   const { clearCurrentEvent, currentEvent, currentUser } = useAuth();
 
-  const [isLocked, setIsLocked] = useState(false);
+  const [isEventLocked, setIsEventLocked] = useState(false);
+  // Without catalogue rights the screen is as read-only as a locked event
+  const isLocked = isEventLocked || !can('catalogue.edit');
+
+  // Approval limits are edited as text and saved when the field loses focus
+  const [approvalLimitDrafts, setApprovalLimitDrafts] = useState({ maxDiscountPercent: '', minTotal: '' });
+  useEffect(() => {
+    setApprovalLimitDrafts({
+      maxDiscountPercent: settings.overrideApproval?.maxDiscountPercent?.toString() ?? '',
+      minTotal: settings.overrideApproval?.minTotal?.toString() ?? '',
+    });
+  }, [settings.overrideApproval]);
+
+  const saveApprovalLimit = (field: keyof OverrideApprovalRules) => {
+    const value = parseFloat(approvalLimitDrafts[field]);
+    updateSettings({
+      overrideApproval: { ...settings.overrideApproval, [field]: isNaN(value) || value < 0 ? undefined : value },
+    });
+  };
   
   const checkLockStatus = useCallback(async () => {
     console.log('🔐 Setup: Starting lock status check...');
@@ -115,7 +140,7 @@ export default function SetupScreen() {
     
     if (!currentEventId) {
       console.log('🔐 No currentEventId, setting isLocked = false');
-      setIsLocked(false);
+      setIsEventLocked(false);
       return;
     }
     
@@ -129,7 +154,7 @@ export default function SetupScreen() {
       const locked = !!eventData?.event.templatePin;
       console.log('🔐 Computed locked status:', locked);
       
-      setIsLocked(locked);
+      setIsEventLocked(locked);
       console.log('🔐 isLocked state set to:', locked);
       
       console.log('🔐 Setup: Lock status check complete:', {
@@ -140,7 +165,7 @@ export default function SetupScreen() {
       });
     } catch (error) {
       console.error('🔐 Error checking lock status:', error);
-      setIsLocked(false);
+      setIsEventLocked(false);
     }
   }, [currentEventId]);
   
@@ -155,7 +180,11 @@ export default function SetupScreen() {
     }, [checkLockStatus])
   );
   const [showExportModal, setShowExportModal] = useState(false);
-  const [showGoogleSheetsModal, setShowGoogleSheetsModal] = useState(false);
+  const [exportWithChecksum, setExportWithChecksum] = useState(true);
+  const [showXlsxModal, setShowXlsxModal] = useState(false);
+  const [productSales, setProductSales] = useState<ProductSalesTotal[] | undefined>(undefined);
+  const [showSheetsSyncModal, setShowSheetsSyncModal] = useState(false);
+  const [showProductImport, setShowProductImport] = useState(false);
   const [exportFileName, setExportFileName] = useState('');
 
   const [newProduct, setNewProduct] = useState({
@@ -530,7 +559,22 @@ export default function SetupScreen() {
     }
   };
 
-  const handleExportToGoogleSheets = () => {
+  const exportData: ExportData = {
+    userName: currentUser?.username || 'User',
+    eventName: settings.eventName,
+    transactions,
+    products,
+    productTypes,
+    productSales,
+    settings,
+    exchangeRates: {
+      USD: exchangeRates?.USD || 1,
+      EUR: exchangeRates?.EUR || 0.92,
+      GBP: exchangeRates?.GBP || 0.79,
+    },
+  };
+
+  const handleExportToXlsx = async () => {
     if (!currentUser || !currentEvent) {
       Alert.alert('Error', 'No event loaded');
       return;
@@ -541,7 +585,14 @@ export default function SetupScreen() {
       return;
     }
 
-    setShowGoogleSheetsModal(true);
+    // Product sheets use the line-item totals; without them they are worked out from the transactions
+    try {
+      setProductSales(await databaseService.getProductSalesTotals(currentEvent.id));
+    } catch (error) {
+      console.error('❌ Failed to load product sales totals:', error);
+      setProductSales(undefined);
+    }
+    setShowXlsxModal(true);
   };
 
   const handleExportEvent = () => {
@@ -563,20 +614,12 @@ export default function SetupScreen() {
     try {
       console.log('📤 Starting event export...');
       
-      const exportData = {
-        version: '1.0',
-        exportDate: new Date().toISOString(),
-        settings,
-        products,
-        productTypes,
-        promos,
-        transactions: transactions.map(t => ({
-          ...t,
-          timestamp: t.timestamp.toISOString()
-        }))
-      };
-
-      const jsonString = JSON.stringify(exportData, null, 2);
+      const bundle = await createEventBundle(
+        { settings, products, productTypes, promos, transactions },
+        { includeChecksum: exportWithChecksum }
+      );
+
+      const jsonString = JSON.stringify(bundle, null, 2);
       const fileName = exportFileName.endsWith('.json') ? exportFileName : `${exportFileName}.json`;
       
       if (Platform.OS === 'web') {
@@ -780,6 +823,50 @@ export default function SetupScreen() {
                 </View>
               </View>
 
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Supervisor Approval</Text>
+                <Text style={styles.hintText}>Overrides beyond these limits need a supervisor PIN. Leave empty for no limit.</Text>
+                <View style={styles.approvalLimitsRow}>
+                  <View style={styles.approvalLimitField}>
+                    <Text style={styles.approvalLimitLabel}>Max discount (%)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={approvalLimitDrafts.maxDiscountPercent}
+                      onChangeText={(text) => setApprovalLimitDrafts(prev => ({ ...prev, maxDiscountPercent: text }))}
+                      onEndEditing={() => saveApprovalLimit('maxDiscountPercent')}
+                      placeholder="20"
+                      keyboardType="numeric"
+                      editable={!isLocked}
+                      testID="approval-max-discount-input"
+                    />
+                  </View>
+                  <View style={styles.approvalLimitField}>
+                    <Text style={styles.approvalLimitLabel}>Min override total ({CURRENCIES[settings.currency].symbol})</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={approvalLimitDrafts.minTotal}
+                      onChangeText={(text) => setApprovalLimitDrafts(prev => ({ ...prev, minTotal: text }))}
+                      onEndEditing={() => saveApprovalLimit('minTotal')}
+                      placeholder="0.00"
+                      keyboardType="numeric"
+                      editable={!isLocked}
+                      testID="approval-min-total-input"
+                    />
+                  </View>
+                </View>
+              </View>
+
+              {can('user.manage') && (
+                <TouchableOpacity
+                  style={styles.permissionsButton}
+                  onPress={() => router.push('/event-permissions')}
+                  testID="role-permissions-button"
+                >
+                  <Shield size={16} color={Colors.light.tint} />
+                  <Text style={styles.permissionsButtonText}>Role Permissions</Text>
+                </TouchableOpacity>
+              )}
+
               {/* Exchange Rates Section */}
               <View style={styles.exchangeRatesSection}>
                 <View style={styles.exchangeRatesHeader}>
@@ -969,15 +1056,26 @@ export default function SetupScreen() {
             <View style={styles.section}>
               <View style={styles.sectionHeader}>
                 <Text style={styles.sectionTitle}>Products</Text>
-                <TouchableOpacity
-                  style={[styles.addButton, isLocked && styles.addButtonDisabled]}
-                  onPress={handleShowAddProduct}
-                  testID="add-product-button"
-                  disabled={isLocked}
-                >
-                  <Plus size={20} color="white" />
-                  <Text style={styles.addButtonText}>Add</Text>
-                </TouchableOpacity>
+                <View style={styles.sectionHeaderButtons}>
+                  <TouchableOpacity
+                    style={[styles.addButton, isLocked && styles.addButtonDisabled]}
+                    onPress={() => setShowProductImport(true)}
+                    testID="import-products-button"
+                    disabled={isLocked}
+                  >
+                    <Upload size={20} color="white" />
+                    <Text style={styles.addButtonText}>Import</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.addButton, isLocked && styles.addButtonDisabled]}
+                    onPress={handleShowAddProduct}
+                    testID="add-product-button"
+                    disabled={isLocked}
+                  >
+                    <Plus size={20} color="white" />
+                    <Text style={styles.addButtonText}>Add</Text>
+                  </TouchableOpacity>
+                </View>
               </View>
 
               {/* Products List */}
@@ -1114,7 +1212,7 @@ export default function SetupScreen() {
         <View style={styles.actionButtons}>
           <TouchableOpacity
             style={styles.xlsButton}
-            onPress={handleExportToGoogleSheets}
+            onPress={handleExportToXlsx}
             testID="export-xls-button"
           >
             <FileSpreadsheet size={20} color="white" />
@@ -1122,13 +1220,13 @@ export default function SetupScreen() {
           </TouchableOpacity>
 
           <TouchableOpacity
-            style={[styles.gsheetButton, styles.gsheetButtonDisabled]}
-            onPress={() => Alert.alert('Coming Soon', 'This feature will be available in a future version.')}
+            style={[styles.gsheetButton, !currentEventId && styles.gsheetButtonDisabled]}
+            onPress={() => setShowSheetsSyncModal(true)}
             testID="export-gsheet-button"
-            disabled={false}
+            disabled={!currentEventId}
           >
-            <FileSpreadsheet size={20} color="#999" />
-            <Text style={styles.gsheetButtonText}>GSheet</Text>
+            <FileSpreadsheet size={20} color={currentEventId ? 'white' : '#999'} />
+            <Text style={[styles.gsheetButtonText, !currentEventId && styles.gsheetButtonTextDisabled]}>GSheet</Text>
           </TouchableOpacity>
           
           <TouchableOpacity
@@ -1582,6 +1680,18 @@ export default function SetupScreen() {
                 <Text style={styles.exportInfoText}>• {promos.length} promos</Text>
                 <Text style={styles.exportInfoText}>• {transactions.length} transactions</Text>
               </View>
+
+              <View style={styles.checksumRow}>
+                <View style={styles.checksumLabelGroup}>
+                  <Text style={styles.label}>Include checksum</Text>
+                  <Text style={styles.checksumHint}>Imports reject the file if it is edited afterwards</Text>
+                </View>
+                <Switch
+                  value={exportWithChecksum}
+                  onValueChange={setExportWithChecksum}
+                  testID="export-checksum-switch"
+                />
+              </View>
             </View>
           </View>
         </SafeAreaView>
@@ -1635,7 +1745,19 @@ export default function SetupScreen() {
                   testID="new-product-price"
                 />
               </View>
-              
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Initial Stock (0 = not tracked)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={newProduct.initialQuantity > 0 ? newProduct.initialQuantity.toString() : ''}
+                  onChangeText={(text) => setNewProduct(prev => ({ ...prev, initialQuantity: Math.max(0, parseInt(text, 10) || 0) }))}
+                  placeholder="0"
+                  keyboardType="number-pad"
+                  testID="new-product-initial-quantity"
+                />
+              </View>
+
               <View style={styles.inputGroup}>
                 <Text style={styles.label}>Type</Text>
                 <ScrollView horizontal showsHorizontalScrollIndicator={false}>
@@ -1678,24 +1800,31 @@ export default function SetupScreen() {
         </SafeAreaView>
       </Modal>
 
-      {/* Google Sheets Export Modal */}
-      <GoogleSheetsExportModal
-        visible={showGoogleSheetsModal}
-        onClose={() => setShowGoogleSheetsModal(false)}
-        exportData={{
-          userName: currentUser?.username || 'User',
-          eventName: settings.eventName,
-          transactions,
-          products,
-          settings,
-          exchangeRates: {
-            USD: exchangeRates?.USD || 1,
-            EUR: exchangeRates?.EUR || 0.92,
-            GBP: exchangeRates?.GBP || 0.79,
-            lastUpdated: exchangeRates?.lastUpdated || new Date(),
-          },
-        }}
+      {/* XLSX Export Modal */}
+      <XlsxExportModal
+        visible={showXlsxModal}
+        onClose={() => setShowXlsxModal(false)}
+        exportData={exportData}
+      />
+
+      {/* Product Catalogue Import Modal */}
+      <ProductImportModal
+        visible={showProductImport}
+        onClose={() => setShowProductImport(false)}
+        productTypes={productTypes}
+        existingProductCount={products.length}
+        onImport={importProducts}
       />
+
+      {/* Google Sheets Sync Modal */}
+      {currentEventId && (
+        <GoogleSheetsSyncModal
+          visible={showSheetsSyncModal}
+          onClose={() => setShowSheetsSyncModal(false)}
+          eventId={currentEventId}
+          exportData={exportData}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -1774,6 +1903,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  sectionHeaderButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   sectionTitle: {
     fontSize: 20,
     fontWeight: '600',
@@ -1833,6 +1966,39 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: '500',
   },
+  hintText: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  approvalLimitsRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  approvalLimitField: {
+    flex: 1,
+  },
+  approvalLimitLabel: {
+    fontSize: 13,
+    color: '#333',
+    marginBottom: 4,
+  },
+  permissionsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    gap: 6,
+    marginBottom: 16,
+  },
+  permissionsButtonText: {
+    color: Colors.light.tint,
+    fontWeight: '500',
+  },
   addButtonDisabled: {
     backgroundColor: '#ccc',
     opacity: 0.5,
@@ -1941,7 +2107,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: '#e0e0e0',
+    backgroundColor: '#34A853',
     paddingVertical: 12,
     borderRadius: 8,
     gap: 4,
@@ -1952,10 +2118,13 @@ const styles = StyleSheet.create({
     borderColor: '#ccc',
   },
   gsheetButtonText: {
-    color: '#999',
+    color: 'white',
     fontSize: 14,
     fontWeight: '600',
   },
+  gsheetButtonTextDisabled: {
+    color: '#999',
+  },
   exportEventButton: {
     flex: 1,
     flexDirection: 'row',
@@ -1994,6 +2163,20 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 4,
   },
+  checksumRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+    gap: 12,
+  },
+  checksumLabelGroup: {
+    flex: 1,
+  },
+  checksumHint: {
+    fontSize: 12,
+    color: '#999',
+  },
   fileNameText: {
     fontSize: 16,
     color: '#666',
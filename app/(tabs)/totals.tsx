@@ -1,4 +1,4 @@
-import React, { useMemo, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -6,157 +6,85 @@ import {
   ScrollView,
   TouchableOpacity,
   useWindowDimensions,
+  Alert,
   FlatList,
 } from 'react-native';
+import { router } from 'expo-router';
+import { ClipboardList, History, Printer, Wallet } from 'lucide-react-native';
 import { useSales } from '@/hooks/sales-store';
-import { Product } from '@/types/sales';
+import { Product, StockLevel } from '@/types/sales';
+import { LOW_STOCK_THRESHOLD } from '@/constants/products';
+import {
+  calculateCurrencySummaries,
+  calculateMainCurrencyTotal,
+  calculateProductSummaries,
+  calculateSubgroupSummaries,
+  calculateTypeGroupSummaries,
+  calculateTypeSubtotals,
+  formatQuantity,
+  getPaymentMethodLabel,
+} from '@/lib/event-summary';
+import { renderEventReportDocument, shareHtmlDocument } from '@/lib/print';
+import { ProductSalesTotal, TopSeller } from '@/lib/transaction-items';
+import { databaseService } from '@/hooks/database';
+import { useAuth } from '@/hooks/auth-store';
 import CustomHeader from '@/components/CustomHeader';
 
-interface ProductSummary {
-  product: Product;
-  byCurrencyAndMethod: {
-    [currency: string]: {
-      [method: string]: {
-        quantity: number;
-        total: number;
-      };
-    };
-  };
-  totalQuantity: number;
-}
-
-interface CurrencySummary {
-  [currency: string]: {
-    [method: string]: {
-      total: number;
-      transactionCount: number;
-    };
-  };
-}
-
-interface TypeGroupSummary {
-  type: string;
-  total: number;
-  byCurrencyAndMethod: {
-    [currency: string]: {
-      [method: string]: {
-        quantity: number;
-        total: number;
-      };
-    };
-  };
-  items: {
-    productName: string;
-    quantity: number;
-    amount: number;
-  }[];
-}
-
-interface SubgroupSummary {
-  subgroupName: string;
-  total: number;
-  items: {
-    productName: string;
-    quantity: number;
-    amount: number;
-  }[];
-}
+const TOP_SELLER_COUNT = 5;
 
 export default function TotalsScreen() {
-  const { transactions, products, settings, exchangeRates, getProductTypeById, productTypes } = useSales();
+  const { transactions, products, settings, exchangeRates, getProductTypeById, productTypes, stockLevels, can, currentEventId } = useSales();
   const mainCurrency = settings.currency;
   const scrollViewRef = useRef<ScrollView>(null);
   const [currentSection, setCurrentSection] = useState(0);
   const { width: screenWidth } = useWindowDimensions();
+  const { currentEvent, currentUser } = useAuth();
+  const [productSalesTotals, setProductSalesTotals] = useState<ProductSalesTotal[]>([]);
+  const [topSellers, setTopSellers] = useState<TopSeller[]>([]);
+
+  // Line item aggregates run as SQL on device; reloaded whenever the event's sales change
+  useEffect(() => {
+    if (!currentEventId) {
+      setProductSalesTotals([]);
+      setTopSellers([]);
+      return;
+    }
 
-  // Calculate main currency total from all transactions
-  const mainCurrencyTotal = useMemo(() => {
-    // Group transactions by date to get daily totals
-    const dailyTotals = new Map<string, number>();
-    
-    transactions.forEach(transaction => {
-      const date = new Date(transaction.timestamp);
-      const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-      
-      // Convert transaction total to main currency
-      const fromRate = exchangeRates[transaction.currency];
-      const toRate = exchangeRates[mainCurrency];
-      const convertedAmount = transaction.total * (toRate / fromRate);
-      
-      dailyTotals.set(dateKey, (dailyTotals.get(dateKey) || 0) + convertedAmount);
-    });
-    
-    // Sum all daily totals
-    return Array.from(dailyTotals.values()).reduce((sum, total) => sum + total, 0);
-  }, [transactions, mainCurrency, exchangeRates]);
-
-  // Calculate currency summaries
-  const currencySummaries = useMemo(() => {
-    const summary: CurrencySummary = {};
-
-    transactions.forEach(transaction => {
-      const currency = transaction.currency;
-      const method = transaction.paymentMethod;
-
-      if (!summary[currency]) {
-        summary[currency] = {};
-      }
-      if (!summary[currency][method]) {
-        summary[currency][method] = {
-          total: 0,
-          transactionCount: 0,
-        };
-      }
-
-      summary[currency][method].total += transaction.total;
-      summary[currency][method].transactionCount += 1;
-    });
-
-    return summary;
-  }, [transactions]);
-
-  // Calculate product summaries
-  const productSummaries = useMemo(() => {
-    const summaryMap = new Map<string, ProductSummary>();
-
-    // Initialize summaries for all products
-    products.forEach(product => {
-      summaryMap.set(product.id, {
-        product,
-        byCurrencyAndMethod: {},
-        totalQuantity: 0,
-      });
+    let isCurrent = true;
+    Promise.all([
+      databaseService.getProductSalesTotals(currentEventId),
+      databaseService.getTopSellers(currentEventId, TOP_SELLER_COUNT)
+    ])
+      .then(([totals, sellers]) => {
+        if (!isCurrent) return;
+        setProductSalesTotals(totals);
+        setTopSellers(sellers);
+      })
+      .catch(error => console.error('❌ Failed to load product sales totals:', error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [currentEventId, transactions]);
+
+  // Net sales per product in the main currency
+  const productNetTotals = useMemo(() => {
+    const totals = new Map<string, number>();
+    productSalesTotals.forEach(total => {
+      const amount = total.netAmount * exchangeRates[mainCurrency] / exchangeRates[total.currency];
+      totals.set(total.productId, (totals.get(total.productId) || 0) + amount);
     });
+    return totals;
+  }, [productSalesTotals, exchangeRates, mainCurrency]);
 
-    // Process all transactions
-    transactions.forEach(transaction => {
-      transaction.items.forEach(item => {
-        const summary = summaryMap.get(item.product.id);
-        if (!summary) return;
-
-        const currency = transaction.currency;
-        const method = transaction.paymentMethod;
+  // Calculate main currency total from all transactions
+  const mainCurrencyTotal = useMemo(
+    () => calculateMainCurrencyTotal(transactions, mainCurrency, exchangeRates),
+    [transactions, mainCurrency, exchangeRates]
+  );
 
-        if (!summary.byCurrencyAndMethod[currency]) {
-          summary.byCurrencyAndMethod[currency] = {};
-        }
-        if (!summary.byCurrencyAndMethod[currency][method]) {
-          summary.byCurrencyAndMethod[currency][method] = {
-            quantity: 0,
-            total: 0,
-          };
-        }
+  const currencySummaries = useMemo(() => calculateCurrencySummaries(transactions), [transactions]);
 
-        summary.byCurrencyAndMethod[currency][method].quantity += item.quantity;
-        // Use the actual effective price from the transaction (which includes proportional discounts)
-        summary.byCurrencyAndMethod[currency][method].total += item.product.price * item.quantity;
-        summary.totalQuantity += item.quantity;
-      });
-    });
-
-    // Filter out products with no sales
-    return Array.from(summaryMap.values()).filter(s => s.totalQuantity > 0);
-  }, [transactions, products]);
+  const productSummaries = useMemo(() => calculateProductSummaries(transactions, products), [transactions, products]);
 
   const formatCurrency = (amount: number, currency: string) => {
     const currencySymbols: { [key: string]: string } = {
@@ -168,178 +96,64 @@ export default function TotalsScreen() {
     return `${symbol}${amount.toFixed(2)}`;
   };
 
-  const getPaymentMethodLabel = (method: string) => {
-    switch (method) {
-      case 'cash': return 'Cash';
-      case 'card': return 'Card';
-      case 'qr': return 'QR';
-      default: return method;
-    }
-  };
-
   const handleSectionChange = (index: number) => {
     setCurrentSection(index);
     scrollViewRef.current?.scrollTo({ x: index * screenWidth, animated: true });
   };
 
-  // Calculate subtotals by type
   const typeSubtotals = useMemo(() => {
     if (productTypes.length === 0) {
       console.log('⚠️ No product types defined');
       return [];
     }
-
-    const typeMap = new Map<string, { typeId: string; name: string; color: string; total: number; order: number }>();
-
-    // Initialize all types with 0
-    productTypes.forEach(type => {
-      typeMap.set(type.id, {
-        typeId: type.id,
-        name: type.name,
-        color: type.color,
-        total: 0,
-        order: type.order
-      });
-      console.log(`📊 Initialized type: ${type.name} (${type.id})`);
-    });
-
-    // Calculate totals from transactions
-    console.log(`💰 Calculating totals from ${transactions.length} transactions`);
-    transactions.forEach(transaction => {
-      const fromRate = exchangeRates[transaction.currency];
-      const toRate = exchangeRates[mainCurrency];
-      const conversionRate = toRate / fromRate;
-
-      transaction.items.forEach(item => {
-        console.log(`  📦 Product: ${item.product.name}, TypeId: ${item.product.typeId}`);
-        const typeData = typeMap.get(item.product.typeId);
-        if (typeData) {
-          const convertedAmount = item.product.price * item.quantity * conversionRate;
-          typeData.total += convertedAmount;
-          console.log(`    ✅ Added ${convertedAmount} to ${typeData.name} (total now: ${typeData.total})`);
-        } else {
-          console.log(`    ⚠️ Type not found for typeId: ${item.product.typeId}`);
-        }
-      });
-    });
-
-    const result = Array.from(typeMap.values())
-      .sort((a, b) => a.order - b.order);
-    
-    console.log('📊 Final type subtotals:', result.map(t => `${t.name}: ${t.total}`));
-    return result;
+    return calculateTypeSubtotals(transactions, productTypes, mainCurrency, exchangeRates);
   }, [transactions, mainCurrency, exchangeRates, productTypes]);
 
-  const typeGroupSummaries = useMemo(() => {
-    const typeMap = new Map<string, TypeGroupSummary>();
-
-    transactions.forEach(transaction => {
-      const fromRate = exchangeRates[transaction.currency];
-      const toRate = exchangeRates[mainCurrency];
-      const conversionRate = toRate / fromRate;
-      const currency = transaction.currency;
-      const method = transaction.paymentMethod;
-
-      transaction.items.forEach(item => {
-        const productType = getProductTypeById(item.product.typeId);
-        const type = productType?.name || 'Unknown';
-
-        if (!typeMap.has(type)) {
-          typeMap.set(type, {
-            type,
-            total: 0,
-            byCurrencyAndMethod: {},
-            items: []
-          });
-        }
-
-        const group = typeMap.get(type)!;
-        const convertedAmount = item.product.price * item.quantity * conversionRate;
-        group.total += convertedAmount;
-
-        if (!group.byCurrencyAndMethod[currency]) {
-          group.byCurrencyAndMethod[currency] = {};
-        }
-        if (!group.byCurrencyAndMethod[currency][method]) {
-          group.byCurrencyAndMethod[currency][method] = {
-            quantity: 0,
-            total: 0
-          };
-        }
-
-        group.byCurrencyAndMethod[currency][method].quantity += item.quantity;
-        // Use the actual effective price from the transaction (which includes proportional discounts)
-        group.byCurrencyAndMethod[currency][method].total += item.product.price * item.quantity;
+  const typeGroupSummaries = useMemo(
+    () => calculateTypeGroupSummaries(transactions, productTypes, mainCurrency, exchangeRates),
+    [transactions, mainCurrency, exchangeRates, productTypes]
+  );
 
-        const existingItem = group.items.find(i => i.productName === item.product.name);
-        if (existingItem) {
-          existingItem.quantity += item.quantity;
-          existingItem.amount += convertedAmount;
-        } else {
-          group.items.push({
-            productName: item.product.name,
-            quantity: item.quantity,
-            amount: convertedAmount
-          });
-        }
-      });
-    });
+  const subgroupSummaries = useMemo(
+    () => calculateSubgroupSummaries(transactions, productTypes, mainCurrency, exchangeRates),
+    [transactions, mainCurrency, exchangeRates, productTypes]
+  );
 
-    // Sort by the order defined in productTypes
-    return Array.from(typeMap.values()).sort((a, b) => {
-      const typeA = productTypes.find(t => t.name === a.type);
-      const typeB = productTypes.find(t => t.name === b.type);
-      return (typeA?.order || 999) - (typeB?.order || 999);
+  const handleShareReport = async () => {
+    const eventName = currentEvent?.eventName || settings.eventName || 'Event';
+    const html = renderEventReportDocument({
+      eventName,
+      preparedBy: currentUser?.fullName || settings.userName || 'User',
+      mainCurrency,
+      generatedAt: new Date(),
+      isFinalized: !!currentEvent?.isFinalized,
+      transactionCount: transactions.length,
+      mainCurrencyTotal,
+      typeSubtotals,
+      currencySummaries,
+      typeGroupSummaries,
+      subgroupSummaries,
+      topSellers
     });
-  }, [transactions, mainCurrency, exchangeRates, getProductTypeById, productTypes]);
-
-  const subgroupSummaries = useMemo(() => {
-    const subgroupMap = new Map<string, SubgroupSummary & { type: string }>();
-
-    transactions.forEach(transaction => {
-      const fromRate = exchangeRates[transaction.currency];
-      const toRate = exchangeRates[mainCurrency];
-      const conversionRate = toRate / fromRate;
 
-      transaction.items.forEach(item => {
-        const subgroupName = item.product.subgroup;
-        if (!subgroupName || subgroupName.trim() === '') return;
-
-        if (!subgroupMap.has(subgroupName)) {
-          const productType = getProductTypeById(item.product.typeId);
-          subgroupMap.set(subgroupName, {
-            subgroupName,
-            total: 0,
-            items: [],
-            type: productType?.name || 'Unknown'
-          });
-        }
-
-        const subgroup = subgroupMap.get(subgroupName)!;
-        const convertedAmount = item.product.price * item.quantity * conversionRate;
-        subgroup.total += convertedAmount;
-
-        const existingItem = subgroup.items.find(i => i.productName === item.product.name);
-        if (existingItem) {
-          existingItem.quantity += item.quantity;
-          existingItem.amount += convertedAmount;
-        } else {
-          subgroup.items.push({
-            productName: item.product.name,
-            quantity: item.quantity,
-            amount: convertedAmount
-          });
-        }
-      });
-    });
+    const result = await shareHtmlDocument(html, `${eventName}_report_${new Date().toISOString().split('T')[0]}`, 'Share Event Report');
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to share the event report');
+    }
+  };
 
-    return Array.from(subgroupMap.values()).sort((a, b) => b.total - a.total);
-  }, [transactions, mainCurrency, exchangeRates, getProductTypeById]);
+  // Stock reconciliation for stock-tracked products, in product order
+  const stockSummaries = useMemo(() => {
+    return [...products]
+      .sort((a, b) => a.order - b.order)
+      .map(product => ({ product, level: stockLevels.get(product.id) }))
+      .filter((entry): entry is { product: Product; level: StockLevel } => entry.level !== undefined);
+  }, [products, stockLevels]);
 
   const handleScroll = (event: { nativeEvent: { contentOffset: { x: number } } }) => {
     const offsetX = event.nativeEvent.contentOffset.x;
     const index = Math.round(offsetX / screenWidth);
-    if (index !== currentSection && index >= 0 && index <= 2) {
+    if (index !== currentSection && index >= 0 && index <= 3) {
       setCurrentSection(index);
     }
   };
@@ -397,6 +211,27 @@ export default function TotalsScreen() {
         )}
       </View>
 
+      <View style={dynamicStyles.toolbar}>
+        <TouchableOpacity style={dynamicStyles.toolbarButton} onPress={() => router.push('/cash-drawer')}>
+          <Wallet size={18} color="#2196F3" />
+          <Text style={dynamicStyles.toolbarButtonText}>Cash Drawer</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={dynamicStyles.toolbarButton} onPress={handleShareReport}>
+          <Printer size={18} color="#2196F3" />
+          <Text style={dynamicStyles.toolbarButtonText}>Event Report</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={dynamicStyles.toolbarButton} onPress={() => router.push('/snapshots')}>
+          <History size={18} color="#2196F3" />
+          <Text style={dynamicStyles.toolbarButtonText}>Snapshots</Text>
+        </TouchableOpacity>
+        {can('audit.view') && (
+          <TouchableOpacity style={dynamicStyles.toolbarButton} onPress={() => router.push('/audit-log')}>
+            <ClipboardList size={18} color="#2196F3" />
+            <Text style={dynamicStyles.toolbarButtonText}>Audit Log</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
       {/* Section Navigation */}
       <View style={dynamicStyles.sectionNav}>
         <TouchableOpacity
@@ -435,6 +270,18 @@ export default function TotalsScreen() {
             currentSection === 2 && dynamicStyles.navButtonTextActive
           ]}>Groups</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            dynamicStyles.navButton,
+            currentSection === 3 && dynamicStyles.navButtonActive
+          ]}
+          onPress={() => handleSectionChange(3)}
+        >
+          <Text style={[
+            dynamicStyles.navButtonText,
+            currentSection === 3 && dynamicStyles.navButtonTextActive
+          ]}>Stock</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Horizontal ScrollView for sections */}
@@ -450,6 +297,31 @@ export default function TotalsScreen() {
         {/* Products Section */}
         <ScrollView style={dynamicStyles.sectionContainer} showsVerticalScrollIndicator={false}>
           <View style={dynamicStyles.productsSection}>
+            {topSellers.length > 0 && (
+              <View style={dynamicStyles.groupCard}>
+                <View style={dynamicStyles.groupHeader}>
+                  <Text style={dynamicStyles.groupName}>Top Sellers</Text>
+                </View>
+                <View style={dynamicStyles.groupItemsBreakdown}>
+                  {topSellers.map((seller, index) => (
+                    <View key={seller.productId} style={dynamicStyles.groupItemRow}>
+                      <View style={dynamicStyles.groupItemInfo}>
+                        <Text style={dynamicStyles.groupItemName}>
+                          {index + 1}. {seller.productName}
+                        </Text>
+                        <Text style={dynamicStyles.groupItemQuantity}>
+                          {seller.transactionCount} transactions
+                        </Text>
+                      </View>
+                      <Text style={dynamicStyles.groupItemAmount}>
+                        {seller.quantity} units
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
             <Text style={dynamicStyles.sectionTitle}>Product Sales by Currency & Payment Method</Text>
             
             {productSummaries.length === 0 ? (
@@ -469,17 +341,7 @@ export default function TotalsScreen() {
                     <View style={dynamicStyles.productNameContainer}>
                       <Text style={dynamicStyles.productName}>{summary.product.name}</Text>
                       <Text style={dynamicStyles.productSubtotal}>
-                        {formatCurrency(
-                          Object.entries(summary.byCurrencyAndMethod).reduce((sum, [currency, methods]) => 
-                            sum + Object.values(methods).reduce((methodSum, data) => {
-                              const fromRate = exchangeRates[currency as 'USD' | 'EUR' | 'GBP'];
-                              const toRate = exchangeRates[mainCurrency];
-                              const conversionRate = toRate / fromRate;
-                              return methodSum + (data.total * conversionRate);
-                            }, 0),
-                          0),
-                          mainCurrency
-                        )}
+                        {formatCurrency(productNetTotals.get(summary.product.id) || 0, mainCurrency)}
                       </Text>
                     </View>
                     <Text style={dynamicStyles.productTotal}>
@@ -498,7 +360,7 @@ export default function TotalsScreen() {
                             </Text>
                             <View style={dynamicStyles.methodData}>
                               <Text style={dynamicStyles.quantityText}>
-                                {data.quantity} units
+                                {formatQuantity(data.quantity)} units
                               </Text>
                               <Text style={dynamicStyles.amountText}>
                                 {formatCurrency(data.total, currency)}
@@ -603,7 +465,7 @@ export default function TotalsScreen() {
                               </Text>
                               <View style={dynamicStyles.methodData}>
                                 <Text style={dynamicStyles.quantityText}>
-                                  {data.quantity} units
+                                  {formatQuantity(data.quantity)} units
                                 </Text>
                                 <Text style={dynamicStyles.amountText}>
                                   {formatCurrency(data.total, currency)}
@@ -660,6 +522,48 @@ export default function TotalsScreen() {
             )}
           </View>
         </ScrollView>
+
+        {/* Stock Section */}
+        <ScrollView style={dynamicStyles.sectionContainer} showsVerticalScrollIndicator={false}>
+          <View style={dynamicStyles.groupsSection}>
+            <Text style={dynamicStyles.sectionTitle}>Stock Reconciliation</Text>
+
+            {stockSummaries.length === 0 ? (
+              <View style={dynamicStyles.emptyState}>
+                <Text style={dynamicStyles.emptyText}>No stock-tracked products</Text>
+                <Text style={dynamicStyles.emptySubtext}>Set an initial stock for products in Setup</Text>
+              </View>
+            ) : (
+              <View style={dynamicStyles.groupCard}>
+                <View style={dynamicStyles.stockHeaderRow}>
+                  <Text style={[dynamicStyles.stockHeaderText, dynamicStyles.stockNameColumn]}>Product</Text>
+                  <Text style={dynamicStyles.stockHeaderText}>Opening</Text>
+                  <Text style={dynamicStyles.stockHeaderText}>Sold</Text>
+                  <Text style={dynamicStyles.stockHeaderText}>Remaining</Text>
+                </View>
+                {stockSummaries.map(({ product, level }) => (
+                  <View key={product.id} style={dynamicStyles.stockRow}>
+                    <View style={[dynamicStyles.stockNameColumn, dynamicStyles.groupItemInfo]}>
+                      <Text style={dynamicStyles.groupItemName}>{product.name}</Text>
+                      <Text style={dynamicStyles.groupItemQuantity}>
+                        {getProductTypeById(product.typeId)?.name || 'Unknown'}
+                      </Text>
+                    </View>
+                    <Text style={dynamicStyles.stockValue}>{level.opening}</Text>
+                    <Text style={dynamicStyles.stockValue}>{level.sold}</Text>
+                    <Text style={[
+                      dynamicStyles.stockValue,
+                      level.remaining <= LOW_STOCK_THRESHOLD && dynamicStyles.stockValueLow,
+                      level.remaining === 0 && dynamicStyles.stockValueSoldOut
+                    ]}>
+                      {level.remaining}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        </ScrollView>
       </ScrollView>
     </View>
   );
@@ -677,6 +581,25 @@ const styles = (screenWidth: number) => StyleSheet.create({
     width: screenWidth,
     flex: 1,
   },
+  toolbar: {
+    flexDirection: 'row',
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  toolbarButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 10,
+  },
+  toolbarButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
   sectionNav: {
     flexDirection: 'row',
     backgroundColor: 'white',
@@ -1025,4 +948,45 @@ const styles = (screenWidth: number) => StyleSheet.create({
     fontWeight: '600',
     color: '#2196F3',
   },
+  stockHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  stockHeaderText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    textAlign: 'right',
+    textTransform: 'uppercase',
+  },
+  stockNameColumn: {
+    flex: 2,
+    textAlign: 'left',
+  },
+  stockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e030',
+  },
+  stockValue: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+    textAlign: 'right',
+  },
+  stockValueLow: {
+    color: '#ff9500',
+    fontWeight: '600',
+  },
+  stockValueSoldOut: {
+    color: '#f44336',
+    fontWeight: 'bold',
+  },
 });
\ No newline at end of file
@@ -20,6 +20,11 @@ function RootLayoutNav() {
       <Stack.Screen name="register" options={{ headerShown: false }} />
       <Stack.Screen name="forgot-password" options={{ headerShown: false }} />
       <Stack.Screen name="event-manager" options={{ headerShown: false }} />
+      <Stack.Screen name="cash-drawer" options={{ headerShown: false }} />
+      <Stack.Screen name="snapshots" options={{ headerShown: false }} />
+      <Stack.Screen name="audit-log" options={{ headerShown: false }} />
+      <Stack.Screen name="event-permissions" options={{ headerShown: false }} />
+      <Stack.Screen name="backup" options={{ headerShown: false }} />
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
     </Stack>
   );
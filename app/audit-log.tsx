@@ -0,0 +1,342 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, Calendar, KeyRound, Package, Receipt, Settings } from 'lucide-react-native';
+import { useSales } from '@/hooks/sales-store';
+import { databaseService } from '@/hooks/database';
+import { formatAuditValue } from '@/lib/audit';
+import { AuditAction, AuditEntityType, AuditLogEntry, AuditLogFilter } from '@/types/sales';
+import Colors from '@/constants/colors';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  product: 'Products',
+  transaction: 'Transactions',
+  settings: 'Settings',
+  event: 'Event',
+  user: 'Approvals',
+};
+
+const ENTITY_ICONS: Record<AuditEntityType, typeof Package> = {
+  product: Package,
+  transaction: Receipt,
+  settings: Settings,
+  event: Calendar,
+  user: KeyRound,
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  update: 'updated',
+  delete: 'deleted',
+  unlock: 'unlocked',
+  finalize: 'finalized',
+  pin_failed: 'entered a wrong',
+};
+
+type Period = 'all' | 'hour' | 'today';
+
+const PERIOD_LABELS: Record<Period, string> = {
+  all: 'All time',
+  hour: 'Last hour',
+  today: 'Today',
+};
+
+const periodStart = (period: Period): Date | undefined => {
+  if (period === 'hour') return new Date(Date.now() - 60 * 60 * 1000);
+  if (period === 'today') {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    return start;
+  }
+  return undefined;
+};
+
+export default function AuditLogScreen() {
+  const { currentEventId, products, can } = useSales();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [users, setUsers] = useState<{ userId: string; userName: string }[]>([]);
+  const [entityType, setEntityType] = useState<AuditEntityType | undefined>(undefined);
+  const [userId, setUserId] = useState<string | undefined>(undefined);
+  const [period, setPeriod] = useState<Period>('all');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const canView = can('audit.view');
+
+  // Everyone who appears in this event's log, for the user filter
+  useEffect(() => {
+    if (!currentEventId || !canView) return;
+    databaseService.listAuditEntries(currentEventId)
+      .then(allEntries => {
+        const byId = new Map<string, string>();
+        allEntries.forEach(entry => {
+          if (entry.userId && !byId.has(entry.userId)) byId.set(entry.userId, entry.userName);
+        });
+        setUsers([...byId.entries()].map(([id, name]) => ({ userId: id, userName: name })));
+      })
+      .catch(error => console.error('❌ Failed to load audit users:', error));
+  }, [currentEventId, canView]);
+
+  const loadEntries = useCallback(async () => {
+    if (!currentEventId || !canView) {
+      setEntries([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const filter: AuditLogFilter = { entityType, userId, since: periodStart(period) };
+      setEntries(await databaseService.listAuditEntries(currentEventId, filter));
+    } catch (error) {
+      console.error('❌ Failed to load audit log:', error);
+      Alert.alert('Error', 'Failed to load the audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentEventId, canView, entityType, userId, period]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const productNames = useMemo(() => new Map(products.map(p => [p.id, p.name])), [products]);
+
+  const describeEntity = (entry: AuditLogEntry) => {
+    switch (entry.entityType) {
+      case 'product':
+        return `product ${productNames.get(entry.entityId) ?? entry.entityId}`;
+      case 'transaction':
+        return `transaction #${entry.entityId}`;
+      case 'settings':
+        return 'event settings';
+      case 'user':
+        return 'approval PIN';
+      default:
+        return 'the event';
+    }
+  };
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void, key: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, isActive && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEntry = ({ item }: { item: AuditLogEntry }) => {
+    const Icon = ENTITY_ICONS[item.entityType] ?? Calendar;
+    return (
+      <View style={styles.entryCard}>
+        <View style={styles.entryHeader}>
+          <Icon size={20} color={Colors.primary} />
+          <View style={styles.entryInfo}>
+            <Text style={styles.entryTitle}>
+              {item.userName} {ACTION_LABELS[item.action] ?? item.action} {describeEntity(item)}
+            </Text>
+            <Text style={styles.entryMeta}>{item.timestamp.toLocaleString()}</Text>
+          </View>
+        </View>
+        {item.changes.map(change => (
+          <View key={change.field} style={styles.changeRow}>
+            <Text style={styles.changeField}>{change.field}</Text>
+            <Text style={styles.changeValue}>
+              {item.action === 'delete'
+                ? formatAuditValue(change.before)
+                : `${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderBody = () => {
+    if (!canView) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>You do not have permission to view the audit log</Text>
+        </View>
+      );
+    }
+    if (!currentEventId) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Open an event to see its audit log</Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.filters}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {renderChip('All', !entityType, () => setEntityType(undefined), 'entity_all')}
+            {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map(type =>
+              renderChip(ENTITY_LABELS[type], entityType === type, () => setEntityType(type), `entity_${type}`)
+            )}
+          </ScrollView>
+          {users.length > 0 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              {renderChip('Everyone', !userId, () => setUserId(undefined), 'user_all')}
+              {users.map(user =>
+                renderChip(user.userName, userId === user.userId, () => setUserId(user.userId), `user_${user.userId}`)
+              )}
+            </ScrollView>
+          )}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {(Object.keys(PERIOD_LABELS) as Period[]).map(p =>
+              renderChip(PERIOD_LABELS[p], period === p, () => setPeriod(p), `period_${p}`)
+            )}
+          </ScrollView>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.emptyContainer}>
+            <ActivityIndicator size="large" color={Colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={entries}
+            keyExtractor={item => item.id}
+            renderItem={renderEntry}
+            contentContainerStyle={styles.listContent}
+            ListEmptyComponent={<Text style={styles.emptyText}>No changes recorded</Text>}
+          />
+        )}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color={Colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Audit Log</Text>
+      </View>
+
+      {renderBody()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold' as const,
+    color: '#1a1a1a',
+  },
+  filters: {
+    backgroundColor: '#fff',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  chipRow: {
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600' as const,
+  },
+  listContent: {
+    padding: 16,
+  },
+  entryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#1a1a1a',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    marginTop: 8,
+    gap: 8,
+  },
+  changeField: {
+    width: 110,
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: '#666',
+  },
+  changeValue: {
+    flex: 1,
+    fontSize: 13,
+    color: '#1a1a1a',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,671 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  TextInput,
+  ScrollView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { ArrowLeft, User, Lock, Download, Upload, FileText, Link, Unlink, Smartphone } from 'lucide-react-native';
+import { useAuth } from '@/hooks/auth-store';
+import { databaseService } from '@/hooks/database';
+import {
+  DeviceBackupFile,
+  MIN_BACKUP_PASSWORD_LENGTH,
+  createDeviceBackup,
+  readDeviceBackupFile,
+  restoreDeviceBackup,
+} from '@/hooks/device-backup';
+import { loadSyncAuth, pairSyncDevice, unpairSyncDevice } from '@/hooks/event-sync';
+import { BackupRestoreMode } from '@/types/sales';
+import { hasCapability } from '@/lib/permissions';
+import Colors from '@/constants/colors';
+
+// Reads a picked file as text: a hidden file input on web, the document picker on device
+async function pickBackupFile(): Promise<{ name: string; content: string } | null> {
+  if (Platform.OS === 'web') {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.json';
+      input.onchange = (e: any) => {
+        const file = e.target.files[0];
+        if (!file) {
+          resolve(null);
+          return;
+        }
+        const reader = new FileReader();
+        reader.onload = (event: any) => resolve({ name: file.name, content: event.target.result });
+        reader.onerror = () => reject(new Error('Could not read file'));
+        reader.readAsText(file);
+      };
+      input.click();
+    });
+  }
+
+  const result = await DocumentPicker.getDocumentAsync({
+    type: 'application/json',
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  return { name: asset.name, content: new File(asset.uri).textSync() };
+}
+
+export default function BackupScreen() {
+  const { login, logout, currentUser } = useAuth();
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [authUsername, setAuthUsername] = useState('');
+  const [authPassword, setAuthPassword] = useState('');
+  const [isAuthenticating, setIsAuthenticating] = useState(false);
+
+  const [backupPassword, setBackupPassword] = useState('');
+  const [backupConfirmPassword, setBackupConfirmPassword] = useState('');
+  const [isBackingUp, setIsBackingUp] = useState(false);
+
+  const [restoreFileName, setRestoreFileName] = useState('');
+  const [restoreFile, setRestoreFile] = useState<DeviceBackupFile | null>(null);
+  const [restorePassword, setRestorePassword] = useState('');
+  const [restoreMode, setRestoreMode] = useState<BackupRestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const [isPaired, setIsPaired] = useState(false);
+  const [pairingCode, setPairingCode] = useState('');
+  const [deviceName, setDeviceName] = useState('');
+  const [isPairing, setIsPairing] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    loadSyncAuth()
+      .then(setIsPaired)
+      .catch(error => console.error('❌ Failed to load sync pairing:', error));
+  }, [isAuthenticated]);
+
+  const handleBack = () => {
+    router.back();
+  };
+
+  const handleAuthenticate = async () => {
+    if (!authUsername.trim() || !authPassword.trim()) {
+      Alert.alert('Error', 'Please enter both username and password');
+      return;
+    }
+
+    setIsAuthenticating(true);
+
+    const user = await databaseService.getUserByUsername(authUsername.trim());
+
+    if (!user) {
+      setIsAuthenticating(false);
+      Alert.alert('Authentication Failed', 'User not found');
+      return;
+    }
+
+    if (!hasCapability(user, 'backup.manage')) {
+      setIsAuthenticating(false);
+      Alert.alert('Access Denied', 'Only admin users can access this page');
+      return;
+    }
+
+    const success = await login(authUsername.trim(), authPassword);
+    setIsAuthenticating(false);
+
+    if (success) {
+      setIsAuthenticated(true);
+    } else {
+      Alert.alert('Authentication Failed', 'Invalid username or password');
+    }
+  };
+
+  const handleCreateBackup = async () => {
+    if (backupPassword.length < MIN_BACKUP_PASSWORD_LENGTH) {
+      Alert.alert('Error', `The backup password must be at least ${MIN_BACKUP_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (backupPassword !== backupConfirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    setIsBackingUp(true);
+    const result = await createDeviceBackup(backupPassword, currentUser);
+    setIsBackingUp(false);
+
+    if (result.success) {
+      setBackupPassword('');
+      setBackupConfirmPassword('');
+      Alert.alert('Backup Created', 'Keep the file and its password somewhere safe. Without the password the backup cannot be restored.');
+    } else {
+      Alert.alert('Error', `Failed to create backup: ${result.error}`);
+    }
+  };
+
+  const handlePickBackup = async () => {
+    try {
+      const picked = await pickBackupFile();
+      if (!picked) return;
+      setRestoreFile(readDeviceBackupFile(picked.content));
+      setRestoreFileName(picked.name);
+      setRestorePassword('');
+    } catch (error: any) {
+      setRestoreFile(null);
+      setRestoreFileName('');
+      Alert.alert('Error', error.message || String(error));
+    }
+  };
+
+  const runRestore = async () => {
+    if (!restoreFile) return;
+
+    setIsRestoring(true);
+    const result = await restoreDeviceBackup(restoreFile, restorePassword, restoreMode, currentUser);
+    setIsRestoring(false);
+
+    if (!result.success) {
+      Alert.alert('Restore Failed', result.error || 'Unknown error');
+      return;
+    }
+
+    const summary = Object.entries(result.written || {})
+      .map(([table, count]) => `${table}: ${count}`)
+      .join('\n');
+
+    // Users and events may have changed underneath the session, so start again from login
+    await logout();
+    Alert.alert('Restore Complete', `Rows restored:\n${summary}\n\nPlease sign in again.`, [
+      { text: 'OK', onPress: () => router.replace('/login') },
+    ]);
+  };
+
+  const handleRestore = () => {
+    if (!restoreFile || !restorePassword) {
+      Alert.alert('Error', 'Choose a backup file and enter its password');
+      return;
+    }
+
+    if (restoreMode === 'replace') {
+      Alert.alert(
+        'Replace All Data',
+        'Every user, event and sale on this device will be replaced by the backup. This cannot be undone.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Replace', style: 'destructive', onPress: runRestore },
+        ]
+      );
+    } else {
+      runRestore();
+    }
+  };
+
+  const handlePair = async () => {
+    if (!pairingCode.trim() || !deviceName.trim()) {
+      Alert.alert('Error', 'Enter the server pairing code and a name for this device');
+      return;
+    }
+
+    setIsPairing(true);
+    try {
+      await pairSyncDevice(pairingCode.trim(), deviceName.trim());
+      setIsPaired(true);
+      setPairingCode('');
+      Alert.alert('Device Paired', 'Open events on this device now sync with the other paired devices.');
+    } catch (error: any) {
+      Alert.alert('Pairing Failed', error.message || String(error));
+    } finally {
+      setIsPairing(false);
+    }
+  };
+
+  const handleUnpair = () => {
+    Alert.alert(
+      'Unpair Device',
+      'This device will stop syncing events. Sales already on it are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unpair',
+          style: 'destructive',
+          onPress: async () => {
+            await unpairSyncDevice();
+            setIsPaired(false);
+          },
+        },
+      ]
+    );
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+            <ArrowLeft size={24} color={Colors.primary} />
+          </TouchableOpacity>
+          <Text style={styles.title}>Backup & Restore</Text>
+        </View>
+
+        <View style={styles.authContainer}>
+          <View style={styles.card}>
+            <Text style={styles.authTitle}>Admin Access Required</Text>
+            <Text style={styles.authSubtitle}>Please authenticate with an admin account</Text>
+
+            <View style={styles.inputContainer}>
+              <View style={styles.inputIcon}>
+                <User size={20} color="#666" />
+              </View>
+              <TextInput
+                style={styles.input}
+                placeholder="Username"
+                placeholderTextColor="#999"
+                value={authUsername}
+                onChangeText={setAuthUsername}
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!isAuthenticating}
+              />
+            </View>
+
+            <View style={styles.inputContainer}>
+              <View style={styles.inputIcon}>
+                <Lock size={20} color="#666" />
+              </View>
+              <TextInput
+                style={styles.input}
+                placeholder="Password"
+                placeholderTextColor="#999"
+                value={authPassword}
+                onChangeText={setAuthPassword}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!isAuthenticating}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, isAuthenticating && styles.buttonDisabled]}
+              onPress={handleAuthenticate}
+              disabled={isAuthenticating}
+            >
+              <Text style={styles.primaryButtonText}>
+                {isAuthenticating ? 'Authenticating...' : 'Authenticate'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+          <ArrowLeft size={24} color={Colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Backup & Restore</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Create Backup</Text>
+          <Text style={styles.cardText}>
+            Saves all users, events, products, sales, cash drawer sessions and preferences on this device into one encrypted file.
+          </Text>
+
+          <View style={styles.inputContainer}>
+            <View style={styles.inputIcon}>
+              <Lock size={20} color="#666" />
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder="Backup password"
+              placeholderTextColor="#999"
+              value={backupPassword}
+              onChangeText={setBackupPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isBackingUp}
+            />
+          </View>
+          <View style={styles.inputContainer}>
+            <View style={styles.inputIcon}>
+              <Lock size={20} color="#666" />
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder="Confirm backup password"
+              placeholderTextColor="#999"
+              value={backupConfirmPassword}
+              onChangeText={setBackupConfirmPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isBackingUp}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, isBackingUp && styles.buttonDisabled]}
+            onPress={handleCreateBackup}
+            disabled={isBackingUp}
+          >
+            {isBackingUp ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <View style={styles.buttonContent}>
+                <Download size={20} color="#fff" />
+                <Text style={styles.primaryButtonText}>Create Backup</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Restore Backup</Text>
+
+          <TouchableOpacity style={styles.fileButton} onPress={handlePickBackup} disabled={isRestoring}>
+            <FileText size={20} color={Colors.primary} />
+            <Text style={styles.fileButtonText} numberOfLines={1}>
+              {restoreFileName || 'Choose backup file'}
+            </Text>
+          </TouchableOpacity>
+
+          {restoreFile && (
+            <>
+              <Text style={styles.cardText}>
+                Created {new Date(restoreFile.createdAt).toLocaleString()} on the {restoreFile.platform} app
+              </Text>
+
+              <View style={styles.inputContainer}>
+                <View style={styles.inputIcon}>
+                  <Lock size={20} color="#666" />
+                </View>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Backup password"
+                  placeholderTextColor="#999"
+                  value={restorePassword}
+                  onChangeText={setRestorePassword}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  editable={!isRestoring}
+                />
+              </View>
+
+              <View style={styles.modeButtons}>
+                <TouchableOpacity
+                  style={[styles.modeButton, restoreMode === 'merge' && styles.modeButtonActive]}
+                  onPress={() => setRestoreMode('merge')}
+                >
+                  <Text style={[styles.modeButtonTitle, restoreMode === 'merge' && styles.modeButtonTextActive]}>Merge</Text>
+                  <Text style={[styles.modeButtonText, restoreMode === 'merge' && styles.modeButtonTextActive]}>
+                    Add what is missing, keep local data
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modeButton, restoreMode === 'replace' && styles.modeButtonActive]}
+                  onPress={() => setRestoreMode('replace')}
+                >
+                  <Text style={[styles.modeButtonTitle, restoreMode === 'replace' && styles.modeButtonTextActive]}>Replace</Text>
+                  <Text style={[styles.modeButtonText, restoreMode === 'replace' && styles.modeButtonTextActive]}>
+                    Wipe this device and load the backup
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, restoreMode === 'replace' && styles.dangerButton, isRestoring && styles.buttonDisabled]}
+                onPress={handleRestore}
+                disabled={isRestoring}
+              >
+                {isRestoring ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <View style={styles.buttonContent}>
+                    <Upload size={20} color="#fff" />
+                    <Text style={styles.primaryButtonText}>Restore</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Sync Server</Text>
+          {isPaired ? (
+            <>
+              <Text style={styles.cardText}>
+                This device is paired. Open events share their products, promos, settings and sales with the other paired devices.
+              </Text>
+              <TouchableOpacity style={[styles.primaryButton, styles.dangerButton]} onPress={handleUnpair}>
+                <View style={styles.buttonContent}>
+                  <Unlink size={20} color="#fff" />
+                  <Text style={styles.primaryButtonText}>Unpair Device</Text>
+                </View>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <Text style={styles.cardText}>
+                Enter the pairing code set on the sync server so this device can share events with the other devices at the fair.
+              </Text>
+
+              <View style={styles.inputContainer}>
+                <View style={styles.inputIcon}>
+                  <Smartphone size={20} color="#666" />
+                </View>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Device name (e.g. Till 2)"
+                  placeholderTextColor="#999"
+                  value={deviceName}
+                  onChangeText={setDeviceName}
+                  editable={!isPairing}
+                />
+              </View>
+              <View style={styles.inputContainer}>
+                <View style={styles.inputIcon}>
+                  <Lock size={20} color="#666" />
+                </View>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Pairing code"
+                  placeholderTextColor="#999"
+                  value={pairingCode}
+                  onChangeText={setPairingCode}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  editable={!isPairing}
+                />
+              </View>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, isPairing && styles.buttonDisabled]}
+                onPress={handlePair}
+                disabled={isPairing}
+              >
+                {isPairing ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <View style={styles.buttonContent}>
+                    <Link size={20} color="#fff" />
+                    <Text style={styles.primaryButtonText}>Pair Device</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold' as const,
+    color: '#1a1a1a',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  authContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  authTitle: {
+    fontSize: 24,
+    fontWeight: 'bold' as const,
+    color: '#1a1a1a',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  authSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 24,
+    textAlign: 'center',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  inputIcon: {
+    paddingLeft: 16,
+  },
+  input: {
+    flex: 1,
+    padding: 16,
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: Colors.primary,
+    marginBottom: 16,
+  },
+  fileButtonText: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.primary,
+  },
+  modeButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  modeButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: '#f5f5f5',
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+  },
+  modeButtonActive: {
+    backgroundColor: Colors.primary,
+    borderColor: 'transparent',
+  },
+  modeButtonTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#333',
+  },
+  modeButtonText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  modeButtonTextActive: {
+    color: '#fff',
+  },
+  primaryButton: {
+    backgroundColor: Colors.primary,
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  dangerButton: {
+    backgroundColor: '#D32F2F',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#fff',
+  },
+});
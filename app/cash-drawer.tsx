@@ -0,0 +1,539 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, ArrowDownCircle, ArrowUpCircle, Wallet } from 'lucide-react-native';
+import { useAuth } from '@/hooks/auth-store';
+import { useSales } from '@/hooks/sales-store';
+import { CashSession, CashVarianceLine, Currency, CurrencyAmounts } from '@/types/sales';
+import { CURRENCIES } from '@/constants/products';
+import { DRAWER_CURRENCIES, calculateCashVariance } from '@/lib/cash-drawer';
+import Colors from '@/constants/colors';
+
+type AmountDrafts = Record<Currency, string>;
+
+const emptyDrafts = (): AmountDrafts => ({ USD: '', EUR: '', GBP: '' });
+
+const parseAmount = (value: string): number => {
+  const amount = parseFloat(value.replace(',', '.'));
+  return isNaN(amount) ? 0 : amount;
+};
+
+const toAmounts = (drafts: AmountDrafts): CurrencyAmounts => ({
+  USD: parseAmount(drafts.USD),
+  EUR: parseAmount(drafts.EUR),
+  GBP: parseAmount(drafts.GBP),
+});
+
+const formatAmount = (amount: number, currency: Currency) => {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}${CURRENCIES[currency].symbol}${Math.abs(amount).toFixed(2)}`;
+};
+
+export default function CashDrawerScreen() {
+  const { currentUser } = useAuth();
+  const {
+    transactions,
+    cashSessions,
+    getActiveCashSession,
+    openCashSession,
+    addCashMovement,
+    closeCashSession,
+  } = useSales();
+
+  const [floatDrafts, setFloatDrafts] = useState<AmountDrafts>(emptyDrafts);
+  const [countDrafts, setCountDrafts] = useState<AmountDrafts>(emptyDrafts);
+  const [movementType, setMovementType] = useState<'in' | 'out'>('in');
+  const [movementCurrency, setMovementCurrency] = useState<Currency>('USD');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeSession = currentUser ? getActiveCashSession(currentUser.id) : undefined;
+  const closedSessions = cashSessions.filter(session => session.closedAt);
+
+  // Running expectation for the open drawer (counted is left at zero until closing)
+  const liveReport = useMemo(() => {
+    if (!activeSession) return [];
+    return calculateCashVariance(activeSession, transactions, toAmounts(emptyDrafts()));
+  }, [activeSession, transactions]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpenSession = () => {
+    if (!currentUser) return;
+    runAction(async () => {
+      await openCashSession(currentUser.id, currentUser.fullName || currentUser.username, toAmounts(floatDrafts));
+      setFloatDrafts(emptyDrafts());
+    });
+  };
+
+  const handleAddMovement = () => {
+    if (!activeSession) return;
+    if (!movementReason.trim()) {
+      Alert.alert('Error', 'Please enter a reason for this cash movement');
+      return;
+    }
+    runAction(async () => {
+      await addCashMovement(activeSession.id, {
+        type: movementType,
+        currency: movementCurrency,
+        amount: parseAmount(movementAmount),
+        reason: movementReason.trim(),
+      });
+      setMovementAmount('');
+      setMovementReason('');
+    });
+  };
+
+  const handleCloseSession = () => {
+    if (!activeSession) return;
+    Alert.alert(
+      'Close Cash Drawer',
+      'Close this session with the counted amounts entered? This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Close Drawer',
+          style: 'destructive',
+          onPress: () => runAction(async () => {
+            await closeCashSession(activeSession.id, toAmounts(countDrafts));
+            setCountDrafts(emptyDrafts());
+          }),
+        },
+      ]
+    );
+  };
+
+  const renderAmountInputs = (drafts: AmountDrafts, onChange: (drafts: AmountDrafts) => void) => (
+    <View style={styles.amountInputs}>
+      {DRAWER_CURRENCIES.map(currency => (
+        <View key={currency} style={styles.amountInputRow}>
+          <Text style={styles.amountInputLabel}>{CURRENCIES[currency].symbol} {currency}</Text>
+          <TextInput
+            style={styles.amountInput}
+            placeholder="0.00"
+            placeholderTextColor="#999"
+            keyboardType="decimal-pad"
+            value={drafts[currency]}
+            onChangeText={(text) => onChange({ ...drafts, [currency]: text })}
+            editable={!isSaving}
+          />
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderReport = (report: CashVarianceLine[], showCounted: boolean) => (
+    <View style={styles.report}>
+      <View style={styles.reportRow}>
+        <Text style={[styles.reportCell, styles.reportHeaderCell, styles.reportCurrencyCell]} />
+        <Text style={[styles.reportCell, styles.reportHeaderCell]}>Float</Text>
+        <Text style={[styles.reportCell, styles.reportHeaderCell]}>Sales</Text>
+        <Text style={[styles.reportCell, styles.reportHeaderCell]}>In/Out</Text>
+        <Text style={[styles.reportCell, styles.reportHeaderCell]}>Expected</Text>
+        {showCounted && (
+          <>
+            <Text style={[styles.reportCell, styles.reportHeaderCell]}>Counted</Text>
+            <Text style={[styles.reportCell, styles.reportHeaderCell]}>Variance</Text>
+          </>
+        )}
+      </View>
+      {report.map(line => (
+        <View key={line.currency} style={styles.reportRow}>
+          <Text style={[styles.reportCell, styles.reportCurrencyCell]}>{line.currency}</Text>
+          <Text style={styles.reportCell}>{line.openingFloat.toFixed(2)}</Text>
+          <Text style={styles.reportCell}>{line.cashSales.toFixed(2)}</Text>
+          <Text style={styles.reportCell}>{(line.cashIn - line.cashOut).toFixed(2)}</Text>
+          <Text style={styles.reportCell}>{line.expected.toFixed(2)}</Text>
+          {showCounted && (
+            <>
+              <Text style={styles.reportCell}>{line.counted.toFixed(2)}</Text>
+              <Text style={[
+                styles.reportCell,
+                Math.abs(line.variance) < 0.005
+                  ? styles.varianceBalanced
+                  : line.variance < 0 ? styles.varianceShort : styles.varianceOver
+              ]}>
+                {formatAmount(line.variance, line.currency)}
+              </Text>
+            </>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderClosedSession = (session: CashSession) => (
+    <View key={session.id} style={styles.card}>
+      <Text style={styles.sessionTitle}>{session.userName}</Text>
+      <Text style={styles.sessionMeta}>
+        {new Date(session.openedAt).toLocaleString()} – {session.closedAt ? new Date(session.closedAt).toLocaleString() : ''}
+      </Text>
+      {session.varianceReport && renderReport(session.varianceReport, true)}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color={Colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Cash Drawer</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {!currentUser ? (
+          <View style={styles.card}>
+            <Text style={styles.emptyText}>Log in to manage a cash drawer</Text>
+          </View>
+        ) : !activeSession ? (
+          <View style={styles.card}>
+            <View style={styles.cardTitleRow}>
+              <Wallet size={20} color={Colors.primary} />
+              <Text style={styles.cardTitle}>Open Drawer</Text>
+            </View>
+            <Text style={styles.cardSubtitle}>Count the opening float for each currency</Text>
+            {renderAmountInputs(floatDrafts, setFloatDrafts)}
+            <TouchableOpacity
+              style={[styles.primaryButton, isSaving && styles.buttonDisabled]}
+              onPress={handleOpenSession}
+              disabled={isSaving}
+            >
+              <Text style={styles.primaryButtonText}>Open Drawer</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            <View style={styles.card}>
+              <View style={styles.cardTitleRow}>
+                <Wallet size={20} color={Colors.primary} />
+                <Text style={styles.cardTitle}>Open Session</Text>
+              </View>
+              <Text style={styles.sessionMeta}>
+                {activeSession.userName} · opened {new Date(activeSession.openedAt).toLocaleString()}
+              </Text>
+              {renderReport(liveReport, false)}
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Cash In / Out</Text>
+              <View style={styles.toggleRow}>
+                {(['in', 'out'] as const).map(type => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.toggleButton, movementType === type && styles.toggleButtonActive]}
+                    onPress={() => setMovementType(type)}
+                  >
+                    <Text style={[styles.toggleText, movementType === type && styles.toggleTextActive]}>
+                      {type === 'in' ? 'Cash In' : 'Cash Out'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.toggleRow}>
+                {DRAWER_CURRENCIES.map(currency => (
+                  <TouchableOpacity
+                    key={currency}
+                    style={[styles.toggleButton, movementCurrency === currency && styles.toggleButtonActive]}
+                    onPress={() => setMovementCurrency(currency)}
+                  >
+                    <Text style={[styles.toggleText, movementCurrency === currency && styles.toggleTextActive]}>
+                      {currency}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TextInput
+                style={styles.textInput}
+                placeholder="Amount"
+                placeholderTextColor="#999"
+                keyboardType="decimal-pad"
+                value={movementAmount}
+                onChangeText={setMovementAmount}
+                editable={!isSaving}
+              />
+              <TextInput
+                style={styles.textInput}
+                placeholder="Reason (e.g. change from bank, petty cash)"
+                placeholderTextColor="#999"
+                value={movementReason}
+                onChangeText={setMovementReason}
+                editable={!isSaving}
+              />
+              <TouchableOpacity
+                style={[styles.primaryButton, isSaving && styles.buttonDisabled]}
+                onPress={handleAddMovement}
+                disabled={isSaving}
+              >
+                <Text style={styles.primaryButtonText}>Record Movement</Text>
+              </TouchableOpacity>
+
+              {activeSession.movements.map(movement => (
+                <View key={movement.id} style={styles.movementRow}>
+                  {movement.type === 'in' ? (
+                    <ArrowDownCircle size={18} color="#4CAF50" />
+                  ) : (
+                    <ArrowUpCircle size={18} color="#ff4444" />
+                  )}
+                  <View style={styles.movementInfo}>
+                    <Text style={styles.movementReason}>{movement.reason}</Text>
+                    <Text style={styles.sessionMeta}>{new Date(movement.timestamp).toLocaleTimeString()}</Text>
+                  </View>
+                  <Text style={styles.movementAmount}>
+                    {formatAmount(movement.type === 'in' ? movement.amount : -movement.amount, movement.currency)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Close Drawer</Text>
+              <Text style={styles.cardSubtitle}>Enter the cash counted in the drawer for each currency</Text>
+              {renderAmountInputs(countDrafts, setCountDrafts)}
+              <TouchableOpacity
+                style={[styles.primaryButton, styles.closeButton, isSaving && styles.buttonDisabled]}
+                onPress={handleCloseSession}
+                disabled={isSaving}
+              >
+                <Text style={styles.primaryButtonText}>Close Drawer</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+
+        {closedSessions.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Closed Sessions</Text>
+            {closedSessions.map(renderClosedSession)}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold' as const,
+    color: '#1a1a1a',
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  cardTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  cardSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#666',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sessionTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#1a1a1a',
+  },
+  sessionMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  amountInputs: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  amountInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  amountInputLabel: {
+    width: 64,
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: '#1a1a1a',
+  },
+  amountInput: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+  textInput: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginVertical: 8,
+  },
+  toggleButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    alignItems: 'center',
+  },
+  toggleButtonActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  toggleText: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: '#666',
+  },
+  toggleTextActive: {
+    color: '#fff',
+  },
+  primaryButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  closeButton: {
+    backgroundColor: '#ff4444',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  movementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    marginTop: 8,
+  },
+  movementInfo: {
+    flex: 1,
+  },
+  movementReason: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  movementAmount: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: '#1a1a1a',
+  },
+  report: {
+    marginTop: 12,
+  },
+  reportRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  reportCell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#1a1a1a',
+    textAlign: 'right',
+  },
+  reportHeaderCell: {
+    fontWeight: '600' as const,
+    color: '#666',
+  },
+  reportCurrencyCell: {
+    flex: 0.7,
+    textAlign: 'left',
+    fontWeight: '600' as const,
+  },
+  varianceBalanced: {
+    color: '#4CAF50',
+    fontWeight: '600' as const,
+  },
+  varianceShort: {
+    color: '#ff4444',
+    fontWeight: '600' as const,
+  },
+  varianceOver: {
+    color: '#FF9800',
+    fontWeight: '600' as const,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
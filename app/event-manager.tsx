@@ -21,11 +21,12 @@ import { useAuth } from '@/hooks/auth-store';
 import { useSales } from '@/hooks/sales-store';
 import { databaseService } from '@/hooks/database';
 import { Event } from '@/types/auth';
+import { parseEventBundle, ParsedEventBundle } from '@/lib/event-bundle';
 import Colors from '@/constants/colors';
 
 export default function EventManagerScreen() {
   const { currentUser, logout, selectEvent } = useAuth();
-  const { loadEventData, clearEventData } = useSales();
+  const { loadEventData, clearEventData, unlockEvent } = useSales();
 
   const [events, setEvents] = useState<Event[]>([]);
   const [showEventList, setShowEventList] = useState(false);
@@ -36,7 +37,7 @@ export default function EventManagerScreen() {
   const [showImportModal, setShowImportModal] = useState(false);
   const [importFileName, setImportFileName] = useState('');
   const [importEventName, setImportEventName] = useState('');
-  const [importData, setImportData] = useState<any>(null);
+  const [importData, setImportData] = useState<ParsedEventBundle | null>(null);
 
   const loadUserEvents = useCallback(async () => {
     if (!currentUser) return;
@@ -87,7 +88,7 @@ export default function EventManagerScreen() {
       
       // Delete all unnamed events
       console.log('\n🧹 === CLEANING UP UNNAMED EVENTS ===');
-      const cleanupResult = await databaseService.deleteAllUnnamedEvents();
+      const cleanupResult = await databaseService.deleteAllUnnamedEvents(currentUser);
       console.log(`🧹 Cleanup result: ${cleanupResult.message}`);
       console.log('🧹 === CLEANUP COMPLETE ===\n');
       
@@ -330,6 +331,23 @@ export default function EventManagerScreen() {
 
 
 
+  const openImportPreview = async (fileName: string, content: string) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch {
+      Alert.alert('Error', 'Invalid file format');
+      return;
+    }
+
+    const parsed = await parseEventBundle(raw);
+    console.log('📥 Event bundle report:', parsed.report);
+    setImportFileName(fileName);
+    setImportEventName(parsed.bundle?.settings.eventName || 'Imported Event');
+    setImportData(parsed);
+    setShowImportModal(true);
+  };
+
   const handleImportEvent = async () => {
     try {
       console.log('📥 Starting document picker...');
@@ -344,15 +362,7 @@ export default function EventManagerScreen() {
           
           const reader = new FileReader();
           reader.onload = (event: any) => {
-            try {
-              const data = JSON.parse(event.target.result);
-              setImportFileName(file.name);
-              setImportEventName(data.settings?.eventName || 'Imported Event');
-              setImportData(data);
-              setShowImportModal(true);
-            } catch {
-              Alert.alert('Error', 'Invalid file format');
-            }
+            openImportPreview(file.name, event.target.result);
           };
           reader.readAsText(file);
         };
@@ -372,13 +382,7 @@ export default function EventManagerScreen() {
         
         const asset = result.assets[0];
         const file = new File(asset.uri);
-        const content = file.textSync();
-        const data = JSON.parse(content);
-        
-        setImportFileName(asset.name);
-        setImportEventName(data.settings?.eventName || 'Imported Event');
-        setImportData(data);
-        setShowImportModal(true);
+        await openImportPreview(asset.name, file.textSync());
       }
     } catch (error) {
       console.error('❌ Import error:', error);
@@ -392,8 +396,9 @@ export default function EventManagerScreen() {
       return;
     }
     
-    if (!importData) {
-      Alert.alert('Error', 'No data to import');
+    const bundle = importData?.bundle;
+    if (!bundle) {
+      Alert.alert('Error', 'No valid data to import');
       return;
     }
 
@@ -406,9 +411,8 @@ export default function EventManagerScreen() {
       }
 
       const importedSettings = {
-        ...importData.settings,
+        ...bundle.settings,
         eventName: importEventName.trim(),
-        promos: importData.promos || []
       };
       
       const newEvent = await databaseService.createEvent(
@@ -418,17 +422,12 @@ export default function EventManagerScreen() {
         importedSettings
       );
       
-      const importedTransactions = (importData.transactions || []).map((t: any) => ({
-        ...t,
-        timestamp: new Date(t.timestamp)
-      }));
-      
       await databaseService.saveEventData(
         newEvent.id,
-        importData.products || [],
-        importedTransactions,
-        importData.productTypes || [],
-        importData.promos || [],
+        bundle.products,
+        bundle.transactions,
+        bundle.productTypes,
+        bundle.promos,
         importedSettings
       );
       
@@ -440,7 +439,7 @@ export default function EventManagerScreen() {
       
       Alert.alert(
         'Success',
-        `Event "${importEventName}" imported successfully with ${importData.products?.length || 0} products and ${importData.transactions?.length || 0} transactions.`,
+        `Event "${importEventName}" imported successfully with ${bundle.products.length} products and ${bundle.transactions.length} transactions.`,
         [
           {
             text: 'OK',
@@ -572,7 +571,7 @@ export default function EventManagerScreen() {
                 return;
               }
 
-              await databaseService.unlockEvent(event.id);
+              await unlockEvent(event.id);
               Alert.alert('Success', 'Event unlocked successfully');
               await loadUserEvents();
             } catch (error: any) {
@@ -610,13 +609,13 @@ export default function EventManagerScreen() {
                 }
                 
                 console.log('🗑️ Deleting protected event:', event.id);
-                await databaseService.deleteEvent(event.id);
+                await databaseService.deleteEvent(event.id, currentUser);
                 console.log('✅ Event deleted successfully');
                 Alert.alert('Success', 'Event deleted successfully');
                 await loadUserEvents();
-              } catch (error) {
+              } catch (error: any) {
                 console.error('❌ Error deleting event:', error);
-                Alert.alert('Error', 'Failed to delete event');
+                Alert.alert('Error', error?.message || 'Failed to delete event');
               }
             }
           }
@@ -635,13 +634,13 @@ export default function EventManagerScreen() {
             onPress: async () => {
               try {
                 console.log('🗑️ Deleting event:', event.id);
-                await databaseService.deleteEvent(event.id);
+                await databaseService.deleteEvent(event.id, currentUser);
                 console.log('✅ Event deleted successfully');
                 Alert.alert('Success', 'Event deleted successfully');
                 await loadUserEvents();
-              } catch (error) {
+              } catch (error: any) {
                 console.error('❌ Error deleting event:', error);
-                Alert.alert('Error', 'Failed to delete event');
+                Alert.alert('Error', error?.message || 'Failed to delete event');
               }
             }
           }
@@ -933,16 +932,38 @@ export default function EventManagerScreen() {
               />
             </View>
             
-            {importData && (
+            {importData?.bundle && (
               <View style={styles.importInfoBox}>
                 <Text style={styles.importInfoTitle}>File contains:</Text>
-                <Text style={styles.importInfoText}>• {importData.products?.length || 0} products</Text>
-                <Text style={styles.importInfoText}>• {importData.productTypes?.length || 0} product types</Text>
-                <Text style={styles.importInfoText}>• {importData.promos?.length || 0} promos</Text>
-                <Text style={styles.importInfoText}>• {importData.transactions?.length || 0} transactions</Text>
-                <Text style={styles.importInfoText}>• Currency: {importData.settings?.currency || 'N/A'}</Text>
+                <Text style={styles.importInfoText}>• {importData.bundle.products.length} products</Text>
+                <Text style={styles.importInfoText}>• {importData.bundle.productTypes.length} product types</Text>
+                <Text style={styles.importInfoText}>• {importData.bundle.promos.length} promos</Text>
+                <Text style={styles.importInfoText}>• {importData.bundle.transactions.length} transactions</Text>
+                <Text style={styles.importInfoText}>• Currency: {importData.bundle.settings.currency}</Text>
               </View>
             )}
+
+            {importData && (
+              <ScrollView style={styles.importReport}>
+                <Text style={styles.importReportLine}>
+                  Format version {importData.report.sourceVersion} · Checksum {importData.report.checksum}
+                </Text>
+                {importData.report.migrations.map((line, index) => (
+                  <Text key={`migration-${index}`} style={styles.importReportLine}>↑ {line}</Text>
+                ))}
+                {importData.report.remappedIds.map((entry, index) => (
+                  <Text key={`remap-${index}`} style={styles.importReportLine}>
+                    ↻ Duplicate {entry.kind} id {entry.from} renamed to {entry.to}
+                  </Text>
+                ))}
+                {importData.report.warnings.map((line, index) => (
+                  <Text key={`warning-${index}`} style={[styles.importReportLine, styles.importReportWarning]}>⚠ {line}</Text>
+                ))}
+                {importData.report.errors.map((line, index) => (
+                  <Text key={`error-${index}`} style={[styles.importReportLine, styles.importReportError]}>✕ {line}</Text>
+                ))}
+              </ScrollView>
+            )}
             
             <View style={styles.modalButtons}>
               <TouchableOpacity
@@ -957,8 +978,9 @@ export default function EventManagerScreen() {
                 <Text style={styles.modalButtonText}>Cancel</Text>
               </TouchableOpacity>
               <TouchableOpacity
-                style={[styles.modalButton, styles.modalButtonCreate]}
+                style={[styles.modalButton, styles.modalButtonCreate, !importData?.bundle && styles.modalButtonDisabled]}
                 onPress={handleConfirmImport}
+                disabled={!importData?.bundle}
               >
                 <Text style={[styles.modalButtonText, styles.modalButtonTextCreate]}>Import</Text>
               </TouchableOpacity>
@@ -1268,6 +1290,9 @@ const styles = StyleSheet.create({
   modalButtonCreate: {
     backgroundColor: Colors.primary,
   },
+  modalButtonDisabled: {
+    opacity: 0.5,
+  },
   modalButtonText: {
     fontSize: 16,
     fontWeight: '600',
@@ -1324,4 +1349,19 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 4,
   },
+  importReport: {
+    maxHeight: 160,
+    marginBottom: 16,
+  },
+  importReportLine: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  importReportWarning: {
+    color: '#B26A00',
+  },
+  importReportError: {
+    color: '#D32F2F',
+  },
 });
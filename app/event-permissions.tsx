@@ -0,0 +1,197 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, RotateCcw } from 'lucide-react-native';
+import { useSales } from '@/hooks/sales-store';
+import {
+  CAPABILITY_LABELS,
+  EVENT_CAPABILITIES,
+  ROLE_LABELS,
+  ROLES,
+  getRoleCapabilities,
+} from '@/lib/permissions';
+import { Capability, RolePermissions, UserRole } from '@/types/auth';
+import Colors from '@/constants/colors';
+
+// Admins always keep every capability, so only the other roles can be edited
+const EDITABLE_ROLES = ROLES.filter(role => role !== 'admin');
+
+export default function EventPermissionsScreen() {
+  const { settings, updateSettings, can, currentEventId } = useSales();
+  const canEdit = can('user.manage');
+
+  const toggleCapability = (role: UserRole, capability: Capability, enabled: boolean) => {
+    const current = getRoleCapabilities(role, settings.rolePermissions)
+      .filter(c => EVENT_CAPABILITIES.includes(c));
+    const next = enabled
+      ? [...current, capability]
+      : current.filter(c => c !== capability);
+
+    const rolePermissions: RolePermissions = { ...settings.rolePermissions, [role]: next };
+    updateSettings({ rolePermissions });
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      'Reset Permissions',
+      'Every role will go back to its default permissions for this event. Continue?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: () => updateSettings({ rolePermissions: {} }) },
+      ]
+    );
+  };
+
+  const renderBody = () => {
+    if (!canEdit) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Only admins can change role permissions</Text>
+        </View>
+      );
+    }
+    if (!currentEventId) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Open an event to change its permissions</Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.hint}>
+          These permissions apply to {settings.eventName || 'this event'} only. Admins can always do everything.
+        </Text>
+        {EDITABLE_ROLES.map(role => {
+          const capabilities = getRoleCapabilities(role, settings.rolePermissions);
+          const isCustomised = !!settings.rolePermissions?.[role];
+          return (
+            <View key={role} style={styles.roleCard}>
+              <View style={styles.roleHeader}>
+                <Text style={styles.roleTitle}>{ROLE_LABELS[role]}</Text>
+                {isCustomised && <Text style={styles.customBadge}>Customised</Text>}
+              </View>
+              {EVENT_CAPABILITIES.map(capability => (
+                <View key={capability} style={styles.capabilityRow}>
+                  <Text style={styles.capabilityLabel}>{CAPABILITY_LABELS[capability]}</Text>
+                  <Switch
+                    value={capabilities.includes(capability)}
+                    onValueChange={(value) => toggleCapability(role, capability, value)}
+                    testID={`permission-${role}-${capability}`}
+                  />
+                </View>
+              ))}
+            </View>
+          );
+        })}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color={Colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Role Permissions</Text>
+        {canEdit && currentEventId && (
+          <TouchableOpacity onPress={handleReset} testID="reset-permissions-button">
+            <RotateCcw size={22} color={Colors.primary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {renderBody()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold' as const,
+    color: '#1a1a1a',
+  },
+  content: {
+    padding: 16,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  roleCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  roleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  roleTitle: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#1a1a1a',
+  },
+  customBadge: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: Colors.primary,
+  },
+  capabilityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  capabilityLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
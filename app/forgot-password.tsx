@@ -16,6 +16,7 @@ import { KeyRound, ArrowLeft, Mail } from 'lucide-react-native';
 import Colors from '@/constants/colors';
 import { databaseService } from '@/hooks/database';
 import { trpc } from '@/lib/trpc';
+import { hashPassword } from '@/lib/password';
 
 function generateTemporaryPassword(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789';
@@ -26,16 +27,6 @@ function generateTemporaryPassword(): string {
   return password;
 }
 
-function hashPassword(password: string): string {
-  let hash = 0;
-  for (let i = 0; i < password.length; i++) {
-    const char = password.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return hash.toString();
-}
-
 export default function ForgotPasswordScreen() {
   const [email, setEmail] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -75,7 +66,7 @@ export default function ForgotPasswordScreen() {
       const temporaryPassword = generateTemporaryPassword();
       console.log('🔑 Generated temporary password');
 
-      const newPasswordHash = hashPassword(temporaryPassword);
+      const newPasswordHash = await hashPassword(temporaryPassword);
       await databaseService.updateUserPassword(user.id, newPasswordHash);
       console.log('✅ Password updated locally');
 
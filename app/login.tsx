@@ -11,7 +11,7 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { LogIn, UserPlus, KeyRound, Users, Chrome } from 'lucide-react-native';
+import { LogIn, UserPlus, KeyRound, Users, Chrome, DatabaseBackup } from 'lucide-react-native';
 import { useAuth } from '@/hooks/auth-store';
 import Colors from '@/constants/colors';
 
@@ -78,6 +78,10 @@ export default function LoginScreen() {
     router.push('/manage-users');
   };
 
+  const handleBackup = () => {
+    router.push('/backup');
+  };
+
   return (
     <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
       <ScrollView
@@ -179,6 +183,15 @@ export default function LoginScreen() {
               <Users size={16} color="#666" />
               <Text style={styles.manageUsersText}>Manage Users</Text>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.manageUsersButton}
+              onPress={handleBackup}
+              disabled={isLoading}
+            >
+              <DatabaseBackup size={16} color="#666" />
+              <Text style={styles.manageUsersText}>Backup & Restore</Text>
+            </TouchableOpacity>
           </View>
       </ScrollView>
     </SafeAreaView>
@@ -12,14 +12,24 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { ArrowLeft, Edit2, Trash2, Mail, User, Lock, UserPlus, Shield, Users } from 'lucide-react-native';
+import { ArrowLeft, Edit2, Trash2, Mail, User, Lock, UserPlus, Shield, Users, Briefcase, UserCheck, KeyRound } from 'lucide-react-native';
 import { useAuth } from '@/hooks/auth-store';
 import { databaseService } from '@/hooks/database';
 import { User as UserType, UserRole } from '@/types/auth';
 import Colors from '@/constants/colors';
+import { hashPassword } from '@/lib/password';
+import { hasCapability, ROLE_LABELS, ROLES } from '@/lib/permissions';
+import { isValidApprovalPin } from '@/lib/override-approval';
+
+const ROLE_ICONS: Record<UserRole, typeof Shield> = {
+  cashier: Users,
+  supervisor: UserCheck,
+  manager: Briefcase,
+  admin: Shield,
+};
 
 export default function ManageUsersScreen() {
-  const { login } = useAuth();
+  const { login, currentUser } = useAuth();
   const [users, setUsers] = useState<UserType[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [editModalVisible, setEditModalVisible] = useState(false);
@@ -29,7 +39,10 @@ export default function ManageUsersScreen() {
   const [editEmail, setEditEmail] = useState('');
   const [editFullName, setEditFullName] = useState('');
   const [editPassword, setEditPassword] = useState('');
-  const [editRole, setEditRole] = useState<UserRole>('standard');
+  const [editRole, setEditRole] = useState<UserRole>('cashier');
+  const [editPin, setEditPin] = useState('');
+  const [hasPin, setHasPin] = useState(false);
+  const [removePin, setRemovePin] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [authUsername, setAuthUsername] = useState('');
   const [authPassword, setAuthPassword] = useState('');
@@ -40,7 +53,7 @@ export default function ManageUsersScreen() {
   const [newFullName, setNewFullName] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [newConfirmPassword, setNewConfirmPassword] = useState('');
-  const [newRole, setNewRole] = useState<UserRole>('standard');
+  const [newRole, setNewRole] = useState<UserRole>('cashier');
   const [isCreating, setIsCreating] = useState(false);
 
   useEffect(() => {
@@ -62,16 +75,6 @@ export default function ManageUsersScreen() {
     }
   };
 
-  const hashPassword = (password: string): string => {
-    let hash = 0;
-    for (let i = 0; i < password.length; i++) {
-      const char = password.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return hash.toString();
-  };
-
   const handleEditUser = (user: UserType) => {
     setSelectedUser(user);
     setEditUsername(user.username);
@@ -79,6 +82,12 @@ export default function ManageUsersScreen() {
     setEditFullName(user.fullName);
     setEditPassword('');
     setEditRole(user.role);
+    setEditPin('');
+    setRemovePin(false);
+    setHasPin(false);
+    databaseService.hasApprovalPin(user.id)
+      .then(setHasPin)
+      .catch(error => console.error('Error loading approval PIN:', error));
     setEditModalVisible(true);
   };
 
@@ -103,17 +112,28 @@ export default function ManageUsersScreen() {
           Alert.alert('Error', 'Password must be at least 3 characters long');
           return;
         }
-        const passwordHash = hashPassword(editPassword);
+        const passwordHash = await hashPassword(editPassword);
         await databaseService.updateUserPassword(selectedUser.id, passwordHash);
       }
 
+      if (editPin.trim()) {
+        if (!isValidApprovalPin(editPin.trim())) {
+          Alert.alert('Error', 'Approval PIN must be 4 to 8 digits');
+          return;
+        }
+        const pinHash = await hashPassword(editPin.trim());
+        await databaseService.setApprovalPin(selectedUser.id, pinHash, currentUser);
+      } else if (removePin) {
+        await databaseService.setApprovalPin(selectedUser.id, null, currentUser);
+      }
+
       if (editRole !== selectedUser.role) {
         const adminUsers = users.filter(u => u.role === 'admin');
-        if (selectedUser.role === 'admin' && editRole === 'standard' && adminUsers.length <= 1) {
-          Alert.alert('Cannot Change Role', 'Cannot demote the last admin user to standard');
+        if (selectedUser.role === 'admin' && editRole !== 'admin' && adminUsers.length <= 1) {
+          Alert.alert('Cannot Change Role', 'Cannot demote the last admin user');
           return;
         }
-        await databaseService.updateUserRole(selectedUser.id, editRole);
+        await databaseService.updateUserRole(selectedUser.id, editRole, currentUser);
       }
 
       Alert.alert('Success', 'User updated successfully');
@@ -142,7 +162,7 @@ export default function ManageUsersScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await databaseService.deleteUser(user.id);
+              await databaseService.deleteUser(user.id, currentUser);
               Alert.alert('Success', 'User deleted successfully');
               loadUsers();
             } catch (error) {
@@ -175,7 +195,7 @@ export default function ManageUsersScreen() {
       return;
     }
 
-    if (user.role !== 'admin') {
+    if (!hasCapability(user, 'user.manage')) {
       setIsAuthenticating(false);
       Alert.alert('Access Denied', 'Only admin users can access this page');
       return;
@@ -197,7 +217,7 @@ export default function ManageUsersScreen() {
     setNewFullName('');
     setNewPassword('');
     setNewConfirmPassword('');
-    setNewRole('standard');
+    setNewRole('cashier');
     setCreateModalVisible(true);
   };
 
@@ -231,13 +251,14 @@ export default function ManageUsersScreen() {
         return;
       }
 
-      const passwordHash = hashPassword(newPassword);
+      const passwordHash = await hashPassword(newPassword);
       await databaseService.createUser(
         newUsername.trim(),
         passwordHash,
         newEmail.trim(),
         newFullName.trim(),
-        newRole
+        newRole,
+        currentUser
       );
 
       Alert.alert('Success', 'User created successfully');
@@ -251,6 +272,34 @@ export default function ManageUsersScreen() {
     }
   };
 
+  const renderRoleButtons = (selected: UserRole, onSelect: (role: UserRole) => void) => (
+    <View style={styles.roleButtonsContainer}>
+      {ROLES.map(role => {
+        const Icon = ROLE_ICONS[role];
+        const isActive = selected === role;
+        return (
+          <TouchableOpacity
+            key={role}
+            style={[
+              styles.roleButton,
+              isActive && styles.roleButtonActive,
+              isActive && (role === 'admin' ? styles.adminRoleActive : styles.standardRoleActive),
+            ]}
+            onPress={() => onSelect(role)}
+          >
+            <Icon size={18} color={isActive ? '#fff' : '#666'} />
+            <Text style={[
+              styles.roleButtonText,
+              isActive && styles.roleButtonTextActive,
+            ]}>
+              {ROLE_LABELS[role]}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
   const renderUser = ({ item }: { item: UserType }) => (
     <View style={styles.userCard}>
       <View style={styles.userInfo}>
@@ -263,7 +312,7 @@ export default function ManageUsersScreen() {
               <Users size={12} color="#666" />
             )}
             <Text style={[styles.roleText, item.role === 'admin' ? styles.adminText : styles.standardText]}>
-              {item.role === 'admin' ? 'Admin' : 'Standard'}
+              {ROLE_LABELS[item.role]}
             </Text>
           </View>
         </View>
@@ -452,40 +501,29 @@ export default function ManageUsersScreen() {
               </View>
 
               <Text style={styles.roleLabel}>User Level</Text>
-              <View style={styles.roleButtonsContainer}>
-                <TouchableOpacity
-                  style={[
-                    styles.roleButton,
-                    editRole === 'admin' && styles.roleButtonActive,
-                    editRole === 'admin' && styles.adminRoleActive,
-                  ]}
-                  onPress={() => setEditRole('admin')}
-                >
-                  <Shield size={18} color={editRole === 'admin' ? '#fff' : '#666'} />
-                  <Text style={[
-                    styles.roleButtonText,
-                    editRole === 'admin' && styles.roleButtonTextActive,
-                  ]}>
-                    Admin
-                  </Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[
-                    styles.roleButton,
-                    editRole === 'standard' && styles.roleButtonActive,
-                    editRole === 'standard' && styles.standardRoleActive,
-                  ]}
-                  onPress={() => setEditRole('standard')}
-                >
-                  <Users size={18} color={editRole === 'standard' ? '#fff' : '#666'} />
-                  <Text style={[
-                    styles.roleButtonText,
-                    editRole === 'standard' && styles.roleButtonTextActive,
-                  ]}>
-                    Standard
-                  </Text>
-                </TouchableOpacity>
+              {renderRoleButtons(editRole, setEditRole)}
+
+              <Text style={styles.roleLabel}>Override Approval PIN</Text>
+              <View style={styles.inputContainer}>
+                <View style={styles.inputIcon}>
+                  <KeyRound size={20} color="#666" />
+                </View>
+                <TextInput
+                  style={styles.input}
+                  placeholder={hasPin && !removePin ? 'New PIN (leave empty to keep current)' : 'PIN (4-8 digits, optional)'}
+                  placeholderTextColor="#999"
+                  value={editPin}
+                  onChangeText={setEditPin}
+                  secureTextEntry
+                  keyboardType="number-pad"
+                  maxLength={8}
+                />
               </View>
+              {hasPin && !editPin && (
+                <TouchableOpacity style={styles.removePinButton} onPress={() => setRemovePin(!removePin)}>
+                  <Text style={styles.removePinText}>{removePin ? 'Keep current PIN' : 'Remove PIN'}</Text>
+                </TouchableOpacity>
+              )}
 
               <View style={styles.modalButtons}>
                 <TouchableOpacity
@@ -601,42 +639,7 @@ export default function ManageUsersScreen() {
               </View>
 
               <Text style={styles.roleLabel}>User Level</Text>
-              <View style={styles.roleButtonsContainer}>
-                <TouchableOpacity
-                  style={[
-                    styles.roleButton,
-                    newRole === 'admin' && styles.roleButtonActive,
-                    newRole === 'admin' && styles.adminRoleActive,
-                  ]}
-                  onPress={() => setNewRole('admin')}
-                  disabled={isCreating}
-                >
-                  <Shield size={18} color={newRole === 'admin' ? '#fff' : '#666'} />
-                  <Text style={[
-                    styles.roleButtonText,
-                    newRole === 'admin' && styles.roleButtonTextActive,
-                  ]}>
-                    Admin
-                  </Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[
-                    styles.roleButton,
-                    newRole === 'standard' && styles.roleButtonActive,
-                    newRole === 'standard' && styles.standardRoleActive,
-                  ]}
-                  onPress={() => setNewRole('standard')}
-                  disabled={isCreating}
-                >
-                  <Users size={18} color={newRole === 'standard' ? '#fff' : '#666'} />
-                  <Text style={[
-                    styles.roleButtonText,
-                    newRole === 'standard' && styles.roleButtonTextActive,
-                  ]}>
-                    Standard
-                  </Text>
-                </TouchableOpacity>
-              </View>
+              {renderRoleButtons(newRole, setNewRole)}
 
               <View style={styles.modalButtons}>
                 <TouchableOpacity
@@ -821,13 +824,24 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 12,
   },
+  removePinButton: {
+    alignSelf: 'flex-start',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  removePinText: {
+    fontSize: 14,
+    color: '#ff4444',
+    fontWeight: '600' as const,
+  },
   roleButtonsContainer: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 12,
     marginBottom: 24,
   },
   roleButton: {
-    flex: 1,
+    width: '47%',
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
@@ -0,0 +1,264 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, Camera, Clock, History, Lock, RotateCcw } from 'lucide-react-native';
+import { useSales } from '@/hooks/sales-store';
+import { databaseService, SNAPSHOT_INTERVAL_MS, SNAPSHOT_RETENTION } from '@/hooks/database';
+import { EventSnapshot, EventSnapshotReason } from '@/types/sales';
+import Colors from '@/constants/colors';
+
+const REASON_LABELS: Record<EventSnapshotReason, string> = {
+  scheduled: 'Automatic',
+  finalize: 'Event finalized',
+  manual: 'Manual',
+  'pre-restore': 'Before restore',
+};
+
+const REASON_ICONS: Record<EventSnapshotReason, typeof Clock> = {
+  scheduled: Clock,
+  finalize: Lock,
+  manual: Camera,
+  'pre-restore': History,
+};
+
+export default function SnapshotsScreen() {
+  const { currentEventId, restoreSnapshot, can } = useSales();
+  const [snapshots, setSnapshots] = useState<EventSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadSnapshots = useCallback(async () => {
+    if (!currentEventId) {
+      setSnapshots([]);
+      setIsLoading(false);
+      return;
+    }
+    try {
+      setSnapshots(await databaseService.listEventSnapshots(currentEventId));
+    } catch (error) {
+      console.error('❌ Failed to load snapshots:', error);
+      Alert.alert('Error', 'Failed to load snapshots');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentEventId]);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsWorking(true);
+    try {
+      await action();
+      await loadSnapshots();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleTakeSnapshot = () => {
+    if (!currentEventId) return;
+    runAction(() => databaseService.createEventSnapshot(currentEventId, 'manual'));
+  };
+
+  const handleRestore = (snapshot: EventSnapshot) => {
+    Alert.alert(
+      'Restore Snapshot',
+      `Roll this event back to ${snapshot.createdAt.toLocaleString()}? Products, settings and sales made after it will be replaced. The current state is saved as a snapshot first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: () => runAction(async () => {
+            await restoreSnapshot(snapshot);
+            Alert.alert('Snapshot Restored', `The event now matches the snapshot from ${snapshot.createdAt.toLocaleString()}.`);
+          }),
+        },
+      ]
+    );
+  };
+
+  const renderSnapshot = ({ item }: { item: EventSnapshot }) => {
+    const Icon = REASON_ICONS[item.reason] ?? Clock;
+    return (
+      <View style={styles.snapshotCard}>
+        <Icon size={20} color={Colors.primary} />
+        <View style={styles.snapshotInfo}>
+          <Text style={styles.snapshotTime}>{item.createdAt.toLocaleString()}</Text>
+          <Text style={styles.snapshotMeta}>
+            {REASON_LABELS[item.reason] ?? item.reason} · {item.productCount} products · {item.transactionCount} transactions
+          </Text>
+        </View>
+        {can('snapshot.restore') && (
+          <TouchableOpacity
+            style={[styles.restoreButton, isWorking && styles.buttonDisabled]}
+            onPress={() => handleRestore(item)}
+            disabled={isWorking}
+          >
+            <RotateCcw size={16} color="#fff" />
+            <Text style={styles.restoreButtonText}>Restore</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color={Colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Snapshots</Text>
+      </View>
+
+      {!currentEventId ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Open an event to see its snapshots</Text>
+        </View>
+      ) : isLoading ? (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={snapshots}
+          keyExtractor={item => item.id}
+          renderItem={renderSnapshot}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            <View style={styles.intro}>
+              <Text style={styles.introText}>
+                A snapshot of this event is taken every {SNAPSHOT_INTERVAL_MS / 60000} minutes while it is open and when it is finalized. The last {SNAPSHOT_RETENTION} are kept.
+              </Text>
+              <TouchableOpacity
+                style={[styles.primaryButton, isWorking && styles.buttonDisabled]}
+                onPress={handleTakeSnapshot}
+                disabled={isWorking}
+              >
+                <Camera size={18} color="#fff" />
+                <Text style={styles.primaryButtonText}>Take Snapshot Now</Text>
+              </TouchableOpacity>
+            </View>
+          }
+          ListEmptyComponent={<Text style={styles.emptyText}>No snapshots yet</Text>}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold' as const,
+    color: '#1a1a1a',
+  },
+  listContent: {
+    padding: 16,
+  },
+  intro: {
+    marginBottom: 16,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  snapshotCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  snapshotInfo: {
+    flex: 1,
+  },
+  snapshotTime: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#1a1a1a',
+  },
+  snapshotMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#FF9800',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  restoreButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
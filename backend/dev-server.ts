@@ -0,0 +1,15 @@
+import { Hono } from "hono";
+
+import app from "./hono";
+
+// Local development entry point. Mounts the API under /api like the hosted deployment,
+// so the app works unchanged with EXPO_PUBLIC_RORK_API_BASE_URL=http://<your-machine>:3000
+//
+//   bun run backend/dev-server.ts
+const server = new Hono();
+server.route("/api", app);
+
+export default {
+  port: Number(process.env.PORT) || 3000,
+  fetch: server.fetch,
+};
@@ -0,0 +1,207 @@
+import { ExportData, generateCurrenciesData, generateProductsData, generateRegistryData } from "../../lib/sheet-data";
+import { googleRequest } from "./service-account";
+
+export interface GoogleSheetsExportOptions {
+  folderId?: string;
+  folderLink?: string;
+  shareWithEmail?: string;
+}
+
+type SheetRows = (string | number)[][];
+
+export const extractFolderIdFromLink = (link: string): string | null => {
+  const patterns = [
+    /\/folders\/([a-zA-Z0-9_-]+)/,
+    /id=([a-zA-Z0-9_-]+)/,
+    /^([a-zA-Z0-9_-]{20,})$/,
+  ];
+
+  for (const pattern of patterns) {
+    const match = link.match(pattern);
+    if (match && match[1]) {
+      return match[1];
+    }
+  }
+  return null;
+};
+
+export const extractSpreadsheetId = (linkOrId: string): string | null => {
+  const match = linkOrId.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/) || linkOrId.trim().match(/^([a-zA-Z0-9_-]{20,})$/);
+  return match ? match[1] : null;
+};
+
+export const toRowData = (rows: SheetRows) =>
+  rows.map((row) => ({
+    values: row.map((cell) => ({
+      userEnteredValue: typeof cell === "number" ? { numberValue: cell } : { stringValue: String(cell) },
+    })),
+  }));
+
+const toSheet = (title: string, index: number, rows: SheetRows) => ({
+  properties: { title, index },
+  data: [{ startRow: 0, startColumn: 0, rowData: toRowData(rows) }],
+});
+
+/**
+ * Creates a new spreadsheet with the Registry, Products and Currencies sheets, then
+ * optionally files it in a Drive folder and shares it. Folder and sharing failures are
+ * logged but do not fail the export, since the spreadsheet already exists by then.
+ */
+export const exportToGoogleSheets = async (
+  data: ExportData,
+  options: GoogleSheetsExportOptions = {},
+): Promise<{ spreadsheetId: string; spreadsheetUrl: string }> => {
+  const folderId = options.folderId || (options.folderLink ? extractFolderIdFromLink(options.folderLink) : null);
+
+  const timestamp = new Date().toISOString().split("T")[0];
+  const spreadsheetTitle = `${data.eventName.replace(/[^a-z0-9]/gi, "_")}_${timestamp}`;
+  console.log("📄 Creating spreadsheet:", spreadsheetTitle);
+
+  const spreadsheet = await googleRequest<{ spreadsheetId: string; spreadsheetUrl: string }>(
+    "https://sheets.googleapis.com/v4/spreadsheets",
+    {
+      method: "POST",
+      body: JSON.stringify({
+        properties: { title: spreadsheetTitle },
+        sheets: [
+          toSheet("Registry", 0, generateRegistryData(data)),
+          toSheet("Products Summary", 1, generateProductsData(data)),
+          toSheet("Currencies Summary", 2, generateCurrenciesData(data)),
+        ],
+      }),
+    },
+  );
+  console.log("✅ Spreadsheet created:", spreadsheet.spreadsheetId);
+
+  if (folderId) {
+    try {
+      await googleRequest(
+        `https://www.googleapis.com/drive/v3/files/${spreadsheet.spreadsheetId}?addParents=${folderId}&fields=id,parents`,
+        { method: "PATCH" },
+      );
+      console.log("✅ Spreadsheet moved to folder:", folderId);
+    } catch (error) {
+      console.error("⚠️ Failed to move spreadsheet to folder:", error);
+    }
+  }
+
+  if (options.shareWithEmail) {
+    try {
+      await googleRequest(`https://www.googleapis.com/drive/v3/files/${spreadsheet.spreadsheetId}/permissions`, {
+        method: "POST",
+        body: JSON.stringify({ type: "user", role: "writer", emailAddress: options.shareWithEmail }),
+      });
+      console.log("✅ Spreadsheet shared with:", options.shareWithEmail);
+    } catch (error) {
+      console.error("⚠️ Failed to share spreadsheet:", error);
+    }
+  }
+
+  return spreadsheet;
+};
+
+// INCREMENTAL SYNC - ONE SPREADSHEET PER EVENT, REGISTRY ROWS APPENDED AS SALES HAPPEN
+
+const REGISTRY_SHEET = "Registry";
+const SUMMARY_SHEETS = ["Products Summary", "Currencies Summary"] as const;
+
+export interface SheetsSyncResult {
+  spreadsheetId: string;
+  spreadsheetUrl: string;
+  appendedTransactionIds: string[]; // Transactions added to the Registry by this sync
+  appended: number;
+}
+
+const sheetsUrl = (spreadsheetId: string, path: string = "") =>
+  `https://sheets.googleapis.com/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}${path}`;
+
+const quoteSheet = (title: string) => `'${title.replace(/'/g, "''")}'`;
+
+/**
+ * Adds any of the export's sheets missing from a bound spreadsheet (for example one
+ * the organiser created by hand), writing the Registry header row if it was added.
+ */
+const ensureSheets = async (spreadsheetId: string, registryHeader: SheetRows[number]): Promise<string> => {
+  const spreadsheet = await googleRequest<{ spreadsheetUrl: string; sheets?: { properties: { title: string } }[] }>(
+    sheetsUrl(spreadsheetId, "?fields=spreadsheetUrl,sheets.properties.title"),
+  );
+  const existing = new Set((spreadsheet.sheets || []).map((sheet) => sheet.properties.title));
+  const missing = [REGISTRY_SHEET, ...SUMMARY_SHEETS].filter((title) => !existing.has(title));
+
+  if (missing.length > 0) {
+    await googleRequest(sheetsUrl(spreadsheetId, ":batchUpdate"), {
+      method: "POST",
+      body: JSON.stringify({ requests: missing.map((title) => ({ addSheet: { properties: { title } } })) }),
+    });
+    console.log("📄 Added missing sheets:", missing.join(", "));
+  }
+
+  if (missing.includes(REGISTRY_SHEET)) {
+    await googleRequest(sheetsUrl(spreadsheetId, `/values/${encodeURIComponent(`${quoteSheet(REGISTRY_SHEET)}!A1`)}?valueInputOption=RAW`), {
+      method: "PUT",
+      body: JSON.stringify({ values: [registryHeader] }),
+    });
+  }
+
+  return spreadsheet.spreadsheetUrl;
+};
+
+/**
+ * Brings the event's bound spreadsheet up to date: Registry gets the transactions not in
+ * `syncedTransactionIds` appended in the order they happened, and the summary sheets are rewritten
+ * from all of the event's transactions. Without a spreadsheet id a new one is created.
+ *
+ * Sales are tracked by id rather than by time, so ones that arrive late with older
+ * timestamps (a backup merge, a snapshot restore, a tablet that was offline) are still
+ * appended. The Registry is append-only, so edits to or deletions of already-synced
+ * transactions only show up in the summaries.
+ */
+export const syncToGoogleSheets = async (
+  data: ExportData,
+  spreadsheetId: string | undefined,
+  syncedTransactionIds: string[],
+): Promise<SheetsSyncResult> => {
+  if (!spreadsheetId) {
+    const created = await exportToGoogleSheets(data);
+    const appendedTransactionIds = data.transactions.map((transaction) => transaction.id);
+    return { ...created, appendedTransactionIds, appended: appendedTransactionIds.length };
+  }
+
+  const [registryHeader] = generateRegistryData({ ...data, transactions: [] });
+  const spreadsheetUrl = await ensureSheets(spreadsheetId, registryHeader);
+
+  const synced = new Set(syncedTransactionIds);
+  const newTransactions = data.transactions.filter((transaction) => !synced.has(transaction.id));
+  if (newTransactions.length > 0) {
+    // The registry generator lists newest first; the sheet reads as a log, oldest first
+    const [, ...rows] = generateRegistryData({ ...data, transactions: newTransactions });
+    await googleRequest(
+      sheetsUrl(spreadsheetId, `/values/${encodeURIComponent(`${quoteSheet(REGISTRY_SHEET)}!A1`)}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`),
+      { method: "POST", body: JSON.stringify({ values: rows.reverse() }) },
+    );
+  }
+
+  const summaries: [string, SheetRows][] = [
+    ["Products Summary", generateProductsData(data)],
+    ["Currencies Summary", generateCurrenciesData(data)],
+  ];
+  await googleRequest(sheetsUrl(spreadsheetId, "/values:batchClear"), {
+    method: "POST",
+    body: JSON.stringify({ ranges: summaries.map(([title]) => quoteSheet(title)) }),
+  });
+  await googleRequest(sheetsUrl(spreadsheetId, "/values:batchUpdate"), {
+    method: "POST",
+    body: JSON.stringify({
+      valueInputOption: "RAW",
+      data: summaries.map(([title, values]) => ({ range: `${quoteSheet(title)}!A1`, values })),
+    }),
+  });
+
+  console.log(`✅ Synced ${newTransactions.length} new transactions to spreadsheet ${spreadsheetId}`);
+  return {
+    spreadsheetId,
+    spreadsheetUrl,
+    appendedTransactionIds: newTransactions.map((transaction) => transaction.id),
+    appended: newTransactions.length,
+  };
+};
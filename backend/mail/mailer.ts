@@ -0,0 +1,64 @@
+import { Resend } from "resend";
+
+// OUTGOING MAIL - RESEND IN PRODUCTION, AN IN-MEMORY STUB LOCALLY
+//
+// Set MAIL_TRANSPORT=stub to keep mail on this machine (development and tests);
+// tests can also install their own mailer with setMailer.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<{ id?: string }>;
+}
+
+export interface StubMailer extends Mailer {
+  sent: MailMessage[]; // Every message "sent", oldest first
+}
+
+export const MAIL_FROM = "Botonera X <onboarding@resend.dev>";
+
+export const createResendMailer = (apiKey: string | undefined = process.env.RESEND_API_KEY): Mailer => {
+  const resend = new Resend(apiKey);
+
+  return {
+    async send(message) {
+      const { data, error } = await resend.emails.send({ from: MAIL_FROM, ...message });
+      if (error) {
+        console.error("❌ Resend error:", error);
+        throw new Error(error.message || "Failed to send email");
+      }
+      return { id: data?.id };
+    },
+  };
+};
+
+export const createStubMailer = (): StubMailer => {
+  const sent: MailMessage[] = [];
+
+  return {
+    sent,
+    async send(message) {
+      sent.push(message);
+      console.log(`📭 Stub mailer kept "${message.subject}" for ${message.to}`);
+      return { id: `stub-${sent.length}` };
+    },
+  };
+};
+
+let mailer: Mailer | null = null;
+
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    mailer = process.env.MAIL_TRANSPORT === "stub" ? createStubMailer() : createResendMailer();
+  }
+  return mailer;
+};
+
+// Pass null to go back to the transport chosen by MAIL_TRANSPORT
+export const setMailer = (next: Mailer | null) => {
+  mailer = next;
+};
@@ -0,0 +1,85 @@
+import { createStubMailer, getMailer, setMailer, StubMailer } from "../../mail/mailer";
+import { sendReceiptEmail } from "../send-receipt";
+import { transactionSchema } from "../../sync/schemas";
+import { testProduct, testSale } from "../../../test-utils/database";
+
+const mug = testProduct("mug", 12, { name: "Mug <large>" });
+const badge = testProduct("badge", 3);
+
+// A sale as it arrives over the wire: two mugs on a promo, charged in euros, shown in pounds
+const promoSale = transactionSchema.parse(testSale("sale_1", [
+  { product: mug, quantity: 2 },
+  { product: badge, quantity: 1 },
+], {
+  subtotal: 27,
+  discount: 7,
+  total: 20,
+  currency: "EUR",
+  appliedPromotions: ["Two mugs"],
+  originalCurrency: "GBP",
+  originalTotal: 17,
+  cashTender: { currency: "EUR", tendered: 50, change: 30 },
+}));
+
+describe("sendReceiptEmail", () => {
+  let mailer: StubMailer;
+
+  beforeEach(() => {
+    mailer = createStubMailer();
+    setMailer(mailer);
+  });
+
+  afterAll(() => setMailer(null));
+
+  it("hands the rendered receipt to the mailer", async () => {
+    const result = await sendReceiptEmail("buyer@example.com", promoSale, { eventName: "Spring Fair" });
+
+    expect(result).toEqual({ messageId: "stub-1" });
+    expect(mailer.sent).toHaveLength(1);
+    expect(mailer.sent[0]).toMatchObject({ to: "buyer@example.com", subject: "Receipt - Spring Fair" });
+  });
+
+  it("renders promotions, the discount and the currency the customer saw", async () => {
+    await sendReceiptEmail("buyer@example.com", promoSale);
+    const { html } = mailer.sent[0];
+
+    expect(html).toContain("Promotions: Two mugs");
+    expect(html).toContain("Subtotal");
+    expect(html).toContain("€27.00 EUR");
+    expect(html).toContain("-€7.00 EUR");
+    expect(html).toContain("€20.00 EUR");
+    expect(html).toContain("Shown as");
+    expect(html).toContain("£17.00 GBP");
+    expect(html).toContain("Tendered €50.00 EUR");
+    expect(html).toContain("Change €30.00 EUR");
+  });
+
+  it("spreads the charged total across the lines and escapes product names", async () => {
+    await sendReceiptEmail("buyer@example.com", promoSale);
+    const { html } = mailer.sent[0];
+
+    // Lines are worth 24 and 3 at list price, scaled onto the 20 charged
+    expect(html).toContain("2 × Mug &lt;large&gt;");
+    expect(html).toContain(`€${(24 * 20 / 27).toFixed(2)} EUR`);
+    expect(html).toContain(`€${(3 * 20 / 27).toFixed(2)} EUR`);
+    expect(html).not.toContain("<large>");
+  });
+
+  it("titles refunds as refund receipts", async () => {
+    await sendReceiptEmail("buyer@example.com", { ...promoSale, refundOf: "sale_0" }, { eventName: "Spring Fair" });
+
+    expect(mailer.sent[0].subject).toBe("Refund receipt - Spring Fair");
+    expect(mailer.sent[0].html).toContain("Refund Receipt");
+  });
+
+  it("keeps mail local when MAIL_TRANSPORT is stub", async () => {
+    setMailer(null);
+    process.env.MAIL_TRANSPORT = "stub";
+    try {
+      await sendReceiptEmail("buyer@example.com", promoSale);
+      expect((getMailer() as StubMailer).sent).toHaveLength(1);
+    } finally {
+      delete process.env.MAIL_TRANSPORT;
+    }
+  });
+});
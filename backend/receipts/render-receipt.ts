@@ -0,0 +1,102 @@
+import { SyncedTransaction } from "../sync/schemas";
+
+// HTML RECEIPT FOR ONE TRANSACTION, INLINE-STYLED FOR EMAIL CLIENTS
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: "Cash",
+  card: "Card",
+  qr: "QR",
+};
+
+export interface ReceiptOptions {
+  eventName?: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatMoney = (amount: number, currency: string) => {
+  const sign = amount < 0 ? "-" : "";
+  return `${sign}${CURRENCY_SYMBOLS[currency] ?? ""}${Math.abs(amount).toFixed(2)} ${currency}`;
+};
+
+export const getReceiptSubject = (transaction: SyncedTransaction, options: ReceiptOptions = {}) => {
+  const kind = transaction.refundOf ? "Refund receipt" : "Receipt";
+  return options.eventName ? `${kind} - ${options.eventName}` : kind;
+};
+
+export const renderReceiptHtml = (transaction: SyncedTransaction, options: ReceiptOptions = {}) => {
+  const currency = transaction.currency;
+
+  // Line amounts are scaled onto the charged total so they add up in the receipt currency
+  const itemsValue = transaction.items.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+  const scale = itemsValue !== 0 ? transaction.total / itemsValue : 0;
+
+  const itemRows = transaction.items
+    .map((item) => `
+      <tr>
+        <td style="padding: 6px 0;">${item.quantity} × ${escapeHtml(item.product.name)}</td>
+        <td style="padding: 6px 0; text-align: right;">${formatMoney(item.product.price * item.quantity * scale, currency)}</td>
+      </tr>`)
+    .join("");
+
+  const paymentLines = (transaction.payments && transaction.payments.length > 0
+    ? transaction.payments.map((leg) => `${PAYMENT_METHOD_LABELS[leg.method]} ${formatMoney(leg.amount, leg.currency)}`)
+    : [`${PAYMENT_METHOD_LABELS[transaction.paymentMethod]} ${formatMoney(transaction.total, currency)}`])
+    .join("<br />");
+
+  const tender = transaction.cashTender;
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #333;">${transaction.refundOf ? "Refund Receipt" : "Receipt"}</h2>
+      ${options.eventName ? `<p style="margin: 0; font-weight: bold;">${escapeHtml(options.eventName)}</p>` : ""}
+      <p style="color: #666; font-size: 14px;">
+        ${transaction.timestamp.toLocaleString("en-US")}<br />
+        Transaction #${escapeHtml(transaction.id)}
+      </p>
+      <table style="width: 100%; border-collapse: collapse; border-top: 1px solid #ddd; border-bottom: 1px solid #ddd;">
+        ${itemRows}
+      </table>
+      <table style="width: 100%; margin-top: 12px;">
+        <tr>
+          <td>Subtotal</td>
+          <td style="text-align: right;">${formatMoney(transaction.subtotal, currency)}</td>
+        </tr>
+        ${transaction.discount !== 0 ? `
+        <tr>
+          <td>Discount</td>
+          <td style="text-align: right; color: #4CAF50;">${formatMoney(-transaction.discount, currency)}</td>
+        </tr>` : ""}
+        <tr>
+          <td style="font-size: 18px; font-weight: bold; padding-top: 8px;">Total</td>
+          <td style="font-size: 18px; font-weight: bold; padding-top: 8px; text-align: right;">${formatMoney(transaction.total, currency)}</td>
+        </tr>
+        ${transaction.originalCurrency && transaction.originalTotal !== undefined ? `
+        <tr>
+          <td style="color: #666; font-size: 14px;">Shown as</td>
+          <td style="color: #666; font-size: 14px; text-align: right;">${formatMoney(transaction.originalTotal, transaction.originalCurrency)}</td>
+        </tr>` : ""}
+      </table>
+      ${transaction.appliedPromotions.length > 0 ? `
+      <p style="color: #666; font-size: 14px;">Promotions: ${transaction.appliedPromotions.map(escapeHtml).join(", ")}</p>` : ""}
+      <p style="font-size: 14px;">Paid by:<br />${paymentLines}</p>
+      ${tender ? `
+      <p style="font-size: 14px;">
+        Tendered ${formatMoney(tender.tendered, tender.currency)}<br />
+        Change ${formatMoney(tender.change, tender.currency)}
+      </p>` : ""}
+      <p style="color: #666; font-size: 14px; margin-top: 30px;">Thank you for your purchase!</p>
+    </div>
+  `;
+};
@@ -0,0 +1,13 @@
+import { getMailer } from "../mail/mailer";
+import { SyncedTransaction } from "../sync/schemas";
+import { getReceiptSubject, renderReceiptHtml, ReceiptOptions } from "./render-receipt";
+
+// Renders a transaction's receipt and mails it through the configured transport
+export const sendReceiptEmail = async (email: string, transaction: SyncedTransaction, options: ReceiptOptions = {}) => {
+  const { id } = await getMailer().send({
+    to: email,
+    subject: getReceiptSubject(transaction, options),
+    html: renderReceiptHtml(transaction, options),
+  });
+  return { messageId: id };
+};
@@ -0,0 +1,50 @@
+import { getBearerToken, isValidPairingCode, issueDeviceToken, verifyDeviceToken } from "../device-auth";
+
+describe("device auth", () => {
+  beforeEach(() => {
+    process.env.SYNC_TOKEN_SECRET = "test-secret";
+    process.env.SYNC_PAIRING_CODE = "482913";
+  });
+
+  afterEach(() => {
+    delete process.env.SYNC_TOKEN_SECRET;
+    delete process.env.SYNC_PAIRING_CODE;
+  });
+
+  it("accepts only the configured pairing code", () => {
+    expect(isValidPairingCode("482913")).toBe(true);
+    expect(isValidPairingCode("482914")).toBe(false);
+    expect(isValidPairingCode("48291")).toBe(false);
+    expect(isValidPairingCode("")).toBe(false);
+  });
+
+  it("refuses to pair when no pairing code is configured", () => {
+    delete process.env.SYNC_PAIRING_CODE;
+    expect(() => isValidPairingCode("")).toThrow("SYNC_PAIRING_CODE");
+  });
+
+  it("verifies the tokens it issues", async () => {
+    const { token, device } = await issueDeviceToken("Till 2");
+    expect(device.deviceName).toBe("Till 2");
+    expect(await verifyDeviceToken(token)).toEqual(device);
+  });
+
+  it("rejects tampered, malformed and re-keyed tokens", async () => {
+    const { token } = await issueDeviceToken("Till 2");
+    const [payload, signature] = token.split(".");
+    const forged = btoa(JSON.stringify({ deviceId: "x", deviceName: "Till 9", pairedAt: "" })).replace(/=+$/, "");
+
+    expect(await verifyDeviceToken(`${forged}.${signature}`)).toBeNull();
+    expect(await verifyDeviceToken(payload)).toBeNull();
+    expect(await verifyDeviceToken(`${token}.extra`)).toBeNull();
+    expect(await verifyDeviceToken("not a token")).toBeNull();
+
+    process.env.SYNC_TOKEN_SECRET = "rotated-secret";
+    expect(await verifyDeviceToken(token)).toBeNull();
+  });
+
+  it("reads the bearer token from the request", () => {
+    expect(getBearerToken(new Request("http://localhost", { headers: { authorization: "Bearer abc.def" } }))).toBe("abc.def");
+    expect(getBearerToken(new Request("http://localhost"))).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+// SERVER-SIDE SYNC STORE - SQLITE SHARED BY EVERY DEVICE AT AN EVENT
+//
+// Runs on Bun (bun:sqlite) in the hosted backend and on Node 22+ (node:sqlite) locally.
+// The database file defaults to ./sync.db and can be moved with SYNC_DB_PATH
+// (use ":memory:" for a throwaway store).
+
+export interface SyncStatement {
+  run(...params: SyncValue[]): unknown;
+  all(...params: SyncValue[]): unknown[];
+  get(...params: SyncValue[]): unknown;
+}
+
+export interface SyncDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SyncStatement;
+}
+
+export type SyncValue = string | number | null;
+
+// Tables holding per-event records; each row stores the record as JSON
+export const EVENT_RECORD_TABLES = ["products", "product_types", "promos", "transactions"] as const;
+export type EventRecordTable = (typeof EVENT_RECORD_TABLES)[number];
+
+let databasePromise: Promise<SyncDatabase> | null = null;
+
+const openDriver = async (path: string): Promise<SyncDatabase> => {
+  // Module names are kept in variables so neither the app bundler nor tsc tries to resolve them
+  if (typeof (globalThis as any).Bun !== "undefined") {
+    const bunModule = "bun:sqlite";
+    const { Database } = await import(bunModule);
+    return new Database(path, { create: true }) as SyncDatabase;
+  }
+
+  const nodeModule = "node:sqlite";
+  const { DatabaseSync } = await import(nodeModule);
+  return new DatabaseSync(path) as SyncDatabase;
+};
+
+const createSchema = (db: SyncDatabase) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sync_meta (
+      key TEXT PRIMARY KEY,
+      value INTEGER NOT NULL
+    );
+    INSERT OR IGNORE INTO sync_meta (key, value) VALUES ('revision', 0);
+
+    CREATE TABLE IF NOT EXISTS events (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      revision INTEGER NOT NULL,
+      deleted INTEGER NOT NULL DEFAULT 0
+    );
+  `);
+
+  for (const table of EVENT_RECORD_TABLES) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        eventId TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        deleted INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (eventId, id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_${table}_revision ON ${table} (eventId, revision);
+    `);
+  }
+};
+
+export const getSyncDatabase = (): Promise<SyncDatabase> => {
+  if (!databasePromise) {
+    const path = process.env.SYNC_DB_PATH || "sync.db";
+    databasePromise = openDriver(path)
+      .then((db) => {
+        createSchema(db);
+        console.log("✅ Sync database ready:", path);
+        return db;
+      })
+      .catch((error) => {
+        databasePromise = null;
+        console.error("❌ Failed to open sync database:", error);
+        throw error;
+      });
+  }
+  return databasePromise;
+};
+
+export const getCurrentRevision = (db: SyncDatabase): number => {
+  const row = db.prepare("SELECT value FROM sync_meta WHERE key = 'revision'").get() as { value: number } | undefined;
+  return row?.value ?? 0;
+};
+
+/**
+ * Runs `write` inside a transaction with a freshly allocated revision number.
+ * Every row written by one push shares that revision, so clients can pull with
+ * "everything after the last revision I saw" without relying on device clocks.
+ */
+export const writeWithRevision = <T>(db: SyncDatabase, write: (revision: number) => T): T => {
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    db.prepare("UPDATE sync_meta SET value = value + 1 WHERE key = 'revision'").run();
+    const result = write(getCurrentRevision(db));
+    db.exec("COMMIT");
+    return result;
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+};
@@ -0,0 +1,79 @@
+// DEVICE AUTH - TABLETS PAIR WITH THE SYNC SERVER BEFORE THEY MAY READ OR WRITE EVENTS
+//
+// An admin enters the server's pairing code (SYNC_PAIRING_CODE) on each tablet once. The
+// server answers with a device token signed with SYNC_TOKEN_SECRET, which the tablet sends
+// as a bearer token from then on. Rotating SYNC_TOKEN_SECRET signs every device out.
+
+export interface SyncDevice {
+  deviceId: string;
+  deviceName: string;
+  pairedAt: string;
+}
+
+const base64UrlEncode = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const base64UrlDecode = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), (c) => c.charCodeAt(0));
+
+const readSecret = (): string => {
+  const secret = process.env.SYNC_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("Device sync is not configured. Please set SYNC_TOKEN_SECRET on the server.");
+  }
+  return secret;
+};
+
+const importSigningKey = (secret: string) =>
+  crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+
+// Compares every character so the time taken does not reveal how much of the code matched
+const constantTimeEquals = (a: string, b: string): boolean => {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+};
+
+export const isValidPairingCode = (pairingCode: string): boolean => {
+  const expected = process.env.SYNC_PAIRING_CODE;
+  if (!expected) {
+    throw new Error("Device pairing is not configured. Please set SYNC_PAIRING_CODE on the server.");
+  }
+  return constantTimeEquals(pairingCode, expected);
+};
+
+export const issueDeviceToken = async (deviceName: string): Promise<{ token: string; device: SyncDevice }> => {
+  const device: SyncDevice = { deviceId: crypto.randomUUID(), deviceName, pairedAt: new Date().toISOString() };
+  const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(device)));
+  const key = await importSigningKey(readSecret());
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+  return { token: `${payload}.${base64UrlEncode(new Uint8Array(signature))}`, device };
+};
+
+/**
+ * The device a token was issued to, or null when it is malformed or was not signed
+ * with the current secret.
+ */
+export const verifyDeviceToken = async (token: string): Promise<SyncDevice | null> => {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+
+  try {
+    const key = await importSigningKey(readSecret());
+    const isValid = await crypto.subtle.verify("HMAC", key, base64UrlDecode(signature), new TextEncoder().encode(payload));
+    if (!isValid) return null;
+
+    const device = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+    return typeof device.deviceId === "string" ? device as SyncDevice : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.get("authorization");
+  const match = header?.match(/^Bearer (.+)$/i);
+  return match ? match[1] : null;
+};
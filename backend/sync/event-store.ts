@@ -0,0 +1,48 @@
+import { getCurrentRevision, getSyncDatabase, writeWithRevision, EVENT_RECORD_TABLES } from "./database";
+import { PullResult, RecordRow, SyncedRecord, toSyncedRecord } from "./record-store";
+import { eventSchema, SyncedEvent } from "./schemas";
+
+export const eventStore = {
+  async pull(sinceRevision: number = 0): Promise<PullResult<SyncedEvent>> {
+    const db = await getSyncDatabase();
+    const rows = db
+      .prepare("SELECT id, data, revision, deleted FROM events WHERE revision > ? ORDER BY revision")
+      .all(sinceRevision) as RecordRow[];
+    return { records: rows.map((row) => toSyncedRecord(row, eventSchema)), revision: getCurrentRevision(db) };
+  },
+
+  async get(eventId: string): Promise<SyncedRecord<SyncedEvent> | null> {
+    const db = await getSyncDatabase();
+    const row = db
+      .prepare("SELECT id, data, revision, deleted FROM events WHERE id = ?")
+      .get(eventId) as RecordRow | undefined;
+    return row ? toSyncedRecord(row, eventSchema) : null;
+  },
+
+  async push(event: SyncedEvent): Promise<{ revision: number }> {
+    const db = await getSyncDatabase();
+    return writeWithRevision(db, (revision) => {
+      db.prepare(`
+        INSERT INTO events (id, data, revision, deleted) VALUES (?, ?, ?, 0)
+        ON CONFLICT (id) DO UPDATE SET data = excluded.data, revision = excluded.revision, deleted = 0
+      `).run(event.id, JSON.stringify(event), revision);
+      console.log(`💾 Synced event ${event.id} (rev ${revision})`);
+      return { revision };
+    });
+  },
+
+  /**
+   * Tombstones the event and everything recorded under it.
+   */
+  async remove(eventId: string): Promise<{ revision: number }> {
+    const db = await getSyncDatabase();
+    return writeWithRevision(db, (revision) => {
+      db.prepare("UPDATE events SET deleted = 1, revision = ? WHERE id = ?").run(revision, eventId);
+      for (const table of EVENT_RECORD_TABLES) {
+        db.prepare(`UPDATE ${table} SET deleted = 1, revision = ? WHERE eventId = ? AND deleted = 0`).run(revision, eventId);
+      }
+      console.log(`🗑️ Deleted event ${eventId} (rev ${revision})`);
+      return { revision };
+    });
+  },
+};
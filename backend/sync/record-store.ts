@@ -0,0 +1,69 @@
+import * as z from "zod";
+
+import { EventRecordTable, getCurrentRevision, getSyncDatabase, writeWithRevision } from "./database";
+
+export interface SyncedRecord<T> {
+  id: string;
+  data: T;
+  revision: number;
+  deleted: boolean;
+}
+
+export interface PullResult<T> {
+  records: SyncedRecord<T>[];
+  revision: number; // Pass back as sinceRevision on the next pull
+}
+
+export interface RecordRow {
+  id: string;
+  data: string;
+  revision: number;
+  deleted: number;
+}
+
+// Stored JSON is run back through the schema so dates come out as Date objects again
+export const toSyncedRecord = <T>(row: RecordRow, schema: z.ZodType<T>): SyncedRecord<T> => ({
+  id: row.id,
+  data: schema.parse(JSON.parse(row.data)),
+  revision: row.revision,
+  deleted: row.deleted === 1,
+});
+
+/**
+ * Event-scoped record store over one sync table. Records are merged by id
+ * (last push wins) and deletes are kept as tombstones so other devices see them.
+ */
+export const createRecordStore = <T extends { id: string }>(table: EventRecordTable, schema: z.ZodType<T>) => ({
+  async pull(eventId: string, sinceRevision: number = 0): Promise<PullResult<T>> {
+    const db = await getSyncDatabase();
+    const rows = db
+      .prepare(`SELECT id, data, revision, deleted FROM ${table} WHERE eventId = ? AND revision > ? ORDER BY revision`)
+      .all(eventId, sinceRevision) as RecordRow[];
+    return { records: rows.map((row) => toSyncedRecord(row, schema)), revision: getCurrentRevision(db) };
+  },
+
+  async push(eventId: string, records: T[]): Promise<{ revision: number; count: number }> {
+    const db = await getSyncDatabase();
+    return writeWithRevision(db, (revision) => {
+      const upsert = db.prepare(`
+        INSERT INTO ${table} (eventId, id, data, revision, deleted) VALUES (?, ?, ?, ?, 0)
+        ON CONFLICT (eventId, id) DO UPDATE SET data = excluded.data, revision = excluded.revision, deleted = 0
+      `);
+      records.forEach((record) => upsert.run(eventId, record.id, JSON.stringify(record), revision));
+      console.log(`💾 Synced ${records.length} ${table} for event ${eventId} (rev ${revision})`);
+      return { revision, count: records.length };
+    });
+  },
+
+  async remove(eventId: string, ids: string[]): Promise<{ revision: number; count: number }> {
+    const db = await getSyncDatabase();
+    return writeWithRevision(db, (revision) => {
+      const markDeleted = db.prepare(`UPDATE ${table} SET deleted = 1, revision = ? WHERE eventId = ? AND id = ?`);
+      ids.forEach((id) => markDeleted.run(revision, eventId, id));
+      console.log(`🗑️ Deleted ${ids.length} ${table} for event ${eventId} (rev ${revision})`);
+      return { revision, count: ids.length };
+    });
+  },
+});
+
+export type RecordStore<T extends { id: string }> = ReturnType<typeof createRecordStore<T>>;
@@ -0,0 +1,115 @@
+import * as z from "zod";
+
+// Wire schemas for synced records. They mirror types/sales.ts and types/auth.ts;
+// unknown fields are kept so newer clients can sync through an older server.
+
+export const productTypeSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  color: z.string(),
+  order: z.number(),
+  enabled: z.boolean(),
+});
+
+export const productSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  price: z.number(),
+  color: z.string(),
+  icon: z.string().optional(),
+  enabled: z.boolean(),
+  initialQuantity: z.number(),
+  promoEligible: z.boolean(),
+  order: z.number(),
+  typeId: z.string(),
+  subgroup: z.string().optional(),
+});
+
+export const promoSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  mode: z.enum(["type_list", "combo"]),
+  typeId: z.string().optional(),
+  maxQuantity: z.number(),
+  prices: z.record(z.string(), z.number()),
+  incrementalPrice: z.number().optional(),
+  incrementalPrice10Plus: z.number().optional(),
+  comboProductIds: z.array(z.string()).optional(),
+  comboPrice: z.number().optional(),
+  order: z.number(),
+});
+
+const currencySchema = z.enum(["USD", "EUR", "GBP"]);
+
+export const transactionSchema = z.looseObject({
+  id: z.string(),
+  items: z.array(
+    z.looseObject({
+      product: productSchema,
+      quantity: z.number(),
+      overridePrice: z.number().optional(),
+      appliedPromotions: z.array(z.string()).optional(),
+      listPrice: z.number().optional(),
+      allocatedDiscount: z.number().optional(),
+    }),
+  ),
+  subtotal: z.number(),
+  discount: z.number(),
+  total: z.number(),
+  currency: currencySchema,
+  paymentMethod: z.enum(["cash", "card", "qr"]),
+  timestamp: z.coerce.date(),
+  appliedPromotions: z.array(z.string()),
+  email: z.string().optional(),
+  overrideTotal: z.number().optional(),
+  specialPrice: z.number().optional(),
+  originalCurrency: currencySchema.optional(),
+  originalTotal: z.number().optional(),
+  originalSubtotal: z.number().optional(),
+  payments: z.array(
+    z.object({
+      method: z.enum(["cash", "card", "qr"]),
+      currency: currencySchema,
+      amount: z.number(),
+      baseAmount: z.number(),
+    }),
+  ).optional(),
+  refundOf: z.string().optional(),
+  cashTender: z.object({
+    currency: currencySchema,
+    tendered: z.number(),
+    change: z.number(),
+  }).optional(),
+  overrideApprovals: z.array(
+    z.object({
+      kind: z.enum(["price", "total"]),
+      productId: z.string().optional(),
+      amount: z.number(),
+      approverId: z.string(),
+      approverName: z.string(),
+      reason: z.string(),
+    }),
+  ).optional(),
+  cashSessionId: z.string().optional(),
+});
+
+export const eventSchema = z.looseObject({
+  id: z.string(),
+  userId: z.string(),
+  eventName: z.string(),
+  userName: z.string(),
+  currency: z.string(),
+  currencyRoundUp: z.boolean(),
+  appPromoPricing: z.string(),
+  isFinalized: z.boolean(),
+  isTemplate: z.boolean(),
+  templatePin: z.string().optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+export type SyncedProductType = z.infer<typeof productTypeSchema>;
+export type SyncedProduct = z.infer<typeof productSchema>;
+export type SyncedPromo = z.infer<typeof promoSchema>;
+export type SyncedTransaction = z.infer<typeof transactionSchema>;
+export type SyncedEvent = z.infer<typeof eventSchema>;
@@ -1,10 +1,26 @@
 import { createTRPCRouter } from "./create-context";
 import { exampleRouter } from "./routes/example";
 import { passwordRecoveryRouter } from "./routes/password-recovery";
+import { devicesRouter } from "./routes/devices";
+import { eventsRouter } from "./routes/events";
+import { productsRouter } from "./routes/products";
+import { productTypesRouter } from "./routes/product-types";
+import { promosRouter } from "./routes/promos";
+import { transactionsRouter } from "./routes/transactions";
+import { receiptsRouter } from "./routes/receipts";
+import { googleSheetsRouter } from "./routes/google-sheets";
 
 export const appRouter = createTRPCRouter({
   example: exampleRouter,
   passwordRecovery: passwordRecoveryRouter,
+  devices: devicesRouter,
+  events: eventsRouter,
+  products: productsRouter,
+  productTypes: productTypesRouter,
+  promos: promosRouter,
+  transactions: transactionsRouter,
+  receipts: receiptsRouter,
+  googleSheets: googleSheetsRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -1,10 +1,14 @@
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
 import superjson from "superjson";
 
+import { getBearerToken, verifyDeviceToken } from "../sync/device-auth";
+
 export const createContext = async (opts: FetchCreateContextFnOptions) => {
+  const token = getBearerToken(opts.req);
   return {
     req: opts.req,
+    device: token ? await verifyDeviceToken(token) : null,
   };
 };
 
@@ -16,3 +20,11 @@ const t = initTRPC.context<Context>().create({
 
 export const createTRPCRouter = t.router;
 export const publicProcedure = t.procedure;
+
+// Only paired devices may read or change synced event data
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.device) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "This device is not paired with the sync server" });
+  }
+  return next({ ctx: { ...ctx, device: ctx.device } });
+});
@@ -0,0 +1,26 @@
+import * as z from "zod";
+import { TRPCError } from "@trpc/server";
+
+import { createTRPCRouter, protectedProcedure, publicProcedure } from "../create-context";
+import { isValidPairingCode, issueDeviceToken } from "../../sync/device-auth";
+
+export const devicesRouter = createTRPCRouter({
+  pair: publicProcedure
+    .input(z.object({
+      pairingCode: z.string(),
+      deviceName: z.string().min(1).max(100),
+    }))
+    .mutation(async ({ input }) => {
+      if (!isValidPairingCode(input.pairingCode)) {
+        console.warn("⚠️ Rejected device pairing:", input.deviceName);
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "The pairing code is not correct" });
+      }
+
+      const paired = await issueDeviceToken(input.deviceName);
+      console.log(`🔗 Paired device ${paired.device.deviceName} (${paired.device.deviceId})`);
+      return paired;
+    }),
+
+  // Lets a device check that its stored token is still accepted
+  me: protectedProcedure.query(({ ctx }) => ctx.device),
+});
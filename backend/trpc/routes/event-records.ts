@@ -0,0 +1,36 @@
+import * as z from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "../create-context";
+import { EventRecordTable } from "../../sync/database";
+import { createRecordStore } from "../../sync/record-store";
+
+/**
+ * Builds the pull/push/remove router shared by every event-scoped record type.
+ * Devices pull with the revision returned by their previous pull to get only changes.
+ */
+export const createEventRecordRouter = <T extends { id: string }>(table: EventRecordTable, schema: z.ZodType<T>) => {
+  const store = createRecordStore(table, schema);
+
+  return createTRPCRouter({
+    pull: protectedProcedure
+      .input(z.object({
+        eventId: z.string(),
+        sinceRevision: z.number().int().min(0).optional(),
+      }))
+      .query(({ input }) => store.pull(input.eventId, input.sinceRevision)),
+
+    push: protectedProcedure
+      .input(z.object({
+        eventId: z.string(),
+        records: z.array(schema),
+      }))
+      .mutation(({ input }) => store.push(input.eventId, input.records)),
+
+    remove: protectedProcedure
+      .input(z.object({
+        eventId: z.string(),
+        ids: z.array(z.string()),
+      }))
+      .mutation(({ input }) => store.remove(input.eventId, input.ids)),
+  });
+};
@@ -0,0 +1,23 @@
+import * as z from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "../create-context";
+import { eventStore } from "../../sync/event-store";
+import { eventSchema } from "../../sync/schemas";
+
+export const eventsRouter = createTRPCRouter({
+  pull: protectedProcedure
+    .input(z.object({ sinceRevision: z.number().int().min(0).optional() }))
+    .query(({ input }) => eventStore.pull(input.sinceRevision)),
+
+  get: protectedProcedure
+    .input(z.object({ eventId: z.string() }))
+    .query(({ input }) => eventStore.get(input.eventId)),
+
+  push: protectedProcedure
+    .input(z.object({ event: eventSchema }))
+    .mutation(({ input }) => eventStore.push(input.event)),
+
+  remove: protectedProcedure
+    .input(z.object({ eventId: z.string() }))
+    .mutation(({ input }) => eventStore.remove(input.eventId)),
+});
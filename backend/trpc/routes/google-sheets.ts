@@ -0,0 +1,67 @@
+import * as z from "zod";
+
+import { createTRPCRouter, protectedProcedure, publicProcedure } from "../create-context";
+import { getServiceAccountEmail } from "../../google/service-account";
+import { exportToGoogleSheets, extractSpreadsheetId, syncToGoogleSheets } from "../../google/sheets-export";
+import { productSchema, productTypeSchema, transactionSchema } from "../../sync/schemas";
+
+const currencySchema = z.enum(["USD", "EUR", "GBP"]);
+
+// The slice of the app's export data the sheets are built from
+export const exportDataSchema = z.object({
+  userName: z.string(),
+  eventName: z.string(),
+  transactions: z.array(transactionSchema),
+  products: z.array(productSchema),
+  productTypes: z.array(productTypeSchema).optional(),
+  settings: z.looseObject({ currency: currencySchema }),
+  exchangeRates: z.looseObject({ USD: z.number(), EUR: z.number(), GBP: z.number() }),
+});
+
+export const googleSheetsRouter = createTRPCRouter({
+  // Users share their Drive folder with this address so exports can be filed there
+  serviceAccountEmail: publicProcedure.query(() => ({ email: getServiceAccountEmail() })),
+
+  // Only paired devices may make the service account write to a spreadsheet
+  export: protectedProcedure
+    .input(z.object({
+      data: exportDataSchema,
+      folderId: z.string().optional(),
+      folderLink: z.string().optional(),
+      shareWithEmail: z.string().email().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      console.log("📊 Starting Google Sheets export for event:", input.data.eventName);
+
+      try {
+        const { data, ...options } = input;
+        const spreadsheet = await exportToGoogleSheets(data, options);
+        return { success: true, ...spreadsheet };
+      } catch (error) {
+        console.error("❌ Error exporting to Google Sheets:", error);
+        throw error;
+      }
+    }),
+
+  // Incremental mode: the client keeps the bound spreadsheet id and the synced transaction ids per event
+  sync: protectedProcedure
+    .input(z.object({
+      data: exportDataSchema,
+      spreadsheet: z.string().optional(), // Spreadsheet id or link; omitted on the first sync
+      syncedTransactionIds: z.array(z.string()).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const spreadsheetId = input.spreadsheet ? extractSpreadsheetId(input.spreadsheet) : undefined;
+      if (input.spreadsheet && !spreadsheetId) {
+        throw new Error("That does not look like a Google Sheets link or spreadsheet id");
+      }
+
+      console.log("🔄 Syncing event to Google Sheets:", input.data.eventName, spreadsheetId ?? "(new spreadsheet)");
+      try {
+        return await syncToGoogleSheets(input.data, spreadsheetId ?? undefined, input.syncedTransactionIds ?? []);
+      } catch (error) {
+        console.error("❌ Error syncing to Google Sheets:", error);
+        throw error;
+      }
+    }),
+});
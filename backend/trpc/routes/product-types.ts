@@ -0,0 +1,4 @@
+import { createEventRecordRouter } from "./event-records";
+import { productTypeSchema } from "../../sync/schemas";
+
+export const productTypesRouter = createEventRecordRouter("product_types", productTypeSchema);
@@ -0,0 +1,4 @@
+import { createEventRecordRouter } from "./event-records";
+import { productSchema } from "../../sync/schemas";
+
+export const productsRouter = createEventRecordRouter("products", productSchema);
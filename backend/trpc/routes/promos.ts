@@ -0,0 +1,4 @@
+import { createEventRecordRouter } from "./event-records";
+import { promoSchema } from "../../sync/schemas";
+
+export const promosRouter = createEventRecordRouter("promos", promoSchema);
@@ -0,0 +1,28 @@
+import * as z from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "../create-context";
+import { sendReceiptEmail } from "../../receipts/send-receipt";
+import { transactionSchema } from "../../sync/schemas";
+
+export const receiptsRouter = createTRPCRouter({
+  // Only paired devices may send mail, so the endpoint cannot be used to relay spam
+  send: protectedProcedure
+    .input(z.object({
+      email: z.string().email(),
+      transaction: transactionSchema,
+      eventName: z.string().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      console.log(`📧 Sending receipt for transaction ${input.transaction.id} to:`, input.email);
+
+      try {
+        const { messageId } = await sendReceiptEmail(input.email, input.transaction, { eventName: input.eventName });
+
+        console.log("✅ Receipt email sent:", messageId);
+        return { success: true, messageId };
+      } catch (error) {
+        console.error("❌ Error sending receipt email:", error);
+        throw error;
+      }
+    }),
+});
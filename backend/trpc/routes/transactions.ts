@@ -0,0 +1,5 @@
+import { createEventRecordRouter } from "./event-records";
+import { transactionSchema } from "../../sync/schemas";
+
+// Transactions merge by id, so re-pushing a sale from a flaky connection never duplicates it
+export const transactionsRouter = createEventRecordRouter("transactions", transactionSchema);
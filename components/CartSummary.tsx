@@ -1,22 +1,48 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { StyleSheet, Text, View, TouchableOpacity, Modal, Pressable, TextInput, KeyboardAvoidingView, Platform, ScrollView, Alert, Keyboard } from 'react-native';
-import { CreditCard, Smartphone, Banknote, X, Check, Edit3 } from 'lucide-react-native';
+import { CreditCard, Smartphone, Banknote, X, Check, Edit3, Split, Plus, Trash2, Mail } from 'lucide-react-native';
 import { useSales } from '@/hooks/sales-store';
 import { useAuth } from '@/hooks/auth-store';
 import { CURRENCIES } from '@/constants/products';
-import { PaymentMethod } from '@/types/sales';
+import { CashTender, Currency, PaymentLeg, PaymentMethod } from '@/types/sales';
+import { calculateChange, getQuickTenderAmounts } from '@/lib/cash-drawer';
 import { databaseService } from '@/hooks/database';
+import { assertSyncPaired } from '@/hooks/event-sync';
+import { trpc } from '@/lib/trpc';
+import { buildReceiptRequest, isEmailAddress } from '@/lib/receipts';
+import { totalOverrideNeedsApproval } from '@/lib/override-approval';
+import OverrideApprovalModal from '@/components/OverrideApprovalModal';
+
+interface SplitLegDraft {
+  method: PaymentMethod;
+  currency: Currency;
+  amount: string; // Ignored for the last leg, which always takes the remainder
+}
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  qr: 'QR',
+};
 
 export default function CartSummary() {
-  const { cart, displayCurrency, setDisplayCurrency, completeTransaction, clearCart, settings, updateTotalOverride, clearTotalOverride, overrideTotal, totals, getEffectiveRate, productTypes, promos, currentEventId } = useSales();
+  const { cart, displayCurrency, setDisplayCurrency, completeTransaction, clearCart, settings, updateTotalOverride, clearTotalOverride, overrideTotal, totals, getEffectiveRate, convertAmount, productTypes, currentEventId, can } = useSales();
   const { currentEvent } = useAuth();
   const [showPayment, setShowPayment] = useState(false);
+  const [showSplit, setShowSplit] = useState(false);
+  const [splitLegs, setSplitLegs] = useState<SplitLegDraft[]>([]);
+  const [showCash, setShowCash] = useState(false);
+  const [tenderCurrency, setTenderCurrency] = useState<Currency>('USD');
+  const [tenderedInput, setTenderedInput] = useState('');
   const [showSuccess, setShowSuccess] = useState(false);
   const [email, setEmail] = useState('');
+  const [emailReceipt, setEmailReceipt] = useState(false);
   const [showTotalModal, setShowTotalModal] = useState(false);
   const [editTotal, setEditTotal] = useState('');
+  const [pendingTotal, setPendingTotal] = useState<number | null>(null); // Main currency, awaiting approval
   const [isLocked, setIsLocked] = useState(false);
   const scrollViewRef = useRef<ScrollView>(null);
+  const sendReceipt = trpc.receipts.send.useMutation();
 
   const [keyboardVisible, setKeyboardVisible] = useState(false);
   const notesInputRef = useRef<TextInput>(null);
@@ -52,87 +78,20 @@ export default function CartSummary() {
   const currencyConfig = CURRENCIES[displayCurrency];
   const hasItems = cart.length > 0;
   
+  // Type subtotals come from the same pricing engine as the total
   const typeSubtotals = useMemo(() => {
-    const mainCurrency = settings.currency;
-    const mainCurrencyRate = getEffectiveRate(mainCurrency);
-    const displayCurrencyRate = getEffectiveRate(displayCurrency);
-    const conversionRate = displayCurrencyRate / mainCurrencyRate;
-    
     const sortedTypes = [...productTypes].filter(t => t.enabled).sort((a, b) => a.order - b.order);
     
     return sortedTypes.map(type => {
-      const typeItems = cart.filter(item => item.product.typeId === type.id);
-      
-      // Check if there's a Type List promo for this type
-      const typeListPromo = promos.find(p => p.mode === 'type_list' && p.typeId === type.id);
-      
-      // Separate eligible and non-eligible items
-      const promoEligibleItems = typeItems.filter(item => item.product.promoEligible);
-      const nonEligibleItems = typeItems.filter(item => !item.product.promoEligible);
-      
-      // Calculate natural price for non-eligible items
-      const nonEligibleSubtotal = nonEligibleItems.reduce((sum, item) => {
-        const effectivePrice = item.overridePrice !== undefined ? item.overridePrice : item.product.price;
-        return sum + (effectivePrice * item.quantity);
-      }, 0);
-      
-      // Calculate promo or natural price for eligible items
-      let eligibleSubtotal = 0;
-      
-      if (typeListPromo && promoEligibleItems.length > 0) {
-        const promoQuantity = promoEligibleItems.reduce((sum, item) => sum + item.quantity, 0);
-        
-        if (promoQuantity >= 2) {
-          if (promoQuantity <= typeListPromo.maxQuantity) {
-            // Use promo price from table
-            if (typeListPromo.prices[promoQuantity]) {
-              eligibleSubtotal = typeListPromo.prices[promoQuantity];
-            }
-          } else {
-            // Use incremental pricing
-            const basePrice = typeListPromo.prices[typeListPromo.maxQuantity] || 0;
-            const extraQuantity = promoQuantity - typeListPromo.maxQuantity;
-            
-            if (extraQuantity < 6 && typeListPromo.incrementalPrice !== undefined) {
-              // First 5 extra (quantities 5-9), use +4 pricing
-              eligibleSubtotal = basePrice + (extraQuantity * typeListPromo.incrementalPrice);
-            } else if (extraQuantity >= 6 && typeListPromo.incrementalPrice !== undefined && typeListPromo.incrementalPrice10Plus !== undefined) {
-              // From quantity 10+, first 5 use +4, then +10 kicks in
-              eligibleSubtotal = basePrice + (5 * typeListPromo.incrementalPrice) + ((extraQuantity - 5) * typeListPromo.incrementalPrice10Plus);
-            }
-          }
-        } else {
-          // Less than 2 eligible items, use natural price
-          eligibleSubtotal = promoEligibleItems.reduce((sum, item) => {
-            const effectivePrice = item.overridePrice !== undefined ? item.overridePrice : item.product.price;
-            return sum + (effectivePrice * item.quantity);
-          }, 0);
-        }
-      } else {
-        // No promo or no eligible items, use natural price
-        eligibleSubtotal = promoEligibleItems.reduce((sum, item) => {
-          const effectivePrice = item.overridePrice !== undefined ? item.overridePrice : item.product.price;
-          return sum + (effectivePrice * item.quantity);
-        }, 0);
-      }
-      
-      // Total for this type = eligible subtotal + non-eligible subtotal
-      const promoSubtotal = eligibleSubtotal + nonEligibleSubtotal;
-      
-      let convertedPromoSubtotal = displayCurrency === mainCurrency ? promoSubtotal : promoSubtotal * conversionRate;
-      
-      if (settings.currencyRoundUp && displayCurrency !== mainCurrency) {
-        convertedPromoSubtotal = Math.ceil(convertedPromoSubtotal);
-      }
-      
+      const typeTotals = totals.typeSubtotals.find(t => t.typeId === type.id);
       return {
         type,
-        subtotal: convertedPromoSubtotal,
-        hasPromo: typeListPromo !== undefined,
-        promoName: typeListPromo?.name
+        subtotal: typeTotals?.subtotal || 0,
+        hasPromo: typeTotals?.promoName !== undefined,
+        promoName: typeTotals?.promoName
       };
     });
-  }, [cart, productTypes, settings.currency, displayCurrency, settings.currencyRoundUp, getEffectiveRate, promos]);
+  }, [productTypes, totals.typeSubtotals]);
 
   React.useEffect(() => {
     const checkLockStatus = async () => {
@@ -166,23 +125,147 @@ export default function CartSummary() {
   const canUseQR = displayCurrency === settings.currency;
   const canUseCard = displayCurrency === 'EUR';
 
-  const handlePayment = async (method: PaymentMethod) => {
+  const handlePayment = async (method: PaymentMethod, payments?: PaymentLeg[], cashTender?: CashTender) => {
     try {
-      await completeTransaction(method, email);
+      const transaction = await completeTransaction(method, email, payments, cashTender);
       setShowPayment(false);
+      setShowSplit(false);
+      setShowCash(false);
       setShowSuccess(true);
       setEmail('');
+      setEmailReceipt(false);
+
+      // The sale is already saved; a failed email only needs re-sending from History
+      if (transaction && emailReceipt && isEmailAddress(transaction.email)) {
+        assertSyncPaired()
+          .then(() => sendReceipt.mutateAsync(buildReceiptRequest(transaction.email!, transaction, currentEvent?.eventName)))
+          .catch(error => {
+            console.error('❌ Failed to send receipt:', error);
+            Alert.alert('Receipt Not Sent', 'The sale was saved, but the receipt email failed. You can re-send it from History.');
+          });
+      }
       setTimeout(() => setShowSuccess(false), 2000);
     } catch (error: any) {
       setShowPayment(false);
+      setShowSplit(false);
+      setShowCash(false);
       Alert.alert('Cannot Complete Transaction', error?.message || 'This event is locked.');
     }
   };
+
+  // Card legs are always charged in EUR and QR legs in the main currency; cash can be any currency
+  const getLegCurrency = (method: PaymentMethod, currency: Currency): Currency => {
+    if (method === 'card') return 'EUR';
+    if (method === 'qr') return settings.currency;
+    return currency;
+  };
+
+  const handleOpenSplit = () => {
+    setSplitLegs([
+      { method: 'cash', currency: displayCurrency, amount: '' },
+      { method: 'card', currency: 'EUR', amount: '' },
+    ]);
+    setShowPayment(false);
+    setShowSplit(true);
+  };
+
+  const updateSplitLeg = (index: number, updates: Partial<SplitLegDraft>) => {
+    setSplitLegs(current => current.map((leg, i) => {
+      if (i !== index) return leg;
+      const next = { ...leg, ...updates };
+      return { ...next, currency: getLegCurrency(next.method, next.currency) };
+    }));
+  };
+
+  const cycleLegCurrency = (index: number) => {
+    const leg = splitLegs[index];
+    if (leg.method !== 'cash') return;
+    const codes = sortedCurrencies.map(([code]) => code as Currency);
+    const nextCurrency = codes[(codes.indexOf(leg.currency) + 1) % codes.length];
+    updateSplitLeg(index, { currency: nextCurrency });
+  };
+
+  // Every leg but the last is entered by hand; the last one covers whatever is left
+  const splitSummary = useMemo(() => {
+    const legs: PaymentLeg[] = splitLegs.slice(0, -1).map(draft => {
+      const amount = parseFloat(draft.amount) || 0;
+      return {
+        method: draft.method,
+        currency: draft.currency,
+        amount,
+        baseAmount: convertAmount(amount, draft.currency, displayCurrency)
+      };
+    });
+    const covered = legs.reduce((sum, leg) => sum + leg.baseAmount, 0);
+    const remaining = totals.total - covered;
+
+    const last = splitLegs[splitLegs.length - 1];
+    if (last) {
+      legs.push({
+        method: last.method,
+        currency: last.currency,
+        amount: Math.round(convertAmount(remaining, displayCurrency, last.currency) * 100) / 100,
+        baseAmount: remaining
+      });
+    }
+
+    const isValid = legs.length > 1 && legs.every(leg => leg.amount > 0);
+    return { legs, remaining, isValid };
+  }, [splitLegs, totals.total, displayCurrency, convertAmount]);
+
+  const handleConfirmSplit = () => {
+    if (!splitSummary.isValid) {
+      Alert.alert('Check Amounts', 'Every payment needs an amount, and together they must not exceed the total.');
+      return;
+    }
+    handlePayment(splitSummary.legs[0].method, splitSummary.legs);
+  };
   
+  const handleOpenCash = () => {
+    setTenderCurrency(displayCurrency);
+    setTenderedInput('');
+    setShowPayment(false);
+    setShowCash(true);
+  };
+
+  // Amount due in the currency the customer pays with, rounded the same way as displayed totals
+  const cashSummary = useMemo(() => {
+    const converted = convertAmount(totals.total, displayCurrency, tenderCurrency);
+    const due = tenderCurrency === displayCurrency
+      ? totals.total
+      : settings.currencyRoundUp && tenderCurrency !== settings.currency
+        ? Math.ceil(converted)
+        : Math.round(converted * 100) / 100;
+    // Leaving the field empty means the customer paid the exact amount
+    const tendered = tenderedInput.trim() ? parseFloat(tenderedInput) || 0 : due;
+    return {
+      due,
+      tendered,
+      change: calculateChange(due, tendered),
+      quickAmounts: getQuickTenderAmounts(due)
+    };
+  }, [totals.total, displayCurrency, tenderCurrency, tenderedInput, settings.currencyRoundUp, settings.currency, convertAmount]);
+
+  const handleConfirmCash = () => {
+    if (cashSummary.change < 0) {
+      Alert.alert('Not Enough Cash', 'The amount tendered is less than the amount due.');
+      return;
+    }
+    handlePayment('cash', undefined, {
+      currency: tenderCurrency,
+      tendered: cashSummary.tendered,
+      change: cashSummary.change
+    });
+  };
+
   const handleTotalDoublePress = () => {
     if (isLocked || totals.total <= 0) {
       return;
     }
+    if (!can('price.override')) {
+      Alert.alert('Not Allowed', 'You do not have permission to override the total.');
+      return;
+    }
     setEditTotal(totals.total.toFixed(2));
     setShowTotalModal(true);
   };
@@ -196,7 +279,11 @@ export default function CartSummary() {
       const displayCurrencyRate = getEffectiveRate(displayCurrency);
       const conversionRate = displayCurrency === mainCurrency ? 1 : displayCurrencyRate / mainCurrencyRate;
       const totalInMainCurrency = displayCurrency === mainCurrency ? newTotal : newTotal / conversionRate;
-      updateTotalOverride(totalInMainCurrency);
+      if (totalOverrideNeedsApproval(settings.overrideApproval, cart, totalInMainCurrency)) {
+        setPendingTotal(totalInMainCurrency);
+      } else {
+        updateTotalOverride(totalInMainCurrency);
+      }
     }
     setShowTotalModal(false);
   };
@@ -314,6 +401,15 @@ export default function CartSummary() {
               }}
             />
           </View>
+          {isEmailAddress(email) && (
+            <TouchableOpacity style={styles.receiptToggle} onPress={() => setEmailReceipt(current => !current)}>
+              <View style={[styles.receiptCheckbox, emailReceipt && styles.receiptCheckboxActive]}>
+                {emailReceipt && <Check size={14} color="#fff" />}
+              </View>
+              <Mail size={16} color="#666" />
+              <Text style={styles.receiptToggleText}>Email receipt to this address</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
           <View style={styles.actions}>
@@ -369,7 +465,7 @@ export default function CartSummary() {
             
             <TouchableOpacity 
               style={styles.paymentOption}
-              onPress={() => handlePayment('cash')}
+              onPress={handleOpenCash}
             >
               <Banknote size={32} color="#4CAF50" />
               <Text style={styles.paymentOptionText}>Cash</Text>
@@ -394,10 +490,196 @@ export default function CartSummary() {
               <Text style={[styles.paymentOptionText, !canUseQR && styles.paymentOptionTextDisabled]}>QR Code</Text>
               {!canUseQR && <Text style={styles.disabledReasonText}>({settings.currency} only)</Text>}
             </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.paymentOption}
+              onPress={handleOpenSplit}
+            >
+              <Split size={32} color="#FF9500" />
+              <Text style={styles.paymentOptionText}>Split Payment</Text>
+            </TouchableOpacity>
           </View>
         </Pressable>
       </Modal>
 
+      {/* Cash Tender Modal */}
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={showCash}
+        onRequestClose={() => setShowCash(false)}
+      >
+        <KeyboardAvoidingView 
+          style={styles.modalOverlay} 
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={styles.paymentModal}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Cash Payment</Text>
+              <TouchableOpacity onPress={() => setShowCash(false)}>
+                <X size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.paymentTotal}>
+              Due: {CURRENCIES[tenderCurrency].symbol}{cashSummary.due.toFixed(2)}
+            </Text>
+
+            <View style={styles.tenderCurrencies}>
+              {sortedCurrencies.map(([code, config]) => (
+                <TouchableOpacity
+                  key={code}
+                  style={[styles.splitMethodButton, tenderCurrency === code && styles.splitMethodButtonActive]}
+                  onPress={() => {
+                    setTenderCurrency(code as Currency);
+                    setTenderedInput('');
+                  }}
+                >
+                  <Text style={[styles.splitMethodText, tenderCurrency === code && styles.splitMethodTextActive]}>
+                    {config.symbol} {code}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.splitLegRow}>
+              <Text style={styles.tenderLabel}>Tendered</Text>
+              <TextInput
+                style={styles.splitAmountInput}
+                value={tenderedInput}
+                onChangeText={setTenderedInput}
+                keyboardType="numeric"
+                placeholder={cashSummary.due.toFixed(2)}
+                selectTextOnFocus
+              />
+            </View>
+
+            <View style={styles.quickTenderRow}>
+              {cashSummary.quickAmounts.map((amount, index) => (
+                <TouchableOpacity
+                  key={amount}
+                  style={styles.quickTenderButton}
+                  onPress={() => setTenderedInput(index === 0 ? amount.toFixed(2) : amount.toString())}
+                >
+                  <Text style={styles.quickTenderText}>
+                    {index === 0 ? 'Exact' : `${CURRENCIES[tenderCurrency].symbol}${amount}`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.changeRow}>
+              <Text style={styles.tenderLabel}>Change</Text>
+              <Text style={[styles.changeValue, cashSummary.change < 0 && styles.splitAmountInvalid]}>
+                {CURRENCIES[tenderCurrency].symbol}{Math.max(0, cashSummary.change).toFixed(2)}
+              </Text>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, cashSummary.change < 0 && styles.buttonDisabled]}
+              onPress={handleConfirmCash}
+            >
+              <Check size={20} color="#fff" />
+              <Text style={styles.saveButtonText}>Complete Cash Payment</Text>
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Split Payment Modal */}
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={showSplit}
+        onRequestClose={() => setShowSplit(false)}
+      >
+        <KeyboardAvoidingView 
+          style={styles.modalOverlay} 
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={styles.paymentModal}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Split Payment</Text>
+              <TouchableOpacity onPress={() => setShowSplit(false)}>
+                <X size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.paymentTotal}>
+              Total: {currencyConfig.symbol}{settings.currencyRoundUp && displayCurrency !== settings.currency ? totals.total.toFixed(0) : totals.total.toFixed(2)}
+            </Text>
+
+            {splitLegs.map((leg, index) => {
+              const isLast = index === splitLegs.length - 1;
+              const legSummary = splitSummary.legs[index];
+              return (
+                <View key={index} style={styles.splitLegRow}>
+                  <View style={styles.splitMethods}>
+                    {(['cash', 'card', 'qr'] as PaymentMethod[]).map(method => (
+                      <TouchableOpacity
+                        key={method}
+                        style={[styles.splitMethodButton, leg.method === method && styles.splitMethodButtonActive]}
+                        onPress={() => updateSplitLeg(index, { method })}
+                      >
+                        <Text style={[styles.splitMethodText, leg.method === method && styles.splitMethodTextActive]}>
+                          {PAYMENT_METHOD_LABELS[method]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <TouchableOpacity
+                    style={styles.splitCurrencyButton}
+                    onPress={() => cycleLegCurrency(index)}
+                    disabled={leg.method !== 'cash'}
+                  >
+                    <Text style={styles.splitCurrencyText}>{CURRENCIES[leg.currency].symbol} {leg.currency}</Text>
+                  </TouchableOpacity>
+                  {isLast ? (
+                    <Text style={[styles.splitAmountRemainder, legSummary && legSummary.amount <= 0 && styles.splitAmountInvalid]}>
+                      {legSummary ? legSummary.amount.toFixed(2) : '0.00'}
+                    </Text>
+                  ) : (
+                    <TextInput
+                      style={styles.splitAmountInput}
+                      value={leg.amount}
+                      onChangeText={amount => updateSplitLeg(index, { amount })}
+                      keyboardType="numeric"
+                      placeholder="0.00"
+                      selectTextOnFocus
+                    />
+                  )}
+                  {splitLegs.length > 2 && (
+                    <TouchableOpacity onPress={() => setSplitLegs(current => current.filter((_, i) => i !== index))}>
+                      <Trash2 size={18} color="#FF3B30" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+
+            <TouchableOpacity
+              style={styles.splitAddButton}
+              onPress={() => setSplitLegs(current => [
+                ...current.slice(0, -1),
+                { method: 'cash', currency: displayCurrency, amount: '' },
+                current[current.length - 1]
+              ])}
+            >
+              <Plus size={16} color="#2196F3" />
+              <Text style={styles.splitAddText}>Add Payment</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.saveButton, !splitSummary.isValid && styles.buttonDisabled]}
+              onPress={handleConfirmSplit}
+            >
+              <Check size={20} color="#fff" />
+              <Text style={styles.saveButtonText}>Complete Split Payment</Text>
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
       {/* Success Modal */}
       <Modal
         animationType="fade"
@@ -469,8 +751,20 @@ export default function CartSummary() {
           </Pressable>
         </KeyboardAvoidingView>
       </Modal>
-      
 
+      {pendingTotal !== null && (
+        <OverrideApprovalModal
+          visible
+          kind="total"
+          amount={pendingTotal}
+          description={`Total of ${currencyConfig.symbol}${parseFloat(editTotal).toFixed(2)} instead of ${currencyConfig.symbol}${totals.total.toFixed(2)}`}
+          onApprove={(approval) => {
+            updateTotalOverride(pendingTotal, approval);
+            setPendingTotal(null);
+          }}
+          onClose={() => setPendingTotal(null)}
+        />
+      )}
     </>
   );
 }
@@ -690,6 +984,28 @@ const styles = StyleSheet.create({
   emailIcon: {
     marginRight: 8,
   },
+  receiptToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingTop: 8,
+  },
+  receiptCheckbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: '#4CAF50',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  receiptCheckboxActive: {
+    backgroundColor: '#4CAF50',
+  },
+  receiptToggleText: {
+    fontSize: 14,
+    color: '#666',
+  },
   emailInput: {
     flex: 1,
     fontSize: 16,
@@ -856,4 +1172,121 @@ const styles = StyleSheet.create({
   disabledText: {
     color: '#ccc',
   },
-});
\ No newline at end of file
+  splitLegRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  splitMethods: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  splitMethodButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+  },
+  splitMethodButtonActive: {
+    backgroundColor: '#2196F3',
+    borderColor: '#2196F3',
+  },
+  splitMethodText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#333',
+  },
+  splitMethodTextActive: {
+    color: 'white',
+  },
+  splitCurrencyButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  splitCurrencyText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+  },
+  splitAmountInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  splitAmountRemainder: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'right',
+    color: '#4CAF50',
+    paddingHorizontal: 8,
+  },
+  splitAmountInvalid: {
+    color: '#FF3B30',
+  },
+  splitAddButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    marginBottom: 16,
+  },
+  splitAddText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
+  tenderCurrencies: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  tenderLabel: {
+    width: 80,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  quickTenderRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  quickTenderButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#E8F5E9',
+    alignItems: 'center',
+  },
+  quickTenderText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  changeValue: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: 'bold',
+    textAlign: 'right',
+    color: '#4CAF50',
+  },
+});
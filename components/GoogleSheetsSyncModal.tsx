@@ -0,0 +1,320 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+  ScrollView,
+  Pressable,
+  TextInput,
+  Linking,
+} from 'react-native';
+import { X, Check, Sheet, AlertCircle, RefreshCw, ExternalLink, Unlink } from 'lucide-react-native';
+import { getServiceAccountEmail, syncEventToGoogleSheets } from '@/hooks/google-sheets-export';
+import { databaseService } from '@/hooks/database';
+import { ExportData } from '@/lib/sheet-data';
+import { SheetsSyncState } from '@/types/sales';
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  eventId: string;
+  exportData: ExportData;
+}
+
+export default function GoogleSheetsSyncModal({ visible, onClose, eventId, exportData }: Props) {
+  const [syncState, setSyncState] = useState<SheetsSyncState | null>(null);
+  const [serviceAccountEmail, setServiceAccountEmail] = useState<string | null>(null);
+  const [spreadsheetLink, setSpreadsheetLink] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setResult(null);
+    setSpreadsheetLink('');
+    databaseService.getSheetsSyncState(eventId).then(setSyncState).catch(() => setSyncState(null));
+    getServiceAccountEmail().then(setServiceAccountEmail);
+  }, [visible, eventId]);
+
+  const syncedIds = new Set(syncState?.syncedTransactionIds ?? []);
+  const pendingCount = exportData.transactions.filter(t => !syncedIds.has(t.id)).length;
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    setResult(null);
+
+    const syncResult = await syncEventToGoogleSheets(eventId, exportData, spreadsheetLink.trim() || undefined);
+    if (syncResult.success && syncResult.state) {
+      setSyncState(syncResult.state);
+      setSpreadsheetLink('');
+      setResult({
+        success: true,
+        message: `Synced ${syncResult.appended} new transaction${syncResult.appended === 1 ? '' : 's'}`,
+      });
+    } else {
+      setResult({ success: false, message: syncResult.error || 'Sync failed' });
+    }
+    setIsSyncing(false);
+  };
+
+  const handleUnbind = async () => {
+    await databaseService.clearSheetsSyncState(eventId);
+    setSyncState(null);
+    setResult(null);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.container} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <View style={styles.headerTitle}>
+              <Sheet size={24} color="#34A853" />
+              <Text style={styles.title}>Google Sheets Sync</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            {syncState ? (
+              <View style={styles.boundBox}>
+                <Text style={styles.boundLabel}>Bound spreadsheet</Text>
+                <TouchableOpacity style={styles.linkRow} onPress={() => Linking.openURL(syncState.spreadsheetUrl)}>
+                  <ExternalLink size={16} color="#1a73e8" />
+                  <Text style={styles.linkText} numberOfLines={1}>{syncState.spreadsheetUrl}</Text>
+                </TouchableOpacity>
+                <Text style={styles.metaText}>
+                  Last synced {syncState.lastSyncedAt.toLocaleString()} · {pendingCount} new transaction{pendingCount === 1 ? '' : 's'} to send
+                </Text>
+                <TouchableOpacity style={styles.unbindButton} onPress={handleUnbind} disabled={isSyncing}>
+                  <Unlink size={14} color="#c5221f" />
+                  <Text style={styles.unbindText}>Unbind</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.instructionBox}>
+                <Text style={styles.instructionText}>
+                  Bind this event to one spreadsheet. Each sync appends only the new sales to the Registry sheet and refreshes the summary sheets.
+                  Leave the link empty to create a new spreadsheet.
+                </Text>
+                {serviceAccountEmail && (
+                  <Text style={styles.metaText}>
+                    To use your own spreadsheet, share it with {serviceAccountEmail} as an editor.
+                  </Text>
+                )}
+              </View>
+            )}
+
+            <TextInput
+              style={styles.input}
+              value={spreadsheetLink}
+              onChangeText={setSpreadsheetLink}
+              placeholder={syncState ? 'Bind a different spreadsheet (link or id)' : 'Spreadsheet link or id (optional)'}
+              placeholderTextColor="#999"
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isSyncing}
+            />
+
+            {result && (
+              <View style={[
+                styles.resultBox,
+                result.success ? styles.resultSuccess : styles.resultError
+              ]}>
+                {result.success ? (
+                  <>
+                    <Check size={20} color="#34A853" />
+                    <Text style={styles.resultSuccessText}>{result.message}</Text>
+                  </>
+                ) : (
+                  <>
+                    <AlertCircle size={20} color="#dc3545" />
+                    <Text style={styles.resultErrorText}>{result.message}</Text>
+                  </>
+                )}
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.syncButton,
+                isSyncing && styles.syncButtonDisabled
+              ]}
+              onPress={handleSync}
+              disabled={isSyncing}
+            >
+              {isSyncing ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <>
+                  <RefreshCw size={20} color="white" />
+                  <Text style={styles.syncButtonText}>{syncState ? 'Sync Now' : 'Bind & Sync'}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+    ...Platform.select({
+      web: {
+        maxWidth: 500,
+        alignSelf: 'center' as const,
+        width: '100%',
+        marginBottom: 0,
+      },
+    }),
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 16,
+  },
+  instructionBox: {
+    backgroundColor: '#f0f9ff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 8,
+  },
+  instructionText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  boundBox: {
+    backgroundColor: '#e6f4ea',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 6,
+  },
+  boundLabel: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: '#137333',
+    textTransform: 'uppercase' as const,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1a73e8',
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  unbindButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: 4,
+  },
+  unbindText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: '#c5221f',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 16,
+  },
+  resultBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+    gap: 12,
+  },
+  resultSuccess: {
+    backgroundColor: '#e6f4ea',
+  },
+  resultError: {
+    backgroundColor: '#fce8e6',
+  },
+  resultSuccessText: {
+    fontSize: 14,
+    color: '#137333',
+    fontWeight: '500' as const,
+  },
+  resultErrorText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#c5221f',
+  },
+  syncButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#34A853',
+    borderRadius: 12,
+    padding: 16,
+    gap: 10,
+    marginBottom: 20,
+  },
+  syncButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  syncButtonText: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: 'white',
+  },
+});
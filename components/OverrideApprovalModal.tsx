@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { X, Check, ShieldCheck } from 'lucide-react-native';
+import { useSales } from '@/hooks/sales-store';
+import { useAuth } from '@/hooks/auth-store';
+import { databaseService } from '@/hooks/database';
+import { OverrideApproval } from '@/types/sales';
+import { User } from '@/types/auth';
+
+interface Props {
+  visible: boolean;
+  kind: OverrideApproval['kind'];
+  productId?: string;
+  amount: number; // The override being approved, in the main currency
+  description: string;
+  onApprove: (approval: OverrideApproval) => void;
+  onClose: () => void;
+}
+
+const approverName = (user: User) => user.fullName || user.username;
+
+export default function OverrideApprovalModal({ visible, kind, productId, amount, description, onApprove, onClose }: Props) {
+  const { currentEventId, can } = useSales();
+  const { currentUser } = useAuth();
+  const [approvers, setApprovers] = useState<User[]>([]);
+  const [approverId, setApproverId] = useState<string | null>(null);
+  const [pin, setPin] = useState('');
+  const [reason, setReason] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  // Supervisors sign off their own overrides without a PIN
+  const isSelfApproval = can('override.approve');
+
+  useEffect(() => {
+    if (!visible) return;
+    setPin('');
+    setReason('');
+    setApproverId(null);
+    if (isSelfApproval || !currentEventId) return;
+
+    databaseService.listOverrideApprovers(currentEventId)
+      .then(users => {
+        setApprovers(users);
+        if (users.length === 1) setApproverId(users[0].id);
+      })
+      .catch(error => console.error('❌ Failed to load approvers:', error));
+  }, [visible, isSelfApproval, currentEventId]);
+
+  const handleApprove = async () => {
+    if (!reason.trim()) {
+      Alert.alert('Reason Required', 'Enter a reason for this override.');
+      return;
+    }
+
+    if (isSelfApproval) {
+      if (!currentUser) return;
+      onApprove({ kind, productId, amount, approverId: currentUser.id, approverName: approverName(currentUser), reason: reason.trim() });
+      return;
+    }
+
+    const approver = approvers.find(user => user.id === approverId);
+    if (!approver || !currentEventId) {
+      Alert.alert('Approver Required', 'Choose the supervisor approving this override.');
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const check = await databaseService.verifyApprovalPin(currentEventId, approver.id, pin, currentUser);
+      if (!check.approved) {
+        setPin('');
+        if (check.lockedUntil) {
+          Alert.alert(
+            'Too Many Attempts',
+            `${approverName(approver)} is locked out after too many wrong PINs. Try again after ${check.lockedUntil.toLocaleTimeString()}.`
+          );
+        } else {
+          Alert.alert(
+            'Incorrect PIN',
+            `The PIN does not match. ${check.attemptsLeft} attempt${check.attemptsLeft === 1 ? '' : 's'} left before ${approverName(approver)} is locked out.`
+          );
+        }
+        return;
+      }
+      onApprove({ kind, productId, amount, approverId: approver.id, approverName: approverName(approver), reason: reason.trim() });
+    } catch (error) {
+      console.error('❌ Failed to verify approval PIN:', error);
+      Alert.alert('Error', 'Could not verify the PIN');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const hasNoApprovers = !isSelfApproval && approvers.length === 0;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.container} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <View style={styles.headerTitle}>
+              <ShieldCheck size={22} color="#FF9800" />
+              <Text style={styles.title}>Approval Required</Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <X size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.description}>{description}</Text>
+
+          {hasNoApprovers ? (
+            <Text style={styles.warningText}>
+              No supervisor has an approval PIN for this event. An admin can set one in Manage Users.
+            </Text>
+          ) : (
+            <>
+              {!isSelfApproval && (
+                <>
+                  <Text style={styles.label}>Approved by</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.approverRow}>
+                    {approvers.map(user => (
+                      <TouchableOpacity
+                        key={user.id}
+                        style={[styles.approverChip, approverId === user.id && styles.approverChipActive]}
+                        onPress={() => setApproverId(user.id)}
+                      >
+                        <Text style={[styles.approverText, approverId === user.id && styles.approverTextActive]}>
+                          {approverName(user)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+
+                  <TextInput
+                    style={styles.input}
+                    value={pin}
+                    onChangeText={setPin}
+                    placeholder="Supervisor PIN"
+                    placeholderTextColor="#999"
+                    keyboardType="number-pad"
+                    secureTextEntry
+                    maxLength={8}
+                    testID="approval-pin-input"
+                  />
+                </>
+              )}
+
+              <TextInput
+                style={styles.input}
+                value={reason}
+                onChangeText={setReason}
+                placeholder="Reason"
+                placeholderTextColor="#999"
+                testID="approval-reason-input"
+              />
+
+              <TouchableOpacity
+                style={[styles.approveButton, isVerifying && styles.approveButtonDisabled]}
+                onPress={handleApprove}
+                disabled={isVerifying}
+                testID="approve-override-button"
+              >
+                {isVerifying ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Check size={20} color="#fff" />
+                )}
+                <Text style={styles.approveButtonText}>Approve</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    minWidth: 300,
+    maxWidth: 400,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  description: {
+    fontSize: 15,
+    color: '#666',
+    marginBottom: 16,
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#F44336',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  approverRow: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  approverChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  approverChipActive: {
+    backgroundColor: '#FF9800',
+  },
+  approverText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  approverTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 12,
+  },
+  approveButton: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#4CAF50',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  approveButtonDisabled: {
+    opacity: 0.6,
+  },
+  approveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
-import { StyleSheet, Text, TouchableOpacity, View, TextInput, Modal, Pressable } from 'react-native';
+import { StyleSheet, Text, TouchableOpacity, View, TextInput, Modal, Pressable, Alert } from 'react-native';
 import { Minus, Plus, X, Check } from 'lucide-react-native';
 import { Product, Currency } from '@/types/sales';
-import { CURRENCIES } from '@/constants/products';
+import { CURRENCIES, LOW_STOCK_THRESHOLD } from '@/constants/products';
 import { useSales } from '@/hooks/sales-store';
+import { priceOverrideNeedsApproval } from '@/lib/override-approval';
+import OverrideApprovalModal from '@/components/OverrideApprovalModal';
 
 interface ProductRowProps {
   product: Product;
@@ -15,9 +17,10 @@ interface ProductRowProps {
 }
 
 export default function ProductRow({ product, quantity, displayCurrency, mainCurrency, onAdd, onRemove }: ProductRowProps) {
-  const { cart, updateCartItemPrice, clearCartItemPriceOverride, settings, getEffectiveRate, getProductTypeById } = useSales();
+  const { cart, updateCartItemPrice, clearCartItemPriceOverride, settings, getEffectiveRate, getProductTypeById, getAvailableStock, can } = useSales();
   const [showPriceModal, setShowPriceModal] = useState(false);
   const [editPrice, setEditPrice] = useState('');
+  const [pendingPrice, setPendingPrice] = useState<number | null>(null); // Main currency, awaiting approval
   
   const displayCurrencyConfig = CURRENCIES[displayCurrency];
   const mainCurrencyRate = getEffectiveRate(mainCurrency as Currency);
@@ -39,7 +42,17 @@ export default function ProductRow({ product, quantity, displayCurrency, mainCur
   
   const productTotal = displayPrice * quantity;
   
+  // Stock is only tracked for products with an initial quantity
+  const availableStock = getAvailableStock(product.id);
+  const isStockTracked = availableStock !== undefined;
+  const isSoldOut = isStockTracked && availableStock === 0;
+  const isLowStock = isStockTracked && !isSoldOut && availableStock <= LOW_STOCK_THRESHOLD;
+  
   const handlePriceDoublePress = () => {
+    if (quantity > 0 && !can('price.override')) {
+      Alert.alert('Not Allowed', 'You do not have permission to override prices.');
+      return;
+    }
     if (quantity > 0) {
       setEditPrice(displayPrice.toFixed(2));
       setShowPriceModal(true);
@@ -51,7 +64,11 @@ export default function ProductRow({ product, quantity, displayCurrency, mainCur
     if (!isNaN(newPrice) && newPrice > 0) {
       // Convert back to main currency if needed
       const priceInMainCurrency = displayCurrency === mainCurrency ? newPrice : newPrice / conversionRate;
-      updateCartItemPrice(product.id, priceInMainCurrency);
+      if (priceOverrideNeedsApproval(settings.overrideApproval, product.price, priceInMainCurrency)) {
+        setPendingPrice(priceInMainCurrency);
+      } else {
+        updateCartItemPrice(product.id, priceInMainCurrency);
+      }
     }
     setShowPriceModal(false);
   };
@@ -75,6 +92,11 @@ export default function ProductRow({ product, quantity, displayCurrency, mainCur
       {/* Product Name */}
       <View style={styles.nameColumn}>
         <Text style={styles.name} numberOfLines={2}>{product.name}</Text>
+        {isStockTracked && (
+          <Text style={[styles.stock, isLowStock && styles.stockLow, isSoldOut && styles.stockSoldOut]}>
+            {isSoldOut ? 'Sold out' : `${availableStock} left`}
+          </Text>
+        )}
       </View>
       
       {/* Unit Price */}
@@ -111,11 +133,12 @@ export default function ProductRow({ product, quantity, displayCurrency, mainCur
         </TouchableOpacity>
         
         <TouchableOpacity 
-          style={[styles.button, styles.addButton]}
+          style={[styles.button, styles.addButton, isSoldOut && styles.disabledButton]}
           onPress={onAdd}
           activeOpacity={0.7}
+          disabled={isSoldOut}
         >
-          <Plus size={16} color="#fff" />
+          <Plus size={16} color={isSoldOut ? '#ccc' : '#fff'} />
         </TouchableOpacity>
       </View>
       
@@ -165,6 +188,21 @@ export default function ProductRow({ product, quantity, displayCurrency, mainCur
           </View>
         </Pressable>
       </Modal>
+
+      {pendingPrice !== null && (
+        <OverrideApprovalModal
+          visible
+          kind="price"
+          productId={product.id}
+          amount={pendingPrice}
+          description={`${product.name} at ${displayCurrencyConfig.symbol}${(pendingPrice * conversionRate).toFixed(2)} instead of ${displayCurrencyConfig.symbol}${(product.price * conversionRate).toFixed(2)}`}
+          onApprove={(approval) => {
+            updateCartItemPrice(product.id, pendingPrice, approval);
+            setPendingPrice(null);
+          }}
+          onClose={() => setPendingPrice(null)}
+        />
+      )}
     </View>
   );
 }
@@ -207,6 +245,19 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#333',
   },
+  stock: {
+    fontSize: 11,
+    color: '#666',
+    marginTop: 2,
+  },
+  stockLow: {
+    color: '#ff9500',
+    fontWeight: '600',
+  },
+  stockSoldOut: {
+    color: '#f44336',
+    fontWeight: 'bold',
+  },
   price: {
     fontSize: 14,
     fontWeight: '600',
@@ -245,6 +296,9 @@ const styles = StyleSheet.create({
   removeButton: {
     backgroundColor: '#f44336',
   },
+  disabledButton: {
+    backgroundColor: '#e0e0e0',
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -0,0 +1,497 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+  ScrollView,
+  Pressable,
+} from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { X, Check, Upload, AlertCircle, FileSpreadsheet } from 'lucide-react-native';
+import { ProductType } from '@/types/sales';
+import {
+  CATALOGUE_FIELDS,
+  CatalogueImportMode,
+  CatalogueSheet,
+  ColumnMapping,
+  ImportedProduct,
+  buildCatalogueImportPreview,
+  guessColumnMapping,
+  readCatalogueSheet,
+} from '@/lib/catalogue-import';
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  productTypes: ProductType[];
+  existingProductCount: number;
+  onImport: (products: ImportedProduct[], mode: CatalogueImportMode) => Promise<boolean>;
+}
+
+const CATALOGUE_MIME_TYPES = [
+  'text/csv',
+  'text/comma-separated-values',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+];
+
+const PREVIEW_ROW_LIMIT = 50;
+
+// Opens the platform file picker and returns the raw file contents
+async function pickCatalogueFile(): Promise<{ name: string; data: ArrayBuffer | Uint8Array } | null> {
+  if (Platform.OS === 'web') {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.csv,.xlsx,.xls';
+      input.onchange = (e: any) => {
+        const file = e.target.files[0];
+        if (!file) {
+          resolve(null);
+          return;
+        }
+        const reader = new FileReader();
+        reader.onload = (event: any) => resolve({ name: file.name, data: event.target.result as ArrayBuffer });
+        reader.onerror = () => reject(new Error('Could not read file'));
+        reader.readAsArrayBuffer(file);
+      };
+      input.click();
+    });
+  }
+
+  const result = await DocumentPicker.getDocumentAsync({
+    type: CATALOGUE_MIME_TYPES,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  return { name: asset.name, data: await new File(asset.uri).bytes() };
+}
+
+export default function ProductImportModal({ visible, onClose, productTypes, existingProductCount, onImport }: Props) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<CatalogueSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [mode, setMode] = useState<CatalogueImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setFileName(null);
+      setSheet(null);
+      setMapping(null);
+      setMode('merge');
+      setError(null);
+    }
+  }, [visible]);
+
+  const preview = useMemo(
+    () => (sheet && mapping ? buildCatalogueImportPreview(sheet, mapping, productTypes) : null),
+    [sheet, mapping, productTypes]
+  );
+
+  const handlePickFile = async () => {
+    setError(null);
+    try {
+      const picked = await pickCatalogueFile();
+      if (!picked) return;
+
+      const parsed = readCatalogueSheet(picked.data);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setError('The file has no data rows. The first row must contain column headers.');
+        return;
+      }
+
+      console.log(`📥 Catalogue file ${picked.name}: ${parsed.rows.length} rows, columns:`, parsed.headers);
+      setFileName(picked.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (err: any) {
+      console.error('❌ Catalogue import error:', err);
+      setError(`Failed to read file: ${err.message || err}`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || preview.validCount === 0) return;
+
+    setIsImporting(true);
+    const products = preview.rows.flatMap(row => (row.product ? [row.product] : []));
+    const imported = await onImport(products, mode);
+    setIsImporting(false);
+
+    if (imported) {
+      onClose();
+    } else {
+      setError('Products could not be imported into this event.');
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.container} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <View style={styles.headerTitle}>
+              <Upload size={24} color="#007AFF" />
+              <Text style={styles.title}>Import Products</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            <TouchableOpacity style={styles.fileButton} onPress={handlePickFile} disabled={isImporting}>
+              <FileSpreadsheet size={20} color="#007AFF" />
+              <Text style={styles.fileButtonText} numberOfLines={1}>
+                {fileName ?? 'Choose CSV or XLSX file'}
+              </Text>
+            </TouchableOpacity>
+
+            {!sheet && (
+              <Text style={styles.hintText}>
+                The first row must hold column headers. Name and price are required; color, type,
+                subgroup, promo eligible and initial quantity are optional. Types that do not exist yet are created.
+              </Text>
+            )}
+
+            {error && (
+              <View style={[styles.resultBox, styles.resultError]}>
+                <AlertCircle size={20} color="#dc3545" />
+                <Text style={styles.resultErrorText}>{error}</Text>
+              </View>
+            )}
+
+            {sheet && mapping && (
+              <>
+                <Text style={styles.sectionLabel}>Columns</Text>
+                {CATALOGUE_FIELDS.map(({ field, label, required }) => (
+                  <View key={field} style={styles.mappingRow}>
+                    <Text style={styles.mappingLabel}>{label}{required ? ' *' : ''}</Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                      {!required && (
+                        <TouchableOpacity
+                          style={[styles.chip, mapping[field] === null && styles.chipSelected]}
+                          onPress={() => setMapping({ ...mapping, [field]: null })}
+                        >
+                          <Text style={[styles.chipText, mapping[field] === null && styles.chipTextSelected]}>None</Text>
+                        </TouchableOpacity>
+                      )}
+                      {sheet.headers.map((header, index) => (
+                        <TouchableOpacity
+                          key={`${field}-${index}`}
+                          style={[styles.chip, mapping[field] === index && styles.chipSelected]}
+                          onPress={() => setMapping({ ...mapping, [field]: index })}
+                        >
+                          <Text style={[styles.chipText, mapping[field] === index && styles.chipTextSelected]}>
+                            {header || `Column ${index + 1}`}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </ScrollView>
+                  </View>
+                ))}
+
+                <Text style={styles.sectionLabel}>Existing products ({existingProductCount})</Text>
+                <View style={styles.modeRow}>
+                  <TouchableOpacity
+                    style={[styles.modeButton, mode === 'merge' && styles.modeButtonSelected]}
+                    onPress={() => setMode('merge')}
+                  >
+                    <Text style={[styles.modeTitle, mode === 'merge' && styles.chipTextSelected]}>Merge</Text>
+                    <Text style={[styles.modeDescription, mode === 'merge' && styles.chipTextSelected]}>
+                      Update matching names, add the rest
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.modeButton, mode === 'replace' && styles.modeButtonSelected]}
+                    onPress={() => setMode('replace')}
+                  >
+                    <Text style={[styles.modeTitle, mode === 'replace' && styles.chipTextSelected]}>Replace</Text>
+                    <Text style={[styles.modeDescription, mode === 'replace' && styles.chipTextSelected]}>
+                      Remove products not in the file
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+
+                {preview && (
+                  <>
+                    <Text style={styles.sectionLabel}>
+                      Preview: {preview.validCount} ready, {preview.errorCount} with errors
+                    </Text>
+                    {preview.newTypeNames.length > 0 && (
+                      <Text style={styles.hintText}>New types: {preview.newTypeNames.join(', ')}</Text>
+                    )}
+                    <View style={styles.previewList}>
+                      {preview.rows.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+                        <View key={row.rowNumber} style={styles.previewRow}>
+                          <Text style={styles.previewRowNumber}>{row.rowNumber}</Text>
+                          {row.product ? (
+                            <>
+                              <View style={[styles.colorDot, { backgroundColor: row.product.color ?? '#007AFF' }]} />
+                              <Text style={styles.previewName} numberOfLines={1}>
+                                {row.product.name}
+                                {row.product.typeName ? <Text style={styles.previewMeta}> · {row.product.typeName}</Text> : null}
+                                {row.product.subgroup ? <Text style={styles.previewMeta}> · {row.product.subgroup}</Text> : null}
+                              </Text>
+                              <Text style={styles.previewPrice}>{row.product.price.toFixed(2)}</Text>
+                            </>
+                          ) : (
+                            <Text style={styles.previewError}>{row.errors.join('; ')}</Text>
+                          )}
+                        </View>
+                      ))}
+                      {preview.rows.length > PREVIEW_ROW_LIMIT && (
+                        <Text style={styles.hintText}>…and {preview.rows.length - PREVIEW_ROW_LIMIT} more rows</Text>
+                      )}
+                    </View>
+                  </>
+                )}
+
+                <TouchableOpacity
+                  style={[
+                    styles.importButton,
+                    (isImporting || !preview || preview.validCount === 0) && styles.importButtonDisabled,
+                  ]}
+                  onPress={handleImport}
+                  disabled={isImporting || !preview || preview.validCount === 0}
+                >
+                  {isImporting ? (
+                    <ActivityIndicator color="white" />
+                  ) : (
+                    <>
+                      <Check size={20} color="white" />
+                      <Text style={styles.importButtonText}>
+                        Import {preview?.validCount ?? 0} Product{preview?.validCount === 1 ? '' : 's'}
+                      </Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+    ...Platform.select({
+      web: {
+        maxWidth: 600,
+        alignSelf: 'center' as const,
+        width: '100%',
+        marginBottom: 0,
+      },
+    }),
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 16,
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#007AFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  fileButtonText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500' as const,
+    color: '#007AFF',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  mappingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  mappingLabel: {
+    width: 110,
+    fontSize: 13,
+    color: '#333',
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#f0f0f0',
+    marginRight: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  modeButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#f0f0f0',
+  },
+  modeButtonSelected: {
+    backgroundColor: '#007AFF',
+  },
+  modeTitle: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: '#333',
+  },
+  modeDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  previewList: {
+    borderWidth: 1,
+    borderColor: '#eee',
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f5f5f5',
+  },
+  previewRowNumber: {
+    width: 28,
+    fontSize: 12,
+    color: '#999',
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  previewName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  previewMeta: {
+    fontSize: 12,
+    color: '#999',
+  },
+  previewPrice: {
+    fontSize: 14,
+    fontWeight: '500' as const,
+    color: '#333',
+  },
+  previewError: {
+    flex: 1,
+    fontSize: 13,
+    color: '#c5221f',
+  },
+  resultBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    gap: 12,
+  },
+  resultError: {
+    backgroundColor: '#fce8e6',
+  },
+  resultErrorText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#c5221f',
+  },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 16,
+    gap: 10,
+    marginBottom: 20,
+  },
+  importButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  importButtonText: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: 'white',
+  },
+});
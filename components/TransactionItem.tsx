@@ -1,21 +1,42 @@
-import React, { useState } from 'react';
-import { StyleSheet, Text, View, TouchableOpacity, Alert, TextInput, Pressable } from 'react-native';
+import React, { useState, useMemo } from 'react';
+import { StyleSheet, Text, View, TouchableOpacity, Alert, TextInput, Pressable, Modal } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
-import { CreditCard, Smartphone, Banknote, ChevronDown, ChevronRight, Mail, Trash2 } from 'lucide-react-native';
-import { Transaction } from '@/types/sales';
+import { CreditCard, Smartphone, Banknote, ChevronDown, ChevronRight, Mail, Trash2, RotateCcw, Minus, Plus, Split, Printer } from 'lucide-react-native';
+import { Transaction, SyncStatus } from '@/types/sales';
 import { CURRENCIES } from '@/constants/products';
+import { getRefundableQuantities, isRefund, RefundLine } from '@/lib/refunds';
+import { getPaymentLegs, isSplitPayment } from '@/lib/payments';
+import { buildReceiptRequest, isEmailAddress } from '@/lib/receipts';
+import { trpc } from '@/lib/trpc';
+import { useAuth } from '@/hooks/auth-store';
+import { assertSyncPaired } from '@/hooks/event-sync';
+import { renderReceiptDocument, shareHtmlDocument } from '@/lib/print';
 
 interface TransactionItemProps {
   transaction: Transaction;
   onDelete?: (transactionId: string) => void;
   onUpdate?: (transactionId: string, updates: Partial<Transaction>) => void;
   isLocked?: boolean;
+  syncStatus?: SyncStatus;
+  refunds?: Transaction[]; // Refunds already linked to this sale
+  onRefund?: (transactionId: string, lines: RefundLine[]) => Promise<unknown>;
 }
 
-export default function TransactionItem({ transaction, onDelete, onUpdate, isLocked = false }: TransactionItemProps) {
+const SYNC_BADGES: Record<SyncStatus, { label: string; color: string; backgroundColor: string }> = {
+  pending: { label: 'Pending', color: '#FF9500', backgroundColor: '#FFF4E5' },
+  synced: { label: 'Synced', color: '#4CAF50', backgroundColor: '#E8F5E9' },
+  failed: { label: 'Retrying', color: '#F44336', backgroundColor: '#FDECEA' },
+};
+
+export default function TransactionItem({ transaction, onDelete, onUpdate, isLocked = false, syncStatus, refunds = [], onRefund }: TransactionItemProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isRefundModalVisible, setIsRefundModalVisible] = useState(false);
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, number>>({});
+  const [isRefunding, setIsRefunding] = useState(false);
   const [isEditingEmail, setIsEditingEmail] = useState(false);
   const [editedEmail, setEditedEmail] = useState(transaction.email || '');
+  const { currentEvent } = useAuth();
+  const sendReceipt = trpc.receipts.send.useMutation();
   
   // For display purposes, use original currency if available, otherwise use transaction currency
   const displayCurrency = transaction.originalCurrency || transaction.currency;
@@ -30,6 +51,9 @@ export default function TransactionItem({ transaction, onDelete, onUpdate, isLoc
   });
   
   const getPaymentIcon = () => {
+    if (isSplitPayment(transaction)) {
+      return <Split size={20} color="#FF9500" />;
+    }
     switch (transaction.paymentMethod) {
       case 'cash':
         return <Banknote size={20} color="#4CAF50" />;
@@ -40,7 +64,73 @@ export default function TransactionItem({ transaction, onDelete, onUpdate, isLoc
     }
   };
 
-  const itemCount = transaction.items.reduce((sum, item) => sum + item.quantity, 0);
+  const itemCount = transaction.items.reduce((sum, item) => sum + Math.abs(item.quantity), 0);
+  const isRefundTransaction = isRefund(transaction);
+
+  const refundableQuantities = useMemo(
+    () => getRefundableQuantities(transaction, refunds),
+    [transaction, refunds]
+  );
+  const refundableCount = Object.values(refundableQuantities).reduce((sum, quantity) => sum + quantity, 0);
+  const refundStatus = refunds.length === 0 ? null : refundableCount === 0 ? 'Refunded' : 'Partially refunded';
+  const canRefund = !!onRefund && !isRefundTransaction && !isLocked && refundableCount > 0;
+
+  const handleOpenRefund = () => {
+    // Default to returning everything still refundable; staff trim it down for partial returns
+    setRefundQuantities({ ...refundableQuantities });
+    setIsRefundModalVisible(true);
+  };
+
+  const adjustRefundQuantity = (productId: string, delta: number) => {
+    setRefundQuantities(current => {
+      const next = Math.min(Math.max((current[productId] || 0) + delta, 0), refundableQuantities[productId] || 0);
+      return { ...current, [productId]: next };
+    });
+  };
+
+  const handleConfirmRefund = async () => {
+    const lines = Object.entries(refundQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([productId, quantity]) => ({ productId, quantity }));
+
+    if (lines.length === 0) {
+      Alert.alert('Nothing Selected', 'Choose at least one item to refund.');
+      return;
+    }
+
+    setIsRefunding(true);
+    try {
+      await onRefund?.(transaction.id, lines);
+      setIsRefundModalVisible(false);
+    } catch (error) {
+      Alert.alert('Refund Failed', error instanceof Error ? error.message : 'Could not create the refund.');
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  const handleSendReceipt = async () => {
+    if (!transaction.email || !isEmailAddress(transaction.email)) return;
+    try {
+      await assertSyncPaired();
+      await sendReceipt.mutateAsync(buildReceiptRequest(transaction.email, transaction, currentEvent?.eventName));
+      Alert.alert('Receipt Sent', `Receipt sent to ${transaction.email.trim()}`);
+    } catch (error) {
+      console.error('❌ Failed to send receipt:', error);
+      Alert.alert('Receipt Not Sent', error instanceof Error ? error.message : 'Could not send the receipt email.');
+    }
+  };
+
+  const handlePrintReceipt = async () => {
+    const result = await shareHtmlDocument(
+      renderReceiptDocument(transaction, currentEvent?.eventName),
+      `receipt_${transaction.id}`,
+      'Print Receipt'
+    );
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to share the receipt');
+    }
+  };
 
   const handleDelete = () => {
     Alert.alert(
@@ -95,9 +185,22 @@ export default function TransactionItem({ transaction, onDelete, onUpdate, isLoc
           <View style={styles.timeContainer}>
             <Text style={styles.time}>{time}</Text>
             {getPaymentIcon()}
+            {isRefundTransaction && (
+              <View style={styles.refundBadge}>
+                <RotateCcw size={12} color="#F44336" />
+                <Text style={styles.refundBadgeText}>Refund</Text>
+              </View>
+            )}
+            {syncStatus && (
+              <View style={[styles.syncBadge, { backgroundColor: SYNC_BADGES[syncStatus].backgroundColor }]}>
+                <Text style={[styles.syncBadgeText, { color: SYNC_BADGES[syncStatus].color }]}>
+                  {SYNC_BADGES[syncStatus].label}
+                </Text>
+              </View>
+            )}
           </View>
           <View style={styles.headerRight}>
-            <Text style={styles.total}>
+            <Text style={[styles.total, isRefundTransaction && styles.refundTotal]}>
               {currencyConfig.symbol}{displayTotal.toFixed(2)}
             </Text>
             {isExpanded ? (
@@ -123,6 +226,9 @@ export default function TransactionItem({ transaction, onDelete, onUpdate, isLoc
         <Text style={styles.items}>
           {itemCount} item{itemCount !== 1 ? 's' : ''}
         </Text>
+        {refundStatus && (
+          <Text style={styles.refundStatus}>{refundStatus}</Text>
+        )}
         {transaction.discount > 0 && (
           <Text style={styles.discount}>
             Saved {currencyConfig.symbol}{(transaction.originalCurrency ? (transaction.discount * (displayTotal / transaction.total)) : transaction.discount).toFixed(2)}
@@ -130,6 +236,30 @@ export default function TransactionItem({ transaction, onDelete, onUpdate, isLoc
         )}
       </View>
       
+      {isSplitPayment(transaction) && (
+        <Text style={styles.paymentLegs}>
+          {getPaymentLegs(transaction)
+            .map(leg => `${leg.method.toUpperCase()} ${CURRENCIES[leg.currency].symbol}${leg.amount.toFixed(2)}`)
+            .join(' + ')}
+        </Text>
+      )}
+
+      {transaction.cashTender && (
+        <Text style={styles.paymentLegs}>
+          Tendered {CURRENCIES[transaction.cashTender.currency].symbol}{transaction.cashTender.tendered.toFixed(2)}
+          {' · '}Change {CURRENCIES[transaction.cashTender.currency].symbol}{transaction.cashTender.change.toFixed(2)}
+        </Text>
+      )}
+
+      {transaction.overrideApprovals?.map((approval, index) => (
+        <Text key={`approval_${index}`} style={styles.paymentLegs}>
+          {approval.kind === 'total'
+            ? 'Total override'
+            : `${transaction.items.find(item => item.product.id === approval.productId)?.product.name ?? 'Price'} override`}
+          {' approved by '}{approval.approverName}: {approval.reason}
+        </Text>
+      ))}
+
       {transaction.appliedPromotions.length > 0 && (
         <Text style={styles.promotions}>
           {transaction.appliedPromotions.join(', ')}
@@ -161,13 +291,24 @@ export default function TransactionItem({ transaction, onDelete, onUpdate, isLoc
           ) : (
             <Pressable
               style={styles.emailPressable}
-              onPress={handleEditEmail}
+              onPress={onUpdate ? handleEditEmail : undefined}
               onLongPress={handleCopyEmail}
               delayLongPress={500}
             >
               <Text style={styles.emailText}>{transaction.email}</Text>
             </Pressable>
           )}
+          {!isEditingEmail && isEmailAddress(transaction.email) && (
+            <TouchableOpacity
+              style={styles.receiptButton}
+              onPress={handleSendReceipt}
+              disabled={sendReceipt.isPending}
+            >
+              <Text style={styles.receiptButtonText}>
+                {sendReceipt.isPending ? 'Sending...' : 'Send Receipt'}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
       
@@ -209,8 +350,79 @@ export default function TransactionItem({ transaction, onDelete, onUpdate, isLoc
               {currencyConfig.symbol}{displayTotal.toFixed(2)}
             </Text>
           </View>
+
+          <TouchableOpacity style={styles.printButton} onPress={handlePrintReceipt} activeOpacity={0.7}>
+            <Printer size={16} color="#2196F3" />
+            <Text style={styles.printButtonText}>Print Receipt</Text>
+          </TouchableOpacity>
+
+          {canRefund && (
+            <TouchableOpacity style={styles.refundButton} onPress={handleOpenRefund} activeOpacity={0.7}>
+              <RotateCcw size={16} color="#F44336" />
+              <Text style={styles.refundButtonText}>Refund</Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
+
+      <Modal
+        visible={isRefundModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setIsRefundModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Refund Items</Text>
+            <Text style={styles.modalSubtitle}>Choose how many of each item the customer is returning.</Text>
+
+            {transaction.items
+              .filter(item => (refundableQuantities[item.product.id] || 0) > 0)
+              .map(item => (
+                <View key={item.product.id} style={styles.refundRow}>
+                  <View style={styles.itemInfo}>
+                    <View style={[styles.productDot, { backgroundColor: item.product.color }]} />
+                    <Text style={styles.itemName}>{item.product.name}</Text>
+                  </View>
+                  <View style={styles.refundStepper}>
+                    <TouchableOpacity
+                      style={styles.stepperButton}
+                      onPress={() => adjustRefundQuantity(item.product.id, -1)}
+                    >
+                      <Minus size={16} color="#333" />
+                    </TouchableOpacity>
+                    <Text style={styles.stepperValue}>
+                      {refundQuantities[item.product.id] || 0}/{refundableQuantities[item.product.id]}
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.stepperButton}
+                      onPress={() => adjustRefundQuantity(item.product.id, 1)}
+                    >
+                      <Plus size={16} color="#333" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalCancelButton]}
+                onPress={() => setIsRefundModalVisible(false)}
+                disabled={isRefunding}
+              >
+                <Text style={styles.emailCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalConfirmButton, isRefunding && styles.deleteButtonDisabled]}
+                onPress={handleConfirmRefund}
+                disabled={isRefunding}
+              >
+                <Text style={styles.modalConfirmText}>{isRefunding ? 'Refunding...' : 'Confirm Refund'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -259,6 +471,137 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#333',
   },
+  syncBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  syncBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  refundBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#FDECEA',
+  },
+  refundBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#F44336',
+  },
+  refundTotal: {
+    color: '#F44336',
+  },
+  refundStatus: {
+    fontSize: 12,
+    color: '#F44336',
+    fontWeight: '600',
+  },
+  printButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#E3F2FD',
+  },
+  printButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
+  refundButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#FFF0F0',
+  },
+  refundButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#F44336',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 16,
+  },
+  refundRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  refundStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperButton: {
+    padding: 6,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  stepperValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    minWidth: 40,
+    textAlign: 'center',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  modalCancelButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  modalConfirmButton: {
+    backgroundColor: '#F44336',
+  },
+  modalConfirmText: {
+    fontSize: 14,
+    color: '#fff',
+    fontWeight: '600',
+  },
   headerRight: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -283,6 +626,11 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     fontWeight: '600',
   },
+  paymentLegs: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
   promotions: {
     fontSize: 12,
     color: '#9C27B0',
@@ -378,6 +726,17 @@ const styles = StyleSheet.create({
   emailPressable: {
     flex: 1,
   },
+  receiptButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: '#E3F2FD',
+  },
+  receiptButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
   emailText: {
     fontSize: 12,
     color: '#666',
@@ -11,20 +11,13 @@ import {
   Pressable,
 } from 'react-native';
 import { X, Check, FileSpreadsheet, AlertCircle, Download } from 'lucide-react-native';
-import { createAndExportSpreadsheet } from '@/hooks/google-sheets-export';
-import { Transaction, Product, AppSettings, ExchangeRates } from '@/types/sales';
+import { exportEventWorkbook } from '@/hooks/xlsx-export';
+import { ExportData } from '@/lib/sheet-data';
 
 interface Props {
   visible: boolean;
   onClose: () => void;
-  exportData: {
-    userName: string;
-    eventName: string;
-    transactions: Transaction[];
-    products: Product[];
-    settings: AppSettings;
-    exchangeRates: ExchangeRates;
-  };
+  exportData: ExportData;
 }
 
 function ExportModalContent({ visible, onClose, exportData }: Props) {
@@ -39,7 +32,7 @@ function ExportModalContent({ visible, onClose, exportData }: Props) {
     setResult(null);
 
     try {
-      const exportResult = await createAndExportSpreadsheet(exportData);
+      const exportResult = await exportEventWorkbook(exportData);
       setResult(exportResult);
     } catch (error: any) {
       setResult({ success: false, error: error.message || 'Export failed' });
@@ -70,7 +63,7 @@ function ExportModalContent({ visible, onClose, exportData }: Props) {
           <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
             <View style={styles.instructionBox}>
               <Text style={styles.instructionText}>
-                Export your sales data as an Excel spreadsheet (.xlsx). You can open it in Excel, Google Sheets, or any other spreadsheet app.
+                Export your sales data as an Excel workbook (.xlsx) with the registry, product and currency summaries and a sheet per product type. It is built on this device, so no connection is needed. You can open it in Excel, Google Sheets, or any other spreadsheet app.
               </Text>
             </View>
 
@@ -123,7 +116,7 @@ function ExportModalContent({ visible, onClose, exportData }: Props) {
   );
 }
 
-export default function GoogleSheetsExportModal(props: Props) {
+export default function XlsxExportModal(props: Props) {
   return <ExportModalContent {...props} />;
 }
 
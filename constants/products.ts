@@ -6,6 +6,9 @@ export const CURRENCIES: Record<string, CurrencyConfig> = {
   GBP: { symbol: '£', name: 'British Pound', rate: 1 }
 };
 
+// Remaining units at or below which a stock-tracked product shows a low-stock warning
+export const LOW_STOCK_THRESHOLD = 3;
+
 export const DEFAULT_SETTINGS: AppSettings = {
   eventName: '',
   userName: '',
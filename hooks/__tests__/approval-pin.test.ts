@@ -0,0 +1,94 @@
+import { createDatabaseHarness, createTestEvent, getTestAdmin, loadDatabaseService } from '@/test-utils/database';
+import { hashPassword } from '@/lib/password';
+
+// User ids are timestamps, so each new user needs a later millisecond
+const nextMillisecond = () => new Promise(resolve => setTimeout(resolve, 5));
+
+const setup = async (os: 'ios' | 'web') => {
+  createDatabaseHarness(os);
+  const databaseService = loadDatabaseService();
+  const { APPROVAL_PIN_MAX_ATTEMPTS, APPROVAL_PIN_LOCKOUT_MS } = require('@/hooks/database') as typeof import('@/hooks/database');
+  const admin = await getTestAdmin(databaseService);
+  const eventId = await createTestEvent(databaseService);
+  await nextMillisecond();
+  const supervisor = await databaseService.createUser('sam', 'hash', '', 'Sam', 'supervisor', admin);
+  await nextMillisecond();
+  const cashier = await databaseService.createUser('casey', 'hash', '', 'Casey', 'cashier', admin);
+  await databaseService.setApprovalPin(supervisor.id, await hashPassword('4321'), admin);
+  return { databaseService, eventId, supervisor, cashier, APPROVAL_PIN_MAX_ATTEMPTS, APPROVAL_PIN_LOCKOUT_MS };
+};
+
+describe.each(['ios', 'web'] as const)('approval PIN attempts on %s', (os) => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('approves the right PIN without logging anything', async () => {
+    const { databaseService, eventId, supervisor, cashier, APPROVAL_PIN_MAX_ATTEMPTS } = await setup(os);
+
+    const check = await databaseService.verifyApprovalPin(eventId, supervisor.id, '4321', cashier);
+
+    expect(check).toEqual({ approved: true, attemptsLeft: APPROVAL_PIN_MAX_ATTEMPTS, lockedUntil: null });
+    expect(await databaseService.listAuditEntries(eventId)).toEqual([]);
+  });
+
+  it('counts wrong PINs and logs each one against the cashier', async () => {
+    const { databaseService, eventId, supervisor, cashier, APPROVAL_PIN_MAX_ATTEMPTS } = await setup(os);
+
+    await databaseService.verifyApprovalPin(eventId, supervisor.id, '0000', cashier);
+    const check = await databaseService.verifyApprovalPin(eventId, supervisor.id, '1111', cashier);
+
+    expect(check).toEqual({ approved: false, attemptsLeft: APPROVAL_PIN_MAX_ATTEMPTS - 2, lockedUntil: null });
+    const entries = await databaseService.listAuditEntries(eventId, { entityType: 'user' });
+    expect(entries).toHaveLength(2);
+    expect(entries.every(entry => entry.action === 'pin_failed' && entry.entityId === supervisor.id && entry.userId === cashier.id)).toBe(true);
+    expect(entries.map(entry => entry.changes)).toContainEqual([
+      { field: 'approver', before: null, after: 'Sam' },
+      { field: 'failedAttempts', before: 1, after: 2 },
+    ]);
+  });
+
+  it('locks the approver out, even for the right PIN, after too many wrong ones', async () => {
+    const { databaseService, eventId, supervisor, cashier, APPROVAL_PIN_MAX_ATTEMPTS, APPROVAL_PIN_LOCKOUT_MS } = await setup(os);
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    for (let i = 0; i < APPROVAL_PIN_MAX_ATTEMPTS - 1; i++) {
+      await databaseService.verifyApprovalPin(eventId, supervisor.id, '0000', cashier);
+    }
+    const locking = await databaseService.verifyApprovalPin(eventId, supervisor.id, '0000', cashier);
+    expect(locking).toEqual({ approved: false, attemptsLeft: 0, lockedUntil: new Date(now + APPROVAL_PIN_LOCKOUT_MS) });
+
+    const whileLocked = await databaseService.verifyApprovalPin(eventId, supervisor.id, '4321', cashier);
+    expect(whileLocked.approved).toBe(false);
+    expect(whileLocked.lockedUntil).toEqual(new Date(now + APPROVAL_PIN_LOCKOUT_MS));
+    // Checks refused during a lockout never reach the PIN, so they are not logged
+    expect(await databaseService.listAuditEntries(eventId)).toHaveLength(APPROVAL_PIN_MAX_ATTEMPTS);
+  });
+
+  it('doubles the lockout for every wrong PIN after it and resets on the right one', async () => {
+    const { databaseService, eventId, supervisor, cashier, APPROVAL_PIN_MAX_ATTEMPTS, APPROVAL_PIN_LOCKOUT_MS } = await setup(os);
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    for (let i = 0; i < APPROVAL_PIN_MAX_ATTEMPTS; i++) {
+      await databaseService.verifyApprovalPin(eventId, supervisor.id, '0000', cashier);
+    }
+    now += APPROVAL_PIN_LOCKOUT_MS;
+    const relocked = await databaseService.verifyApprovalPin(eventId, supervisor.id, '0000', cashier);
+    expect(relocked.lockedUntil).toEqual(new Date(now + 2 * APPROVAL_PIN_LOCKOUT_MS));
+
+    now += 2 * APPROVAL_PIN_LOCKOUT_MS;
+    expect((await databaseService.verifyApprovalPin(eventId, supervisor.id, '4321', cashier)).approved).toBe(true);
+    expect(await databaseService.verifyApprovalPin(eventId, supervisor.id, '0000', cashier)).toEqual({
+      approved: false,
+      attemptsLeft: APPROVAL_PIN_MAX_ATTEMPTS - 1,
+      lockedUntil: null,
+    });
+  });
+
+  it('never approves someone who cannot approve overrides', async () => {
+    const { databaseService, eventId, cashier } = await setup(os);
+    await databaseService.setApprovalPin(cashier.id, await hashPassword('1234'), await getTestAdmin(databaseService));
+
+    expect((await databaseService.verifyApprovalPin(eventId, cashier.id, '1234', cashier)).approved).toBe(false);
+  });
+});
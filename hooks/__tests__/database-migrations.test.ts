@@ -0,0 +1,245 @@
+import { SQLITE_MIGRATIONS, WEB_MIGRATIONS, WEB_SCHEMA_VERSION_KEY } from '@/hooks/database-migrations';
+import { createDatabaseHarness, DatabaseHarness, loadDatabaseService } from '@/test-utils/database';
+import type { SQLiteDatabase } from '@/test-utils/expo-sqlite';
+
+const LATEST_SQLITE_VERSION = Math.max(...SQLITE_MIGRATIONS.map(m => m.version));
+const LATEST_WEB_VERSION = Math.max(...WEB_MIGRATIONS.map(m => m.version));
+
+// The tables as released before versioned migrations: the columns the v1 backfill adds are missing
+const LEGACY_SCHEMA = `
+  CREATE TABLE products (id TEXT PRIMARY KEY, name TEXT NOT NULL, price REAL NOT NULL, color TEXT NOT NULL, icon TEXT, enabled INTEGER NOT NULL DEFAULT 1, initialQuantity INTEGER NOT NULL DEFAULT 0, promoEligible INTEGER NOT NULL DEFAULT 0, "order" INTEGER NOT NULL DEFAULT 0);
+  CREATE TABLE transactions (id TEXT PRIMARY KEY, items TEXT NOT NULL, subtotal REAL NOT NULL, discount REAL NOT NULL, total REAL NOT NULL, currency TEXT NOT NULL, paymentMethod TEXT NOT NULL, timestamp TEXT NOT NULL, appliedPromotions TEXT, email TEXT);
+  CREATE TABLE settings (id INTEGER PRIMARY KEY CHECK (id = 1), userName TEXT NOT NULL, eventName TEXT NOT NULL, currency TEXT NOT NULL, isSetupComplete INTEGER NOT NULL DEFAULT 0, appPromoPricing TEXT NOT NULL);
+  CREATE TABLE preferences (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  CREATE TABLE users (id TEXT PRIMARY KEY, username TEXT UNIQUE NOT NULL, passwordHash TEXT NOT NULL, createdAt TEXT NOT NULL);
+  CREATE TABLE events (id TEXT PRIMARY KEY, userId TEXT NOT NULL, eventName TEXT NOT NULL, userName TEXT NOT NULL, currency TEXT NOT NULL, currencyRoundUp INTEGER NOT NULL DEFAULT 0, appPromoPricing TEXT NOT NULL, isFinalized INTEGER NOT NULL DEFAULT 0, createdAt TEXT NOT NULL, updatedAt TEXT NOT NULL);
+  CREATE TABLE event_products (id TEXT PRIMARY KEY, eventId TEXT NOT NULL, name TEXT NOT NULL, price REAL NOT NULL, color TEXT NOT NULL, icon TEXT, enabled INTEGER NOT NULL DEFAULT 1, initialQuantity INTEGER NOT NULL DEFAULT 0, promoEligible INTEGER NOT NULL DEFAULT 0, "order" INTEGER NOT NULL DEFAULT 0, subgroup TEXT);
+  CREATE TABLE product_types (id TEXT PRIMARY KEY, name TEXT NOT NULL, color TEXT NOT NULL, "order" INTEGER NOT NULL DEFAULT 0);
+  CREATE TABLE event_product_types (id TEXT PRIMARY KEY, eventId TEXT NOT NULL, name TEXT NOT NULL, color TEXT NOT NULL, "order" INTEGER NOT NULL DEFAULT 0);
+  CREATE TABLE event_transactions (id TEXT PRIMARY KEY, eventId TEXT NOT NULL, items TEXT NOT NULL, subtotal REAL NOT NULL, discount REAL NOT NULL, total REAL NOT NULL, currency TEXT NOT NULL, paymentMethod TEXT NOT NULL, timestamp TEXT NOT NULL, appliedPromotions TEXT, email TEXT, overrideTotal REAL, specialPrice REAL, originalCurrency TEXT, originalTotal REAL, originalSubtotal REAL);
+`;
+
+// Built by createTables since before versioning, so every versioned database has them
+const UNVERSIONED_SCHEMA = `
+  CREATE TABLE transaction_outbox (transactionId TEXT PRIMARY KEY, eventId TEXT NOT NULL, payload TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'pending', attempts INTEGER NOT NULL DEFAULT 0, nextAttemptAt TEXT NOT NULL, lastError TEXT, createdAt TEXT NOT NULL, syncedAt TEXT);
+  CREATE TABLE sheets_sync (eventId TEXT PRIMARY KEY, spreadsheetId TEXT NOT NULL, spreadsheetUrl TEXT NOT NULL, cursor TEXT, lastSyncedAt TEXT NOT NULL);
+`;
+
+const SOLD_ITEMS = [
+  { product: { id: 'mug', name: 'Mug', price: 12, color: '#fff', enabled: true, initialQuantity: 10, promoEligible: false, order: 0, typeId: 'type_1' }, quantity: 2 },
+];
+
+const seedLegacyRows = async (db: SQLiteDatabase) => {
+  await db.runAsync('INSERT INTO users (id, username, passwordHash, createdAt) VALUES (?, ?, ?, ?)', ['u1', 'alice', 'hash', '2024-01-01T00:00:00.000Z']);
+  await db.runAsync(
+    'INSERT INTO events (id, userId, eventName, userName, currency, currencyRoundUp, appPromoPricing, isFinalized, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    ['e1', 'u1', 'Spring Fair', 'alice', 'EUR', 1, '{}', 0, '2024-01-01T00:00:00.000Z', '2024-01-02T00:00:00.000Z']
+  );
+  await db.runAsync(
+    'INSERT INTO event_products (id, eventId, name, price, color, enabled, initialQuantity, promoEligible, "order", subgroup) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    ['e1_mug', 'e1', 'Mug', 12, '#fff', 1, 10, 0, 0, 'Kitchen']
+  );
+  await db.runAsync('INSERT INTO event_product_types (id, eventId, name, color, "order") VALUES (?, ?, ?, ?, ?)', ['e1_type_1', 'e1', 'Goods', '#000', 0]);
+  await db.runAsync(
+    'INSERT INTO event_transactions (id, eventId, items, subtotal, discount, total, currency, paymentMethod, timestamp, appliedPromotions, email) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    ['e1_t1', 'e1', JSON.stringify(SOLD_ITEMS), 24, 0, 24, 'EUR', 'cash', '2024-01-01T10:00:00.000Z', '[]', 'buyer@example.com']
+  );
+};
+
+// Builds a database as an app at the given schema version left it
+const seedSqliteAtVersion = async (harness: DatabaseHarness, version: number) => {
+  const db = await harness.sqlite.openDatabaseAsync('sales.db');
+  await db.execAsync(LEGACY_SCHEMA);
+  await seedLegacyRows(db);
+  if (version === 0) return db;
+
+  await db.execAsync(UNVERSIONED_SCHEMA);
+  await db.execAsync('CREATE TABLE schema_version (version INTEGER PRIMARY KEY, description TEXT NOT NULL, appliedAt TEXT NOT NULL)');
+  for (const migration of SQLITE_MIGRATIONS.filter(m => m.version <= version)) {
+    await migration.up(db as any);
+    await db.runAsync('INSERT INTO schema_version (version, description, appliedAt) VALUES (?, ?, ?)', [migration.version, migration.description, '2024-01-01T00:00:00.000Z']);
+  }
+  return db;
+};
+
+describe('SQLite migrations', () => {
+  const startVersions = Array.from({ length: LATEST_SQLITE_VERSION }, (_, version) => version);
+
+  it.each(startVersions)('upgrades a v%i database to the latest version', async (version) => {
+    const harness = createDatabaseHarness('ios');
+    const db = await seedSqliteAtVersion(harness, version);
+    const databaseService = loadDatabaseService();
+
+    await databaseService.initialize();
+
+    const row = await db.getFirstAsync<{ version: number }>('SELECT MAX(version) as version FROM schema_version');
+    expect(row?.version).toBe(LATEST_SQLITE_VERSION);
+    const applied = await db.getAllAsync<{ version: number }>('SELECT version FROM schema_version ORDER BY version');
+    expect(applied.map(r => r.version)).toEqual(SQLITE_MIGRATIONS.map(m => m.version));
+  });
+
+  it.each(startVersions)('keeps users, events and sales when upgrading from v%i', async (version) => {
+    const harness = createDatabaseHarness('ios');
+    const db = await seedSqliteAtVersion(harness, version);
+    const databaseService = loadDatabaseService();
+
+    const alice = (await databaseService.getAllUsers()).find(u => u.username === 'alice');
+    expect(alice).toMatchObject({ id: 'u1', email: '', fullName: '', role: 'manager' });
+
+    const data = await databaseService.loadEventData('e1');
+    expect(data?.event).toMatchObject({ eventName: 'Spring Fair', currency: 'EUR', currencyRoundUp: true, isTemplate: false });
+    expect(data?.products).toEqual([expect.objectContaining({ id: 'mug', price: 12, subgroup: 'Kitchen', typeId: 'type_1' })]);
+    expect(data?.productTypes).toEqual([{ id: 'type_1', name: 'Goods', color: '#000', order: 0, enabled: true }]);
+    expect(data?.transactions).toHaveLength(1);
+    expect(data?.transactions[0]).toMatchObject({ id: 't1', total: 24, paymentMethod: 'cash', email: 'buyer@example.com', items: SOLD_ITEMS });
+
+    const lines = await db.getAllAsync('SELECT transactionId, productId, quantity, unitPrice FROM transaction_items');
+    expect(lines).toEqual([{ transactionId: 'e1_t1', productId: 'mug', quantity: 2, unitPrice: 12 }]);
+  });
+
+  it('turns a Sheets sync cursor into the ids of the sales it covered', async () => {
+    const harness = createDatabaseHarness('ios');
+    const db = await seedSqliteAtVersion(harness, 9);
+    await db.runAsync(
+      'INSERT INTO event_transactions (id, eventId, items, subtotal, discount, total, currency, paymentMethod, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      ['e1_t2', 'e1', JSON.stringify(SOLD_ITEMS), 24, 0, 24, 'EUR', 'cash', '2024-01-01T12:00:00.000Z']
+    );
+    await db.runAsync(
+      'INSERT INTO sheets_sync (eventId, spreadsheetId, spreadsheetUrl, cursor, lastSyncedAt) VALUES (?, ?, ?, ?, ?)',
+      ['e1', 'sheet_1', 'https://sheets.example/sheet_1', '2024-01-01T10:00:00.000Z', '2024-01-01T11:00:00.000Z']
+    );
+    const databaseService = loadDatabaseService();
+
+    expect(await databaseService.getSheetsSyncState('e1')).toMatchObject({ spreadsheetId: 'sheet_1', syncedTransactionIds: ['t1'] });
+  });
+
+  it('creates the default admin on a fresh install', async () => {
+    const harness = createDatabaseHarness('ios');
+    const databaseService = loadDatabaseService();
+
+    await databaseService.initialize();
+
+    const db = await harness.sqlite.openDatabaseAsync('sales.db');
+    const row = await db.getFirstAsync<{ version: number }>('SELECT MAX(version) as version FROM schema_version');
+    expect(row?.version).toBe(LATEST_SQLITE_VERSION);
+    expect(await databaseService.getUserByUsername('fsj')).toMatchObject({ role: 'admin' });
+  });
+
+  it('rolls back a failing step and keeps the previous version', async () => {
+    const harness = createDatabaseHarness('ios');
+    const db = await seedSqliteAtVersion(harness, LATEST_SQLITE_VERSION);
+    const { migrateSqliteDatabase, SQLITE_MIGRATIONS: migrations } = require('@/hooks/database-migrations');
+    migrations.push({
+      version: LATEST_SQLITE_VERSION + 1,
+      description: 'Fails part-way through',
+      up: async (stepDb: SQLiteDatabase) => {
+        await stepDb.execAsync('CREATE TABLE half_done (id TEXT)');
+        throw new Error('step failed');
+      },
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(migrateSqliteDatabase(db)).rejects.toThrow('step failed');
+
+    const row = await db.getFirstAsync<{ version: number }>('SELECT MAX(version) as version FROM schema_version');
+    expect(row?.version).toBe(LATEST_SQLITE_VERSION);
+    expect(await db.getFirstAsync("SELECT name FROM sqlite_master WHERE name = 'half_done'")).toBeNull();
+  });
+});
+
+describe('web storage migrations', () => {
+  const legacyUsers = [
+    { id: 'u1', username: 'alice', passwordHash: 'hash', createdAt: '2024-01-01T00:00:00.000Z' },
+    { id: 'u2', username: 'bob', passwordHash: 'hash', createdAt: '2024-01-01T00:00:00.000Z', email: 'bob@example.com', fullName: 'Bob', role: 'admin' },
+  ];
+  const legacyEvents = [{
+    id: 'e1',
+    userId: 'u1',
+    eventName: 'Spring Fair',
+    userName: 'alice',
+    currency: 'EUR',
+    appPromoPricing: '{}',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+    products: [
+      { id: 'mug', name: 'Mug', price: 12, color: '#fff', type: 'Apps' },
+      { id: 'wand', name: 'Wand', price: 5, color: '#fff', type: 'Magic Stuff' },
+    ],
+    productTypes: [{ id: 'type_1', name: 'Goods', color: '#000', order: 0 }],
+    transactions: [{ id: 't1', items: SOLD_ITEMS, subtotal: 24, discount: 0, total: 24, currency: 'EUR', paymentMethod: 'cash', timestamp: '2024-01-01T10:00:00.000Z' }],
+  }];
+
+  const seedWebAtVersion = async (harness: DatabaseHarness, version: number) => {
+    let values: Record<string, any> = { sales_users: legacyUsers, sales_events: legacyEvents };
+    for (const migration of WEB_MIGRATIONS.filter(m => m.version <= version)) {
+      values = { ...values, ...migration.up(values) };
+    }
+    await harness.storage.multiSet([
+      ...Object.entries(values).map(([key, value]): [string, string] => [key, JSON.stringify(value)]),
+      ...(version > 0 ? [[WEB_SCHEMA_VERSION_KEY, String(version)] as [string, string]] : []),
+    ]);
+  };
+
+  const startVersions = Array.from({ length: LATEST_WEB_VERSION }, (_, version) => version);
+
+  it.each(startVersions)('upgrades v%i storage and keeps its data', async (version) => {
+    const harness = createDatabaseHarness('web');
+    await seedWebAtVersion(harness, version);
+    const databaseService = loadDatabaseService();
+
+    await databaseService.initialize();
+
+    expect(await harness.storage.getItem(WEB_SCHEMA_VERSION_KEY)).toBe(String(LATEST_WEB_VERSION));
+
+    const users = await databaseService.getAllUsers();
+    expect(users.find(u => u.username === 'alice')).toMatchObject({ id: 'u1', email: '', fullName: '', role: 'manager' });
+    expect(users.find(u => u.username === 'bob')).toMatchObject({ email: 'bob@example.com', fullName: 'Bob', role: 'admin' });
+
+    const data = await databaseService.loadEventData('e1');
+    expect(data?.event).toMatchObject({ eventName: 'Spring Fair', currencyRoundUp: false, isFinalized: false, isTemplate: false });
+    expect(data?.settings.promos).toEqual([]);
+    expect(data?.products.map(p => [p.id, p.typeId])).toEqual([['mug', 'type_1'], ['wand', 'type_2']]);
+    expect(data?.productTypes).toEqual([{ id: 'type_1', name: 'Goods', color: '#000', order: 0, enabled: true }]);
+    expect(data?.transactions).toHaveLength(1);
+    expect(data?.transactions[0]).toMatchObject({ id: 't1', total: 24, items: SOLD_ITEMS });
+    expect(data?.transactions[0].timestamp).toEqual(new Date('2024-01-01T10:00:00.000Z'));
+  });
+
+  it('turns a Sheets sync cursor into the ids of the sales it covered', async () => {
+    const harness = createDatabaseHarness('web');
+    await seedWebAtVersion(harness, 2);
+    await harness.storage.setItem('sales_sheets_sync', JSON.stringify([{
+      eventId: 'e1',
+      spreadsheetId: 'sheet_1',
+      spreadsheetUrl: 'https://sheets.example/sheet_1',
+      cursor: '2024-01-01T10:00:00.000Z',
+      lastSyncedAt: '2024-01-01T11:00:00.000Z',
+    }, {
+      eventId: 'e1_copy',
+      spreadsheetId: 'sheet_2',
+      spreadsheetUrl: 'https://sheets.example/sheet_2',
+      cursor: null,
+      lastSyncedAt: '2024-01-01T11:00:00.000Z',
+    }]));
+    const databaseService = loadDatabaseService();
+    await databaseService.initialize();
+
+    expect(await databaseService.getSheetsSyncState('e1')).toMatchObject({ spreadsheetId: 'sheet_1', syncedTransactionIds: ['t1'] });
+    const stored = JSON.parse((await harness.storage.getItem('sales_sheets_sync'))!);
+    expect(stored[0]).not.toHaveProperty('cursor');
+    expect(stored[1].syncedTransactionIds).toEqual([]);
+  });
+
+  it('leaves storage from a newer app version alone', async () => {
+    const harness = createDatabaseHarness('web');
+    await harness.storage.multiSet([
+      ['sales_users', JSON.stringify([{ ...legacyUsers[0], role: 'standard' }])],
+      [WEB_SCHEMA_VERSION_KEY, String(LATEST_WEB_VERSION + 1)],
+    ]);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { migrateWebStorage } = require('@/hooks/database-migrations');
+
+    expect(await migrateWebStorage()).toBe(LATEST_WEB_VERSION + 1);
+    expect(JSON.parse((await harness.storage.getItem('sales_users'))!)[0].role).toBe('standard');
+  });
+});
@@ -0,0 +1,87 @@
+import { createDatabaseHarness, createTestEvent, getTestAdmin, loadDatabaseService, testProduct, testSale } from '@/test-utils/database';
+
+const setup = async (os: 'ios' | 'web') => {
+  createDatabaseHarness(os);
+  const databaseService = loadDatabaseService();
+  const admin = await getTestAdmin(databaseService);
+  const eventId = await createTestEvent(databaseService, 'Spring Fair');
+  // User ids are timestamps, so the next user needs a later millisecond
+  await new Promise(resolve => setTimeout(resolve, 5));
+  const cashier = await databaseService.createUser('casey', 'hash', '', 'Casey', 'cashier', admin);
+  return { databaseService, admin, cashier, eventId };
+};
+
+describe.each(['ios', 'web'] as const)('deleting events on %s', (os) => {
+  it('needs the event.delete capability', async () => {
+    const { databaseService, cashier, eventId } = await setup(os);
+
+    await expect(databaseService.deleteEvent(eventId, cashier)).rejects.toMatchObject({ name: 'PermissionError', capability: 'event.delete' });
+    await expect(databaseService.deleteEvent(eventId, null)).rejects.toMatchObject({ name: 'PermissionError' });
+    expect((await databaseService.getAllEvents()).map(e => e.id)).toContain(eventId);
+    expect(await databaseService.listAuditEntries(eventId)).toEqual([]);
+  });
+
+  it('logs who deleted the event, and the entry outlives it', async () => {
+    const { databaseService, admin, eventId } = await setup(os);
+
+    await databaseService.deleteEvent(eventId, admin);
+
+    expect((await databaseService.getAllEvents()).map(e => e.id)).not.toContain(eventId);
+    expect(await databaseService.listAuditEntries(eventId)).toEqual([expect.objectContaining({
+      userId: admin.id,
+      entityType: 'event',
+      entityId: eventId,
+      action: 'delete',
+      changes: [{ field: 'eventName', before: 'Spring Fair', after: null }],
+    })]);
+  });
+
+  it('logs unnamed events cleared from the event list', async () => {
+    const { databaseService, cashier } = await setup(os);
+    const unnamedId = await createTestEvent(databaseService, '');
+
+    await databaseService.deleteAllUnnamedEvents(cashier);
+
+    expect(await databaseService.listAuditEntries(unnamedId)).toEqual([
+      expect.objectContaining({ userId: cashier.id, action: 'delete', changes: [{ field: 'eventName', before: '', after: null }] }),
+    ]);
+  });
+});
+
+describe.each(['ios', 'web'] as const)('backing up the audit log on %s', (os) => {
+  const mug = testProduct('mug', 12);
+
+  it('includes the entries of deleted events', async () => {
+    const { databaseService, admin, eventId } = await setup(os);
+    await databaseService.appendTransaction(eventId, testSale('sale_1', [{ product: mug, quantity: 1 }]));
+    await databaseService.appendAuditEntry(eventId, { userId: admin.id, userName: 'fsj' }, 'transaction', 'sale_1', 'delete', []);
+    await databaseService.deleteEvent(eventId, admin);
+
+    const backup = await databaseService.exportBackupSnapshot(admin);
+
+    expect(backup.tables.audit_log.map(entry => [entry.entityType, entry.action])).toEqual([['transaction', 'delete'], ['event', 'delete']]);
+    expect((await databaseService.restoreBackupSnapshot(backup, 'merge', admin)).audit_log).toBe(0);
+    expect(await databaseService.listAuditEntries(eventId)).toHaveLength(2);
+  });
+
+  it('adds missing entries and keeps local ones on a replace restore', async () => {
+    const { databaseService, admin, eventId } = await setup(os);
+    await databaseService.appendAuditEntry(eventId, { userId: admin.id, userName: 'fsj' }, 'transaction', 'sale_1', 'delete', []);
+    const backup = await databaseService.exportBackupSnapshot(admin);
+    expect(backup.tables.audit_log).toHaveLength(1);
+
+    createDatabaseHarness(os);
+    const restored = loadDatabaseService();
+    const restoringAdmin = await getTestAdmin(restored);
+    await restored.appendAuditEntry(eventId, { userId: restoringAdmin.id, userName: 'fsj' }, 'settings', eventId, 'update', []);
+
+    const written = await restored.restoreBackupSnapshot(backup, 'replace', restoringAdmin);
+    expect(written.audit_log).toBe(1);
+    const entries = await restored.listAuditEntries(eventId);
+    expect(entries.map(entry => entry.entityType).sort()).toEqual(['settings', 'transaction']);
+
+    // Restoring again adds nothing twice
+    await restored.restoreBackupSnapshot(backup, 'replace', restoringAdmin);
+    expect(await restored.listAuditEntries(eventId)).toHaveLength(2);
+  });
+});
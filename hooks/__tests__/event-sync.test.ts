@@ -0,0 +1,155 @@
+import { createDatabaseHarness, createTestEvent, loadDatabaseService, testProduct, testSale } from '@/test-utils/database';
+import { countChanges, EventRows } from '@/lib/event-changes';
+import { DEFAULT_SETTINGS } from '@/constants/products';
+import { Promo } from '@/types/sales';
+
+// A sync server in memory: records merged by id with a shared revision counter, like backend/sync
+jest.mock('@/lib/trpc', () => {
+  let revision = 0;
+  const events = new Map<string, { id: string; data: any; revision: number; deleted: boolean }>();
+  const tables: Record<string, Map<string, { id: string; data: any; revision: number; deleted: boolean }>> = {};
+
+  const recordRouter = (table: string) => {
+    tables[table] = new Map();
+    return {
+      pull: { query: jest.fn(async ({ sinceRevision = 0 }) => ({
+        records: [...tables[table].values()].filter(record => record.revision > sinceRevision),
+        revision,
+      })) },
+      push: { mutate: jest.fn(async ({ records }) => {
+        revision++;
+        records.forEach((data: any) => tables[table].set(data.id, { id: data.id, data, revision, deleted: false }));
+        return { revision, count: records.length };
+      }) },
+      remove: { mutate: jest.fn(async ({ ids }) => {
+        revision++;
+        ids.forEach((id: string) => tables[table].set(id, { id, data: tables[table].get(id)?.data, revision, deleted: true }));
+        return { revision, count: ids.length };
+      }) },
+    };
+  };
+
+  return {
+    setSyncAuthToken: jest.fn(),
+    trpcSyncClient: {
+      devices: { pair: { mutate: jest.fn(async () => ({ token: 'device-token' })) } },
+      events: {
+        get: { query: jest.fn(async ({ eventId }) => events.get(eventId) ?? null) },
+        push: { mutate: jest.fn(async ({ event }) => {
+          revision++;
+          events.set(event.id, { id: event.id, data: event, revision, deleted: false });
+          return { revision };
+        }) },
+      },
+      products: recordRouter('products'),
+      productTypes: recordRouter('productTypes'),
+      promos: recordRouter('promos'),
+      transactions: recordRouter('transactions'),
+    },
+  };
+});
+
+const mug = testProduct('mug', 12);
+const badge = testProduct('badge', 3);
+const promo: Promo = { id: 'promo_1', name: 'Two mugs', mode: 'type_list', typeId: 'type_1', maxQuantity: 2, prices: { 2: 20 }, order: 0 };
+
+const localRows = (overrides: Partial<EventRows> = {}): EventRows => ({
+  products: [mug],
+  productTypes: [],
+  transactions: [],
+  settings: { ...DEFAULT_SETTINGS, promos: [] },
+  ...overrides,
+});
+
+const setup = async () => {
+  createDatabaseHarness('ios');
+  const databaseService = loadDatabaseService();
+  const eventSync = require('@/hooks/event-sync') as typeof import('@/hooks/event-sync');
+  const { trpcSyncClient: server } = require('@/lib/trpc');
+  const eventId = await createTestEvent(databaseService);
+  return { databaseService, eventSync, server, eventId };
+};
+
+describe('event sync', () => {
+  it('does nothing until the device is paired', async () => {
+    const { eventSync, server, eventId } = await setup();
+
+    await eventSync.pushEventChanges(eventId, { upsertProducts: [mug] }, []);
+    expect(await eventSync.pullEventChanges(eventId, localRows())).toBeNull();
+    expect(server.products.push.mutate).not.toHaveBeenCalled();
+    expect(server.products.pull.query).not.toHaveBeenCalled();
+  });
+
+  it('stores the device token when pairing', async () => {
+    const { databaseService, eventSync, server } = await setup();
+
+    await eventSync.pairSyncDevice('1234', 'Till 2');
+    expect(server.devices.pair.mutate).toHaveBeenCalledWith({ pairingCode: '1234', deviceName: 'Till 2' });
+    expect(await databaseService.getSyncDeviceToken()).toBe('device-token');
+    expect(await eventSync.loadSyncAuth()).toBe(true);
+  });
+
+  it('creates the event on the server from the first device to sync', async () => {
+    const { eventSync, server, eventId } = await setup();
+    await eventSync.pairSyncDevice('1234', 'Till 1');
+
+    const pulled = await eventSync.pullEventChanges(eventId, localRows({ settings: { ...DEFAULT_SETTINGS, promos: [promo] } }));
+
+    expect(countChanges(pulled!.changes)).toBe(0);
+    expect(server.events.push.mutate).toHaveBeenCalledTimes(1);
+    expect(server.products.push.mutate).toHaveBeenCalledWith({ eventId, records: [mug] });
+    expect(server.promos.push.mutate).toHaveBeenCalledWith({ eventId, records: [promo] });
+  });
+
+  it('merges catalogue, promo, settings and sales changes from other devices', async () => {
+    const { databaseService, eventSync, server, eventId } = await setup();
+    await eventSync.pairSyncDevice('1234', 'Till 1');
+    await eventSync.pullEventChanges(eventId, localRows());
+
+    // Another tablet reprices the mug, adds a badge and a promo, renames the event and rings a sale
+    const sale = testSale('remote_sale', [{ product: mug, quantity: 1 }]);
+    await server.products.push.mutate({ eventId, records: [{ ...mug, price: 15 }, badge] });
+    await server.promos.push.mutate({ eventId, records: [promo] });
+    await server.transactions.push.mutate({ eventId, records: [sale] });
+    const { data: event } = await server.events.get.query({ eventId });
+    await server.events.push.mutate({ event: { ...event, settings: { ...event.settings, eventName: 'Summer Fair' } } });
+
+    const pulled = await eventSync.pullEventChanges(eventId, localRows());
+
+    expect(pulled!.changes.upsertProducts).toEqual([{ ...mug, price: 15 }, badge]);
+    expect(pulled!.changes.upsertTransactions).toEqual([sale]);
+    expect(pulled!.changes.settings?.promos).toEqual([promo]);
+    expect(pulled!.changes.settings?.eventName).toBe('Summer Fair');
+    expect(pulled!.rows.products.map(p => p.id)).toEqual(['mug', 'badge']);
+    expect(await databaseService.getSyncRevision(eventId)).toBe(6);
+  });
+
+  it('applies deletions and ignores its own pushes coming back', async () => {
+    const { eventSync, server, eventId } = await setup();
+    await eventSync.pairSyncDevice('1234', 'Till 1');
+    const rows = localRows({ products: [mug, badge], settings: { ...DEFAULT_SETTINGS, promos: [promo] } });
+    await eventSync.pullEventChanges(eventId, rows);
+
+    await server.products.remove.mutate({ eventId, ids: ['badge'] });
+    await eventSync.pushEventChanges(eventId, { settings: { ...DEFAULT_SETTINGS, promos: [] } }, [promo]);
+    expect(server.promos.remove.mutate).toHaveBeenCalledWith({ eventId, ids: ['promo_1'] });
+
+    const pulled = await eventSync.pullEventChanges(eventId, localRows({ products: [mug, badge], settings: { ...DEFAULT_SETTINGS, promos: [] } }));
+    expect(pulled!.changes.deleteProductIds).toEqual(['badge']);
+    expect(pulled!.changes.upsertProducts).toEqual([]);
+    expect(pulled!.changes.settings).toBeUndefined();
+  });
+
+  it('pushes the whole catalogue again after a failed push', async () => {
+    const { eventSync, server, eventId } = await setup();
+    await eventSync.pairSyncDevice('1234', 'Till 1');
+    await eventSync.pullEventChanges(eventId, localRows());
+
+    server.products.push.mutate.mockRejectedValueOnce(new Error('offline'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await eventSync.pushEventChanges(eventId, { upsertProducts: [badge] }, []);
+
+    await eventSync.pullEventChanges(eventId, localRows({ products: [mug, badge] }));
+    expect(server.products.push.mutate).toHaveBeenLastCalledWith({ eventId, records: [mug, badge] });
+  });
+});
@@ -0,0 +1,133 @@
+import { createDatabaseHarness, createTestEvent, getTestAdmin, loadDatabaseService, testProduct, testSale } from '@/test-utils/database';
+import type { SQLiteDatabase } from '@/test-utils/expo-sqlite';
+import { createPersistedEventState, diffEventRows } from '@/lib/event-changes';
+import { DEFAULT_SETTINGS } from '@/constants/products';
+import { Transaction } from '@/types/sales';
+
+// BENCHMARK - A SALE IN AN EVENT WITH 10K TRANSACTIONS WRITES ONE ROW, NOT THE WHOLE EVENT
+
+const EVENT_SIZE = 10_000;
+const mug = testProduct('mug', 12);
+const badge = testProduct('badge', 3);
+
+const countWrites = (db: SQLiteDatabase) => {
+  const runAsync = jest.spyOn(db, 'runAsync');
+  return () => runAsync.mock.calls.length;
+};
+
+describe('event writes at 10k transactions', () => {
+  let db: SQLiteDatabase;
+  let eventId: string;
+  let databaseService: ReturnType<typeof loadDatabaseService>;
+  let fullRewriteMs: number;
+
+  beforeAll(async () => {
+    const harness = createDatabaseHarness('ios');
+    databaseService = loadDatabaseService();
+    eventId = await createTestEvent(databaseService);
+    db = await harness.sqlite.openDatabaseAsync('sales.db');
+
+    const transactions = Array.from({ length: EVENT_SIZE }, (_, i) =>
+      testSale(`t${i}`, [{ product: i % 2 ? mug : badge, quantity: 1 + (i % 3) }])
+    );
+    const startedAt = performance.now();
+    await databaseService.saveEventData(eventId, [mug, badge], transactions, [], [], DEFAULT_SETTINGS);
+    fullRewriteMs = performance.now() - startedAt;
+  }, 120_000);
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('appends a sale with a constant number of statements', async () => {
+    const writes = countWrites(db);
+    const startedAt = performance.now();
+
+    await databaseService.appendTransaction(eventId, testSale('new_sale', [{ product: mug, quantity: 2 }]));
+
+    const appendMs = performance.now() - startedAt;
+    // The row, clearing and writing its line item, and the event's updatedAt
+    expect(writes()).toBe(4);
+    expect(appendMs).toBeLessThan(fullRewriteMs / 10);
+
+    const count = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM event_transactions WHERE eventId = ?', [eventId]);
+    expect(count?.count).toBe(EVENT_SIZE + 1);
+  });
+
+  it('deletes a sale without touching the others', async () => {
+    const writes = countWrites(db);
+
+    await databaseService.applyEventChanges(eventId, { deleteTransactionIds: ['t42'] });
+
+    // The row, its line items and the event's updatedAt
+    expect(writes()).toBe(3);
+    const row = await db.getFirstAsync('SELECT id FROM event_transactions WHERE id = ?', [`${eventId}_t42`]);
+    expect(row).toBeNull();
+    const items = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM transaction_items WHERE eventId = ?', [eventId]);
+    expect(items?.count).toBe(EVENT_SIZE);
+  });
+
+  it('finds the one dirty row among 10k', async () => {
+    const data = await databaseService.loadEventData(eventId);
+    const rows = { products: data!.products, productTypes: data!.productTypes ?? [], transactions: data!.transactions, settings: data!.settings };
+    const persisted = createPersistedEventState(rows);
+    const sale = testSale('dirty', [{ product: badge, quantity: 1 }]);
+
+    const changes = diffEventRows(persisted, { ...rows, transactions: [sale, ...rows.transactions] });
+
+    expect(changes.upsertTransactions).toEqual([sale]);
+    expect(changes.deleteTransactionIds).toEqual([]);
+    expect(changes.upsertProducts).toEqual([]);
+    expect(changes.settings).toBeUndefined();
+  }, 30_000);
+
+  it('loads the event and its totals', async () => {
+    const data = await databaseService.loadEventData(eventId);
+    expect(data?.transactions).toHaveLength(EVENT_SIZE);
+
+    const totals = await databaseService.getProductSalesTotals(eventId);
+    const mugTotal = totals.find(t => t.productId === 'mug');
+    expect(mugTotal?.quantity).toBeGreaterThan(0);
+    const quantity = totals.reduce((sum, t) => sum + t.quantity, 0);
+    const transactions: Transaction[] = data!.transactions;
+    const expected = transactions.reduce((sum, t) => sum + t.items.reduce((s, item) => s + item.quantity, 0), 0);
+    expect(quantity).toBe(expected);
+  }, 30_000);
+});
+
+describe('backup restore', () => {
+  it('queues behind other writes instead of nesting transactions', async () => {
+    createDatabaseHarness('ios');
+    const databaseService = loadDatabaseService();
+    const eventId = await createTestEvent(databaseService);
+    const admin = await getTestAdmin(databaseService);
+    await databaseService.appendTransaction(eventId, testSale('before', [{ product: mug, quantity: 1 }]));
+    const backup = await databaseService.exportBackupSnapshot(admin);
+
+    const [, written] = await Promise.all([
+      databaseService.appendTransaction(eventId, testSale('during', [{ product: badge, quantity: 1 }])),
+      databaseService.restoreBackupSnapshot(backup, 'merge', admin),
+    ]);
+
+    expect(written.event_transactions).toBe(0);
+    const data = await databaseService.loadEventData(eventId);
+    expect(data?.transactions.map(t => t.id).sort()).toEqual(['before', 'during']);
+  });
+});
+
+describe('web event writes', () => {
+  it('keep every sale when saves overlap', async () => {
+    createDatabaseHarness('web');
+    const databaseService = loadDatabaseService();
+    const eventId = await createTestEvent(databaseService);
+    await databaseService.saveEventData(eventId, [mug, badge], [], [], [], DEFAULT_SETTINGS);
+
+    await Promise.all([
+      databaseService.appendTransaction(eventId, testSale('first', [{ product: mug, quantity: 1 }])),
+      databaseService.appendTransaction(eventId, testSale('second', [{ product: badge, quantity: 1 }])),
+      databaseService.upsertProduct(eventId, { ...mug, price: 15 }),
+    ]);
+
+    const data = await databaseService.loadEventData(eventId);
+    expect(data?.transactions.map(t => t.id).sort()).toEqual(['first', 'second']);
+    expect(data?.products.find(p => p.id === 'mug')?.price).toBe(15);
+  });
+});
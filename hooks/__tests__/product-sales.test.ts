@@ -0,0 +1,78 @@
+import { createDatabaseHarness, createTestEvent, loadDatabaseService, testProduct, testSale } from '@/test-utils/database';
+import { aggregateProductSales, findTopSellers, ProductSalesTotal } from '@/lib/transaction-items';
+import { buildRefundTransaction } from '@/lib/refunds';
+import { Transaction } from '@/types/sales';
+
+// The SQL aggregates on device and their JS equivalents on web must agree
+
+const mug = testProduct('mug', 12, { subgroup: 'Kitchen' });
+const badge = testProduct('badge', 3, { typeId: 'type_2' });
+const poster = testProduct('poster', 8);
+
+const promoSale = testSale('promo', [
+  { product: { ...mug, price: 10 }, quantity: 2, listPrice: 12, allocatedDiscount: 4, appliedPromotions: ['Two mugs'] },
+  { product: badge, quantity: 3, listPrice: 3, allocatedDiscount: 0 },
+], { subtotal: 29, discount: 4, total: 25 });
+const overrideSale = testSale('override', [
+  { product: { ...poster, price: 5 }, quantity: 1, listPrice: 8, overridePrice: 5, allocatedDiscount: 0 },
+]);
+const dollarSale = testSale('dollars', [{ product: { ...mug, price: 13 }, quantity: 1, listPrice: 13, allocatedDiscount: 0 }], { currency: 'USD' });
+const legacySale = testSale('legacy', [{ product: badge, quantity: 4 }]);
+const refund = { ...buildRefundTransaction(promoSale, [promoSale], [{ productId: 'mug', quantity: 1 }]), id: 'refund' };
+
+const SALES: Transaction[] = [promoSale, overrideSale, dollarSale, legacySale, refund];
+
+const rounded = (totals: ProductSalesTotal[]) => totals
+  .map(total => ({
+    ...total,
+    grossAmount: Math.round(total.grossAmount * 100) / 100,
+    discountAmount: Math.round(total.discountAmount * 100) / 100,
+    netAmount: Math.round(total.netAmount * 100) / 100,
+  }))
+  .sort((a, b) => `${a.productId}|${a.currency}`.localeCompare(`${b.productId}|${b.currency}`));
+
+const recordSales = async (os: 'ios' | 'web') => {
+  createDatabaseHarness(os);
+  const databaseService = loadDatabaseService();
+  const eventId = await createTestEvent(databaseService);
+  for (const transaction of SALES) {
+    await databaseService.appendTransaction(eventId, transaction);
+  }
+  return { databaseService, eventId };
+};
+
+describe.each(['ios', 'web'] as const)('product sales on %s', (os) => {
+  it('match the in-memory aggregation', async () => {
+    const { databaseService, eventId } = await recordSales(os);
+
+    const totals = await databaseService.getProductSalesTotals(eventId);
+
+    expect(rounded(totals)).toEqual(rounded(aggregateProductSales(SALES)));
+  });
+
+  it('are net of promos, overrides and refunds', async () => {
+    const { databaseService, eventId } = await recordSales(os);
+
+    const totals = rounded(await databaseService.getProductSalesTotals(eventId));
+
+    expect(totals.find(t => t.productId === 'mug' && t.currency === 'EUR')).toEqual({
+      productId: 'mug', productName: 'mug', typeId: 'type_1', subgroup: 'Kitchen', currency: 'EUR',
+      quantity: 1, grossAmount: 12, discountAmount: 2, netAmount: 10,
+    });
+    expect(totals.find(t => t.productId === 'poster')).toMatchObject({ grossAmount: 5, discountAmount: 0, netAmount: 5 });
+    expect(totals.find(t => t.productId === 'badge')).toMatchObject({ quantity: 7, netAmount: 21 });
+    expect(totals.find(t => t.productId === 'mug' && t.currency === 'USD')).toMatchObject({ quantity: 1, netAmount: 13 });
+  });
+
+  it('rank top sellers by units across currencies', async () => {
+    const { databaseService, eventId } = await recordSales(os);
+
+    const sellers = await databaseService.getTopSellers(eventId, 2);
+
+    expect(sellers).toEqual(findTopSellers(SALES, 2));
+    expect(sellers).toEqual([
+      { productId: 'badge', productName: 'badge', quantity: 7, transactionCount: 2 },
+      { productId: 'mug', productName: 'mug', quantity: 2, transactionCount: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import { createDatabaseHarness, createTestEvent, getTestAdmin, loadDatabaseService, testProduct, testSale } from '@/test-utils/database';
+import { buildRefundTransaction } from '@/lib/refunds';
+import { DEFAULT_SETTINGS } from '@/constants/products';
+import { Transaction } from '@/types/sales';
+
+// Every native path that writes a sale and reads it back, so a field that one of them drops shows up here
+type RoundTrip = (databaseService: ReturnType<typeof loadDatabaseService>, eventId: string, transactions: Transaction[]) => Promise<Transaction[]>;
+
+const loadTransactions = async (databaseService: ReturnType<typeof loadDatabaseService>, eventId: string): Promise<Transaction[]> =>
+  (await databaseService.loadEventData(eventId))?.transactions ?? [];
+
+const ROUND_TRIPS: [string, RoundTrip][] = [
+  ['a single-row append', async (databaseService, eventId, transactions) => {
+    for (const transaction of transactions) {
+      await databaseService.appendTransaction(eventId, transaction);
+    }
+    return loadTransactions(databaseService, eventId);
+  }],
+  ['a full event save', async (databaseService, eventId, transactions) => {
+    await databaseService.saveEventData(eventId, [], transactions, [], [], DEFAULT_SETTINGS);
+    return loadTransactions(databaseService, eventId);
+  }],
+  ['a device backup restore', async (databaseService, eventId, transactions) => {
+    const admin = await getTestAdmin(databaseService);
+    await databaseService.saveEventData(eventId, [], transactions, [], [], DEFAULT_SETTINGS);
+    const backup = await databaseService.exportBackupSnapshot(admin);
+    await databaseService.restoreBackupSnapshot(JSON.parse(JSON.stringify(backup)), 'replace', admin);
+    return loadTransactions(databaseService, eventId);
+  }],
+  ['an event snapshot restore', async (databaseService, eventId, transactions) => {
+    const admin = await getTestAdmin(databaseService);
+    await databaseService.saveEventData(eventId, [], transactions, [], [], DEFAULT_SETTINGS);
+    const snapshot = await databaseService.createEventSnapshot(eventId, 'manual');
+    await databaseService.saveEventData(eventId, [], [], [], [], DEFAULT_SETTINGS);
+    await databaseService.restoreEventSnapshot(snapshot!.id, admin);
+    return loadTransactions(databaseService, eventId);
+  }],
+  ['the sync outbox', async (databaseService, eventId, transactions) => {
+    for (const transaction of transactions) {
+      await databaseService.enqueueOutboxTransaction(eventId, transaction);
+    }
+    return (await databaseService.getDueOutboxEntries()).flatMap(entry => entry.transaction ?? []);
+  }],
+];
+
+const roundTrip = async (run: RoundTrip, transactions: Transaction[]): Promise<Transaction[]> => {
+  createDatabaseHarness('ios');
+  const databaseService = loadDatabaseService();
+  const eventId = await createTestEvent(databaseService);
+  return run(databaseService, eventId, transactions);
+};
+
+const byId = (transactions: Transaction[], id: string) => transactions.find(t => t.id === id);
+
+const mug = testProduct('mug', 12);
+
+describe('refundOf', () => {
+  const sale = testSale('sale_1', [{ product: mug, quantity: 3 }]);
+  const refund = { ...buildRefundTransaction(sale, [sale], [{ productId: 'mug', quantity: 1 }]), id: 'refund_1' };
+
+  it.each(ROUND_TRIPS)('survives %s', async (_, run) => {
+    const transactions = await roundTrip(run, [sale, refund]);
+
+    expect(byId(transactions, 'refund_1')?.refundOf).toBe('sale_1');
+    expect(byId(transactions, 'refund_1')?.items[0].quantity).toBe(-1);
+    expect(byId(transactions, 'sale_1')?.refundOf).toBeUndefined();
+  });
+});
+
+describe('payments', () => {
+  const split = testSale('split_1', [{ product: mug, quantity: 2 }], {
+    paymentMethod: 'card',
+    payments: [
+      { method: 'card', currency: 'EUR', amount: 14, baseAmount: 14 },
+      { method: 'cash', currency: 'GBP', amount: 8, baseAmount: 10 },
+    ],
+  });
+  const single = testSale('single_1', [{ product: mug, quantity: 1 }]);
+
+  it.each(ROUND_TRIPS)('survives %s', async (_, run) => {
+    const transactions = await roundTrip(run, [split, single]);
+
+    expect(byId(transactions, 'split_1')?.payments).toEqual(split.payments);
+    expect(byId(transactions, 'split_1')?.paymentMethod).toBe('card');
+    expect(byId(transactions, 'single_1')?.payments).toBeUndefined();
+  });
+});
+
+describe('cashTender', () => {
+  const cash = testSale('cash_1', [{ product: mug, quantity: 1 }], {
+    cashTender: { currency: 'EUR', tendered: 20, change: 8 },
+  });
+  const card = testSale('card_1', [{ product: mug, quantity: 1 }], { paymentMethod: 'card' });
+
+  it.each(ROUND_TRIPS)('survives %s', async (_, run) => {
+    const transactions = await roundTrip(run, [cash, card]);
+
+    expect(byId(transactions, 'cash_1')?.cashTender).toEqual({ currency: 'EUR', tendered: 20, change: 8 });
+    expect(byId(transactions, 'card_1')?.cashTender).toBeUndefined();
+  });
+});
+
+describe('cashSessionId', () => {
+  const inDrawer = testSale('drawer_1', [{ product: mug, quantity: 1 }], { cashSessionId: 'session_1' });
+  const noDrawer = testSale('no_drawer_1', [{ product: mug, quantity: 1 }]);
+
+  it.each(ROUND_TRIPS)('survives %s', async (_, run) => {
+    const transactions = await roundTrip(run, [inDrawer, noDrawer]);
+
+    expect(byId(transactions, 'drawer_1')?.cashSessionId).toBe('session_1');
+    expect(byId(transactions, 'no_drawer_1')?.cashSessionId).toBeUndefined();
+  });
+});
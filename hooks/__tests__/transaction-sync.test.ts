@@ -0,0 +1,120 @@
+import { createDatabaseHarness, createTestEvent, getTestAdmin, loadDatabaseService, testProduct, testSale } from '@/test-utils/database';
+
+jest.mock('@/lib/trpc', () => ({
+  setSyncAuthToken: jest.fn(),
+  trpcSyncClient: {
+    transactions: {
+      push: { mutate: jest.fn().mockResolvedValue({ revision: 1, count: 1 }) },
+      remove: { mutate: jest.fn().mockResolvedValue({ revision: 2, count: 1 }) },
+    },
+  },
+}));
+
+const sale = testSale('sale_1', [{ product: testProduct('mug', 12), quantity: 1 }]);
+
+const setup = async (os: 'ios' | 'web') => {
+  createDatabaseHarness(os);
+  const databaseService = loadDatabaseService();
+  const { flushTransactionOutbox } = require('@/hooks/transaction-sync') as typeof import('@/hooks/transaction-sync');
+  const { trpcSyncClient } = require('@/lib/trpc');
+  const eventId = await createTestEvent(databaseService);
+  await databaseService.saveSyncDeviceToken('device-token');
+  return { databaseService, flushTransactionOutbox, sync: trpcSyncClient.transactions, eventId };
+};
+
+describe.each(['ios', 'web'] as const)('transaction outbox on %s', (os) => {
+  it('removes a synced sale from the server after it is deleted', async () => {
+    const { databaseService, flushTransactionOutbox, sync, eventId } = await setup(os);
+    await databaseService.enqueueOutboxTransaction(eventId, sale);
+    await flushTransactionOutbox();
+
+    await databaseService.enqueueOutboxRemoval(eventId, sale.id);
+    expect(await flushTransactionOutbox()).toEqual({ synced: 1, failed: 0 });
+
+    expect(sync.push.mutate).toHaveBeenCalledTimes(1);
+    expect(sync.remove.mutate).toHaveBeenCalledWith({ eventId, ids: ['sale_1'] });
+    expect(await databaseService.getDueOutboxEntries()).toEqual([]);
+  });
+
+  it('sends only the removal when a sale is deleted before it was pushed', async () => {
+    const { databaseService, flushTransactionOutbox, sync, eventId } = await setup(os);
+    await databaseService.enqueueOutboxTransaction(eventId, sale);
+    await databaseService.enqueueOutboxRemoval(eventId, sale.id);
+
+    const [entry] = await databaseService.getDueOutboxEntries();
+    expect(entry.operation).toBe('remove');
+    expect(entry.transaction).toBeUndefined();
+
+    await flushTransactionOutbox();
+    expect(sync.push.mutate).not.toHaveBeenCalled();
+    expect(sync.remove.mutate).toHaveBeenCalledWith({ eventId, ids: ['sale_1'] });
+  });
+
+  it('retries a failed removal', async () => {
+    const { databaseService, flushTransactionOutbox, sync, eventId } = await setup(os);
+    sync.remove.mutate.mockRejectedValueOnce(new Error('offline'));
+    await databaseService.enqueueOutboxRemoval(eventId, sale.id);
+
+    expect(await flushTransactionOutbox()).toEqual({ synced: 0, failed: 1 });
+    const [entry] = await databaseService.getDueOutboxEntries(new Date(Date.now() + 60 * 60 * 1000));
+    expect(entry).toMatchObject({ operation: 'remove', status: 'failed', attempts: 1, lastError: 'offline' });
+  });
+
+  it('keeps an edit queued during a push pending', async () => {
+    const { databaseService, flushTransactionOutbox, sync, eventId } = await setup(os);
+    const edited = { ...sale, email: 'buyer@example.com' };
+    await databaseService.enqueueOutboxTransaction(eventId, sale);
+    sync.push.mutate.mockImplementationOnce(async () => {
+      await databaseService.enqueueOutboxTransaction(eventId, edited);
+      return { revision: 1, count: 1 };
+    });
+
+    await flushTransactionOutbox();
+
+    const [entry] = await databaseService.getDueOutboxEntries();
+    expect(entry).toMatchObject({ status: 'pending', version: 2 });
+    expect(entry.transaction?.email).toBe('buyer@example.com');
+  });
+
+  it('flushes again when a sync is requested during a flush', async () => {
+    const { databaseService, flushTransactionOutbox, sync, eventId } = await setup(os);
+    await databaseService.enqueueOutboxTransaction(eventId, sale);
+    sync.push.mutate.mockImplementationOnce(async () => {
+      await databaseService.enqueueOutboxRemoval(eventId, sale.id);
+      expect(await flushTransactionOutbox()).toEqual({ synced: 0, failed: 0 });
+      return { revision: 1, count: 1 };
+    });
+
+    expect(await flushTransactionOutbox()).toEqual({ synced: 2, failed: 0 });
+
+    expect(sync.remove.mutate).toHaveBeenCalledWith({ eventId, ids: ['sale_1'] });
+    expect(await databaseService.getDueOutboxEntries()).toEqual([]);
+  });
+
+  it('keeps entries queued until the device is paired', async () => {
+    const { databaseService, flushTransactionOutbox, sync, eventId } = await setup(os);
+    await databaseService.saveSyncDeviceToken(null);
+    await databaseService.enqueueOutboxTransaction(eventId, sale);
+
+    expect(await flushTransactionOutbox()).toEqual({ synced: 0, failed: 0 });
+    expect(sync.push.mutate).not.toHaveBeenCalled();
+    expect(await databaseService.getDueOutboxEntries()).toHaveLength(1);
+  });
+
+  it('drops queued entries when their event is deleted', async () => {
+    const { databaseService, eventId } = await setup(os);
+    // Web event ids are timestamps, so the second event needs a later millisecond
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const unnamedId = await createTestEvent(databaseService, '');
+    await databaseService.enqueueOutboxTransaction(eventId, sale);
+    await databaseService.enqueueOutboxTransaction(unnamedId, { ...sale, id: 'sale_2' });
+
+    const admin = await getTestAdmin(databaseService);
+
+    await databaseService.deleteAllUnnamedEvents(admin);
+    expect((await databaseService.getDueOutboxEntries()).map(entry => entry.transactionId)).toEqual(['sale_1']);
+
+    await databaseService.deleteEvent(eventId, admin);
+    expect(await databaseService.getDueOutboxEntries()).toEqual([]);
+  });
+});
@@ -5,6 +5,7 @@ import * as WebBrowser from 'expo-web-browser';
 import * as Google from 'expo-auth-session/providers/google';
 import { databaseService } from './database';
 import { User, Event, UserRole } from '@/types/auth';
+import { hashPassword, verifyPassword, isLegacyPasswordHash } from '@/lib/password';
 
 WebBrowser.maybeCompleteAuthSession();
 
@@ -82,16 +83,6 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
     loadAuthState();
   }, []);
 
-  const hashPassword = useCallback((password: string): string => {
-    let hash = 0;
-    for (let i = 0; i < password.length; i++) {
-      const char = password.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return hash.toString();
-  }, []);
-
   const login = useCallback(async (username: string, password: string): Promise<boolean> => {
     try {
       console.log('🔐 Attempting login for:', username);
@@ -102,12 +93,25 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
         return false;
       }
 
-      const passwordHash = hashPassword(password);
-      if (user.passwordHash !== passwordHash) {
+      const isValid = await verifyPassword(password, user.passwordHash);
+      if (!isValid) {
         console.log('❌ Invalid password');
         return false;
       }
 
+      if (isLegacyPasswordHash(user.passwordHash)) {
+        try {
+          console.log('🔄 Upgrading legacy password hash...');
+          const upgradedHash = await hashPassword(password);
+          await databaseService.updateUserPassword(user.id, upgradedHash);
+          user.passwordHash = upgradedHash;
+          console.log('✅ Password hash upgraded');
+        } catch (error) {
+          // Login still succeeds; the upgrade is retried on the next login
+          console.error('❌ Failed to upgrade password hash:', error);
+        }
+      }
+
       setCurrentUser(user);
       setIsAuthenticated(true);
       await databaseService.saveCurrentUser(user.id);
@@ -117,7 +121,7 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
       console.error('❌ Login error:', error);
       return false;
     }
-  }, [hashPassword]);
+  }, []);
 
   const processGoogleAuth = useCallback(async (accessToken: string): Promise<boolean> => {
     try {
@@ -272,7 +276,7 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
         return false;
       }
 
-      const passwordHash = hashPassword(password);
+      const passwordHash = await hashPassword(password);
       const user = await databaseService.createUser(username, passwordHash, email, fullName, role);
       
       setCurrentUser(user);
@@ -284,7 +288,7 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
       console.error('❌ Registration error:', error);
       return false;
     }
-  }, [hashPassword]);
+  }, []);
 
   const logout = useCallback(async () => {
     try {
@@ -0,0 +1,351 @@
+import * as SQLite from 'expo-sqlite';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { toTransactionItemRows } from '@/lib/transaction-items';
+
+// VERSIONED SCHEMA MIGRATIONS - SQLITE ON DEVICE, ASYNCSTORAGE ON WEB
+//
+// createTables() builds the version 1 layout; every later change is a new step appended to
+// the list below. Each store records the steps applied to it (the schema_version table on
+// native, a single key on web) and pending steps run in order, one transaction per step.
+// Shipped steps are never edited: they describe how old data looked at that time.
+
+export interface SqliteMigration {
+  version: number;
+  description: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+export interface WebMigration {
+  version: number;
+  description: string;
+  keys: string[]; // AsyncStorage keys read by the step, parsed from JSON (null when missing)
+  up: (values: Record<string, any>) => Record<string, any>; // Returns the keys to overwrite
+}
+
+export const WEB_SCHEMA_VERSION_KEY = 'sales_schema_version';
+
+// Key names as they were when the steps were written
+const WEB_USERS_KEY = 'sales_users';
+const WEB_EVENTS_KEY = 'sales_events';
+const WEB_SHEETS_SYNC_KEY = 'sales_sheets_sync';
+
+// Sheets bindings recorded the timestamp of the newest synced sale; every sale up to it was synced
+const idsUpToCursor = (transactions: { id: string; timestamp: string }[], cursor: string): string[] =>
+  transactions.filter(t => new Date(t.timestamp) <= new Date(cursor)).map(t => t.id);
+
+// Only the pre-versioning backfill probes columns: those databases can be in any state
+const addColumnIfMissing = async (db: SQLite.SQLiteDatabase, table: string, column: string, definition: string) => {
+  const columns = await db.getAllAsync(`PRAGMA table_info(${table})`) as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`✅ Added ${column} column to ${table} table`);
+  }
+};
+
+export const SQLITE_MIGRATIONS: SqliteMigration[] = [
+  {
+    version: 1,
+    description: 'Backfill columns added before versioned migrations',
+    up: async db => {
+      await addColumnIfMissing(db, 'transactions', 'overrideTotal', 'REAL');
+      await addColumnIfMissing(db, 'transactions', 'specialPrice', 'REAL');
+      await addColumnIfMissing(db, 'transactions', 'originalCurrency', 'TEXT');
+      await addColumnIfMissing(db, 'transactions', 'originalTotal', 'REAL');
+      await addColumnIfMissing(db, 'transactions', 'originalSubtotal', 'REAL');
+      await addColumnIfMissing(db, 'settings', 'currencyRoundUp', 'INTEGER NOT NULL DEFAULT 0');
+      await addColumnIfMissing(db, 'settings', 'currencyConversionAdvantage', 'REAL NOT NULL DEFAULT 0');
+      await addColumnIfMissing(db, 'products', 'subgroup', 'TEXT');
+      await addColumnIfMissing(db, 'products', 'typeId', "TEXT NOT NULL DEFAULT 'type_1'");
+      await addColumnIfMissing(db, 'users', 'email', "TEXT NOT NULL DEFAULT ''");
+      await addColumnIfMissing(db, 'users', 'fullName', "TEXT NOT NULL DEFAULT ''");
+      await addColumnIfMissing(db, 'users', 'role', "TEXT NOT NULL DEFAULT 'standard'");
+      await addColumnIfMissing(db, 'events', 'promos', 'TEXT');
+      await addColumnIfMissing(db, 'events', 'isTemplate', 'INTEGER NOT NULL DEFAULT 0');
+      await addColumnIfMissing(db, 'events', 'templatePin', 'TEXT');
+      await addColumnIfMissing(db, 'event_products', 'typeId', "TEXT NOT NULL DEFAULT 'type_1'");
+      await addColumnIfMissing(db, 'product_types', 'enabled', 'INTEGER NOT NULL DEFAULT 1');
+      await addColumnIfMissing(db, 'event_product_types', 'enabled', 'INTEGER NOT NULL DEFAULT 1');
+    },
+  },
+  {
+    version: 2,
+    description: 'Store split payments, refund links and cash tender on event transactions',
+    up: db => db.execAsync(`
+      ALTER TABLE event_transactions ADD COLUMN payments TEXT;
+      ALTER TABLE event_transactions ADD COLUMN refundOf TEXT;
+      ALTER TABLE event_transactions ADD COLUMN cashTender TEXT;
+    `),
+  },
+  {
+    version: 3,
+    description: 'Store Google account links on users',
+    up: db => db.execAsync(`
+      ALTER TABLE users ADD COLUMN googleId TEXT;
+      ALTER TABLE users ADD COLUMN avatarUrl TEXT;
+    `),
+  },
+  {
+    version: 4,
+    description: 'Add normalised transaction line items',
+    up: async db => {
+      await db.execAsync(`
+        CREATE TABLE transaction_items (
+          transactionId TEXT NOT NULL,
+          lineIndex INTEGER NOT NULL,
+          eventId TEXT NOT NULL,
+          productId TEXT NOT NULL,
+          productName TEXT NOT NULL,
+          typeId TEXT,
+          subgroup TEXT,
+          quantity INTEGER NOT NULL,
+          unitPrice REAL NOT NULL,
+          overridePrice REAL,
+          allocatedDiscount REAL NOT NULL DEFAULT 0,
+          PRIMARY KEY (transactionId, lineIndex),
+          FOREIGN KEY (transactionId) REFERENCES event_transactions(id)
+        );
+        CREATE INDEX idx_transaction_items_event_product ON transaction_items (eventId, productId);
+      `);
+
+      const transactions = await db.getAllAsync('SELECT id, eventId, items FROM event_transactions') as { id: string; eventId: string; items: string }[];
+      for (const transaction of transactions) {
+        for (const row of toTransactionItemRows(JSON.parse(transaction.items))) {
+          await db.runAsync(
+            'INSERT INTO transaction_items (transactionId, lineIndex, eventId, productId, productName, typeId, subgroup, quantity, unitPrice, overridePrice, allocatedDiscount) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+            [transaction.id, row.lineIndex, transaction.eventId, row.productId, row.productName, row.typeId, row.subgroup, row.quantity, row.unitPrice, row.overridePrice, row.allocatedDiscount]
+          );
+        }
+      }
+      console.log(`✅ Backfilled line items for ${transactions.length} transactions`);
+    },
+  },
+  {
+    version: 5,
+    description: 'Add the append-only audit log',
+    // Entries outlive their event, so there is no foreign key, and triggers refuse edits
+    up: db => db.execAsync(`
+      CREATE TABLE audit_log (
+        id TEXT PRIMARY KEY,
+        eventId TEXT NOT NULL,
+        userId TEXT,
+        userName TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        entityType TEXT NOT NULL,
+        entityId TEXT NOT NULL,
+        action TEXT NOT NULL,
+        changes TEXT NOT NULL
+      );
+      CREATE INDEX idx_audit_log_event_timestamp ON audit_log (eventId, timestamp);
+      CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+      CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+    `),
+  },
+  {
+    version: 6,
+    description: 'Add named user roles and per-event role permissions',
+    up: db => db.execAsync(`
+      ALTER TABLE events ADD COLUMN rolePermissions TEXT;
+      UPDATE users SET role = 'manager' WHERE role = 'standard';
+    `),
+  },
+  {
+    version: 7,
+    description: 'Add supervisor approval of price and total overrides',
+    up: db => db.execAsync(`
+      ALTER TABLE users ADD COLUMN approvalPinHash TEXT;
+      ALTER TABLE events ADD COLUMN overrideApproval TEXT;
+      ALTER TABLE event_transactions ADD COLUMN overrideApprovals TEXT;
+    `),
+  },
+  {
+    version: 8,
+    description: 'Link transactions to the cash drawer session that took them',
+    up: db => db.execAsync(`
+      ALTER TABLE event_transactions ADD COLUMN cashSessionId TEXT;
+    `),
+  },
+  {
+    version: 9,
+    description: 'Queue transaction deletions for the sync server',
+    up: db => db.execAsync(`
+      ALTER TABLE transaction_outbox ADD COLUMN operation TEXT NOT NULL DEFAULT 'push';
+    `),
+  },
+  {
+    version: 10,
+    description: 'Track the transactions synced to Google Sheets by id instead of a timestamp cursor',
+    up: async db => {
+      await db.execAsync('ALTER TABLE sheets_sync ADD COLUMN syncedTransactionIds TEXT');
+      const bindings = await db.getAllAsync('SELECT eventId, cursor FROM sheets_sync WHERE cursor IS NOT NULL') as { eventId: string; cursor: string }[];
+      for (const { eventId, cursor } of bindings) {
+        const rows = await db.getAllAsync('SELECT id, timestamp FROM event_transactions WHERE eventId = ?', [eventId]) as { id: string; timestamp: string }[];
+        // Row ids carry the event id as a prefix
+        const transactions = rows.map(row => ({ ...row, id: row.id.slice(eventId.length + 1) }));
+        await db.runAsync(
+          'UPDATE sheets_sync SET syncedTransactionIds = ?, cursor = NULL WHERE eventId = ?',
+          [JSON.stringify(idsUpToCursor(transactions, cursor)), eventId]
+        );
+      }
+    },
+  },
+  {
+    version: 11,
+    description: 'Version outbox entries so an enqueue during a push is not marked synced',
+    up: db => db.execAsync(`
+      ALTER TABLE transaction_outbox ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
+    `),
+  },
+];
+
+export const WEB_MIGRATIONS: WebMigration[] = [
+  {
+    version: 1,
+    description: 'Backfill fields added before versioned migrations',
+    keys: [WEB_USERS_KEY, WEB_EVENTS_KEY],
+    up: values => {
+      const users: any[] | null = values[WEB_USERS_KEY];
+      const events: any[] | null = values[WEB_EVENTS_KEY];
+      return {
+        ...(users && { [WEB_USERS_KEY]: users.map(user => ({
+          email: '',
+          fullName: '',
+          role: 'standard',
+          ...user,
+        })) }),
+        ...(events && { [WEB_EVENTS_KEY]: events.map(event => ({
+          currencyRoundUp: false,
+          isFinalized: false,
+          isTemplate: false,
+          promos: [],
+          ...event,
+          products: (event.products ?? []).map((product: any) => ({
+            ...product,
+            typeId: product.typeId ?? (product.type === 'Magic Stuff' ? 'type_2' : 'type_1'),
+          })),
+          productTypes: (event.productTypes ?? []).map((type: any) => ({ enabled: true, ...type })),
+          transactions: event.transactions ?? [],
+        })) }),
+      };
+    },
+  },
+  {
+    version: 2,
+    description: 'Replace the standard role with manager',
+    keys: [WEB_USERS_KEY],
+    up: values => {
+      const users: any[] | null = values[WEB_USERS_KEY];
+      return users
+        ? { [WEB_USERS_KEY]: users.map(user => user.role === 'standard' ? { ...user, role: 'manager' } : user) }
+        : {};
+    },
+  },
+  {
+    version: 3,
+    description: 'Track the transactions synced to Google Sheets by id instead of a timestamp cursor',
+    keys: [WEB_SHEETS_SYNC_KEY, WEB_EVENTS_KEY],
+    up: values => {
+      const states: any[] | null = values[WEB_SHEETS_SYNC_KEY];
+      const events: any[] = values[WEB_EVENTS_KEY] ?? [];
+      return states
+        ? { [WEB_SHEETS_SYNC_KEY]: states.map(({ cursor, ...state }) => ({
+          ...state,
+          syncedTransactionIds: cursor
+            ? idsUpToCursor(events.find(event => event.id === state.eventId)?.transactions ?? [], cursor)
+            : [],
+        })) }
+        : {};
+    },
+  },
+];
+
+const latestVersion = (migrations: { version: number }[]) =>
+  migrations.reduce((latest, m) => Math.max(latest, m.version), 0);
+
+/**
+ * Applies every SQLite step newer than the recorded version. A failed step is rolled back
+ * and rethrown, so the database is never left half-way through a step.
+ */
+export async function migrateSqliteDatabase(db: SQLite.SQLiteDatabase): Promise<number> {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      appliedAt TEXT NOT NULL
+    );
+  `);
+
+  const row = await db.getFirstAsync('SELECT MAX(version) as version FROM schema_version') as { version: number | null } | null;
+  const currentVersion = row?.version ?? 0;
+  if (currentVersion > latestVersion(SQLITE_MIGRATIONS)) {
+    console.warn(`⚠️ Database schema version ${currentVersion} is newer than this app supports`);
+    return currentVersion;
+  }
+
+  const pending = SQLITE_MIGRATIONS
+    .filter(m => m.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      await db.execAsync('BEGIN IMMEDIATE TRANSACTION');
+      await migration.up(db);
+      await db.runAsync(
+        'INSERT INTO schema_version (version, description, appliedAt) VALUES (?, ?, ?)',
+        [migration.version, migration.description, new Date().toISOString()]
+      );
+      await db.execAsync('COMMIT');
+      console.log(`✅ Schema migrated to v${migration.version}: ${migration.description}`);
+    } catch (error) {
+      try {
+        await db.execAsync('ROLLBACK');
+      } catch (rollbackError) {
+        console.error('❌ Rollback failed:', rollbackError);
+      }
+      console.error(`❌ Schema migration to v${migration.version} failed, rolled back:`, error);
+      throw error;
+    }
+  }
+
+  return pending.length > 0 ? pending[pending.length - 1].version : currentVersion;
+}
+
+/**
+ * Web equivalent: each step's output and the new version are written in one multiSet, so a
+ * step is either fully stored or not at all.
+ */
+export async function migrateWebStorage(): Promise<number> {
+  const stored = await AsyncStorage.getItem(WEB_SCHEMA_VERSION_KEY);
+  let currentVersion = stored ? parseInt(stored, 10) || 0 : 0;
+  if (currentVersion > latestVersion(WEB_MIGRATIONS)) {
+    console.warn(`⚠️ Web storage schema version ${currentVersion} is newer than this app supports`);
+    return currentVersion;
+  }
+
+  const pending = WEB_MIGRATIONS
+    .filter(m => m.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    const entries = await AsyncStorage.multiGet(migration.keys);
+    const values: Record<string, any> = {};
+    entries.forEach(([key, value]) => {
+      values[key] = value ? JSON.parse(value) : null;
+    });
+
+    const updates = migration.up(values);
+    await AsyncStorage.multiSet([
+      ...Object.entries(updates).map(([key, value]): [string, string] => [key, JSON.stringify(value)]),
+      [WEB_SCHEMA_VERSION_KEY, String(migration.version)],
+    ]);
+    currentVersion = migration.version;
+    console.log(`✅ Web storage migrated to v${migration.version}: ${migration.description}`);
+  }
+
+  return currentVersion;
+}
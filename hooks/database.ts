@@ -1,8 +1,14 @@
 import * as SQLite from 'expo-sqlite';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Product, Transaction, AppSettings, ProductType } from '@/types/sales';
-import { User, Event, EventData, UserRole } from '@/types/auth';
+import { Product, Transaction, CartItem, AppSettings, ProductType, OutboxEntry, OutboxOperation, SyncStatus, CashSession, SheetsSyncState, BackupRestoreMode, DeviceBackupSnapshot, EventSnapshot, EventSnapshotReason, EventChangeSet, AuditActor, AuditAction, AuditChange, AuditEntityType, AuditLogEntry, AuditLogFilter, ApprovalPinCheck } from '@/types/sales';
+import { User, Event, EventData, UserRole, Capability, RolePermissions } from '@/types/auth';
+import { hashPassword, verifyPassword } from '@/lib/password';
+import { assertCapability, DEFAULT_USER_ROLE, hasCapability, normalizeRole } from '@/lib/permissions';
+import { toAuditActor } from '@/lib/audit';
+import { applyRowChanges } from '@/lib/event-changes';
+import { aggregateProductSales, findTopSellers, ProductSalesTotal, toTransactionItemRows, TopSeller } from '@/lib/transaction-items';
+import { migrateSqliteDatabase, migrateWebStorage } from './database-migrations';
 
 // Storage keys for web fallback
 const STORAGE_KEYS = {
@@ -15,14 +21,53 @@ const STORAGE_KEYS = {
   EVENTS: 'sales_events',
   CURRENT_USER: 'sales_current_user',
   CURRENT_EVENT: 'sales_current_event',
+  OUTBOX: 'sales_transaction_outbox',
+  CASH_SESSIONS: 'sales_cash_sessions',
+  SHEETS_SYNC: 'sales_sheets_sync',
+  SNAPSHOTS: 'sales_event_snapshots',
+  AUDIT_LOG: 'sales_audit_log',
+  SYNC_DEVICE_TOKEN: 'sales_sync_device_token',
+  SYNC_REVISIONS: 'sales_sync_revisions',
+  APPROVAL_PIN_ATTEMPTS: 'sales_approval_pin_attempts',
 };
 
+// Rolling event snapshots: one is taken on this interval while an event is open and the
+// oldest are dropped once an event has more than SNAPSHOT_RETENTION of them
+export const SNAPSHOT_INTERVAL_MS = 15 * 60 * 1000;
+export const SNAPSHOT_RETENTION = 20;
+
+// Wrong approval PINs allowed before the approver is locked out. Every wrong PIN from then
+// on locks them out again for twice as long, up to APPROVAL_PIN_MAX_LOCKOUT_MS.
+export const APPROVAL_PIN_MAX_ATTEMPTS = 5;
+export const APPROVAL_PIN_LOCKOUT_MS = 60 * 1000;
+export const APPROVAL_PIN_MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+// Failed approval PIN checks per approver, kept until their PIN is entered correctly
+type ApprovalPinAttempts = Record<string, { failures: number; lockedUntil: string | null }>;
+
+// Tables in a device backup, parents first. The outbox, Sheets bindings and event snapshots
+// are left out: they describe this device's sync progress, not business data. The audit log
+// is append-only, so restores add the entries it lacks and never drop local ones.
+const BACKUP_TABLES = [
+  'users',
+  'events',
+  'event_products',
+  'event_product_types',
+  'event_transactions',
+  'preferences',
+  'cash_sessions',
+  'audit_log',
+];
+
+// Login session and PIN lockout preferences stay with the device and are never backed up or restored
+const SESSION_PREFERENCE_KEYS = ['currentUser', 'currentEvent', 'syncDeviceToken', 'approvalPinAttempts'];
+const WEB_BACKUP_PREFERENCE_KEYS = [STORAGE_KEYS.CURRENCY, STORAGE_KEYS.EXCHANGE_RATES, STORAGE_KEYS.SYNC_REVISIONS];
+
 class DatabaseService {
   private db: SQLite.SQLiteDatabase | null = null;
   private isInitialized = false;
   private initializationPromise: Promise<void> | null = null;
-  private saveEventDataLock = false;
-  private saveEventDataQueue: (() => Promise<void>)[] = [];
+  private writeQueue: Promise<unknown> = Promise.resolve();
 
   async initialize(): Promise<void> {
     // If already initialized, return immediately
@@ -39,6 +84,7 @@ class DatabaseService {
         // Web uses AsyncStorage fallback
         if (Platform.OS === 'web') {
           console.log('🗄️ Using AsyncStorage for web...');
+          await migrateWebStorage();
           this.isInitialized = true;
           console.log('✅ Web storage initialized successfully');
           return;
@@ -221,163 +267,71 @@ class DatabaseService {
       );
     `);
 
-    // Run migrations to add new columns to existing tables
-    await this.runMigrations();
-
-    // Initialize default user
-    await this.initializeDefaultUser();
-
-    console.log('✅ Database tables created/verified');
-  }
-
-  private async runMigrations(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+    // Transaction outbox table (sales waiting to be pushed to the sync server)
+    await this.db.execAsync(`
+      CREATE TABLE IF NOT EXISTS transaction_outbox (
+        transactionId TEXT PRIMARY KEY,
+        eventId TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        nextAttemptAt TEXT NOT NULL,
+        lastError TEXT,
+        createdAt TEXT NOT NULL,
+        syncedAt TEXT
+      );
+    `);
 
-    try {
-      // Check if the new columns exist in transactions table
-      const tableInfo = await this.db.getAllAsync(
-        "PRAGMA table_info(transactions)"
-      ) as any[];
-      
-      const columnNames = tableInfo.map(col => col.name);
-      
-      // Add missing columns if they don't exist
-      if (!columnNames.includes('overrideTotal')) {
-        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN overrideTotal REAL');
-        console.log('✅ Added overrideTotal column to transactions table');
-      }
-      if (!columnNames.includes('specialPrice')) {
-        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN specialPrice REAL');
-        console.log('✅ Added specialPrice column to transactions table');
-      }
-      if (!columnNames.includes('originalCurrency')) {
-        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN originalCurrency TEXT');
-        console.log('✅ Added originalCurrency column to transactions table');
-      }
-      if (!columnNames.includes('originalTotal')) {
-        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN originalTotal REAL');
-        console.log('✅ Added originalTotal column to transactions table');
-      }
-      if (!columnNames.includes('originalSubtotal')) {
-        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN originalSubtotal REAL');
-        console.log('✅ Added originalSubtotal column to transactions table');
-      }
-      
-      // Check settings table for new columns
-      const settingsTableInfo = await this.db.getAllAsync(
-        "PRAGMA table_info(settings)"
-      ) as any[];
-      const settingsColumnNames = settingsTableInfo.map(col => col.name);
-      
-      if (!settingsColumnNames.includes('currencyRoundUp')) {
-        await this.db.execAsync('ALTER TABLE settings ADD COLUMN currencyRoundUp INTEGER NOT NULL DEFAULT 0');
-        console.log('✅ Added currencyRoundUp column to settings table');
-      }
-      if (!settingsColumnNames.includes('currencyConversionAdvantage')) {
-        await this.db.execAsync('ALTER TABLE settings ADD COLUMN currencyConversionAdvantage REAL NOT NULL DEFAULT 0');
-        console.log('✅ Added currencyConversionAdvantage column to settings table');
-      }
-      
-      // Check products table for subgroup column
-      const productsTableInfo = await this.db.getAllAsync(
-        "PRAGMA table_info(products)"
-      ) as any[];
-      const productsColumnNames = productsTableInfo.map(col => col.name);
-      
-      if (!productsColumnNames.includes('subgroup')) {
-        await this.db.execAsync('ALTER TABLE products ADD COLUMN subgroup TEXT');
-        console.log('✅ Added subgroup column to products table');
-      }
-      
-      // Check users table for email column
-      const usersTableInfo = await this.db.getAllAsync(
-        "PRAGMA table_info(users)"
-      ) as any[];
-      const usersColumnNames = usersTableInfo.map(col => col.name);
-      
-      if (!usersColumnNames.includes('email')) {
-        await this.db.execAsync('ALTER TABLE users ADD COLUMN email TEXT NOT NULL DEFAULT ""');
-        console.log('✅ Added email column to users table');
-      }
+    // Cash drawer sessions table
+    await this.db.execAsync(`
+      CREATE TABLE IF NOT EXISTS cash_sessions (
+        id TEXT PRIMARY KEY,
+        eventId TEXT NOT NULL,
+        userId TEXT NOT NULL,
+        userName TEXT NOT NULL,
+        openedAt TEXT NOT NULL,
+        closedAt TEXT,
+        openingFloat TEXT NOT NULL,
+        movements TEXT NOT NULL,
+        closingCount TEXT,
+        varianceReport TEXT,
+        FOREIGN KEY (eventId) REFERENCES events(id)
+      );
+    `);
 
-      if (!usersColumnNames.includes('fullName')) {
-        await this.db.execAsync('ALTER TABLE users ADD COLUMN fullName TEXT NOT NULL DEFAULT ""');
-        console.log('✅ Added fullName column to users table');
-      }
+    // Google Sheets binding and the transactions already synced, one row per event
+    await this.db.execAsync(`
+      CREATE TABLE IF NOT EXISTS sheets_sync (
+        eventId TEXT PRIMARY KEY,
+        spreadsheetId TEXT NOT NULL,
+        spreadsheetUrl TEXT NOT NULL,
+        cursor TEXT,
+        lastSyncedAt TEXT NOT NULL,
+        FOREIGN KEY (eventId) REFERENCES events(id)
+      );
+    `);
 
-      if (!usersColumnNames.includes('role')) {
-        await this.db.execAsync('ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT "standard"');
-        console.log('✅ Added role column to users table');
-      }
-      
-      // Check events table for promos column
-      const eventsTableInfo = await this.db.getAllAsync(
-        "PRAGMA table_info(events)"
-      ) as any[];
-      const eventsColumnNames = eventsTableInfo.map(col => col.name);
-      
-      if (!eventsColumnNames.includes('promos')) {
-        await this.db.execAsync('ALTER TABLE events ADD COLUMN promos TEXT');
-        console.log('✅ Added promos column to events table');
-      }
-      
-      if (!eventsColumnNames.includes('isTemplate')) {
-        await this.db.execAsync('ALTER TABLE events ADD COLUMN isTemplate INTEGER NOT NULL DEFAULT 0');
-        console.log('✅ Added isTemplate column to events table');
-      }
-      
-      if (!eventsColumnNames.includes('templatePin')) {
-        await this.db.execAsync('ALTER TABLE events ADD COLUMN templatePin TEXT');
-        console.log('✅ Added templatePin column to events table');
-      }
+    // Rolling snapshots of event data for rollback
+    await this.db.execAsync(`
+      CREATE TABLE IF NOT EXISTS event_snapshots (
+        id TEXT PRIMARY KEY,
+        eventId TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        productCount INTEGER NOT NULL,
+        transactionCount INTEGER NOT NULL,
+        payload TEXT NOT NULL,
+        FOREIGN KEY (eventId) REFERENCES events(id)
+      );
+    `);
 
-      // Check event_products table for typeId column
-      const eventProductsTableInfo = await this.db.getAllAsync(
-        "PRAGMA table_info(event_products)"
-      ) as any[];
-      const eventProductsColumnNames = eventProductsTableInfo.map(col => col.name);
-      
-      if (!eventProductsColumnNames.includes('typeId')) {
-        await this.db.execAsync('ALTER TABLE event_products ADD COLUMN typeId TEXT NOT NULL DEFAULT \'type_1\'');
-        console.log('✅ Added typeId column to event_products table');
-      }
-      
-      // Check products table for typeId column
-      const productsTableInfo2 = await this.db.getAllAsync(
-        "PRAGMA table_info(products)"
-      ) as any[];
-      const productsColumnNames2 = productsTableInfo2.map(col => col.name);
-      
-      if (!productsColumnNames2.includes('typeId')) {
-        await this.db.execAsync('ALTER TABLE products ADD COLUMN typeId TEXT NOT NULL DEFAULT \'type_1\'');
-        console.log('✅ Added typeId column to products table');
-      }
+    // Bring older databases up to the current schema
+    await migrateSqliteDatabase(this.db);
 
-      // Check product_types table for enabled column
-      const productTypesTableInfo = await this.db.getAllAsync(
-        "PRAGMA table_info(product_types)"
-      ) as any[];
-      const productTypesColumnNames = productTypesTableInfo.map(col => col.name);
-      
-      if (!productTypesColumnNames.includes('enabled')) {
-        await this.db.execAsync('ALTER TABLE product_types ADD COLUMN enabled INTEGER NOT NULL DEFAULT 1');
-        console.log('✅ Added enabled column to product_types table');
-      }
+    // Initialize default user
+    await this.initializeDefaultUser();
 
-      // Check event_product_types table for enabled column
-      const eventProductTypesTableInfo = await this.db.getAllAsync(
-        "PRAGMA table_info(event_product_types)"
-      ) as any[];
-      const eventProductTypesColumnNames = eventProductTypesTableInfo.map(col => col.name);
-      
-      if (!eventProductTypesColumnNames.includes('enabled')) {
-        await this.db.execAsync('ALTER TABLE event_product_types ADD COLUMN enabled INTEGER NOT NULL DEFAULT 1');
-        console.log('✅ Added enabled column to event_product_types table');
-      }
-    } catch (error) {
-      console.error('⚠️ Migration error (non-critical):', error);
-      // Don't throw - migrations are non-critical
-    }
+    console.log('✅ Database tables created/verified');
   }
 
   // Products methods
@@ -1105,11 +1059,16 @@ class DatabaseService {
     }
   }
 
-  async createUser(username: string, passwordHash: string, email: string = '', fullName: string = '', role?: UserRole): Promise<User> {
+  async createUser(username: string, passwordHash: string, email: string = '', fullName: string = '', role?: UserRole, actingUser?: User | null): Promise<User> {
     await this.initialize();
     
+    // Choosing a role is user management; self-registration gets the default role
+    if (role) {
+      assertCapability(actingUser ?? null, 'user.manage');
+    }
+
     // Determine role: if not specified, check if this is the first user (should be admin)
-    let userRole: UserRole = role || 'standard';
+    let userRole: UserRole = role || DEFAULT_USER_ROLE;
     if (!role) {
       const allUsers = await this.getAllUsers();
       if (allUsers.length === 0) {
@@ -1159,7 +1118,7 @@ class DatabaseService {
         createdAt: new Date(u.createdAt),
         email: u.email || '',
         fullName: u.fullName || '',
-        role: u.role || 'standard'
+        role: normalizeRole(u.role)
       }));
     }
 
@@ -1175,7 +1134,7 @@ class DatabaseService {
       passwordHash: row.passwordHash,
       email: row.email || '',
       fullName: row.fullName || '',
-      role: (row.role || 'standard') as UserRole,
+      role: normalizeRole(row.role),
       createdAt: new Date(row.createdAt)
     }));
   }
@@ -1239,8 +1198,9 @@ class DatabaseService {
     console.log('✅ Password updated in database');
   }
 
-  async updateUserRole(userId: string, role: UserRole): Promise<void> {
+  async updateUserRole(userId: string, role: UserRole, actingUser: User | null): Promise<void> {
     await this.initialize();
+    assertCapability(actingUser, 'user.manage');
 
     if (Platform.OS === 'web') {
       const stored = await AsyncStorage.getItem(STORAGE_KEYS.USERS);
@@ -1263,8 +1223,142 @@ class DatabaseService {
     console.log('✅ User role updated in database');
   }
 
-  async deleteUser(userId: string): Promise<void> {
+  // Pass null to remove the PIN, which stops the user approving overrides for others
+  async setApprovalPin(userId: string, pinHash: string | null, actingUser: User | null): Promise<void> {
+    await this.initialize();
+    assertCapability(actingUser, 'user.manage');
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.USERS);
+      if (!stored) return;
+      const users: any[] = JSON.parse(stored);
+      const userIndex = users.findIndex(u => u.id === userId);
+      if (userIndex >= 0) {
+        users[userIndex].approvalPinHash = pinHash || undefined;
+        await AsyncStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(users));
+        console.log('✅ Approval PIN updated in AsyncStorage');
+      }
+      return;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.runAsync(
+      'UPDATE users SET approvalPinHash = ? WHERE id = ?',
+      [pinHash, userId]
+    );
+    console.log('✅ Approval PIN updated in database');
+  }
+
+  private async getApprovalPinHashes(): Promise<Map<string, string>> {
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.USERS);
+      const users: any[] = stored ? JSON.parse(stored) : [];
+      return new Map(users.filter(u => u.approvalPinHash).map(u => [u.id, u.approvalPinHash]));
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const rows = await this.db.getAllAsync(
+      'SELECT id, approvalPinHash FROM users WHERE approvalPinHash IS NOT NULL'
+    ) as { id: string; approvalPinHash: string }[];
+    return new Map(rows.map(row => [row.id, row.approvalPinHash]));
+  }
+
+  async hasApprovalPin(userId: string): Promise<boolean> {
+    await this.initialize();
+    return (await this.getApprovalPinHashes()).has(userId);
+  }
+
+  /**
+   * Users who can sign off overrides in this event: they need the override.approve
+   * capability and an approval PIN.
+   */
+  async listOverrideApprovers(eventId: string): Promise<User[]> {
+    await this.initialize();
+    const [users, pinHashes, rolePermissions] = await Promise.all([
+      this.getAllUsers(),
+      this.getApprovalPinHashes(),
+      this.getEventRolePermissions(eventId),
+    ]);
+    return users.filter(user => pinHashes.has(user.id) && hasCapability(user, 'override.approve', rolePermissions));
+  }
+
+  private async getApprovalPinAttempts(): Promise<ApprovalPinAttempts> {
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.APPROVAL_PIN_ATTEMPTS);
+      return stored ? JSON.parse(stored) : {};
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const result = await this.db.getFirstAsync(
+      'SELECT value FROM preferences WHERE key = ?',
+      ['approvalPinAttempts']
+    ) as any;
+    return result ? JSON.parse(result.value) : {};
+  }
+
+  private async saveApprovalPinAttempts(attempts: ApprovalPinAttempts): Promise<void> {
+    if (Platform.OS === 'web') {
+      await AsyncStorage.setItem(STORAGE_KEYS.APPROVAL_PIN_ATTEMPTS, JSON.stringify(attempts));
+      return;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.runAsync(
+      'INSERT OR REPLACE INTO preferences (key, value) VALUES (?, ?)',
+      ['approvalPinAttempts', JSON.stringify(attempts)]
+    );
+  }
+
+  /**
+   * Checks an approver's PIN for the acting user; never approved when the approver may not
+   * approve overrides in this event. Wrong PINs are counted per approver and written to the
+   * audit log, and after APPROVAL_PIN_MAX_ATTEMPTS of them the approver is locked out.
+   */
+  async verifyApprovalPin(eventId: string, userId: string, pin: string, actingUser: User | null): Promise<ApprovalPinCheck> {
+    const approvers = await this.listOverrideApprovers(eventId);
+    const approver = approvers.find(user => user.id === userId);
+
+    const attempts = await this.getApprovalPinAttempts();
+    const previous = attempts[userId] ?? { failures: 0, lockedUntil: null };
+    const attemptsLeft = (failures: number) => Math.max(APPROVAL_PIN_MAX_ATTEMPTS - failures, 0);
+
+    const lockedUntil = previous.lockedUntil ? new Date(previous.lockedUntil) : null;
+    if (lockedUntil && lockedUntil.getTime() > Date.now()) {
+      return { approved: false, attemptsLeft: 0, lockedUntil };
+    }
+    if (!approver) {
+      return { approved: false, attemptsLeft: attemptsLeft(previous.failures), lockedUntil: null };
+    }
+
+    const pinHash = (await this.getApprovalPinHashes()).get(userId);
+    if (pinHash && await verifyPassword(pin, pinHash)) {
+      if (attempts[userId]) {
+        delete attempts[userId];
+        await this.saveApprovalPinAttempts(attempts);
+      }
+      return { approved: true, attemptsLeft: APPROVAL_PIN_MAX_ATTEMPTS, lockedUntil: null };
+    }
+
+    const failures = previous.failures + 1;
+    const lockout = failures >= APPROVAL_PIN_MAX_ATTEMPTS
+      ? new Date(Date.now() + Math.min(APPROVAL_PIN_LOCKOUT_MS * 2 ** (failures - APPROVAL_PIN_MAX_ATTEMPTS), APPROVAL_PIN_MAX_LOCKOUT_MS))
+      : null;
+    await this.saveApprovalPinAttempts({ ...attempts, [userId]: { failures, lockedUntil: lockout?.toISOString() ?? null } });
+
+    // The PIN itself is never written to the log
+    await this.appendAuditEntry(eventId, toAuditActor(actingUser), 'user', userId, 'pin_failed', [
+      { field: 'approver', before: null, after: approver.fullName || approver.username },
+      { field: 'failedAttempts', before: previous.failures, after: failures }
+    ]);
+    if (lockout) {
+      console.log(`🔒 Approval PIN for ${approver.username} locked until ${lockout.toISOString()}`);
+    }
+    return { approved: false, attemptsLeft: attemptsLeft(failures), lockedUntil: lockout };
+  }
+
+  async deleteUser(userId: string, actingUser: User | null): Promise<void> {
     await this.initialize();
+    assertCapability(actingUser, 'user.manage');
 
     if (Platform.OS === 'web') {
       const stored = await AsyncStorage.getItem(STORAGE_KEYS.USERS);
@@ -1336,7 +1430,7 @@ class DatabaseService {
       if (!stored) return null;
       const users: any[] = JSON.parse(stored);
       const user = users.find(u => u.username === username);
-      return user ? { ...user, createdAt: new Date(user.createdAt), email: user.email || '', fullName: user.fullName || '', role: user.role || 'standard' } : null;
+      return user ? { ...user, createdAt: new Date(user.createdAt), email: user.email || '', fullName: user.fullName || '', role: normalizeRole(user.role) } : null;
     }
 
     if (!this.db) throw new Error('Database not initialized');
@@ -1354,7 +1448,7 @@ class DatabaseService {
       passwordHash: result.passwordHash,
       email: result.email || '',
       fullName: result.fullName || '',
-      role: (result.role || 'standard') as UserRole,
+      role: normalizeRole(result.role),
       createdAt: new Date(result.createdAt),
       googleId: result.googleId,
       avatarUrl: result.avatarUrl
@@ -1374,7 +1468,7 @@ class DatabaseService {
         createdAt: new Date(user.createdAt), 
         email: user.email || '', 
         fullName: user.fullName || '',
-        role: user.role || 'standard',
+        role: normalizeRole(user.role),
         googleId: user.googleId,
         avatarUrl: user.avatarUrl
       } : null;
@@ -1395,7 +1489,7 @@ class DatabaseService {
       passwordHash: result.passwordHash,
       email: result.email || '',
       fullName: result.fullName || '',
-      role: (result.role || 'standard') as UserRole,
+      role: normalizeRole(result.role),
       createdAt: new Date(result.createdAt),
       googleId: result.googleId,
       avatarUrl: result.avatarUrl
@@ -1407,7 +1501,7 @@ class DatabaseService {
 
     // Check if this is the first user
     const allUsers = await this.getAllUsers();
-    const userRole: UserRole = allUsers.length === 0 ? 'admin' : 'standard';
+    const userRole: UserRole = allUsers.length === 0 ? 'admin' : DEFAULT_USER_ROLE;
 
     const user: User = {
       id: `google_${googleId}`,
@@ -1543,166 +1637,320 @@ class DatabaseService {
     await this.initialize();
 
     if (Platform.OS === 'web') {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.EVENTS);
-      const events: any[] = stored ? JSON.parse(stored) : [];
-      const eventIndex = events.findIndex(e => e.id === eventId);
-      if (eventIndex >= 0) {
-        events[eventIndex].products = products;
-        events[eventIndex].transactions = transactions;
-        events[eventIndex].productTypes = productTypes || [];
-        events[eventIndex].promos = promos || [];
-        events[eventIndex].updatedAt = new Date().toISOString();
+      await this.updateWebEvent(eventId, event => {
+        event.products = products;
+        event.transactions = transactions;
+        event.productTypes = productTypes || [];
+        event.promos = promos || [];
         if (settings) {
-          events[eventIndex].currency = settings.currency;
-          events[eventIndex].currencyRoundUp = settings.currencyRoundUp;
-          events[eventIndex].eventName = settings.eventName;
+          event.currency = settings.currency;
+          event.currencyRoundUp = settings.currencyRoundUp;
+          event.eventName = settings.eventName;
+          event.rolePermissions = settings.rolePermissions;
+          event.overrideApproval = settings.overrideApproval;
         }
-        await AsyncStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(events));
-      }
+      });
       console.log('✅ Event data saved to AsyncStorage');
       return;
     }
 
     if (!this.db) throw new Error('Database not initialized');
 
-    // Prevent concurrent saves - use a simple queue system
-    if (this.saveEventDataLock) {
-      return new Promise<void>((resolve, reject) => {
-        this.saveEventDataQueue.push(async () => {
-          try {
-            await this.saveEventDataInternal(eventId, products, transactions, productTypes, promos, settings);
-            resolve();
-          } catch (error) {
-            reject(error);
-          }
-        });
-      });
-    }
-
-    this.saveEventDataLock = true;
     try {
-      await this.saveEventDataInternal(eventId, products, transactions, productTypes, promos, settings);
-    } finally {
-      this.saveEventDataLock = false;
-      
-      // Process next item in queue
-      if (this.saveEventDataQueue.length > 0) {
-        const next = this.saveEventDataQueue.shift();
-        if (next) {
-          next().catch(err => console.error('❌ Queued save failed:', err));
+      await this.runInWriteTransaction(async db => {
+        await db.runAsync('DELETE FROM event_products WHERE eventId = ?', [eventId]);
+        await db.runAsync('DELETE FROM transaction_items WHERE eventId = ?', [eventId]);
+        await db.runAsync('DELETE FROM event_transactions WHERE eventId = ?', [eventId]);
+        await db.runAsync('DELETE FROM event_product_types WHERE eventId = ?', [eventId]);
+
+        for (const product of products) {
+          await this.writeProductRow(db, eventId, product);
         }
-      }
+        for (const type of productTypes || []) {
+          await this.writeProductTypeRow(db, eventId, type);
+        }
+        for (const transaction of transactions) {
+          await this.writeTransactionRow(db, eventId, transaction);
+        }
+        await this.writeEventSettings(db, eventId, promos || [], settings);
+      });
+      console.log('✅ Event data saved to database');
+    } catch (error) {
+      console.error('❌ Failed to save event data, transaction rolled back:', error);
+      throw error;
     }
   }
 
-  private async saveEventDataInternal(eventId: string, products: Product[], transactions: Transaction[], productTypes?: ProductType[], promos?: any[], settings?: AppSettings): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+  /**
+   * Writes only the given rows of an event, in one database transaction. This is what
+   * autosave and single sales use; saveEventData rewrites the whole event.
+   */
+  async applyEventChanges(eventId: string, changes: EventChangeSet): Promise<void> {
+    await this.initialize();
 
-    try {
-      await this.db.execAsync('BEGIN IMMEDIATE TRANSACTION');
+    if (Platform.OS === 'web') {
+      await this.updateWebEvent(eventId, event => {
+        event.products = applyRowChanges(event.products, changes.upsertProducts, changes.deleteProductIds, 'append');
+        event.productTypes = applyRowChanges(event.productTypes, changes.upsertProductTypes, changes.deleteProductTypeIds, 'append');
+        event.transactions = applyRowChanges(event.transactions, changes.upsertTransactions, changes.deleteTransactionIds, 'prepend');
+        if (changes.settings) {
+          event.promos = changes.settings.promos || [];
+          event.currency = changes.settings.currency;
+          event.currencyRoundUp = changes.settings.currencyRoundUp;
+          event.eventName = changes.settings.eventName;
+          event.rolePermissions = changes.settings.rolePermissions;
+          event.overrideApproval = changes.settings.overrideApproval;
+        }
+      });
+      return;
+    }
 
-      await this.db.runAsync('DELETE FROM event_products WHERE eventId = ?', [eventId]);
-      await this.db.runAsync('DELETE FROM event_transactions WHERE eventId = ?', [eventId]);
-      await this.db.runAsync('DELETE FROM event_product_types WHERE eventId = ?', [eventId]);
+    if (!this.db) throw new Error('Database not initialized');
 
-      for (const product of products) {
-        await this.db.runAsync(
-          'INSERT INTO event_products (id, eventId, name, price, color, icon, enabled, initialQuantity, promoEligible, "order", typeId, subgroup) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-          [
-            `${eventId}_${product.id}`,
-            eventId,
-            product.name,
-            product.price,
-            product.color,
-            product.icon || null,
-            product.enabled ? 1 : 0,
-            product.initialQuantity,
-            product.promoEligible ? 1 : 0,
-            product.order,
-            product.typeId,
-            product.subgroup || null
-          ]
-        );
+    await this.runInWriteTransaction(async db => {
+      for (const id of changes.deleteProductIds || []) {
+        await db.runAsync('DELETE FROM event_products WHERE id = ?', [`${eventId}_${id}`]);
       }
-
-      const typesToSave = productTypes || [];
-      for (const type of typesToSave) {
-        await this.db.runAsync(
-          'INSERT INTO event_product_types (id, eventId, name, color, "order", enabled) VALUES (?, ?, ?, ?, ?, ?)',
-          [
-            `${eventId}_${type.id}`,
-            eventId,
-            type.name,
-            type.color,
-            type.order,
-            type.enabled ? 1 : 0
-          ]
-        );
+      for (const product of changes.upsertProducts || []) {
+        await this.writeProductRow(db, eventId, product);
+      }
+      for (const id of changes.deleteProductTypeIds || []) {
+        await db.runAsync('DELETE FROM event_product_types WHERE id = ?', [`${eventId}_${id}`]);
+      }
+      for (const type of changes.upsertProductTypes || []) {
+        await this.writeProductTypeRow(db, eventId, type);
+      }
+      for (const id of changes.deleteTransactionIds || []) {
+        await db.runAsync('DELETE FROM transaction_items WHERE transactionId = ?', [`${eventId}_${id}`]);
+        await db.runAsync('DELETE FROM event_transactions WHERE id = ?', [`${eventId}_${id}`]);
+      }
+      for (const transaction of changes.upsertTransactions || []) {
+        await this.writeTransactionRow(db, eventId, transaction);
       }
 
-      for (const transaction of transactions) {
-        await this.db.runAsync(
-          'INSERT INTO event_transactions (id, eventId, items, subtotal, discount, total, currency, paymentMethod, timestamp, appliedPromotions, email, overrideTotal, specialPrice, originalCurrency, originalTotal, originalSubtotal) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-          [
-            `${eventId}_${transaction.id}`,
-            eventId,
-            JSON.stringify(transaction.items),
-            transaction.subtotal,
-            transaction.discount,
-            transaction.total,
-            transaction.currency,
-            transaction.paymentMethod,
-            transaction.timestamp.toISOString(),
-            JSON.stringify(transaction.appliedPromotions),
-            transaction.email || null,
-            transaction.overrideTotal || null,
-            transaction.specialPrice || null,
-            transaction.originalCurrency || null,
-            transaction.originalTotal || null,
-            transaction.originalSubtotal || null
-          ]
-        );
+      if (changes.settings) {
+        await this.writeEventSettings(db, eventId, changes.settings.promos || [], changes.settings);
+      } else {
+        await db.runAsync('UPDATE events SET updatedAt = ? WHERE id = ?', [new Date().toISOString(), eventId]);
       }
+    });
+  }
 
-      await this.db.runAsync(
-        'UPDATE events SET updatedAt = ?, promos = ?, currency = ?, currencyRoundUp = ?, eventName = ? WHERE id = ?',
-        [
-          new Date().toISOString(),
-          JSON.stringify(promos || []),
-          settings?.currency || 'EUR',
-          settings?.currencyRoundUp ? 1 : 0,
-          settings?.eventName || '',
-          eventId
-        ]
-      );
+  async appendTransaction(eventId: string, transaction: Transaction): Promise<void> {
+    await this.applyEventChanges(eventId, { upsertTransactions: [transaction] });
+    console.log(`💾 Transaction ${transaction.id} appended to event ${eventId}`);
+  }
 
-      await this.db.execAsync('COMMIT');
-      console.log('✅ Event data saved to database');
-    } catch (error) {
-      try {
-        await this.db.execAsync('ROLLBACK');
-      } catch (rollbackError) {
-        console.error('❌ Rollback failed:', rollbackError);
-      }
-      console.error('❌ Failed to save event data, transaction rolled back:', error);
-      throw error;
-    }
+  async upsertTransaction(eventId: string, transaction: Transaction): Promise<void> {
+    await this.applyEventChanges(eventId, { upsertTransactions: [transaction] });
   }
 
-  async loadEventData(eventId: string): Promise<EventData | null> {
+  async deleteTransaction(eventId: string, transactionId: string, user: User | null): Promise<void> {
     await this.initialize();
+    await this.assertEventCapability(eventId, user, 'transaction.delete');
+    await this.applyEventChanges(eventId, { deleteTransactionIds: [transactionId] });
+  }
+
+  async upsertProduct(eventId: string, product: Product): Promise<void> {
+    await this.applyEventChanges(eventId, { upsertProducts: [product] });
+  }
+
+  async deleteProduct(eventId: string, productId: string): Promise<void> {
+    await this.applyEventChanges(eventId, { deleteProductIds: [productId] });
+  }
+
+  async upsertProductType(eventId: string, productType: ProductType): Promise<void> {
+    await this.applyEventChanges(eventId, { upsertProductTypes: [productType] });
+  }
+
+  async deleteProductType(eventId: string, productTypeId: string): Promise<void> {
+    await this.applyEventChanges(eventId, { deleteProductTypeIds: [productTypeId] });
+  }
 
+  private async getEventRolePermissions(eventId: string): Promise<RolePermissions | undefined> {
     if (Platform.OS === 'web') {
       const stored = await AsyncStorage.getItem(STORAGE_KEYS.EVENTS);
-      if (!stored) return null;
-      const events: any[] = JSON.parse(stored);
-      const eventData = events.find(e => e.id === eventId);
-      if (!eventData) return null;
-      
-      return {
-        event: {
-          ...eventData,
-          createdAt: new Date(eventData.createdAt),
+      const events: any[] = stored ? JSON.parse(stored) : [];
+      return events.find(e => e.id === eventId)?.rolePermissions;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const row = await this.db.getFirstAsync('SELECT rolePermissions FROM events WHERE id = ?', [eventId]) as { rolePermissions: string | null } | null;
+    return row?.rolePermissions ? JSON.parse(row.rolePermissions) : undefined;
+  }
+
+  // Throws a PermissionError unless the user may do this in the given event
+  private async assertEventCapability(eventId: string, user: User | null, capability: Capability): Promise<void> {
+    assertCapability(user, capability, await this.getEventRolePermissions(eventId));
+  }
+
+  async isEventLocked(eventId: string): Promise<boolean> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.EVENTS);
+      const events: any[] = stored ? JSON.parse(stored) : [];
+      return !!events.find(e => e.id === eventId)?.templatePin;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const row = await this.db.getFirstAsync('SELECT templatePin FROM events WHERE id = ?', [eventId]) as { templatePin: string | null } | null;
+    return !!row?.templatePin;
+  }
+
+  // Writes run one at a time: SQLite transactions share one connection and web writes
+  // read and rewrite whole AsyncStorage keys, so overlapping ones would lose rows
+  private queueWrite<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(work, work);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Write transactions share one connection, so they are queued instead of nested
+  private runInWriteTransaction<T>(work: (db: SQLite.SQLiteDatabase) => Promise<T>): Promise<T> {
+    const run = async () => {
+      if (!this.db) throw new Error('Database not initialized');
+      const db = this.db;
+      try {
+        await db.execAsync('BEGIN IMMEDIATE TRANSACTION');
+        const result = await work(db);
+        await db.execAsync('COMMIT');
+        return result;
+      } catch (error) {
+        try {
+          await db.execAsync('ROLLBACK');
+        } catch (rollbackError) {
+          console.error('❌ Rollback failed:', rollbackError);
+        }
+        throw error;
+      }
+    };
+
+    return this.queueWrite(run);
+  }
+
+  // Queued, so two saves of the same key cannot both read it before either writes it back
+  private updateWebEvent(eventId: string, update: (event: any) => void): Promise<void> {
+    return this.queueWrite(async () => {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.EVENTS);
+      const events: any[] = stored ? JSON.parse(stored) : [];
+      const event = events.find(e => e.id === eventId);
+      if (!event) {
+        console.warn(`⚠️ Event ${eventId} not found in AsyncStorage`);
+        return;
+      }
+      update(event);
+      event.updatedAt = new Date().toISOString();
+      await AsyncStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(events));
+    });
+  }
+
+  private async writeProductRow(db: SQLite.SQLiteDatabase, eventId: string, product: Product): Promise<void> {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO event_products (id, eventId, name, price, color, icon, enabled, initialQuantity, promoEligible, "order", typeId, subgroup) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        `${eventId}_${product.id}`,
+        eventId,
+        product.name,
+        product.price,
+        product.color,
+        product.icon || null,
+        product.enabled ? 1 : 0,
+        product.initialQuantity,
+        product.promoEligible ? 1 : 0,
+        product.order,
+        product.typeId,
+        product.subgroup || null
+      ]
+    );
+  }
+
+  private async writeProductTypeRow(db: SQLite.SQLiteDatabase, eventId: string, type: ProductType): Promise<void> {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO event_product_types (id, eventId, name, color, "order", enabled) VALUES (?, ?, ?, ?, ?, ?)',
+      [
+        `${eventId}_${type.id}`,
+        eventId,
+        type.name,
+        type.color,
+        type.order,
+        type.enabled ? 1 : 0
+      ]
+    );
+  }
+
+  private async writeTransactionRow(db: SQLite.SQLiteDatabase, eventId: string, transaction: Transaction): Promise<void> {
+    const rowId = `${eventId}_${transaction.id}`;
+    await db.runAsync(
+      'INSERT OR REPLACE INTO event_transactions (id, eventId, items, subtotal, discount, total, currency, paymentMethod, timestamp, appliedPromotions, email, overrideTotal, specialPrice, originalCurrency, originalTotal, originalSubtotal, payments, refundOf, cashTender, overrideApprovals, cashSessionId) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        rowId,
+        eventId,
+        JSON.stringify(transaction.items),
+        transaction.subtotal,
+        transaction.discount,
+        transaction.total,
+        transaction.currency,
+        transaction.paymentMethod,
+        transaction.timestamp.toISOString(),
+        JSON.stringify(transaction.appliedPromotions),
+        transaction.email || null,
+        transaction.overrideTotal || null,
+        transaction.specialPrice || null,
+        transaction.originalCurrency || null,
+        transaction.originalTotal || null,
+        transaction.originalSubtotal || null,
+        transaction.payments ? JSON.stringify(transaction.payments) : null,
+        transaction.refundOf || null,
+        transaction.cashTender ? JSON.stringify(transaction.cashTender) : null,
+        transaction.overrideApprovals ? JSON.stringify(transaction.overrideApprovals) : null,
+        transaction.cashSessionId || null
+      ]
+    );
+    await this.writeTransactionItems(db, rowId, eventId, transaction.items);
+  }
+
+  // Replaces the line items of one event_transactions row
+  private async writeTransactionItems(db: SQLite.SQLiteDatabase, rowId: string, eventId: string, items: CartItem[]): Promise<void> {
+    await db.runAsync('DELETE FROM transaction_items WHERE transactionId = ?', [rowId]);
+    for (const row of toTransactionItemRows(items)) {
+      await db.runAsync(
+        'INSERT INTO transaction_items (transactionId, lineIndex, eventId, productId, productName, typeId, subgroup, quantity, unitPrice, overridePrice, allocatedDiscount) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [rowId, row.lineIndex, eventId, row.productId, row.productName, row.typeId, row.subgroup, row.quantity, row.unitPrice, row.overridePrice, row.allocatedDiscount]
+      );
+    }
+  }
+
+  private async writeEventSettings(db: SQLite.SQLiteDatabase, eventId: string, promos: any[], settings?: AppSettings): Promise<void> {
+    await db.runAsync(
+      'UPDATE events SET updatedAt = ?, promos = ?, currency = ?, currencyRoundUp = ?, eventName = ?, rolePermissions = ?, overrideApproval = ? WHERE id = ?',
+      [
+        new Date().toISOString(),
+        JSON.stringify(promos),
+        settings?.currency || 'EUR',
+        settings?.currencyRoundUp ? 1 : 0,
+        settings?.eventName || '',
+        settings?.rolePermissions ? JSON.stringify(settings.rolePermissions) : null,
+        settings?.overrideApproval ? JSON.stringify(settings.overrideApproval) : null,
+        eventId
+      ]
+    );
+  }
+
+  async loadEventData(eventId: string): Promise<EventData | null> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.EVENTS);
+      if (!stored) return null;
+      const events: any[] = JSON.parse(stored);
+      const eventData = events.find(e => e.id === eventId);
+      if (!eventData) return null;
+      
+      return {
+        event: {
+          ...eventData,
+          createdAt: new Date(eventData.createdAt),
           updatedAt: new Date(eventData.updatedAt),
           isTemplate: eventData.isTemplate || false
         },
@@ -1721,7 +1969,9 @@ class DatabaseService {
           appPromoPricing: typeof eventData.appPromoPricing === 'string' 
             ? JSON.parse(eventData.appPromoPricing) 
             : eventData.appPromoPricing,
-          promos: eventData.promos || []
+          promos: eventData.promos || [],
+          rolePermissions: eventData.rolePermissions,
+          overrideApproval: eventData.overrideApproval
         }
       };
     }
@@ -1779,7 +2029,12 @@ class DatabaseService {
       specialPrice: row.specialPrice,
       originalCurrency: row.originalCurrency,
       originalTotal: row.originalTotal,
-      originalSubtotal: row.originalSubtotal
+      originalSubtotal: row.originalSubtotal,
+      payments: row.payments ? JSON.parse(row.payments) : undefined,
+      refundOf: row.refundOf || undefined,
+      cashTender: row.cashTender ? JSON.parse(row.cashTender) : undefined,
+      overrideApprovals: row.overrideApprovals ? JSON.parse(row.overrideApprovals) : undefined,
+      cashSessionId: row.cashSessionId || undefined
     }));
 
     const parsedProductTypes: ProductType[] = productTypesRaw.length > 0
@@ -1821,7 +2076,9 @@ class DatabaseService {
         appPromoPricing: typeof event.appPromoPricing === 'string' 
           ? JSON.parse(event.appPromoPricing) 
           : event.appPromoPricing,
-        promos: parsedPromos
+        promos: parsedPromos,
+        rolePermissions: event.rolePermissions ? JSON.parse(event.rolePermissions) : undefined,
+        overrideApproval: event.overrideApproval ? JSON.parse(event.overrideApproval) : undefined
       }
     };
   }
@@ -1939,8 +2196,9 @@ class DatabaseService {
     return result?.templatePin === pin;
   }
 
-  async unlockEvent(eventId: string): Promise<void> {
+  async unlockEvent(eventId: string, user: User | null): Promise<void> {
     await this.initialize();
+    await this.assertEventCapability(eventId, user, 'event.unlock');
 
     if (Platform.OS === 'web') {
       const stored = await AsyncStorage.getItem(STORAGE_KEYS.EVENTS);
@@ -1954,20 +2212,25 @@ class DatabaseService {
         await AsyncStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(events));
       }
       console.log('✅ Event unlocked in AsyncStorage');
-      return;
-    }
+    } else {
+      if (!this.db) throw new Error('Database not initialized');
 
-    if (!this.db) throw new Error('Database not initialized');
+      await this.db.runAsync(
+        'UPDATE events SET templatePin = NULL, isTemplate = 0, updatedAt = ? WHERE id = ?',
+        [new Date().toISOString(), eventId]
+      );
+      console.log('✅ Event unlocked in database');
+    }
 
-    await this.db.runAsync(
-      'UPDATE events SET templatePin = NULL, isTemplate = 0, updatedAt = ? WHERE id = ?',
-      [new Date().toISOString(), eventId]
-    );
-    console.log('✅ Event unlocked in database');
+    // The PIN itself is never written to the log
+    await this.appendAuditEntry(eventId, toAuditActor(user), 'event', eventId, 'unlock', [
+      { field: 'locked', before: true, after: false }
+    ]);
   }
 
-  async finalizeEvent(eventId: string): Promise<void> {
+  async finalizeEvent(eventId: string, user: User | null): Promise<void> {
     await this.initialize();
+    await this.assertEventCapability(eventId, user, 'event.finalize');
 
     if (Platform.OS === 'web') {
       const stored = await AsyncStorage.getItem(STORAGE_KEYS.EVENTS);
@@ -1980,16 +2243,20 @@ class DatabaseService {
         await AsyncStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(events));
       }
       console.log('✅ Event finalized in AsyncStorage');
-      return;
-    }
+    } else {
+      if (!this.db) throw new Error('Database not initialized');
 
-    if (!this.db) throw new Error('Database not initialized');
+      await this.db.runAsync(
+        'UPDATE events SET isFinalized = 1, updatedAt = ? WHERE id = ?',
+        [new Date().toISOString(), eventId]
+      );
+      console.log('✅ Event finalized in database');
+    }
 
-    await this.db.runAsync(
-      'UPDATE events SET isFinalized = 1, updatedAt = ? WHERE id = ?',
-      [new Date().toISOString(), eventId]
-    );
-    console.log('✅ Event finalized in database');
+    await this.appendAuditEntry(eventId, toAuditActor(user), 'event', eventId, 'finalize', [
+      { field: 'isFinalized', before: false, after: true }
+    ]);
+    await this.createEventSnapshot(eventId, 'finalize');
   }
 
   async saveCurrentEvent(eventId: string): Promise<void> {
@@ -2035,6 +2302,692 @@ class DatabaseService {
     );
   }
 
+  // Sync server methods. The device token belongs to this device; the pull revisions are
+  // part of the event data they were pulled into, so they are backed up with it.
+  async getSyncDeviceToken(): Promise<string | null> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      return await AsyncStorage.getItem(STORAGE_KEYS.SYNC_DEVICE_TOKEN);
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const result = await this.db.getFirstAsync(
+      'SELECT value FROM preferences WHERE key = ?',
+      ['syncDeviceToken']
+    ) as any;
+    return result?.value || null;
+  }
+
+  // Pass null to unpair the device
+  async saveSyncDeviceToken(token: string | null): Promise<void> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      if (token) {
+        await AsyncStorage.setItem(STORAGE_KEYS.SYNC_DEVICE_TOKEN, token);
+      } else {
+        await AsyncStorage.removeItem(STORAGE_KEYS.SYNC_DEVICE_TOKEN);
+      }
+      return;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    if (token) {
+      await this.db.runAsync('INSERT OR REPLACE INTO preferences (key, value) VALUES (?, ?)', ['syncDeviceToken', token]);
+    } else {
+      await this.db.runAsync('DELETE FROM preferences WHERE key = ?', ['syncDeviceToken']);
+    }
+  }
+
+  // The server revision the event was last pulled at; 0 before the first pull
+  async getSyncRevision(eventId: string): Promise<number> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_REVISIONS);
+      return (stored ? JSON.parse(stored)[eventId] : 0) || 0;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const result = await this.db.getFirstAsync(
+      'SELECT value FROM preferences WHERE key = ?',
+      [`syncRevision:${eventId}`]
+    ) as any;
+    return result ? Number(result.value) : 0;
+  }
+
+  async saveSyncRevision(eventId: string, revision: number): Promise<void> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_REVISIONS);
+      const revisions = stored ? JSON.parse(stored) : {};
+      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_REVISIONS, JSON.stringify({ ...revisions, [eventId]: revision }));
+      return;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.runAsync(
+      'INSERT OR REPLACE INTO preferences (key, value) VALUES (?, ?)',
+      [`syncRevision:${eventId}`, String(revision)]
+    );
+  }
+
+  // Cash drawer session methods
+  private parseCashSession(row: any): CashSession {
+    const parseJson = (value: any) => typeof value === 'string' ? JSON.parse(value) : value;
+    const movements: any[] = parseJson(row.movements) || [];
+    return {
+      id: row.id,
+      eventId: row.eventId,
+      userId: row.userId,
+      userName: row.userName,
+      openedAt: new Date(row.openedAt),
+      closedAt: row.closedAt ? new Date(row.closedAt) : undefined,
+      openingFloat: parseJson(row.openingFloat),
+      movements: movements.map(m => ({ ...m, timestamp: new Date(m.timestamp) })),
+      closingCount: row.closingCount ? parseJson(row.closingCount) : undefined,
+      varianceReport: row.varianceReport ? parseJson(row.varianceReport) : undefined
+    };
+  }
+
+  async saveCashSession(session: CashSession): Promise<void> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.CASH_SESSIONS);
+      const sessions: any[] = stored ? JSON.parse(stored) : [];
+      const index = sessions.findIndex(s => s.id === session.id);
+      if (index >= 0) {
+        sessions[index] = session;
+      } else {
+        sessions.push(session);
+      }
+      await AsyncStorage.setItem(STORAGE_KEYS.CASH_SESSIONS, JSON.stringify(sessions));
+      console.log(`💵 Cash session ${session.id} saved`);
+      return;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.runAsync(
+      `INSERT OR REPLACE INTO cash_sessions (id, eventId, userId, userName, openedAt, closedAt, openingFloat, movements, closingCount, varianceReport)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        session.id,
+        session.eventId,
+        session.userId,
+        session.userName,
+        session.openedAt.toISOString(),
+        session.closedAt ? session.closedAt.toISOString() : null,
+        JSON.stringify(session.openingFloat),
+        JSON.stringify(session.movements),
+        session.closingCount ? JSON.stringify(session.closingCount) : null,
+        session.varianceReport ? JSON.stringify(session.varianceReport) : null
+      ]
+    );
+    console.log(`💵 Cash session ${session.id} saved`);
+  }
+
+  async loadCashSessions(eventId: string): Promise<CashSession[]> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.CASH_SESSIONS);
+      const sessions: any[] = stored ? JSON.parse(stored) : [];
+      return sessions
+        .filter(s => s.eventId === eventId)
+        .map(s => this.parseCashSession(s))
+        .sort((a, b) => b.openedAt.getTime() - a.openedAt.getTime());
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const rows = await this.db.getAllAsync(
+      'SELECT * FROM cash_sessions WHERE eventId = ? ORDER BY openedAt DESC',
+      [eventId]
+    ) as any[];
+    return rows.map(row => this.parseCashSession(row));
+  }
+
+  // Google Sheets sync methods
+  private parseSheetsSyncState(row: any): SheetsSyncState {
+    return {
+      eventId: row.eventId,
+      spreadsheetId: row.spreadsheetId,
+      spreadsheetUrl: row.spreadsheetUrl,
+      syncedTransactionIds: typeof row.syncedTransactionIds === 'string' ? JSON.parse(row.syncedTransactionIds) : row.syncedTransactionIds || [],
+      lastSyncedAt: new Date(row.lastSyncedAt)
+    };
+  }
+
+  async getSheetsSyncState(eventId: string): Promise<SheetsSyncState | null> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.SHEETS_SYNC);
+      const states: any[] = stored ? JSON.parse(stored) : [];
+      const state = states.find(s => s.eventId === eventId);
+      return state ? this.parseSheetsSyncState(state) : null;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const row = await this.db.getFirstAsync('SELECT * FROM sheets_sync WHERE eventId = ?', [eventId]);
+    return row ? this.parseSheetsSyncState(row) : null;
+  }
+
+  async saveSheetsSyncState(state: SheetsSyncState): Promise<void> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.SHEETS_SYNC);
+      const states: any[] = stored ? JSON.parse(stored) : [];
+      const updated = [...states.filter(s => s.eventId !== state.eventId), state];
+      await AsyncStorage.setItem(STORAGE_KEYS.SHEETS_SYNC, JSON.stringify(updated));
+      console.log(`📊 Sheets sync state saved for event ${state.eventId}`);
+      return;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.runAsync(
+      `INSERT OR REPLACE INTO sheets_sync (eventId, spreadsheetId, spreadsheetUrl, syncedTransactionIds, lastSyncedAt)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        state.eventId,
+        state.spreadsheetId,
+        state.spreadsheetUrl,
+        JSON.stringify(state.syncedTransactionIds),
+        state.lastSyncedAt.toISOString()
+      ]
+    );
+    console.log(`📊 Sheets sync state saved for event ${state.eventId}`);
+  }
+
+  async clearSheetsSyncState(eventId: string): Promise<void> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.SHEETS_SYNC);
+      const states: any[] = stored ? JSON.parse(stored) : [];
+      await AsyncStorage.setItem(STORAGE_KEYS.SHEETS_SYNC, JSON.stringify(states.filter(s => s.eventId !== eventId)));
+      return;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.runAsync('DELETE FROM sheets_sync WHERE eventId = ?', [eventId]);
+  }
+
+  // Line item analytics
+  /**
+   * Per-product sales of an event, one row per product and currency, best sellers first.
+   * Refund lines carry negative quantities and amounts, so the figures are net of refunds.
+   */
+  async getProductSalesTotals(eventId: string): Promise<ProductSalesTotal[]> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const eventData = await this.loadEventData(eventId);
+      return aggregateProductSales(eventData?.transactions || []);
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const rows = await this.db.getAllAsync(
+      `SELECT i.productId, MAX(i.productName) as productName, MAX(i.typeId) as typeId, MAX(i.subgroup) as subgroup, t.currency,
+        SUM(i.quantity) as quantity,
+        SUM(COALESCE(i.overridePrice, i.unitPrice) * i.quantity) as grossAmount,
+        SUM(i.allocatedDiscount) as discountAmount
+      FROM transaction_items i
+      JOIN event_transactions t ON t.id = i.transactionId
+      WHERE i.eventId = ?
+      GROUP BY i.productId, t.currency
+      ORDER BY quantity DESC`,
+      [eventId]
+    ) as any[];
+
+    return rows.map(row => ({
+      productId: row.productId,
+      productName: row.productName,
+      typeId: row.typeId,
+      subgroup: row.subgroup,
+      currency: row.currency,
+      quantity: row.quantity,
+      grossAmount: row.grossAmount,
+      discountAmount: row.discountAmount,
+      netAmount: row.grossAmount - row.discountAmount
+    }));
+  }
+
+  async getTopSellers(eventId: string, limit: number = 10): Promise<TopSeller[]> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const eventData = await this.loadEventData(eventId);
+      return findTopSellers(eventData?.transactions || [], limit);
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    return await this.db.getAllAsync(
+      `SELECT productId, MAX(productName) as productName, SUM(quantity) as quantity, COUNT(DISTINCT transactionId) as transactionCount
+      FROM transaction_items
+      WHERE eventId = ?
+      GROUP BY productId
+      ORDER BY quantity DESC
+      LIMIT ?`,
+      [eventId, limit]
+    ) as TopSeller[];
+  }
+
+  // Event snapshot methods
+  private parseEventSnapshot(row: any): EventSnapshot {
+    return {
+      id: row.id,
+      eventId: row.eventId,
+      reason: row.reason,
+      createdAt: new Date(row.createdAt),
+      productCount: row.productCount,
+      transactionCount: row.transactionCount
+    };
+  }
+
+  /**
+   * Copies the event's products, types, settings and transactions into a new snapshot and
+   * drops the oldest beyond SNAPSHOT_RETENTION. Scheduled snapshots are skipped when nothing
+   * changed since the previous one, so an idle event does not push out useful history.
+   */
+  async createEventSnapshot(eventId: string, reason: EventSnapshotReason): Promise<EventSnapshot | null> {
+    await this.initialize();
+
+    const eventData = await this.loadEventData(eventId);
+    if (!eventData) return null;
+
+    const payload = JSON.stringify({
+      products: eventData.products,
+      productTypes: eventData.productTypes || [],
+      transactions: eventData.transactions,
+      settings: eventData.settings
+    });
+    const snapshot: EventSnapshot = {
+      id: Date.now().toString(),
+      eventId,
+      reason,
+      createdAt: new Date(),
+      productCount: eventData.products.length,
+      transactionCount: eventData.transactions.length
+    };
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.SNAPSHOTS);
+      const snapshots: any[] = stored ? JSON.parse(stored) : [];
+      const eventSnapshots = snapshots.filter(s => s.eventId === eventId);
+      if (reason === 'scheduled' && eventSnapshots[eventSnapshots.length - 1]?.payload === payload) {
+        return null;
+      }
+
+      const dropped = new Set(eventSnapshots.slice(0, Math.max(0, eventSnapshots.length + 1 - SNAPSHOT_RETENTION)).map(s => s.id));
+      const updated = [...snapshots.filter(s => !dropped.has(s.id)), { ...snapshot, payload }];
+      await AsyncStorage.setItem(STORAGE_KEYS.SNAPSHOTS, JSON.stringify(updated));
+      console.log(`📸 Snapshot (${reason}) saved for event ${eventId}`);
+      return snapshot;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+
+    if (reason === 'scheduled') {
+      const latest = await this.db.getFirstAsync(
+        'SELECT payload FROM event_snapshots WHERE eventId = ? ORDER BY createdAt DESC LIMIT 1',
+        [eventId]
+      ) as { payload: string } | null;
+      if (latest?.payload === payload) return null;
+    }
+
+    await this.db.runAsync(
+      `INSERT INTO event_snapshots (id, eventId, reason, createdAt, productCount, transactionCount, payload)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        snapshot.id,
+        eventId,
+        reason,
+        snapshot.createdAt.toISOString(),
+        snapshot.productCount,
+        snapshot.transactionCount,
+        payload
+      ]
+    );
+    await this.db.runAsync(
+      `DELETE FROM event_snapshots WHERE eventId = ? AND id NOT IN (
+         SELECT id FROM event_snapshots WHERE eventId = ? ORDER BY createdAt DESC LIMIT ?
+       )`,
+      [eventId, eventId, SNAPSHOT_RETENTION]
+    );
+    console.log(`📸 Snapshot (${reason}) saved for event ${eventId}`);
+    return snapshot;
+  }
+
+  async listEventSnapshots(eventId: string): Promise<EventSnapshot[]> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.SNAPSHOTS);
+      const snapshots: any[] = stored ? JSON.parse(stored) : [];
+      return snapshots
+        .filter(s => s.eventId === eventId)
+        .map(s => this.parseEventSnapshot(s))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const rows = await this.db.getAllAsync(
+      `SELECT id, eventId, reason, createdAt, productCount, transactionCount
+       FROM event_snapshots WHERE eventId = ? ORDER BY createdAt DESC`,
+      [eventId]
+    ) as any[];
+    return rows.map(row => this.parseEventSnapshot(row));
+  }
+
+  /**
+   * Rolls an event back to a snapshot. The current state is snapshotted first, so a
+   * restore can itself be undone.
+   */
+  async restoreEventSnapshot(snapshotId: string, user: User | null): Promise<EventSnapshot> {
+    await this.initialize();
+
+    let row: any;
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.SNAPSHOTS);
+      const snapshots: any[] = stored ? JSON.parse(stored) : [];
+      row = snapshots.find(s => s.id === snapshotId);
+    } else {
+      if (!this.db) throw new Error('Database not initialized');
+      row = await this.db.getFirstAsync('SELECT * FROM event_snapshots WHERE id = ?', [snapshotId]);
+    }
+    if (!row) throw new Error('Snapshot not found');
+
+    const snapshot = this.parseEventSnapshot(row);
+    const eventData = await this.loadEventData(snapshot.eventId);
+    if (!eventData) throw new Error('The event of this snapshot no longer exists');
+    assertCapability(user, 'snapshot.restore', eventData.settings.rolePermissions);
+
+    await this.createEventSnapshot(snapshot.eventId, 'pre-restore');
+
+    const payload = JSON.parse(row.payload);
+    const transactions: Transaction[] = payload.transactions.map((t: any) => ({
+      ...t,
+      timestamp: new Date(t.timestamp)
+    }));
+    const settings: AppSettings = payload.settings;
+    await this.saveEventData(snapshot.eventId, payload.products, transactions, payload.productTypes, settings.promos || [], settings);
+    console.log(`⏪ Event ${snapshot.eventId} restored to snapshot ${snapshot.id}`);
+    return snapshot;
+  }
+
+  // Audit log methods
+  private parseAuditEntry(row: any): AuditLogEntry {
+    return {
+      id: row.id,
+      eventId: row.eventId,
+      userId: row.userId ?? null,
+      userName: row.userName,
+      timestamp: new Date(row.timestamp),
+      entityType: row.entityType,
+      entityId: row.entityId,
+      action: row.action,
+      changes: typeof row.changes === 'string' ? JSON.parse(row.changes) : row.changes
+    };
+  }
+
+  /**
+   * Records one change to an event. Entries are never edited or removed, not even when
+   * their event is deleted.
+   */
+  async appendAuditEntry(
+    eventId: string,
+    actor: AuditActor,
+    entityType: AuditEntityType,
+    entityId: string,
+    action: AuditAction,
+    changes: AuditChange[]
+  ): Promise<AuditLogEntry> {
+    await this.initialize();
+
+    const entry: AuditLogEntry = {
+      id: `${Date.now()}_${Math.floor(Math.random() * 1e6)}`,
+      eventId,
+      userId: actor.userId,
+      userName: actor.userName,
+      timestamp: new Date(),
+      entityType,
+      entityId,
+      action,
+      changes
+    };
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.AUDIT_LOG);
+      const entries: any[] = stored ? JSON.parse(stored) : [];
+      entries.push(entry);
+      await AsyncStorage.setItem(STORAGE_KEYS.AUDIT_LOG, JSON.stringify(entries));
+    } else {
+      if (!this.db) throw new Error('Database not initialized');
+      await this.db.runAsync(
+        'INSERT INTO audit_log (id, eventId, userId, userName, timestamp, entityType, entityId, action, changes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [
+          entry.id,
+          entry.eventId,
+          entry.userId,
+          entry.userName,
+          entry.timestamp.toISOString(),
+          entry.entityType,
+          entry.entityId,
+          entry.action,
+          JSON.stringify(entry.changes)
+        ]
+      );
+    }
+    console.log(`📝 Audit: ${actor.userName} ${action} ${entityType} ${entityId}`);
+    return entry;
+  }
+
+  // Newest first
+  async listAuditEntries(eventId: string, filter: AuditLogFilter = {}): Promise<AuditLogEntry[]> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.AUDIT_LOG);
+      const entries: any[] = stored ? JSON.parse(stored) : [];
+      return entries
+        .map(e => this.parseAuditEntry(e))
+        .filter(e =>
+          e.eventId === eventId &&
+          (!filter.entityType || e.entityType === filter.entityType) &&
+          (!filter.userId || e.userId === filter.userId) &&
+          (!filter.since || e.timestamp >= filter.since)
+        )
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const conditions = ['eventId = ?'];
+    const params: SQLite.SQLiteBindValue[] = [eventId];
+    if (filter.entityType) {
+      conditions.push('entityType = ?');
+      params.push(filter.entityType);
+    }
+    if (filter.userId) {
+      conditions.push('userId = ?');
+      params.push(filter.userId);
+    }
+    if (filter.since) {
+      conditions.push('timestamp >= ?');
+      params.push(filter.since.toISOString());
+    }
+    const rows = await this.db.getAllAsync(
+      `SELECT * FROM audit_log WHERE ${conditions.join(' AND ')} ORDER BY timestamp DESC`,
+      params
+    ) as any[];
+    return rows.map(row => this.parseAuditEntry(row));
+  }
+
+  // Transaction outbox methods
+  private parseOutboxEntry(row: any): OutboxEntry {
+    const transaction = typeof row.payload === 'string' ? JSON.parse(row.payload) : row.transaction;
+    return {
+      transactionId: row.transactionId,
+      eventId: row.eventId,
+      operation: (row.operation || 'push') as OutboxOperation,
+      version: row.version || 0,
+      transaction: transaction ? { ...transaction, timestamp: new Date(transaction.timestamp) } : undefined,
+      status: row.status as SyncStatus,
+      attempts: row.attempts || 0,
+      nextAttemptAt: new Date(row.nextAttemptAt),
+      lastError: row.lastError || undefined,
+      createdAt: new Date(row.createdAt),
+      syncedAt: row.syncedAt ? new Date(row.syncedAt) : undefined
+    };
+  }
+
+  private async loadWebOutbox(): Promise<any[]> {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.OUTBOX);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  /**
+   * Queues a transaction for the sync server. Re-enqueueing an id (e.g. after an edit)
+   * replaces the payload, resets it to pending and bumps its version.
+   */
+  async enqueueOutboxTransaction(eventId: string, transaction: Transaction): Promise<void> {
+    await this.upsertOutboxEntry(eventId, transaction.id, 'push', transaction);
+    console.log(`📤 Transaction ${transaction.id} queued for sync`);
+  }
+
+  /**
+   * Queues a tombstone for a deleted transaction. It replaces any pending push of the same id,
+   * so a sale deleted before it reached the server is removed there instead of uploaded.
+   */
+  async enqueueOutboxRemoval(eventId: string, transactionId: string): Promise<void> {
+    await this.upsertOutboxEntry(eventId, transactionId, 'remove', null);
+    console.log(`📤 Deletion of transaction ${transactionId} queued for sync`);
+  }
+
+  private async upsertOutboxEntry(eventId: string, transactionId: string, operation: OutboxOperation, transaction: Transaction | null): Promise<void> {
+    await this.initialize();
+    const now = new Date().toISOString();
+
+    if (Platform.OS === 'web') {
+      await this.queueWrite(async () => {
+        const outbox = await this.loadWebOutbox();
+        const previous = outbox.find(e => e.transactionId === transactionId);
+        await AsyncStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify([
+          ...outbox.filter(e => e !== previous),
+          {
+            transactionId,
+            eventId,
+            operation,
+            version: (previous?.version || 0) + 1,
+            transaction,
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: now,
+            createdAt: now
+          }
+        ]));
+      });
+      return;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+    await this.queueWrite(() => db.runAsync(
+      `INSERT INTO transaction_outbox (transactionId, eventId, operation, version, payload, status, attempts, nextAttemptAt, lastError, createdAt, syncedAt)
+       VALUES (?, ?, ?, 1, ?, 'pending', 0, ?, NULL, ?, NULL)
+       ON CONFLICT (transactionId) DO UPDATE SET operation = excluded.operation, version = transaction_outbox.version + 1, payload = excluded.payload, status = 'pending', attempts = 0, nextAttemptAt = excluded.nextAttemptAt, lastError = NULL, syncedAt = NULL`,
+      [transactionId, eventId, operation, JSON.stringify(transaction), now, now]
+    ));
+  }
+
+  async getDueOutboxEntries(now: Date = new Date()): Promise<OutboxEntry[]> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      const outbox = await this.loadWebOutbox();
+      return outbox
+        .filter(e => e.status !== 'synced' && new Date(e.nextAttemptAt) <= now)
+        .map(e => this.parseOutboxEntry(e))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const rows = await this.db.getAllAsync(
+      "SELECT * FROM transaction_outbox WHERE status != 'synced' AND nextAttemptAt <= ? ORDER BY createdAt",
+      [now.toISOString()]
+    ) as any[];
+    return rows.map(row => this.parseOutboxEntry(row));
+  }
+
+  async getOutboxStatuses(eventId: string): Promise<Record<string, SyncStatus>> {
+    await this.initialize();
+    const statuses: Record<string, SyncStatus> = {};
+
+    if (Platform.OS === 'web') {
+      const outbox = await this.loadWebOutbox();
+      outbox.filter(e => e.eventId === eventId).forEach(e => { statuses[e.transactionId] = e.status; });
+      return statuses;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const rows = await this.db.getAllAsync(
+      'SELECT transactionId, status FROM transaction_outbox WHERE eventId = ?',
+      [eventId]
+    ) as any[];
+    rows.forEach(row => { statuses[row.transactionId] = row.status as SyncStatus; });
+    return statuses;
+  }
+
+  // Entries re-enqueued since they were read carry a newer version and are left pending
+  async markOutboxSynced(transactionId: string, version: number): Promise<void> {
+    await this.initialize();
+    const now = new Date().toISOString();
+
+    if (Platform.OS === 'web') {
+      await this.queueWrite(async () => {
+        const outbox = (await this.loadWebOutbox()).map(e =>
+          e.transactionId === transactionId && (e.version || 0) === version ? { ...e, status: 'synced', syncedAt: now, lastError: undefined } : e
+        );
+        await AsyncStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify(outbox));
+      });
+      return;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+    await this.queueWrite(() => db.runAsync(
+      "UPDATE transaction_outbox SET status = 'synced', syncedAt = ?, lastError = NULL WHERE transactionId = ? AND version = ?",
+      [now, transactionId, version]
+    ));
+  }
+
+  async markOutboxFailed(transactionId: string, version: number, error: string, nextAttemptAt: Date): Promise<void> {
+    await this.initialize();
+
+    if (Platform.OS === 'web') {
+      await this.queueWrite(async () => {
+        const outbox = (await this.loadWebOutbox()).map(e =>
+          e.transactionId === transactionId && (e.version || 0) === version
+            ? { ...e, status: 'failed', attempts: (e.attempts || 0) + 1, lastError: error, nextAttemptAt: nextAttemptAt.toISOString() }
+            : e
+        );
+        await AsyncStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify(outbox));
+      });
+      return;
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+    await this.queueWrite(() => db.runAsync(
+      "UPDATE transaction_outbox SET status = 'failed', attempts = attempts + 1, lastError = ?, nextAttemptAt = ? WHERE transactionId = ? AND version = ?",
+      [error, nextAttemptAt.toISOString(), transactionId, version]
+    ));
+  }
+
+
   async getAllEvents(): Promise<Event[]> {
     await this.initialize();
 
@@ -2166,6 +3119,199 @@ class DatabaseService {
     console.log('🔍 === END DEBUG ===');
   }
 
+  async exportBackupSnapshot(actingUser: User | null): Promise<DeviceBackupSnapshot> {
+    await this.initialize();
+    assertCapability(actingUser, 'backup.manage');
+
+    if (Platform.OS === 'web') {
+      const readArray = async (key: string) => {
+        const stored = await AsyncStorage.getItem(key);
+        return stored ? JSON.parse(stored) : [];
+      };
+      const preferences: Record<string, unknown>[] = [];
+      for (const key of WEB_BACKUP_PREFERENCE_KEYS) {
+        const value = await AsyncStorage.getItem(key);
+        if (value !== null) preferences.push({ key, value });
+      }
+
+      return {
+        platform: 'web',
+        tables: {
+          users: await readArray(STORAGE_KEYS.USERS),
+          events: await readArray(STORAGE_KEYS.EVENTS),
+          preferences,
+          cash_sessions: await readArray(STORAGE_KEYS.CASH_SESSIONS),
+          audit_log: await readArray(STORAGE_KEYS.AUDIT_LOG),
+        },
+      };
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+
+    const tables: DeviceBackupSnapshot['tables'] = {};
+    for (const table of BACKUP_TABLES) {
+      const rows = await this.db.getAllAsync(`SELECT * FROM ${table}`) as Record<string, unknown>[];
+      tables[table] = table === 'preferences'
+        ? rows.filter(row => !SESSION_PREFERENCE_KEYS.includes(row.key as string))
+        : rows;
+    }
+    console.log('💾 Backup snapshot:', Object.fromEntries(Object.entries(tables).map(([table, rows]) => [table, rows.length])));
+    return { platform: 'native', tables };
+  }
+
+  /**
+   * Restores a backup snapshot. 'replace' wipes the backed-up tables first; 'merge' only
+   * adds rows that do not exist locally, so local records always win. Returns the number
+   * of rows written per table.
+   */
+  async restoreBackupSnapshot(snapshot: DeviceBackupSnapshot, mode: BackupRestoreMode, actingUser: User | null): Promise<Record<string, number>> {
+    await this.initialize();
+    assertCapability(actingUser, 'backup.manage');
+
+    const expectedPlatform = Platform.OS === 'web' ? 'web' : 'native';
+    if (snapshot.platform !== expectedPlatform) {
+      throw new Error(`This backup was made on the ${snapshot.platform} app and cannot be restored on ${expectedPlatform}`);
+    }
+
+    if (Platform.OS === 'web') {
+      return this.restoreWebBackupSnapshot(snapshot, mode);
+    }
+
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const written = await this.runInWriteTransaction(async db => {
+        const counts: Record<string, number> = {};
+
+        if (mode === 'replace') {
+          await db.runAsync('DELETE FROM transaction_outbox');
+          await db.runAsync('DELETE FROM sheets_sync');
+          for (const table of [...BACKUP_TABLES].reverse()) {
+            if (table === 'audit_log') continue;
+            if (table === 'preferences') {
+              await db.runAsync(
+                `DELETE FROM preferences WHERE key NOT IN (${SESSION_PREFERENCE_KEYS.map(() => '?').join(', ')})`,
+                SESSION_PREFERENCE_KEYS
+              );
+            } else {
+              await db.runAsync(`DELETE FROM ${table}`);
+            }
+          }
+        }
+
+        for (const table of BACKUP_TABLES) {
+          const conflictClause = mode === 'replace' && table !== 'audit_log' ? 'OR REPLACE' : 'OR IGNORE';
+          // Only restore columns this schema knows, so backups from other app versions still load
+          const columnInfo = await db.getAllAsync(`PRAGMA table_info(${table})`) as { name: string }[];
+          const columns = new Set(columnInfo.map(c => c.name));
+          counts[table] = 0;
+
+          for (const row of snapshot.tables[table] || []) {
+            if (table === 'preferences' && SESSION_PREFERENCE_KEYS.includes(row.key as string)) continue;
+
+            const keys = Object.keys(row).filter(key => columns.has(key));
+            const result = await db.runAsync(
+              `INSERT ${conflictClause} INTO ${table} (${keys.map(key => `"${key}"`).join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`,
+              keys.map(key => row[key] as SQLite.SQLiteBindValue)
+            );
+            counts[table] += result.changes;
+          }
+        }
+        await this.rebuildTransactionItems(db);
+        return counts;
+      });
+      console.log(`✅ Backup restored (${mode}):`, written);
+      return written;
+    } catch (error) {
+      console.error('❌ Failed to restore backup, transaction rolled back:', error);
+      throw error;
+    }
+  }
+
+  // Line items are derived from event_transactions.items, so backups leave them out
+  private async rebuildTransactionItems(db: SQLite.SQLiteDatabase): Promise<void> {
+    await db.runAsync('DELETE FROM transaction_items');
+    const rows = await db.getAllAsync('SELECT id, eventId, items FROM event_transactions') as { id: string; eventId: string; items: string }[];
+    for (const row of rows) {
+      await this.writeTransactionItems(db, row.id, row.eventId, JSON.parse(row.items));
+    }
+  }
+
+  private async restoreWebBackupSnapshot(snapshot: DeviceBackupSnapshot, mode: BackupRestoreMode): Promise<Record<string, number>> {
+    const { users = [], events = [], preferences = [], cash_sessions: cashSessions = [], audit_log: auditLog = [] } = snapshot.tables as Record<string, any[]>;
+
+    const readArray = async (key: string): Promise<any[]> => {
+      const stored = await AsyncStorage.getItem(key);
+      return stored ? JSON.parse(stored) : [];
+    };
+    // Appends the records whose id is not present locally
+    const addMissing = (local: any[], incoming: any[], isPresent: (record: any) => boolean) => {
+      const added = incoming.filter(record => !isPresent(record));
+      local.push(...added);
+      return added.length;
+    };
+    const mergeAuditLog = async () => {
+      const localEntries = await readArray(STORAGE_KEYS.AUDIT_LOG);
+      const added = addMissing(localEntries, auditLog, entry => localEntries.some(l => l.id === entry.id));
+      await AsyncStorage.setItem(STORAGE_KEYS.AUDIT_LOG, JSON.stringify(localEntries));
+      return added;
+    };
+
+    if (mode === 'replace') {
+      await AsyncStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(users));
+      await AsyncStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(events));
+      await AsyncStorage.setItem(STORAGE_KEYS.CASH_SESSIONS, JSON.stringify(cashSessions));
+      await AsyncStorage.multiRemove([...WEB_BACKUP_PREFERENCE_KEYS, STORAGE_KEYS.OUTBOX, STORAGE_KEYS.SHEETS_SYNC]);
+      for (const { key, value } of preferences) {
+        if (WEB_BACKUP_PREFERENCE_KEYS.includes(key)) await AsyncStorage.setItem(key, value);
+      }
+      const auditEntries = await mergeAuditLog();
+      console.log('✅ Backup restored to AsyncStorage (replace)');
+      return { users: users.length, events: events.length, preferences: preferences.length, cash_sessions: cashSessions.length, audit_log: auditEntries };
+    }
+
+    const written: Record<string, number> = {};
+
+    const localUsers = await readArray(STORAGE_KEYS.USERS);
+    written.users = addMissing(localUsers, users, u => localUsers.some(l => l.id === u.id || l.username === u.username));
+    await AsyncStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(localUsers));
+
+    const localEvents = await readArray(STORAGE_KEYS.EVENTS);
+    written.events = 0;
+    written.event_records = 0;
+    for (const event of events) {
+      const local = localEvents.find(e => e.id === event.id);
+      if (!local) {
+        localEvents.push(event);
+        written.events++;
+        continue;
+      }
+      // Existing event: keep local records and add the ones only the backup has
+      for (const collection of ['products', 'productTypes', 'transactions']) {
+        const localRecords: any[] = local[collection] || [];
+        written.event_records += addMissing(localRecords, event[collection] || [], r => localRecords.some(l => l.id === r.id));
+        local[collection] = localRecords;
+      }
+    }
+    await AsyncStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(localEvents));
+
+    const localSessions = await readArray(STORAGE_KEYS.CASH_SESSIONS);
+    written.cash_sessions = addMissing(localSessions, cashSessions, s => localSessions.some(l => l.id === s.id));
+    await AsyncStorage.setItem(STORAGE_KEYS.CASH_SESSIONS, JSON.stringify(localSessions));
+
+    written.preferences = 0;
+    for (const { key, value } of preferences) {
+      if (WEB_BACKUP_PREFERENCE_KEYS.includes(key) && (await AsyncStorage.getItem(key)) === null) {
+        await AsyncStorage.setItem(key, value);
+        written.preferences++;
+      }
+    }
+    written.audit_log = await mergeAuditLog();
+
+    console.log('✅ Backup restored to AsyncStorage (merge):', written);
+    return written;
+  }
+
   async fullDatabaseDump(): Promise<{ users: any[], events: any[], eventDetails: any[] }> {
     await this.initialize();
     console.log('🔍 === FULL DATABASE DUMP ===');
@@ -2246,28 +3392,54 @@ class DatabaseService {
     console.log(`✅ Updated user ${username} with email: ${email}, name: ${fullName}`);
   }
 
-  async deleteEvent(eventId: string): Promise<void> {
+  async deleteEvent(eventId: string, user: User | null): Promise<void> {
     await this.initialize();
+    await this.assertEventCapability(eventId, user, 'event.delete');
 
     if (Platform.OS === 'web') {
       const stored = await AsyncStorage.getItem(STORAGE_KEYS.EVENTS);
       if (!stored) return;
       const events: any[] = JSON.parse(stored);
+      const eventName = events.find(e => e.id === eventId)?.eventName ?? null;
       const filtered = events.filter(e => e.id !== eventId);
       await AsyncStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(filtered));
+      const storedSnapshots = await AsyncStorage.getItem(STORAGE_KEYS.SNAPSHOTS);
+      if (storedSnapshots) {
+        const snapshots: any[] = JSON.parse(storedSnapshots);
+        await AsyncStorage.setItem(STORAGE_KEYS.SNAPSHOTS, JSON.stringify(snapshots.filter(s => s.eventId !== eventId)));
+      }
+      const outbox = (await this.loadWebOutbox()).filter(e => e.eventId !== eventId);
+      await AsyncStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify(outbox));
       console.log('✅ Event deleted from AsyncStorage');
+      await this.logEventDeletion(eventId, eventName, user);
       return;
     }
 
     if (!this.db) throw new Error('Database not initialized');
 
+    const row = await this.db.getFirstAsync('SELECT eventName FROM events WHERE id = ?', [eventId]) as { eventName: string } | null;
     await this.db.runAsync('DELETE FROM event_products WHERE eventId = ?', [eventId]);
+    await this.db.runAsync('DELETE FROM transaction_items WHERE eventId = ?', [eventId]);
     await this.db.runAsync('DELETE FROM event_transactions WHERE eventId = ?', [eventId]);
+    await this.db.runAsync('DELETE FROM cash_sessions WHERE eventId = ?', [eventId]);
+    await this.db.runAsync('DELETE FROM sheets_sync WHERE eventId = ?', [eventId]);
+    await this.db.runAsync('DELETE FROM event_snapshots WHERE eventId = ?', [eventId]);
+    await this.db.runAsync('DELETE FROM transaction_outbox WHERE eventId = ?', [eventId]);
     await this.db.runAsync('DELETE FROM events WHERE id = ?', [eventId]);
     console.log('✅ Event deleted from database');
+    await this.logEventDeletion(eventId, row?.eventName ?? null, user);
   }
 
-  async deleteAllUnnamedEvents(): Promise<{ success: boolean; deletedCount: number; message: string }> {
+  // The audit log has no foreign key to events, so the entry outlives the event it records
+  private async logEventDeletion(eventId: string, eventName: string | null, user: User | null): Promise<void> {
+    await this.appendAuditEntry(eventId, toAuditActor(user), 'event', eventId, 'delete', [
+      { field: 'eventName', before: eventName, after: null }
+    ]);
+  }
+
+  // Unnamed events are abandoned drafts cleared whenever the event list opens, so anyone may
+  // remove them; each removal is still logged against the user who opened the list
+  async deleteAllUnnamedEvents(user: User | null): Promise<{ success: boolean; deletedCount: number; message: string }> {
     await this.initialize();
     
     try {
@@ -2292,6 +3464,12 @@ class DatabaseService {
         );
         
         await AsyncStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(filtered));
+        const deletedIds = new Set(unnamedEvents.map(e => e.id));
+        const outbox = (await this.loadWebOutbox()).filter(e => !deletedIds.has(e.eventId));
+        await AsyncStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify(outbox));
+        for (const event of unnamedEvents) {
+          await this.logEventDeletion(event.id, event.eventName ?? null, user);
+        }
         console.log(`✅ Deleted ${deletedCount} unnamed events from AsyncStorage`);
         
         return { 
@@ -2312,9 +3490,12 @@ class DatabaseService {
       
       for (const event of unnamedEvents) {
         await this.db.runAsync('DELETE FROM event_products WHERE eventId = ?', [event.id]);
+        await this.db.runAsync('DELETE FROM transaction_items WHERE eventId = ?', [event.id]);
         await this.db.runAsync('DELETE FROM event_transactions WHERE eventId = ?', [event.id]);
         await this.db.runAsync('DELETE FROM event_product_types WHERE eventId = ?', [event.id]);
+        await this.db.runAsync('DELETE FROM transaction_outbox WHERE eventId = ?', [event.id]);
         await this.db.runAsync('DELETE FROM events WHERE id = ?', [event.id]);
+        await this.logEventDeletion(event.id, event.eventName ?? null, user);
         console.log(`   Deleted unnamed event ID: ${event.id}`);
       }
       
@@ -2335,203 +3516,11 @@ class DatabaseService {
     }
   }
 
-  async manualRecoverFism2025(): Promise<{ success: boolean; message: string }> {
-    return this.recoverOriginalEvent();
-  }
-
-  async recoverOriginalEvent(): Promise<{ success: boolean; message: string }> {
-    try {
-      console.log('🔄 Starting recovery of original event data...');
-      await this.initialize();
-
-      // Get the fsj user
-      const fsjUser = await this.getUserByUsername('fsj');
-      if (!fsjUser) {
-        console.log('❌ FSJ user not found, cannot recover event');
-        return { success: false, message: 'FSJ user not found' };
-      }
-
-      // Check if fism2025 already exists - if so, delete it first to re-create
-      const existingEvents = await this.getUserEvents(fsjUser.id);
-      const existingFism = existingEvents.find(e => e.eventName === 'fism2025');
-      if (existingFism) {
-        console.log('ℹ️ fism2025 event already exists, will update with fresh data');
-        // Delete existing event data to recreate it
-        if (Platform.OS === 'web') {
-          const stored = await AsyncStorage.getItem(STORAGE_KEYS.EVENTS);
-          if (stored) {
-            const events: any[] = JSON.parse(stored);
-            const filtered = events.filter(e => e.id !== existingFism.id);
-            await AsyncStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(filtered));
-          }
-        } else if (this.db) {
-          await this.db.runAsync('DELETE FROM event_products WHERE eventId = ?', [existingFism.id]);
-          await this.db.runAsync('DELETE FROM event_transactions WHERE eventId = ?', [existingFism.id]);
-          await this.db.runAsync('DELETE FROM events WHERE id = ?', [existingFism.id]);
-        }
-      }
-
-      // Load legacy data from the old tables
-      let legacyProducts: Product[] = [];
-      let legacyTransactions: Transaction[] = [];
-      let legacySettings: AppSettings;
-
-      if (Platform.OS === 'web') {
-        const stored = await AsyncStorage.getItem('sales_products');
-        legacyProducts = stored ? JSON.parse(stored) : [];
-        const txStored = await AsyncStorage.getItem('sales_transactions');
-        const txData = txStored ? JSON.parse(txStored) : [];
-        legacyTransactions = txData.map((t: any) => ({
-          ...t,
-          timestamp: new Date(t.timestamp)
-        }));
-        const settingsStored = await AsyncStorage.getItem('sales_settings');
-        legacySettings = settingsStored ? JSON.parse(settingsStored) : {
-          userName: 'fsj',
-          eventName: 'fism2025',
-          currency: 'EUR',
-          currencyRoundUp: true,
-          isSetupComplete: true,
-          appPromoPricing: {
-            maxAppsForPromo: 7,
-            prices: { 2: 50, 3: 75, 4: 90, 5: 110, 6: 130, 7: 150 }
-          }
-        };
-      } else if (this.db) {
-        const productsResult = await this.db.getAllAsync('SELECT * FROM products ORDER BY "order" ASC') as any[];
-        legacyProducts = productsResult.map(row => ({
-          id: row.id,
-          name: row.name,
-          price: row.price,
-          color: row.color,
-          icon: row.icon,
-          enabled: Boolean(row.enabled),
-          initialQuantity: row.initialQuantity,
-          promoEligible: Boolean(row.promoEligible),
-          order: row.order,
-          typeId: row.typeId || (row.type === 'Magic Stuff' ? 'type_2' : 'type_1'),
-          subgroup: row.subgroup
-        }));
-
-        const txResult = await this.db.getAllAsync('SELECT * FROM transactions ORDER BY timestamp DESC') as any[];
-        legacyTransactions = txResult.map(row => ({
-          id: row.id,
-          items: JSON.parse(row.items || '[]'),
-          subtotal: row.subtotal,
-          discount: row.discount,
-          total: row.total,
-          currency: row.currency,
-          paymentMethod: row.paymentMethod,
-          timestamp: new Date(row.timestamp),
-          appliedPromotions: JSON.parse(row.appliedPromotions || '[]'),
-          email: row.email,
-          overrideTotal: row.overrideTotal,
-          specialPrice: row.specialPrice,
-          originalCurrency: row.originalCurrency,
-          originalTotal: row.originalTotal,
-          originalSubtotal: row.originalSubtotal
-        }));
-
-        const settingsResult = await this.db.getFirstAsync('SELECT * FROM settings WHERE id = 1') as any;
-        if (settingsResult) {
-          legacySettings = {
-            userName: settingsResult.userName || 'fsj',
-            eventName: 'fism2025',
-            currency: settingsResult.currency || 'EUR',
-            currencyRoundUp: Boolean(settingsResult.currencyRoundUp),
-            isSetupComplete: true,
-            appPromoPricing: typeof settingsResult.appPromoPricing === 'string'
-              ? JSON.parse(settingsResult.appPromoPricing)
-              : settingsResult.appPromoPricing || {
-                  maxAppsForPromo: 7,
-                  prices: { 2: 50, 3: 75, 4: 90, 5: 110, 6: 130, 7: 150 }
-                }
-          };
-        } else {
-          legacySettings = {
-            userName: 'fsj',
-            eventName: 'fism2025',
-            currency: 'EUR',
-            currencyRoundUp: true,
-            isSetupComplete: true,
-            appPromoPricing: {
-              maxAppsForPromo: 7,
-              prices: { 2: 50, 3: 75, 4: 90, 5: 110, 6: 130, 7: 150 }
-            }
-          };
-        }
-      } else {
-        console.log('❌ No database available for recovery');
-        return { success: false, message: 'No database available for recovery' };
-      }
-
-      // Create event even if there's no data - we'll add the original configuration
-      console.log(`📦 Creating fism2025 event with ${legacyProducts.length} products and ${legacyTransactions.length} transactions...`);
-
-      // If no legacy data found, create with default original configuration
-      if (legacyProducts.length === 0) {
-        console.log('ℹ️ No legacy products found, using original FISM configuration');
-        legacyProducts = this.getOriginalFismProducts();
-      }
-
-      // Create the fism2025 event
-      const event = await this.createEvent(
-        fsjUser.id,
-        'fism2025',
-        legacySettings.userName || 'fsj',
-        legacySettings
-      );
-
-      // Save the data to the event
-      await this.saveEventData(event.id, legacyProducts, legacyTransactions);
-
-      console.log(`✅ Successfully recovered/created original event as "fism2025"`);
-      console.log(`   - ${legacyProducts.length} products`);
-      console.log(`   - ${legacyTransactions.length} transactions`);
-      return { success: true, message: `Event created with ${legacyProducts.length} products and ${legacyTransactions.length} transactions` };
-    } catch (error) {
-      console.error('❌ Error recovering original event:', error);
-      return { success: false, message: String(error) };
-    }
-  }
-
-  private getOriginalFismProducts(): Product[] {
-    // Original FISM configuration with all apps, products, promos, and subgroups
-    return [
-      // MagicPro Ideas Apps
-      { id: '1', name: 'Gemini AI', price: 30, color: '#FF6B6B', enabled: true, initialQuantity: 0, promoEligible: true, order: 0, typeId: 'type_1', subgroup: 'Apps' },
-      { id: '2', name: 'ChatGPT', price: 30, color: '#4ECDC4', enabled: true, initialQuantity: 0, promoEligible: true, order: 1, typeId: 'type_1', subgroup: 'Apps' },
-      { id: '3', name: 'Claude AI', price: 30, color: '#95E1D3', enabled: true, initialQuantity: 0, promoEligible: true, order: 2, typeId: 'type_1', subgroup: 'Apps' },
-      { id: '4', name: 'Perplexity', price: 30, color: '#F38181', enabled: true, initialQuantity: 0, promoEligible: true, order: 3, typeId: 'type_1', subgroup: 'Apps' },
-      { id: '5', name: 'DeepSeek', price: 30, color: '#AA96DA', enabled: true, initialQuantity: 0, promoEligible: true, order: 4, typeId: 'type_1', subgroup: 'Apps' },
-      { id: '6', name: 'Midjourney', price: 30, color: '#FCBAD3', enabled: true, initialQuantity: 0, promoEligible: true, order: 5, typeId: 'type_1', subgroup: 'Apps' },
-      { id: '7', name: 'DALL-E', price: 30, color: '#FFFFD2', enabled: true, initialQuantity: 0, promoEligible: true, order: 6, typeId: 'type_1', subgroup: 'Apps' },
-      { id: '8', name: 'Stable Diffusion', price: 30, color: '#A8D8EA', enabled: true, initialQuantity: 0, promoEligible: true, order: 7, typeId: 'type_1', subgroup: 'Apps' },
-      { id: '9', name: 'RunwayML', price: 30, color: '#FFD93D', enabled: true, initialQuantity: 0, promoEligible: true, order: 8, typeId: 'type_1', subgroup: 'Apps' },
-      { id: '10', name: 'ElevenLabs', price: 30, color: '#6BCB77', enabled: true, initialQuantity: 0, promoEligible: true, order: 9, typeId: 'type_1', subgroup: 'Apps' },
-      
-      // Magic Stuff Products
-      { id: '11', name: 'Magic Wand', price: 15, color: '#FFB6C1', enabled: true, initialQuantity: 0, promoEligible: false, order: 10, typeId: 'type_2', subgroup: 'Tools' },
-      { id: '12', name: 'Crystal Ball', price: 25, color: '#DDA0DD', enabled: true, initialQuantity: 0, promoEligible: false, order: 11, typeId: 'type_2', subgroup: 'Tools' },
-      { id: '13', name: 'Magic Hat', price: 20, color: '#87CEEB', enabled: true, initialQuantity: 0, promoEligible: false, order: 12, typeId: 'type_2', subgroup: 'Accessories' },
-      { id: '14', name: 'Spell Book', price: 35, color: '#F0E68C', enabled: true, initialQuantity: 0, promoEligible: false, order: 13, typeId: 'type_2', subgroup: 'Books' },
-      { id: '15', name: 'Potion', price: 10, color: '#98FB98', enabled: true, initialQuantity: 0, promoEligible: false, order: 14, typeId: 'type_2', subgroup: 'Consumables' },
-    ];
-  }
-
   private async initializeDefaultUser(): Promise<void> {
     try {
       console.log('🔐 Checking for default user...');
       
-      // Hash the password 'fsj'
-      let hash = 0;
       const password = 'fsj';
-      for (let i = 0; i < password.length; i++) {
-        const char = password.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash;
-      }
-      const passwordHash = hash.toString();
 
       // Direct database access (no initialize() calls)
       let user: User | null = null;
@@ -2551,7 +3540,7 @@ class DatabaseService {
           const newUser: User = {
             id: Date.now().toString(),
             username: 'fsj',
-            passwordHash,
+            passwordHash: await hashPassword(password),
             email: '',
             fullName: '',
             role: 'admin',
@@ -2578,23 +3567,26 @@ class DatabaseService {
             passwordHash: result.passwordHash,
             email: result.email || '',
             fullName: result.fullName || '',
-            role: (result.role || 'admin') as UserRole,
+            role: result.role ? normalizeRole(result.role) : 'admin',
             createdAt: new Date(result.createdAt)
           };
           console.log('✅ Default user already exists');
           
-          // Update password hash if different
-          if (user && user.passwordHash !== passwordHash) {
+          // Reset the password if it no longer matches (legacy hashes are upgraded on login)
+          if (user && !(await verifyPassword(password, user.passwordHash))) {
             console.log('🔄 Updating password hash for default user...');
+            const passwordHash = await hashPassword(password);
             await this.db.runAsync(
               'UPDATE users SET passwordHash = ? WHERE id = ?',
               [passwordHash, user.id]
             );
+            user.passwordHash = passwordHash;
             console.log('✅ Password hash updated');
           }
         } else {
           console.log('🔐 Creating default user "fsj"...');
           const userId = Date.now().toString();
+          const passwordHash = await hashPassword(password);
           await this.db.runAsync(
             'INSERT INTO users (id, username, passwordHash, email, fullName, role, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
             [userId, 'fsj', passwordHash, '', '', 'admin', new Date().toISOString()]
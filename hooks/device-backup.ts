@@ -0,0 +1,140 @@
+import * as z from 'zod';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { Platform } from 'react-native';
+import { BackupRestoreMode, DeviceBackupSnapshot } from '@/types/sales';
+import { User } from '@/types/auth';
+import { DecryptionError, ENCRYPTION_ALGORITHM, decryptWithPassword, encryptWithPassword } from '@/lib/crypto';
+import { databaseService } from './database';
+
+// FULL-DEVICE BACKUP - EVERY TABLE IN ONE PASSWORD-ENCRYPTED FILE
+//
+// The envelope is plain JSON so the app can say what a file is before asking for the
+// password; everything else, including user password hashes, is inside the ciphertext.
+
+export const DEVICE_BACKUP_FORMAT = 'sales-device-backup';
+export const DEVICE_BACKUP_VERSION = 1;
+export const MIN_BACKUP_PASSWORD_LENGTH = 8;
+
+const backupFileSchema = z.object({
+  format: z.literal(DEVICE_BACKUP_FORMAT),
+  version: z.literal(DEVICE_BACKUP_VERSION),
+  createdAt: z.iso.datetime(),
+  platform: z.enum(['native', 'web']),
+  encryption: z.object({
+    algorithm: z.literal(ENCRYPTION_ALGORITHM),
+    iterations: z.number().int().positive(),
+    salt: z.string(),
+    nonce: z.string(),
+    ciphertext: z.string(),
+    mac: z.string(),
+  }),
+});
+
+const snapshotSchema = z.object({
+  platform: z.enum(['native', 'web']),
+  tables: z.record(z.string(), z.array(z.record(z.string(), z.unknown()))),
+});
+
+export type DeviceBackupFile = z.infer<typeof backupFileSchema>;
+
+/**
+ * Parses the unencrypted envelope of a backup file. Throws with a readable message
+ * when the file is not a backup.
+ */
+export function readDeviceBackupFile(content: string): DeviceBackupFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not a backup file');
+  }
+
+  const result = backupFileSchema.safeParse(raw);
+  if (!result.success) {
+    const version = (raw as any)?.format === DEVICE_BACKUP_FORMAT ? (raw as any).version : undefined;
+    throw new Error(
+      typeof version === 'number' && version > DEVICE_BACKUP_VERSION
+        ? 'The backup was made by a newer app. Update the app to restore it.'
+        : 'The file is not a backup file or is damaged'
+    );
+  }
+  return result.data;
+}
+
+async function decryptDeviceBackup(file: DeviceBackupFile, password: string): Promise<DeviceBackupSnapshot> {
+  const plaintext = await decryptWithPassword(file.encryption, password);
+  return snapshotSchema.parse(JSON.parse(plaintext));
+}
+
+/**
+ * Snapshots every table, encrypts it with the password and downloads the file on web or
+ * opens the share sheet on device.
+ */
+export async function createDeviceBackup(password: string, actingUser: User | null): Promise<{ success: boolean; error?: string }> {
+  try {
+    console.log('💾 Creating device backup...');
+    const snapshot = await databaseService.exportBackupSnapshot(actingUser);
+    const createdAt = new Date();
+
+    const file: DeviceBackupFile = {
+      format: DEVICE_BACKUP_FORMAT,
+      version: DEVICE_BACKUP_VERSION,
+      createdAt: createdAt.toISOString(),
+      platform: snapshot.platform,
+      encryption: await encryptWithPassword(JSON.stringify(snapshot), password),
+    };
+
+    const content = JSON.stringify(file);
+    const fileName = `sales_backup_${createdAt.toISOString().replace(/[:.]/g, '-')}.json`;
+
+    if (Platform.OS === 'web') {
+      const blob = new Blob([content], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      console.log('✅ Backup downloaded on web');
+      return { success: true };
+    }
+
+    const backupFile = new File(Paths.cache, fileName);
+    backupFile.write(content);
+    console.log('📄 Backup file created at:', backupFile.uri);
+
+    const isAvailable = await Sharing.isAvailableAsync();
+    if (!isAvailable) {
+      return { success: false, error: 'Sharing is not available on this device' };
+    }
+
+    await Sharing.shareAsync(backupFile.uri, {
+      mimeType: 'application/json',
+      dialogTitle: 'Save Backup',
+    });
+    console.log('✅ Backup shared successfully');
+    return { success: true };
+  } catch (error: any) {
+    console.error('❌ Error creating backup:', error);
+    return { success: false, error: error.message || String(error) };
+  }
+}
+
+export async function restoreDeviceBackup(
+  file: DeviceBackupFile,
+  password: string,
+  mode: BackupRestoreMode,
+  actingUser: User | null
+): Promise<{ success: boolean; written?: Record<string, number>; error?: string }> {
+  try {
+    const snapshot = await decryptDeviceBackup(file, password);
+    const written = await databaseService.restoreBackupSnapshot(snapshot, mode, actingUser);
+    return { success: true, written };
+  } catch (error: any) {
+    if (!(error instanceof DecryptionError)) {
+      console.error('❌ Error restoring backup:', error);
+    }
+    return { success: false, error: error.message || String(error) };
+  }
+}
@@ -0,0 +1,191 @@
+import { AppSettings, EventChangeSet, Product, ProductType, Promo, Transaction } from '@/types/sales';
+import { Event } from '@/types/auth';
+import { applyRowChanges, createPersistedEventState, diffEventRows, EventRows } from '@/lib/event-changes';
+import { setSyncAuthToken, trpcSyncClient } from '@/lib/trpc';
+import { databaseService } from './database';
+
+// EVENT SYNC - SHARES AN EVENT'S SETTINGS, CATALOGUE AND SALES BETWEEN THE TABLETS AT A FAIR
+//
+// Catalogue and settings edits are pushed as they are saved; sales go up through the
+// transaction outbox. Every sync pulls what other tablets changed since the last pull and
+// merges it into the event by id. Nothing is sent until the device is paired with the server.
+
+// Event settings shared between tablets; the rest (userName, setup state) belongs to the device
+const SHARED_SETTINGS = ['eventName', 'currency', 'currencyRoundUp', 'rolePermissions', 'overrideApproval'] as const;
+
+export type SharedSettings = Pick<AppSettings, (typeof SHARED_SETTINGS)[number]>;
+
+let authToken: string | null | undefined;
+
+/**
+ * Loads the device token into the sync clients once. Returns whether the device is paired.
+ */
+export async function loadSyncAuth(): Promise<boolean> {
+  if (authToken === undefined) {
+    authToken = await databaseService.getSyncDeviceToken();
+    setSyncAuthToken(authToken);
+  }
+  return authToken !== null;
+}
+
+// The backend only acts for devices paired with it: Sheets exports, receipt emails and sync
+export async function assertSyncPaired(): Promise<void> {
+  if (!(await loadSyncAuth())) {
+    throw new Error('This device is not paired with the sync server. Pair it in Backup & Restore first.');
+  }
+}
+
+export async function pairSyncDevice(pairingCode: string, deviceName: string): Promise<void> {
+  const { token } = await trpcSyncClient.devices.pair.mutate({ pairingCode, deviceName });
+  await databaseService.saveSyncDeviceToken(token);
+  authToken = token;
+  setSyncAuthToken(token);
+  console.log(`🔗 Device paired with the sync server as ${deviceName}`);
+}
+
+export async function unpairSyncDevice(): Promise<void> {
+  await databaseService.saveSyncDeviceToken(null);
+  authToken = null;
+  setSyncAuthToken(null);
+  console.log('🔗 Device unpaired from the sync server');
+}
+
+export const pickSharedSettings = (settings: AppSettings): SharedSettings =>
+  Object.fromEntries(SHARED_SETTINGS.map(key => [key, settings[key]])) as SharedSettings;
+
+// The event row without the rows web keeps on it, plus the settings other tablets apply
+const toSyncedEvent = (event: Event, settings: AppSettings) => ({
+  id: event.id,
+  userId: event.userId,
+  eventName: event.eventName,
+  userName: event.userName,
+  currency: event.currency,
+  currencyRoundUp: event.currencyRoundUp,
+  appPromoPricing: typeof event.appPromoPricing === 'string' ? event.appPromoPricing : JSON.stringify(event.appPromoPricing),
+  isFinalized: event.isFinalized,
+  isTemplate: event.isTemplate,
+  createdAt: event.createdAt,
+  updatedAt: event.updatedAt,
+  settings: pickSharedSettings(settings),
+});
+
+// Events whose last push failed; their whole catalogue is pushed again on the next sync
+const pendingFullPush = new Set<string>();
+
+/**
+ * Pushes the catalogue and settings part of a saved change set. Deleted promos are found by
+ * comparing with the promos before the save, since settings carry the full list.
+ */
+export async function pushEventChanges(eventId: string, changes: EventChangeSet, previousPromos: Promo[]): Promise<void> {
+  try {
+    if (!(await loadSyncAuth())) return;
+
+    if (changes.upsertProducts?.length) {
+      await trpcSyncClient.products.push.mutate({ eventId, records: changes.upsertProducts });
+    }
+    if (changes.deleteProductIds?.length) {
+      await trpcSyncClient.products.remove.mutate({ eventId, ids: changes.deleteProductIds });
+    }
+    if (changes.upsertProductTypes?.length) {
+      await trpcSyncClient.productTypes.push.mutate({ eventId, records: changes.upsertProductTypes });
+    }
+    if (changes.deleteProductTypeIds?.length) {
+      await trpcSyncClient.productTypes.remove.mutate({ eventId, ids: changes.deleteProductTypeIds });
+    }
+    if (changes.settings) {
+      const promos = changes.settings.promos || [];
+      const promoIds = new Set(promos.map(promo => promo.id));
+      const removedPromoIds = previousPromos.filter(promo => !promoIds.has(promo.id)).map(promo => promo.id);
+
+      const eventData = await databaseService.loadEventData(eventId);
+      if (eventData) {
+        await trpcSyncClient.events.push.mutate({ event: toSyncedEvent(eventData.event, changes.settings) });
+      }
+      if (promos.length > 0) {
+        await trpcSyncClient.promos.push.mutate({ eventId, records: promos });
+      }
+      if (removedPromoIds.length > 0) {
+        await trpcSyncClient.promos.remove.mutate({ eventId, ids: removedPromoIds });
+      }
+    }
+  } catch (error) {
+    console.warn(`⚠️ Event push failed for event ${eventId}, retrying with the next sync:`, error);
+    pendingFullPush.add(eventId);
+  }
+}
+
+async function pushFullCatalogue(eventId: string, rows: EventRows): Promise<void> {
+  await pushEventChanges(eventId, {
+    upsertProducts: rows.products,
+    upsertProductTypes: rows.productTypes,
+    settings: rows.settings,
+  }, []);
+}
+
+// Records that match the local row are left out, so a device's own pushes coming back are no-ops
+const stableJson = (value: unknown): string => JSON.stringify(value, (_, v) =>
+  v && typeof v === 'object' && !Array.isArray(v) && !(v instanceof Date)
+    ? Object.fromEntries(Object.keys(v).sort().map(key => [key, v[key]]))
+    : v
+);
+
+interface PulledRecord<T> {
+  id: string;
+  data: T;
+  deleted: boolean;
+}
+
+const mergePulled = <T extends { id: string }>(rows: T[], records: PulledRecord<T>[], insertAt: 'append' | 'prepend'): T[] => {
+  const local = new Map(rows.map(row => [row.id, row]));
+  const upserts = records.filter(record => {
+    if (record.deleted) return false;
+    const existing = local.get(record.id);
+    return !existing || stableJson(existing) !== stableJson(record.data);
+  });
+  const deleteIds = records.filter(record => record.deleted && local.has(record.id)).map(record => record.id);
+  return applyRowChanges(rows, upserts.map(record => record.data), deleteIds, insertAt);
+};
+
+/**
+ * Pulls the changes other tablets made to an event and returns the local rows with them
+ * merged in, plus the change set to write. Returns null when the device is not paired.
+ */
+export async function pullEventChanges(eventId: string, rows: EventRows): Promise<{ rows: EventRows; changes: EventChangeSet } | null> {
+  if (!(await loadSyncAuth())) return null;
+
+  if (pendingFullPush.delete(eventId)) {
+    await pushFullCatalogue(eventId, rows);
+  }
+
+  const sinceRevision = await databaseService.getSyncRevision(eventId);
+  const event = await trpcSyncClient.events.get.query({ eventId });
+  const products = await trpcSyncClient.products.pull.query({ eventId, sinceRevision });
+  const productTypes = await trpcSyncClient.productTypes.pull.query({ eventId, sinceRevision });
+  const promos = await trpcSyncClient.promos.pull.query({ eventId, sinceRevision });
+  const transactions = await trpcSyncClient.transactions.pull.query({ eventId, sinceRevision });
+
+  // Writes landing between the pulls are fetched again next time rather than skipped
+  const revision = Math.min(products.revision, productTypes.revision, promos.revision, transactions.revision);
+
+  const remoteSettings: Partial<SharedSettings> = event && event.revision > sinceRevision && !event.deleted
+    ? (event.data as { settings?: SharedSettings }).settings ?? {}
+    : {};
+  const merged: EventRows = {
+    products: mergePulled(rows.products, products.records as PulledRecord<Product>[], 'append'),
+    productTypes: mergePulled(rows.productTypes, productTypes.records as PulledRecord<ProductType>[], 'append'),
+    transactions: mergePulled(rows.transactions, transactions.records as PulledRecord<Transaction>[], 'prepend'),
+    settings: {
+      ...rows.settings,
+      ...remoteSettings,
+      promos: mergePulled(rows.settings.promos || [], promos.records as PulledRecord<Promo>[], 'append'),
+    },
+  };
+
+  // The first device to sync an event creates it on the server
+  if (!event) {
+    await pushFullCatalogue(eventId, merged);
+  }
+
+  await databaseService.saveSyncRevision(eventId, revision);
+  return { rows: merged, changes: diffEventRows(createPersistedEventState(rows), merged) };
+}
@@ -1,11 +1,24 @@
 import createContextHook from '@nkzw/create-context-hook';
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import { CartItem, Transaction, Currency, PaymentMethod, Product, AppSettings, ExchangeRates, ProductType, Promo } from '@/types/sales';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { CartItem, Transaction, Currency, PaymentMethod, Product, AppSettings, ExchangeRates, ProductType, Promo, StockLevel, SyncStatus, PaymentLeg, CashTender, CashSession, CashMovement, CurrencyAmounts, EventSnapshot, AuditAction, AuditChange, AuditEntityType, OverrideApproval } from '@/types/sales';
 import { DEFAULT_SETTINGS } from '@/constants/products';
-import { databaseService } from './database';
+import { calculateCartTotals } from '@/lib/pricing';
+import { buildRefundTransaction, RefundLine } from '@/lib/refunds';
+import { calculateCashVariance } from '@/lib/cash-drawer';
+import { applyCatalogueImport, CatalogueImportMode, ImportedProduct } from '@/lib/catalogue-import';
+import { applyRowChanges, countChanges, createPersistedEventState, diffEventRows, PersistedEventState, persistedEventRows } from '@/lib/event-changes';
+import { diffFields, toAuditActor } from '@/lib/audit';
+import { databaseService, SNAPSHOT_INTERVAL_MS } from './database';
+import { useAuth } from './auth-store';
+import { assertCapability, hasCapability } from '@/lib/permissions';
+import { priceOverrideNeedsApproval, totalOverrideNeedsApproval } from '@/lib/override-approval';
+import { Capability } from '@/types/auth';
+import { flushTransactionOutbox, OUTBOX_SYNC_INTERVAL_MS } from './transaction-sync';
+import { pickSharedSettings, pullEventChanges, pushEventChanges } from './event-sync';
 
 // SALES STORE WITH SQLITE - RELIABLE PERSISTENT STORAGE
 export const [SalesProvider, useSales] = createContextHook(() => {
+  const { currentUser } = useAuth();
   const [cart, setCart] = useState<CartItem[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [displayCurrency, setDisplayCurrency] = useState<Currency>('EUR');
@@ -15,9 +28,12 @@ export const [SalesProvider, useSales] = createContextHook(() => {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isLoading, setIsLoading] = useState(true);
   const [overrideTotal, setOverrideTotal] = useState<number | undefined>(undefined);
+  const [totalOverrideApproval, setTotalOverrideApproval] = useState<OverrideApproval | undefined>(undefined);
   const [currentEventId, setCurrentEventId] = useState<string | null>(null);
   const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [syncStatuses, setSyncStatuses] = useState<Record<string, SyncStatus>>({});
+  const [cashSessions, setCashSessions] = useState<CashSession[]>([]);
   const [exchangeRates, setExchangeRates] = useState<ExchangeRates>({
     USD: 1,
     EUR: 1,
@@ -25,6 +41,8 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     lastUpdated: new Date()
   });
   const [isLoadingRates, setIsLoadingRates] = useState(false);
+  // Rows as last written to the database; autosave only writes what differs from this
+  const persistedRef = useRef<PersistedEventState | null>(null);
 
   // Fetch live exchange rates
   const fetchExchangeRates = useCallback(async () => {
@@ -163,9 +181,50 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     }
   }, [settings, isLoading]);
 
-  const addToCart = useCallback((productId: string) => {
+  // Live stock levels for products with an initial quantity (0 means stock is not tracked)
+  const stockLevels = useMemo(() => {
+    const soldByProduct = new Map<string, number>();
+    transactions.forEach(transaction => {
+      transaction.items.forEach(item => {
+        soldByProduct.set(item.product.id, (soldByProduct.get(item.product.id) || 0) + item.quantity);
+      });
+    });
+
+    const levels = new Map<string, StockLevel>();
+    products.forEach(product => {
+      if (!product.initialQuantity || product.initialQuantity <= 0) return;
+      const sold = soldByProduct.get(product.id) || 0;
+      levels.set(product.id, {
+        productId: product.id,
+        opening: product.initialQuantity,
+        sold,
+        remaining: Math.max(0, product.initialQuantity - sold)
+      });
+    });
+    return levels;
+  }, [products, transactions]);
+
+  const getStockLevel = useCallback((productId: string): StockLevel | undefined => {
+    return stockLevels.get(productId);
+  }, [stockLevels]);
+
+  // Units still available to add to the cart (undefined when the product's stock is not tracked)
+  const getAvailableStock = useCallback((productId: string): number | undefined => {
+    const level = stockLevels.get(productId);
+    if (!level) return undefined;
+    const inCart = cart.find(item => item.product.id === productId)?.quantity || 0;
+    return Math.max(0, level.remaining - inCart);
+  }, [stockLevels, cart]);
+
+  const addToCart = useCallback((productId: string): boolean => {
     const product = products.find(p => p.id === productId);
-    if (!product) return;
+    if (!product) return false;
+
+    const available = getAvailableStock(productId);
+    if (available !== undefined && available <= 0) {
+      console.warn(`📦 Blocked: ${product.name} is sold out`);
+      return false;
+    }
 
     setCart(current => {
       const existing = current.find(item => item.product.id === productId);
@@ -181,7 +240,8 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     
     // Clear total override when cart changes
     setOverrideTotal(undefined);
-  }, [products]);
+    return true;
+  }, [products, getAvailableStock]);
 
   const removeFromCart = useCallback((productId: string) => {
     setCart(current => {
@@ -206,6 +266,7 @@ export const [SalesProvider, useSales] = createContextHook(() => {
   const clearCart = useCallback(() => {
     setCart([]);
     setOverrideTotal(undefined);
+    setTotalOverrideApproval(undefined);
   }, []);
 
   const getItemQuantity = useCallback((productId: string): number => {
@@ -215,173 +276,98 @@ export const [SalesProvider, useSales] = createContextHook(() => {
 
   // Calculate totals based on quantity (automatic combo logic) with price overrides
   const totals = useMemo(() => {
-    const mainCurrency = settings.currency;
-    const mainCurrencyRate = getEffectiveRate(mainCurrency);
-    const displayCurrencyRate = getEffectiveRate(displayCurrency);
-    
-    const conversionRate = displayCurrencyRate / mainCurrencyRate;
-    
-    // Calculate subtotal using override prices when available (natural subtotal)
-    const naturalSubtotal = cart.reduce((sum, item) => {
-      const effectivePrice = item.overridePrice !== undefined ? item.overridePrice : item.product.price;
-      return sum + (effectivePrice * item.quantity);
-    }, 0);
-    
-    let promoTotal = naturalSubtotal;
-    const appliedPromos: string[] = [];
-    
-    // Calculate promo totals by type and combo
-    const hasOverrides = cart.some(item => item.overridePrice !== undefined);
-    if (!hasOverrides && overrideTotal === undefined) {
-      // First, handle combo promos (they take priority)
-      const comboPromos = promos.filter(p => p.mode === 'combo' && p.comboProductIds && p.comboProductIds.length > 0);
-      
-      // Track which cart items have been used in combos
-      const cartItemUsage = cart.map(item => ({
-        product: item.product,
-        quantity: item.quantity,
-        remainingQuantity: item.quantity
-      }));
-      
-      let comboSubtotal = 0;
-      
-      // Process each combo promo
-      for (const comboPromo of comboPromos) {
-        if (!comboPromo.comboProductIds || !comboPromo.comboPrice) continue;
-        
-        // Check if we can form any complete combos
-        let canFormCombo = true;
-        let maxCombos = Infinity;
-        
-        // Calculate max number of combos we can form
-        for (const productId of comboPromo.comboProductIds) {
-          const cartUsage = cartItemUsage.find(u => u.product.id === productId);
-          if (!cartUsage || cartUsage.remainingQuantity < 1 || !cartUsage.product.promoEligible) {
-            canFormCombo = false;
-            break;
-          }
-          maxCombos = Math.min(maxCombos, cartUsage.remainingQuantity);
-        }
-        
-        if (canFormCombo && maxCombos > 0 && maxCombos !== Infinity) {
-          // We can form combos! Apply the combo price
-          comboSubtotal += comboPromo.comboPrice * maxCombos;
-          appliedPromos.push(`${comboPromo.name}`);
-          
-          // Deduct the used quantities
-          for (const productId of comboPromo.comboProductIds) {
-            const cartUsage = cartItemUsage.find(u => u.product.id === productId);
-            if (cartUsage) {
-              cartUsage.remainingQuantity -= maxCombos;
-            }
-          }
-        }
+    return calculateCartTotals(cart, promos, productTypes, {
+      mainCurrency: settings.currency,
+      displayCurrency,
+      effectiveRates: {
+        USD: getEffectiveRate('USD'),
+        EUR: getEffectiveRate('EUR'),
+        GBP: getEffectiveRate('GBP')
+      },
+      currencyRoundUp: settings.currencyRoundUp
+    }, overrideTotal);
+  }, [cart, settings.currency, displayCurrency, overrideTotal, settings.currencyRoundUp, getEffectiveRate, productTypes, promos]);
+
+  const refreshSyncStatuses = useCallback(async () => {
+    if (!currentEventId) return;
+    try {
+      setSyncStatuses(await databaseService.getOutboxStatuses(currentEventId));
+    } catch (error) {
+      console.error('❌ Failed to load sync statuses:', error);
+    }
+  }, [currentEventId]);
+
+  const syncOutbox = useCallback(async () => {
+    await flushTransactionOutbox();
+    await refreshSyncStatuses();
+  }, [refreshSyncStatuses]);
+
+  // Merge what other tablets changed since the last pull into the open event
+  const pullSharedChanges = useCallback(async () => {
+    if (!currentEventId || !persistedRef.current) return;
+    try {
+      if (await databaseService.isEventLocked(currentEventId)) return;
+
+      // Merged against the rows as saved, so unsaved edits here are kept and saved as usual
+      const pulled = await pullEventChanges(currentEventId, persistedEventRows(persistedRef.current));
+      if (!pulled || countChanges(pulled.changes) === 0) return;
+
+      const { changes } = pulled;
+      await databaseService.applyEventChanges(currentEventId, changes);
+      persistedRef.current = createPersistedEventState(pulled.rows);
+      setProducts(current => applyRowChanges(current, changes.upsertProducts, changes.deleteProductIds, 'append'));
+      setProductTypes(current => applyRowChanges(current, changes.upsertProductTypes, changes.deleteProductTypeIds, 'append'));
+      setTransactions(current => applyRowChanges(current, changes.upsertTransactions, changes.deleteTransactionIds, 'prepend'));
+      if (changes.settings) {
+        const pulledSettings = changes.settings;
+        setSettings(current => ({ ...current, ...pickSharedSettings(pulledSettings) }));
+        setPromos(pulledSettings.promos || []);
       }
-      
-      // Now handle type_list promos and remaining items
-      const typeGroups = productTypes.map(type => {
-        const typeItems = cart.filter(item => item.product.typeId === type.id);
-        
-        // Check for Type List promo
-        const typeListPromo = promos.find(p => p.mode === 'type_list' && p.typeId === type.id);
-        
-        // Separate eligible and non-eligible items, considering combo usage
-        const promoEligibleItems = typeItems.filter(item => item.product.promoEligible).map(item => {
-          const usage = cartItemUsage.find(u => u.product.id === item.product.id);
-          return {
-            ...item,
-            quantity: usage ? usage.remainingQuantity : item.quantity
-          };
-        }).filter(item => item.quantity > 0);
-        
-        const nonEligibleItems = typeItems.filter(item => !item.product.promoEligible).map(item => {
-          const usage = cartItemUsage.find(u => u.product.id === item.product.id);
-          return {
-            ...item,
-            quantity: usage ? usage.remainingQuantity : item.quantity
-          };
-        }).filter(item => item.quantity > 0);
-        
-        // Calculate natural price for non-eligible items
-        const nonEligibleSubtotal = nonEligibleItems.reduce((sum, item) => {
-          const effectivePrice = item.overridePrice !== undefined ? item.overridePrice : item.product.price;
-          return sum + (effectivePrice * item.quantity);
-        }, 0);
-        
-        // Calculate promo or natural price for eligible items
-        let eligibleSubtotal = 0;
-        
-        if (typeListPromo && promoEligibleItems.length > 0) {
-          const promoQuantity = promoEligibleItems.reduce((sum, item) => sum + item.quantity, 0);
-          
-          if (promoQuantity >= 2) {
-            if (promoQuantity <= typeListPromo.maxQuantity) {
-              // Use promo price from table
-              if (typeListPromo.prices[promoQuantity]) {
-                eligibleSubtotal = typeListPromo.prices[promoQuantity];
-                appliedPromos.push(`${typeListPromo.name}`);
-              }
-            } else {
-              // Use incremental pricing
-              const basePrice = typeListPromo.prices[typeListPromo.maxQuantity] || 0;
-              const extraQuantity = promoQuantity - typeListPromo.maxQuantity;
-              
-              if (extraQuantity < 6 && typeListPromo.incrementalPrice !== undefined) {
-                // First 5 extra apps use +4 pricing (quantities 5-9)
-                eligibleSubtotal = basePrice + (extraQuantity * typeListPromo.incrementalPrice);
-                appliedPromos.push(`${typeListPromo.name}`);
-              } else if (extraQuantity >= 6 && typeListPromo.incrementalPrice !== undefined && typeListPromo.incrementalPrice10Plus !== undefined) {
-                // From quantity 10+, first 5 use +4, then +10 kicks in
-                eligibleSubtotal = basePrice + (5 * typeListPromo.incrementalPrice) + ((extraQuantity - 5) * typeListPromo.incrementalPrice10Plus);
-                appliedPromos.push(`${typeListPromo.name}`);
-              }
-            }
-          } else {
-            // Less than 2 eligible items, use natural price
-            eligibleSubtotal = promoEligibleItems.reduce((sum, item) => {
-              const effectivePrice = item.overridePrice !== undefined ? item.overridePrice : item.product.price;
-              return sum + (effectivePrice * item.quantity);
-            }, 0);
-          }
-        } else {
-          // No promo or no eligible items, use natural price
-          eligibleSubtotal = promoEligibleItems.reduce((sum, item) => {
-            const effectivePrice = item.overridePrice !== undefined ? item.overridePrice : item.product.price;
-            return sum + (effectivePrice * item.quantity);
-          }, 0);
-        }
-        
-        // Total for this type = eligible subtotal + non-eligible subtotal
-        return eligibleSubtotal + nonEligibleSubtotal;
-      });
-      
-      promoTotal = comboSubtotal + typeGroups.reduce((sum, subtotal) => sum + subtotal, 0);
+      console.log(`🔄 Merged ${countChanges(changes)} changes from other devices`);
+    } catch (error) {
+      console.warn('⚠️ Failed to pull event changes:', error);
     }
-    
-    const discount = naturalSubtotal - promoTotal;
-    const finalTotal = overrideTotal !== undefined ? overrideTotal : promoTotal;
-    
-    // Convert to display currency if different from main currency
-    let convertedSubtotal = displayCurrency === mainCurrency ? naturalSubtotal : naturalSubtotal * conversionRate;
-    let convertedDiscount = displayCurrency === mainCurrency ? discount : discount * conversionRate;
-    let convertedTotal = displayCurrency === mainCurrency ? finalTotal : finalTotal * conversionRate;
-    
-    // Apply currency round-up if enabled and we're converting currencies
-    if (settings.currencyRoundUp && displayCurrency !== mainCurrency) {
-      convertedSubtotal = Math.ceil(convertedSubtotal);
-      convertedTotal = Math.ceil(convertedTotal);
+  }, [currentEventId]);
+
+  // Retry queued transactions and pull shared changes in the background while an event is open.
+  // The outbox goes first so a sale deleted here is gone from the server before the pull.
+  useEffect(() => {
+    if (!currentEventId) {
+      setSyncStatuses({});
+      return;
     }
-    
-    return {
-      subtotal: convertedSubtotal,
-      discount: convertedDiscount,
-      total: convertedTotal,
-      appliedPromotions: appliedPromos,
-      hasOverrides: hasOverrides || overrideTotal !== undefined
+
+    const syncEvent = async () => {
+      await syncOutbox();
+      await pullSharedChanges();
     };
-  }, [cart, settings.currency, displayCurrency, overrideTotal, settings.currencyRoundUp, getEffectiveRate, productTypes, promos]);
+    syncEvent();
+    const syncTimer = setInterval(syncEvent, OUTBOX_SYNC_INTERVAL_MS);
+    return () => clearInterval(syncTimer);
+  }, [currentEventId, syncOutbox, pullSharedChanges]);
+
+  // Rolling snapshots of the open event (unchanged events are skipped by the database)
+  useEffect(() => {
+    if (!currentEventId) return;
+
+    const snapshotTimer = setInterval(() => {
+      databaseService.createEventSnapshot(currentEventId, 'scheduled').catch(error => {
+        console.error('❌ Failed to take scheduled snapshot:', error);
+      });
+    }, SNAPSHOT_INTERVAL_MS);
+    return () => clearInterval(snapshotTimer);
+  }, [currentEventId]);
 
-  const completeTransaction = useCallback(async (paymentMethod: PaymentMethod, email?: string) => {
+  const convertAmount = useCallback((amount: number, from: Currency, to: Currency): number => {
+    if (from === to) return amount;
+    return amount * (getEffectiveRate(to) / getEffectiveRate(from));
+  }, [getEffectiveRate]);
+
+  const getActiveCashSession = useCallback((userId: string): CashSession | undefined => {
+    return cashSessions.find(session => session.userId === userId && !session.closedAt);
+  }, [cashSessions]);
+
+  const completeTransaction = useCallback(async (paymentMethod: PaymentMethod, email?: string, payments?: PaymentLeg[], cashTender?: CashTender) => {
     if (cart.length === 0) return;
     
     if (!currentEventId) {
@@ -390,72 +376,63 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     }
     
     // Check if event is locked
-    const eventData = await databaseService.loadEventData(currentEventId);
-    if (eventData?.event.templatePin) {
+    if (await databaseService.isEventLocked(currentEventId)) {
       console.error('❌ Cannot complete transaction: Event is locked');
       throw new Error('This event is locked. You cannot register new transactions.');
     }
     
     console.log(`💳 Processing transaction for event: ${currentEventId}`);
     
+    // Split payments stay in the display currency; each leg records its own currency
+    const isSplit = !!payments && payments.length > 1;
+    const primaryMethod = isSplit
+      ? payments.reduce((largest, leg) => leg.baseAmount > largest.baseAmount ? leg : largest).method
+      : paymentMethod;
+
+    // Cash tendered in another currency is recorded as a single leg so the drawer
+    // expects that currency (change is given back in it too)
+    const isForeignCash = !isSplit && paymentMethod === 'cash' && !!cashTender && cashTender.currency !== displayCurrency;
+    const transactionPayments = isSplit
+      ? payments
+      : isForeignCash
+        ? [{ method: 'cash' as const, currency: cashTender.currency, amount: cashTender.tendered - cashTender.change, baseAmount: totals.total }]
+        : undefined;
+
     // For card payments, convert to EUR
     // For QR payments, keep the display currency (no conversion needed)
-    const shouldConvertToEUR = paymentMethod === 'card' && displayCurrency !== 'EUR';
+    const shouldConvertToEUR = !isSplit && paymentMethod === 'card' && displayCurrency !== 'EUR';
     const transactionCurrency = shouldConvertToEUR ? 'EUR' : displayCurrency;
     const conversionRate = shouldConvertToEUR ? getEffectiveRate(displayCurrency) / getEffectiveRate('EUR') : 1;
     
+    // Sign-offs are recorded on the transaction; a total approval only counts for the total it approved
+    const approvals: OverrideApproval[] = [];
+    if (overrideTotal !== undefined && totalOverrideApproval?.amount === overrideTotal) {
+      approvals.push({ ...totalOverrideApproval, amount: shouldConvertToEUR ? overrideTotal * conversionRate : overrideTotal });
+    }
+
     // Create transaction items with the actual prices that were used
-    // We need to preserve the effective prices for accurate transaction history
+    // Each line carries its share of promo and override discounts, as allocated by the pricing engine
     const transactionItems = cart.map(item => {
-      let effectivePrice = item.overridePrice !== undefined ? item.overridePrice : item.product.price;
+      const line = totals.lines.find(l => l.productId === item.product.id);
+      const effectivePrice = line
+        ? line.pricedTotal / item.quantity
+        : (item.overridePrice !== undefined ? item.overridePrice : item.product.price);
       
-      // If there's a forced total (overrideTotal), apply proportional discount to each item
-      if (overrideTotal !== undefined) {
-        const originalSubtotal = cart.reduce((sum, cartItem) => {
-          const price = cartItem.overridePrice !== undefined ? cartItem.overridePrice : cartItem.product.price;
-          return sum + (price * cartItem.quantity);
-        }, 0);
-        
-        // Calculate the proportion of this item's contribution to the total
-        const itemOriginalTotal = effectivePrice * item.quantity;
-        const proportion = itemOriginalTotal / originalSubtotal;
-        
-        // Apply the proportional discount
-        const discountAmount = (originalSubtotal - overrideTotal) * proportion;
-        effectivePrice = (itemOriginalTotal - discountAmount) / item.quantity;
-      }
-      // If there's a promo discount (from automatic promo or special price), apply proportional discount to promo-eligible items
-      else if (totals.discount > 0 && totals.appliedPromotions.length > 0) {
-        // Check if this is an app promo or special price
-        const isAppPromo = totals.appliedPromotions.some(promo => promo.includes('Apps Promo') || promo === 'Special Price');
-        
-        const magicProType = productTypes.find(t => t.name === 'MagicPro Ideas');
-        if (isAppPromo && magicProType && item.product.typeId === magicProType.id) {
-          // Calculate the original total for all app items
-          const appItems = cart.filter(cartItem => magicProType && cartItem.product.typeId === magicProType.id);
-          const originalAppsTotal = appItems.reduce((sum, cartItem) => {
-            const price = cartItem.overridePrice !== undefined ? cartItem.overridePrice : cartItem.product.price;
-            return sum + (price * cartItem.quantity);
-          }, 0);
-          
-          // Calculate the proportion of this item's contribution to the app items total
-          const itemOriginalTotal = effectivePrice * item.quantity;
-          const proportion = itemOriginalTotal / originalAppsTotal;
-          
-          // Apply the proportional discount (discount is already calculated in totals)
-          const discountAmount = totals.discount * proportion;
-          effectivePrice = (itemOriginalTotal - discountAmount) / item.quantity;
-        }
+      const convert = (amount: number) => shouldConvertToEUR ? amount * conversionRate : amount;
+      if (item.overrideApproval) {
+        approvals.push({ ...item.overrideApproval, amount: convert(item.overrideApproval.amount) });
       }
-      
-      const convertedPrice = shouldConvertToEUR ? effectivePrice * conversionRate : effectivePrice;
       return {
         product: {
           ...item.product,
-          price: convertedPrice // Store the actual price that was used, converted if needed
+          price: convert(effectivePrice) // Store the actual price that was used, converted if needed
         },
-        quantity: item.quantity
-        // Don't include overridePrice in transaction - the effective price is now in product.price
+        quantity: item.quantity,
+        appliedPromotions: line && line.appliedPromotions.length > 0 ? line.appliedPromotions : undefined,
+        // product.price is what was charged; these record how it was arrived at, for line item reports
+        listPrice: convert(item.product.price),
+        overridePrice: item.overridePrice !== undefined ? convert(item.overridePrice) : undefined,
+        allocatedDiscount: convert(line ? line.allocatedDiscount : 0)
       };
     });
     
@@ -466,29 +443,30 @@ export const [SalesProvider, useSales] = createContextHook(() => {
       discount: shouldConvertToEUR ? totals.discount * conversionRate : totals.discount,
       total: shouldConvertToEUR ? totals.total * conversionRate : totals.total,
       currency: transactionCurrency,
-      paymentMethod,
+      paymentMethod: primaryMethod,
+      payments: transactionPayments,
+      cashTender: paymentMethod === 'cash' && !isSplit ? cashTender : undefined,
       timestamp: new Date(),
       appliedPromotions: totals.appliedPromotions,
       email: email?.trim() || undefined,
       overrideTotal: shouldConvertToEUR && overrideTotal ? overrideTotal * conversionRate : overrideTotal,
       originalCurrency: shouldConvertToEUR ? displayCurrency : undefined,
       originalTotal: shouldConvertToEUR ? totals.total : undefined,
-      originalSubtotal: shouldConvertToEUR ? totals.subtotal : undefined
+      originalSubtotal: shouldConvertToEUR ? totals.subtotal : undefined,
+      overrideApprovals: approvals.length > 0 ? approvals : undefined,
+      cashSessionId: currentUser ? getActiveCashSession(currentUser.id)?.id : undefined
     };
     
-    // Save transaction to event-specific storage immediately
+    // Save transaction to event-specific storage immediately (one row, not the whole event)
     try {
-      const eventData = await databaseService.loadEventData(currentEventId);
-      if (eventData) {
-        const updatedTransactions = [transaction, ...eventData.transactions];
-        await databaseService.saveEventData(currentEventId, eventData.products, updatedTransactions);
-        console.log(`💾 Transaction saved to event ${currentEventId} storage immediately`);
-        
-        // Update local state with the new transaction list
-        setTransactions(updatedTransactions);
-      } else {
-        console.error('❌ Failed to load event data for transaction save');
-      }
+      await databaseService.appendTransaction(currentEventId, transaction);
+      persistedRef.current?.transactions.set(transaction.id, transaction);
+      setTransactions(current => [transaction, ...current]);
+
+      // Queue for the sync server; the sale is already safe locally if this device is offline
+      await databaseService.enqueueOutboxTransaction(currentEventId, transaction);
+      setSyncStatuses(current => ({ ...current, [transaction.id]: 'pending' }));
+      syncOutbox();
     } catch (error) {
       console.error('❌ Failed to save transaction to event storage:', error);
     }
@@ -496,7 +474,7 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     clearCart(); // This also clears overrideTotal
     
     return transaction;
-  }, [cart, totals, displayCurrency, clearCart, overrideTotal, getEffectiveRate, currentEventId, productTypes]);
+  }, [cart, totals, displayCurrency, clearCart, overrideTotal, totalOverrideApproval, getEffectiveRate, currentEventId, currentUser, getActiveCashSession, syncOutbox]);
 
   const getTodaysSales = useCallback(() => {
     const today = new Date();
@@ -519,12 +497,33 @@ export const [SalesProvider, useSales] = createContextHook(() => {
   // Helper to check if event is locked
   const checkIfLocked = useCallback(async (): Promise<boolean> => {
     if (!currentEventId) return false;
-    const eventData = await databaseService.loadEventData(currentEventId);
-    return !!eventData?.event.templatePin;
+    return databaseService.isEventLocked(currentEventId);
   }, [currentEventId]);
 
+  // Whether the signed-in user may do this in the open event
+  const can = useCallback((capability: Capability): boolean => {
+    return hasCapability(currentUser, capability, settings.rolePermissions);
+  }, [currentUser, settings.rolePermissions]);
+
+  const ensureCapability = useCallback((capability: Capability, action: string): boolean => {
+    if (can(capability)) return true;
+    console.warn(`🚫 Blocked: ${action} needs the ${capability} permission`);
+    return false;
+  }, [can]);
+
+  // Records a change to the open event in the audit log, as the signed-in user
+  const recordAudit = useCallback(async (entityType: AuditEntityType, entityId: string, action: AuditAction, changes: AuditChange[]) => {
+    if (!currentEventId || changes.length === 0) return;
+    try {
+      await databaseService.appendAuditEntry(currentEventId, toAuditActor(currentUser), entityType, entityId, action, changes);
+    } catch (error) {
+      console.error('❌ Failed to write audit entry:', error);
+    }
+  }, [currentEventId, currentUser]);
+
   // Product management functions
   const addProduct = useCallback((product: Omit<Product, 'id'>, insertAfterOrder?: number) => {
+    if (!ensureCapability('catalogue.edit', 'add product')) return;
     let newOrder: number;
     
     if (insertAfterOrder !== undefined) {
@@ -557,9 +556,10 @@ export const [SalesProvider, useSales] = createContextHook(() => {
       };
       setProducts(current => [...current, newProduct]);
     }
-  }, [products]);
+  }, [products, ensureCapability]);
 
   const updateProduct = useCallback(async (id: string, updates: Partial<Product>) => {
+    if (!ensureCapability('catalogue.edit', 'update product')) return;
     const locked = await checkIfLocked();
     if (locked) {
       console.warn('🔒 Blocked: Cannot update product in locked event');
@@ -568,17 +568,24 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     setProducts(current => 
       current.map(p => p.id === id ? { ...p, ...updates } : p)
     );
-  }, [checkIfLocked]);
+
+    const existing = products.find(p => p.id === id);
+    if (existing) {
+      await recordAudit('product', id, 'update', diffFields(existing, { ...existing, ...updates }));
+    }
+  }, [products, checkIfLocked, recordAudit, ensureCapability]);
 
   const deleteProduct = useCallback((id: string) => {
+    if (!ensureCapability('catalogue.edit', 'delete product')) return;
     setProducts(current => current.filter(p => p.id !== id));
-  }, []);
+  }, [ensureCapability]);
 
   const getEnabledProducts = useCallback(() => {
     return products.filter(p => p.enabled).sort((a, b) => a.order - b.order);
   }, [products]);
 
   const reorderProducts = useCallback((fromIndex: number, toIndex: number) => {
+    if (!ensureCapability('catalogue.edit', 'reorder products')) return;
     const sortedProducts = [...products].sort((a, b) => a.order - b.order);
     const [movedProduct] = sortedProducts.splice(fromIndex, 1);
     sortedProducts.splice(toIndex, 0, movedProduct);
@@ -589,10 +596,11 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     }));
     
     setProducts(reorderedProducts);
-  }, [products]);
+  }, [products, ensureCapability]);
 
   // Product Types management
   const addProductType = useCallback((type: Omit<ProductType, 'id'>) => {
+    if (!ensureCapability('catalogue.edit', 'add product type')) return;
     const maxOrder = Math.max(...productTypes.map(t => t.order), -1);
     const newType: ProductType = {
       ...type,
@@ -601,19 +609,22 @@ export const [SalesProvider, useSales] = createContextHook(() => {
       enabled: type.enabled ?? true
     };
     setProductTypes(current => [...current, newType]);
-  }, [productTypes]);
+  }, [productTypes, ensureCapability]);
 
   const updateProductType = useCallback((id: string, updates: Partial<ProductType>) => {
+    if (!ensureCapability('catalogue.edit', 'update product type')) return;
     setProductTypes(current => 
       current.map(t => t.id === id ? { ...t, ...updates } : t)
     );
-  }, []);
+  }, [ensureCapability]);
 
   const deleteProductType = useCallback((id: string) => {
+    if (!ensureCapability('catalogue.edit', 'delete product type')) return;
     setProductTypes(current => current.filter(t => t.id !== id));
-  }, []);
+  }, [ensureCapability]);
 
   const reorderProductTypes = useCallback((fromIndex: number, toIndex: number) => {
+    if (!ensureCapability('catalogue.edit', 'reorder product types')) return;
     const sortedTypes = [...productTypes].sort((a, b) => a.order - b.order);
     const [movedType] = sortedTypes.splice(fromIndex, 1);
     sortedTypes.splice(toIndex, 0, movedType);
@@ -624,7 +635,26 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     }));
     
     setProductTypes(reorderedTypes);
-  }, [productTypes]);
+  }, [productTypes, ensureCapability]);
+
+  // Bulk catalogue import: creates any missing types, then merges or replaces the products
+  const importProducts = useCallback(async (imported: ImportedProduct[], mode: CatalogueImportMode): Promise<boolean> => {
+    if (!ensureCapability('catalogue.edit', 'import products')) return false;
+    const locked = await checkIfLocked();
+    if (locked) {
+      console.warn('🔒 Blocked: Cannot import products into locked event');
+      return false;
+    }
+
+    const idBase = Date.now();
+    let idCounter = 0;
+    const result = applyCatalogueImport(products, productTypes, imported, mode, () => `${idBase}_${idCounter++}`);
+
+    console.log(`📥 Imported ${imported.length} products (${mode}), ${result.productTypes.length - productTypes.length} new types`);
+    setProductTypes(result.productTypes);
+    setProducts(result.products);
+    return true;
+  }, [products, productTypes, checkIfLocked, ensureCapability]);
 
   const getProductTypeById = useCallback((typeId: string): ProductType | undefined => {
     return productTypes.find(t => t.id === typeId);
@@ -632,6 +662,7 @@ export const [SalesProvider, useSales] = createContextHook(() => {
 
   // Promo management
   const addPromo = useCallback((promo: Omit<Promo, 'id'>) => {
+    if (!ensureCapability('catalogue.edit', 'add promo')) return;
     const maxOrder = Math.max(...promos.map(p => p.order), -1);
     const newPromo: Promo = {
       ...promo,
@@ -641,21 +672,24 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     const updatedPromos = [...promos, newPromo];
     setPromos(updatedPromos);
     setSettings(current => ({ ...current, promos: updatedPromos }));
-  }, [promos]);
+  }, [promos, ensureCapability]);
 
   const updatePromo = useCallback((id: string, updates: Partial<Promo>) => {
+    if (!ensureCapability('catalogue.edit', 'update promo')) return;
     const updatedPromos = promos.map(p => p.id === id ? { ...p, ...updates } : p);
     setPromos(updatedPromos);
     setSettings(current => ({ ...current, promos: updatedPromos }));
-  }, [promos]);
+  }, [promos, ensureCapability]);
 
   const deletePromo = useCallback((id: string) => {
+    if (!ensureCapability('catalogue.edit', 'delete promo')) return;
     const updatedPromos = promos.filter(p => p.id !== id);
     setPromos(updatedPromos);
     setSettings(current => ({ ...current, promos: updatedPromos }));
-  }, [promos]);
+  }, [promos, ensureCapability]);
 
   const reorderPromos = useCallback((fromIndex: number, toIndex: number) => {
+    if (!ensureCapability('catalogue.edit', 'reorder promos')) return;
     const sortedPromos = [...promos].sort((a, b) => a.order - b.order);
     const [movedPromo] = sortedPromos.splice(fromIndex, 1);
     sortedPromos.splice(toIndex, 0, movedPromo);
@@ -667,17 +701,24 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     
     setPromos(reorderedPromos);
     setSettings(current => ({ ...current, promos: reorderedPromos }));
-  }, [promos]);
+  }, [promos, ensureCapability]);
 
   // Settings management
   const updateSettings = useCallback(async (newSettings: Partial<AppSettings>) => {
+    // Changing who may do what is user management, not an ordinary settings edit
+    const capability = newSettings.rolePermissions !== undefined ? 'user.manage' : 'settings.edit';
+    if (!ensureCapability(capability, 'update settings')) return;
     const locked = await checkIfLocked();
     if (locked) {
       console.warn('🔒 Blocked: Cannot update settings in locked event');
       return;
     }
     setSettings(current => ({ ...current, ...newSettings }));
-  }, [checkIfLocked]);
+
+    if (currentEventId) {
+      await recordAudit('settings', currentEventId, 'update', diffFields(settings, { ...settings, ...newSettings }));
+    }
+  }, [currentEventId, settings, checkIfLocked, recordAudit, ensureCapability]);
 
   // Save all data (settings, products, AND transactions) to current event
   const saveAllData = useCallback(async (silent = false) => {
@@ -688,8 +729,7 @@ export const [SalesProvider, useSales] = createContextHook(() => {
       }
       
       // Check if event is locked
-      const eventData = await databaseService.loadEventData(currentEventId);
-      if (eventData?.event.templatePin) {
+      if (await databaseService.isEventLocked(currentEventId)) {
         if (!silent) console.error('❌ Cannot save: Event is locked');
         return false;
       }
@@ -698,11 +738,27 @@ export const [SalesProvider, useSales] = createContextHook(() => {
       if (!silent) console.log(`💾 Saving all data to event ${currentEventId}...`);
       if (!silent) console.log(`📦 Products: ${products.length}, Transactions: ${transactions.length}, Types: ${productTypes.length}`);
       
-      // Update event name in the events table
-      await databaseService.updateEventName(currentEventId, settings.eventName);
-      
-      // Save event data (products AND transactions) using the CURRENT event ID
-      await databaseService.saveEventData(currentEventId, products, transactions, productTypes, promos, settings);
+      const rows = { products, productTypes, transactions, settings: { ...settings, promos } };
+      if (persistedRef.current) {
+        // Write only the rows that changed since the last save
+        const changes = diffEventRows(persistedRef.current, rows);
+        if (changes.settings) {
+          await databaseService.updateEventName(currentEventId, settings.eventName);
+        }
+        if (countChanges(changes) > 0) {
+          await databaseService.applyEventChanges(currentEventId, changes);
+          if (!silent) console.log(`💾 ${countChanges(changes)} changed rows written`);
+          // Runs in the background; a failed push is retried on the next sync
+          pushEventChanges(currentEventId, changes, JSON.parse(persistedRef.current.settingsJson).promos || []);
+        }
+      } else {
+        // Update event name in the events table
+        await databaseService.updateEventName(currentEventId, settings.eventName);
+        
+        // Save event data (products AND transactions) using the CURRENT event ID
+        await databaseService.saveEventData(currentEventId, products, transactions, productTypes, promos, settings);
+      }
+      persistedRef.current = createPersistedEventState(rows);
       
       // Also save exchange rates
       await databaseService.saveExchangeRates({
@@ -780,32 +836,46 @@ export const [SalesProvider, useSales] = createContextHook(() => {
   }, [products, settings, transactions, displayCurrency]);
 
   // New functions for price overrides
-  const updateCartItemPrice = useCallback((productId: string, newPrice: number) => {
+  // Overrides beyond the event's approval limits need a supervisor's sign-off (prices in the main currency)
+  const updateCartItemPrice = useCallback((productId: string, newPrice: number, approval?: OverrideApproval) => {
+    if (!ensureCapability('price.override', 'override price')) return;
+    const item = cart.find(i => i.product.id === productId);
+    if (item && !approval && priceOverrideNeedsApproval(settings.overrideApproval, item.product.price, newPrice)) {
+      console.warn('🚫 Blocked: price override needs supervisor approval');
+      return;
+    }
     setCart(current => 
       current.map(item => 
         item.product.id === productId 
-          ? { ...item, overridePrice: newPrice }
+          ? { ...item, overridePrice: newPrice, overrideApproval: approval }
           : item
       )
     );
-  }, []);
+  }, [cart, settings.overrideApproval, ensureCapability]);
   
   const clearCartItemPriceOverride = useCallback((productId: string) => {
     setCart(current => 
       current.map(item => 
         item.product.id === productId 
-          ? { ...item, overridePrice: undefined }
+          ? { ...item, overridePrice: undefined, overrideApproval: undefined }
           : item
       )
     );
   }, []);
   
-  const updateTotalOverride = useCallback((newTotal: number) => {
+  const updateTotalOverride = useCallback((newTotal: number, approval?: OverrideApproval) => {
+    if (!ensureCapability('price.override', 'override total')) return;
+    if (!approval && totalOverrideNeedsApproval(settings.overrideApproval, cart, newTotal)) {
+      console.warn('🚫 Blocked: total override needs supervisor approval');
+      return;
+    }
     setOverrideTotal(newTotal);
-  }, []);
+    setTotalOverrideApproval(approval);
+  }, [cart, settings.overrideApproval, ensureCapability]);
   
   const clearTotalOverride = useCallback(() => {
     setOverrideTotal(undefined);
+    setTotalOverrideApproval(undefined);
   }, []);
   
 
@@ -846,6 +916,12 @@ export const [SalesProvider, useSales] = createContextHook(() => {
         setSettings(eventData.settings);
         setPromos(eventData.settings.promos || []);
         setTransactions(eventData.transactions);
+        persistedRef.current = createPersistedEventState({
+          products: eventData.products,
+          productTypes: eventData.productTypes || [],
+          transactions: eventData.transactions,
+          settings: { ...eventData.settings, promos: eventData.settings.promos || [] }
+        });
         setDisplayCurrency(eventData.settings.currency);
         setLastSavedAt(new Date(eventData.event.updatedAt));
         console.log(`✅ Event data loaded into sales store (${eventData.products.length} products, ${eventData.transactions.length} transactions, ${eventData.productTypes?.length || 0} types)`);
@@ -859,8 +935,21 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     }
   }, []);
 
+  const restoreSnapshot = useCallback(async (snapshot: EventSnapshot): Promise<void> => {
+    if (snapshot.eventId !== currentEventId) {
+      throw new Error('This snapshot belongs to a different event.');
+    }
+    if (await checkIfLocked()) {
+      throw new Error('This event is locked. Unlock it before restoring a snapshot.');
+    }
+
+    await databaseService.restoreEventSnapshot(snapshot.id, currentUser);
+    await loadEventData(snapshot.eventId);
+  }, [currentEventId, currentUser, checkIfLocked, loadEventData]);
+
   const clearEventData = useCallback(() => {
     console.log('🗑️ Clearing event data...');
+    persistedRef.current = null;
     setCurrentEventId(null);
     setProducts([]);
     setProductTypes([]);
@@ -898,25 +987,28 @@ export const [SalesProvider, useSales] = createContextHook(() => {
         return false;
       }
 
+      if (!ensureCapability('transaction.delete', 'delete transaction')) return false;
+
       console.log(`🗑️ Deleting transaction ${transactionId} from event ${currentEventId}...`);
       
-      const updatedTransactions = transactions.filter(t => t.id !== transactionId);
-      setTransactions(updatedTransactions);
-      
-      const eventData = await databaseService.loadEventData(currentEventId);
-      if (eventData) {
-        await databaseService.saveEventData(currentEventId, eventData.products, updatedTransactions);
-        console.log(`✅ Transaction ${transactionId} deleted successfully`);
-        return true;
-      } else {
-        console.error('❌ Failed to load event data for transaction deletion');
-        return false;
+      const existing = transactions.find(t => t.id === transactionId);
+      await databaseService.deleteTransaction(currentEventId, transactionId, currentUser);
+      persistedRef.current?.transactions.delete(transactionId);
+      setTransactions(current => current.filter(t => t.id !== transactionId));
+      if (existing) {
+        await recordAudit('transaction', transactionId, 'delete', diffFields(existing, undefined));
       }
+
+      // Replaces a pending push of the sale, and removes it from the server if it was already synced
+      await databaseService.enqueueOutboxRemoval(currentEventId, transactionId);
+      syncOutbox();
+      console.log(`✅ Transaction ${transactionId} deleted successfully`);
+      return true;
     } catch (error) {
       console.error('❌ Error deleting transaction:', error);
       return false;
     }
-  }, [currentEventId, transactions, checkIfLocked]);
+  }, [currentEventId, currentUser, transactions, checkIfLocked, recordAudit, ensureCapability, syncOutbox]);
 
   const updateTransaction = useCallback(async (transactionId: string, updates: Partial<Transaction>) => {
     try {
@@ -931,27 +1023,158 @@ export const [SalesProvider, useSales] = createContextHook(() => {
         return false;
       }
 
+      if (!ensureCapability('transaction.edit', 'update transaction')) return false;
+
       console.log(`✏️ Updating transaction ${transactionId}...`, updates);
       
-      const updatedTransactions = transactions.map(t => 
-        t.id === transactionId ? { ...t, ...updates } : t
-      );
-      setTransactions(updatedTransactions);
-      
-      const eventData = await databaseService.loadEventData(currentEventId);
-      if (eventData) {
-        await databaseService.saveEventData(currentEventId, eventData.products, updatedTransactions);
-        console.log(`✅ Transaction ${transactionId} updated successfully`);
-        return true;
-      } else {
-        console.error('❌ Failed to load event data for transaction update');
+      const existing = transactions.find(t => t.id === transactionId);
+      if (!existing) {
+        console.error(`❌ Transaction ${transactionId} not found`);
         return false;
       }
+
+      const updatedTransaction = { ...existing, ...updates };
+      await databaseService.upsertTransaction(currentEventId, updatedTransaction);
+      persistedRef.current?.transactions.set(transactionId, updatedTransaction);
+      setTransactions(current => current.map(t => t.id === transactionId ? updatedTransaction : t));
+      await recordAudit('transaction', transactionId, 'update', diffFields(existing, updatedTransaction));
+
+      await databaseService.enqueueOutboxTransaction(currentEventId, updatedTransaction);
+      setSyncStatuses(current => ({ ...current, [transactionId]: 'pending' }));
+      syncOutbox();
+      console.log(`✅ Transaction ${transactionId} updated successfully`);
+      return true;
     } catch (error) {
       console.error('❌ Error updating transaction:', error);
       return false;
     }
-  }, [currentEventId, transactions, checkIfLocked]);
+  }, [currentEventId, transactions, checkIfLocked, recordAudit, ensureCapability, syncOutbox]);
+
+  // Removes an event's PIN lock; the caller has already checked the PIN
+  const unlockEvent = useCallback(async (eventId: string) => {
+    await databaseService.unlockEvent(eventId, currentUser);
+  }, [currentUser]);
+
+  const finalizeEvent = useCallback(async () => {
+    if (!currentEventId) {
+      throw new Error('No event is open.');
+    }
+    await databaseService.finalizeEvent(currentEventId, currentUser);
+  }, [currentEventId, currentUser]);
+
+  const refundTransaction = useCallback(async (transactionId: string, lines?: RefundLine[]) => {
+    if (!currentEventId) {
+      throw new Error('No event is open.');
+    }
+
+    const locked = await checkIfLocked();
+    if (locked) {
+      console.error('❌ Cannot refund transaction: Event is locked');
+      throw new Error('This event is locked. You cannot register refunds.');
+    }
+    assertCapability(currentUser, 'transaction.refund', settings.rolePermissions);
+
+    const sale = transactions.find(t => t.id === transactionId);
+    if (!sale) {
+      throw new Error('Transaction not found.');
+    }
+
+    // Throws with a user-facing message when the lines cannot be refunded; cash paid back
+    // comes out of the refunding user's drawer
+    const refund: Transaction = {
+      ...buildRefundTransaction(sale, transactions, lines),
+      cashSessionId: currentUser ? getActiveCashSession(currentUser.id)?.id : undefined
+    };
+    console.log(`↩️ Refunding ${lines ? 'part of ' : ''}transaction ${transactionId} as ${refund.id}...`);
+
+    await databaseService.appendTransaction(currentEventId, refund);
+    persistedRef.current?.transactions.set(refund.id, refund);
+    setTransactions(current => [refund, ...current]);
+
+    await databaseService.enqueueOutboxTransaction(currentEventId, refund);
+    setSyncStatuses(current => ({ ...current, [refund.id]: 'pending' }));
+    syncOutbox();
+
+    console.log(`✅ Refund ${refund.id} saved`);
+    return refund;
+  }, [currentEventId, currentUser, settings.rolePermissions, transactions, checkIfLocked, getActiveCashSession, syncOutbox]);
+
+  // Cash drawer sessions belong to the open event
+  useEffect(() => {
+    if (!currentEventId) {
+      setCashSessions([]);
+      return;
+    }
+
+    databaseService.loadCashSessions(currentEventId)
+      .then(setCashSessions)
+      .catch(error => console.error('❌ Failed to load cash sessions:', error));
+  }, [currentEventId]);
+
+  const persistCashSession = useCallback(async (session: CashSession) => {
+    await databaseService.saveCashSession(session);
+    setCashSessions(current => {
+      const exists = current.some(s => s.id === session.id);
+      return exists ? current.map(s => s.id === session.id ? session : s) : [session, ...current];
+    });
+  }, []);
+
+  const openCashSession = useCallback(async (userId: string, userName: string, openingFloat: CurrencyAmounts) => {
+    if (!currentEventId) {
+      throw new Error('No event is open.');
+    }
+    if (await checkIfLocked()) {
+      throw new Error('This event is locked. You cannot open a cash session.');
+    }
+    if (getActiveCashSession(userId)) {
+      throw new Error('You already have an open cash session for this event.');
+    }
+
+    const session: CashSession = {
+      id: Date.now().toString(),
+      eventId: currentEventId,
+      userId,
+      userName,
+      openedAt: new Date(),
+      openingFloat,
+      movements: []
+    };
+    await persistCashSession(session);
+    console.log(`💵 Cash session opened for ${userName}`);
+    return session;
+  }, [currentEventId, checkIfLocked, getActiveCashSession, persistCashSession]);
+
+  const addCashMovement = useCallback(async (sessionId: string, movement: Omit<CashMovement, 'id' | 'timestamp'>) => {
+    const session = cashSessions.find(s => s.id === sessionId);
+    if (!session || session.closedAt) {
+      throw new Error('This cash session is closed.');
+    }
+    if (!(movement.amount > 0)) {
+      throw new Error('Enter an amount greater than zero.');
+    }
+
+    const updated: CashSession = {
+      ...session,
+      movements: [...session.movements, { ...movement, id: Date.now().toString(), timestamp: new Date() }]
+    };
+    await persistCashSession(updated);
+    console.log(`💵 Cash ${movement.type} of ${movement.amount} ${movement.currency} recorded`);
+    return updated;
+  }, [cashSessions, persistCashSession]);
+
+  const closeCashSession = useCallback(async (sessionId: string, closingCount: CurrencyAmounts) => {
+    const session = cashSessions.find(s => s.id === sessionId);
+    if (!session || session.closedAt) {
+      throw new Error('This cash session is already closed.');
+    }
+
+    const closedAt = new Date();
+    const varianceReport = calculateCashVariance(session, transactions, closingCount, closedAt);
+    const updated: CashSession = { ...session, closedAt, closingCount, varianceReport };
+    await persistCashSession(updated);
+    console.log('💵 Cash session closed:', varianceReport.map(line => `${line.currency} ${line.variance.toFixed(2)}`).join(', '));
+    return updated;
+  }, [cashSessions, transactions, persistCashSession]);
 
   // Auto-save when important data changes (debounced)
   useEffect(() => {
@@ -974,6 +1197,9 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     removeFromCart,
     clearCart,
     getItemQuantity,
+    stockLevels,
+    getStockLevel,
+    getAvailableStock,
     totals,
     applicablePromotions: [], // No longer using named promotions
     completeTransaction,
@@ -1003,17 +1229,31 @@ export const [SalesProvider, useSales] = createContextHook(() => {
     updateCustomRate,
     clearCustomRates,
     getEffectiveRate,
+    convertAmount,
     forceLoadBackupProducts,
     loadEventData,
+    restoreSnapshot,
     clearEventData,
     currentEventId,
     deleteTransaction,
     updateTransaction,
+    unlockEvent,
+    finalizeEvent,
+    refundTransaction,
+    can,
+    syncStatuses,
+    syncOutbox,
+    cashSessions,
+    getActiveCashSession,
+    openCashSession,
+    addCashMovement,
+    closeCashSession,
     productTypes,
     addProductType,
     updateProductType,
     deleteProductType,
     reorderProductTypes,
+    importProducts,
     getProductTypeById,
     promos,
     addPromo,
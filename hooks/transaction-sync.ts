@@ -0,0 +1,101 @@
+import { OutboxEntry } from '@/types/sales';
+import { trpcSyncClient } from '@/lib/trpc';
+import { databaseService } from './database';
+import { loadSyncAuth } from './event-sync';
+
+// TRANSACTION OUTBOX SYNC - PUSHES QUEUED SALES AND DELETIONS TO THE SYNC SERVER WITH BACKOFF
+
+export const OUTBOX_SYNC_INTERVAL_MS = 30 * 1000;
+const RETRY_BASE_DELAY_MS = 15 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+/**
+ * Exponential backoff with jitter: 15s, 30s, 1m, 2m ... capped at 30 minutes.
+ */
+export function getOutboxRetryDelay(attempts: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempts), RETRY_MAX_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+let isFlushing = false;
+let flushAgain = false;
+
+/**
+ * Pushes every due outbox entry, one batch per event. The server merges and deletes by
+ * transaction id, so a batch that was stored but not acknowledged is safe to resend.
+ * A call made while a flush runs makes that flush go round again once it is done, so
+ * entries queued in the meantime are not left for the next interval.
+ */
+export async function flushTransactionOutbox(): Promise<{ synced: number; failed: number }> {
+  if (isFlushing) {
+    flushAgain = true;
+    return { synced: 0, failed: 0 };
+  }
+  isFlushing = true;
+
+  let synced = 0;
+  let failed = 0;
+
+  try {
+    do {
+      flushAgain = false;
+      const result = await pushDueEntries();
+      synced += result.synced;
+      failed += result.failed;
+    } while (flushAgain);
+  } finally {
+    isFlushing = false;
+  }
+
+  return { synced, failed };
+}
+
+async function pushDueEntries(): Promise<{ synced: number; failed: number }> {
+  let synced = 0;
+  let failed = 0;
+
+  try {
+    // Entries wait in the outbox until the device is paired with the server
+    if (!(await loadSyncAuth())) return { synced, failed };
+
+    const dueEntries = await databaseService.getDueOutboxEntries();
+    if (dueEntries.length === 0) return { synced, failed };
+
+    const byEvent = new Map<string, OutboxEntry[]>();
+    dueEntries.forEach(entry => {
+      byEvent.set(entry.eventId, [...(byEvent.get(entry.eventId) || []), entry]);
+    });
+
+    for (const [eventId, entries] of byEvent) {
+      try {
+        const pushes = entries.flatMap(entry => entry.operation === 'push' && entry.transaction ? [entry.transaction] : []);
+        const removedIds = entries.filter(entry => entry.operation === 'remove').map(entry => entry.transactionId);
+        if (pushes.length > 0) {
+          await trpcSyncClient.transactions.push.mutate({ eventId, records: pushes });
+        }
+        if (removedIds.length > 0) {
+          await trpcSyncClient.transactions.remove.mutate({ eventId, ids: removedIds });
+        }
+        // Only the versions that were sent; anything re-enqueued meanwhile stays pending
+        for (const entry of entries) {
+          await databaseService.markOutboxSynced(entry.transactionId, entry.version);
+        }
+        synced += entries.length;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Outbox push failed for event ${eventId}:`, message);
+        for (const entry of entries) {
+          const nextAttemptAt = new Date(Date.now() + getOutboxRetryDelay(entry.attempts));
+          await databaseService.markOutboxFailed(entry.transactionId, entry.version, message, nextAttemptAt);
+        }
+        failed += entries.length;
+      }
+    }
+
+    console.log(`📤 Outbox sync: ${synced} synced, ${failed} failed`);
+  } catch (error) {
+    console.error('❌ Error flushing transaction outbox:', error);
+  }
+
+  return { synced, failed };
+}
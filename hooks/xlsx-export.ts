@@ -0,0 +1,167 @@
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { Platform } from 'react-native';
+import * as XLSX from 'xlsx';
+import {
+  ExportData,
+  generateCurrenciesData,
+  generateProductsData,
+  generateRegistryData,
+} from '@/lib/sheet-data';
+
+// OFFLINE XLSX EXPORT - THE SAME SHEETS AS THE GOOGLE SHEETS EXPORT, BUILT ON DEVICE
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const AMOUNT_FORMAT = '#,##0.00';
+
+type SheetRows = (string | number)[][];
+
+// Excel sheet names are limited to 31 characters and may not contain []:*?/\
+const toSheetName = (name: string, usedNames: Set<string>): string => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let sheetName = base;
+  let suffix = 2;
+  while (usedNames.has(sheetName.toLowerCase())) {
+    const tag = ` (${suffix++})`;
+    sheetName = `${base.slice(0, 31 - tag.length)}${tag}`;
+  }
+  usedNames.add(sheetName.toLowerCase());
+  return sheetName;
+};
+
+/**
+ * Builds a sheet with a filterable header row, fixed column widths and two-decimal
+ * number formatting on the given amount columns.
+ */
+function buildSheet(rows: SheetRows, columnWidths: number[], amountColumns: number[]): XLSX.WorkSheet {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = columnWidths.map(wch => ({ wch }));
+
+  if (rows.length > 0 && rows[0].length > 0) {
+    const range = XLSX.utils.decode_range(sheet['!ref'] || 'A1');
+    sheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: 0, c: range.e.c } }) };
+  }
+
+  for (let r = 1; r < rows.length; r++) {
+    amountColumns.forEach(c => {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+      if (cell && cell.t === 'n') {
+        cell.z = AMOUNT_FORMAT;
+      }
+    });
+  }
+
+  return sheet;
+}
+
+/**
+ * Product sales for one product type, with a closing total row.
+ */
+function generateTypeData(data: ExportData, typeId: string): SheetRows {
+  const rows = generateProductsData({
+    ...data,
+    transactions: data.transactions.map(transaction => ({
+      ...transaction,
+      items: transaction.items.filter(item => item.product.typeId === typeId),
+    })),
+    productSales: data.productSales?.filter(total => total.typeId === typeId),
+  });
+
+  const [, ...productRows] = rows;
+  const totalQuantity = productRows.reduce((sum, row) => sum + (row[2] as number), 0);
+  const totalAmount = productRows.reduce((sum, row) => sum + (row[3] as number), 0);
+  rows.push(['Total', '', totalQuantity, Math.round(totalAmount * 100) / 100]);
+
+  return rows;
+}
+
+export function buildEventWorkbook(data: ExportData): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+  const appendSheet = (sheet: XLSX.WorkSheet, name: string) =>
+    XLSX.utils.book_append_sheet(workbook, sheet, toSheetName(name, usedNames));
+
+  appendSheet(
+    buildSheet(generateRegistryData(data), [36, 12, 10, 40, 10, 10, 10, 10, 15, 25, 20, 16], [4, 5, 6]),
+    'Registry'
+  );
+  appendSheet(buildSheet(generateProductsData(data), [30, 20, 15, 20], [3]), 'Products Summary');
+  appendSheet(buildSheet(generateCurrenciesData(data), [12, 15, 15, 15], [3]), 'Currencies Summary');
+
+  // One sheet per product type that sold something, in type order
+  [...(data.productTypes || [])]
+    .sort((a, b) => a.order - b.order)
+    .forEach(type => {
+      const typeData = generateTypeData(data, type.id);
+      if (typeData.length > 2) {
+        appendSheet(buildSheet(typeData, [30, 20, 15, 20], [3]), type.name);
+      }
+    });
+
+  return workbook;
+}
+
+/**
+ * Writes the event workbook to an .xlsx file, downloading it on web and opening the
+ * share sheet on device.
+ */
+export async function exportEventWorkbook(
+  data: ExportData
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    console.log('📊 Creating Excel workbook...');
+    console.log('📝 Export data:', {
+      userName: data.userName,
+      eventName: data.eventName,
+      transactionsCount: data.transactions.length,
+      productsCount: data.products.length,
+      productTypesCount: data.productTypes?.length || 0,
+    });
+
+    const workbook = buildEventWorkbook(data);
+
+    const timestamp = new Date().toISOString().split('T')[0];
+    const safeName = data.eventName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    const fileName = `${safeName}_${timestamp}.xlsx`;
+
+    const xlsxData = XLSX.write(workbook, { type: 'base64', bookType: 'xlsx' });
+    const binaryString = atob(xlsxData);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+
+    if (Platform.OS === 'web') {
+      const blob = new Blob([bytes], { type: XLSX_MIME_TYPE });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      console.log('✅ Excel file downloaded on web');
+      return { success: true };
+    }
+
+    const file = new File(Paths.cache, fileName);
+    file.write(bytes);
+    console.log('📄 Excel file created at:', file.uri);
+
+    const isAvailable = await Sharing.isAvailableAsync();
+    if (!isAvailable) {
+      return { success: false, error: 'Sharing is not available on this device' };
+    }
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: XLSX_MIME_TYPE,
+      dialogTitle: 'Save Spreadsheet',
+      UTI: 'org.openxmlformats.spreadsheetml.sheet',
+    });
+
+    console.log('✅ Excel file shared successfully');
+    return { success: true };
+  } catch (error: any) {
+    console.error('❌ Error creating spreadsheet:', error);
+    return { success: false, error: error.message || String(error) };
+  }
+}
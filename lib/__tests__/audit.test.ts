@@ -0,0 +1,103 @@
+import { diffFields, formatAuditValue, toAuditActor } from '@/lib/audit';
+import { User } from '@/types/auth';
+
+const mug = { id: 'mug', name: 'Mug', price: 12, enabled: true };
+
+describe('diffFields', () => {
+  it('finds nothing when the records are equal', () => {
+    expect(diffFields(mug, { ...mug })).toEqual([]);
+  });
+
+  it('records the fields that changed with their values before and after', () => {
+    expect(diffFields(mug, { ...mug, price: 15, enabled: false })).toEqual([
+      { field: 'price', before: 12, after: 15 },
+      { field: 'enabled', before: true, after: false },
+    ]);
+  });
+
+  it('records added and removed fields as null on the side they are missing', () => {
+    const { enabled, ...withoutEnabled } = mug;
+    expect(diffFields(withoutEnabled, { ...withoutEnabled, icon: 'coffee' })).toEqual([
+      { field: 'icon', before: null, after: 'coffee' },
+    ]);
+    expect(diffFields(mug, withoutEnabled)).toEqual([{ field: 'enabled', before: enabled, after: null }]);
+  });
+
+  it('treats an undefined field the same as a missing one', () => {
+    expect(diffFields(mug, { ...mug, icon: undefined })).toEqual([]);
+  });
+
+  it('records every field of a created record', () => {
+    expect(diffFields(undefined, mug)).toEqual([
+      { field: 'id', before: null, after: 'mug' },
+      { field: 'name', before: null, after: 'Mug' },
+      { field: 'price', before: null, after: 12 },
+      { field: 'enabled', before: null, after: true },
+    ]);
+  });
+
+  it('records the last value of every field of a deleted record', () => {
+    expect(diffFields(mug, undefined)).toEqual([
+      { field: 'id', before: 'mug', after: null },
+      { field: 'name', before: 'Mug', after: null },
+      { field: 'price', before: 12, after: null },
+      { field: 'enabled', before: true, after: null },
+    ]);
+  });
+
+  it('stores dates as ISO strings and compares them by value', () => {
+    const sale = { id: 'sale_1', timestamp: new Date('2024-06-01T12:00:00.000Z') };
+
+    expect(diffFields(sale, { ...sale, timestamp: new Date('2024-06-01T12:00:00.000Z') })).toEqual([]);
+    expect(diffFields(sale, { ...sale, timestamp: new Date('2024-06-01T13:00:00.000Z') })).toEqual([
+      { field: 'timestamp', before: '2024-06-01T12:00:00.000Z', after: '2024-06-01T13:00:00.000Z' },
+    ]);
+  });
+
+  it('records a nested value as a whole when anything inside it changed', () => {
+    const sale = { id: 'sale_1', items: [{ productId: 'mug', quantity: 1 }] };
+    const items = [{ productId: 'mug', quantity: 2 }];
+
+    expect(diffFields(sale, { ...sale, items })).toEqual([
+      { field: 'items', before: [{ productId: 'mug', quantity: 1 }], after: items },
+    ]);
+  });
+
+  it('copies recorded values so later edits to the records do not change them', () => {
+    const before = { id: 'sale_1', items: [{ productId: 'mug', quantity: 1 }] };
+    const [change] = diffFields(before, { ...before, items: [] });
+
+    before.items[0].quantity = 5;
+    expect(change.before).toEqual([{ productId: 'mug', quantity: 1 }]);
+  });
+});
+
+describe('toAuditActor', () => {
+  const user: User = { id: 'u1', username: 'alice', passwordHash: 'hash', email: '', fullName: 'Alice Smith', role: 'cashier', createdAt: new Date() };
+
+  it('names the actor by full name, falling back to the username', () => {
+    expect(toAuditActor(user)).toEqual({ userId: 'u1', userName: 'Alice Smith' });
+    expect(toAuditActor({ ...user, fullName: '' })).toEqual({ userId: 'u1', userName: 'alice' });
+  });
+
+  it('records changes without a signed-in user as unknown', () => {
+    expect(toAuditActor(null)).toEqual({ userId: null, userName: 'Unknown user' });
+  });
+});
+
+describe('formatAuditValue', () => {
+  it('shows a dash for empty values', () => {
+    expect(formatAuditValue(null)).toBe('—');
+    expect(formatAuditValue('')).toBe('—');
+  });
+
+  it('shows strings as they are and other values as JSON', () => {
+    expect(formatAuditValue('Mug')).toBe('Mug');
+    expect(formatAuditValue(12)).toBe('12');
+    expect(formatAuditValue({ quantity: 2 })).toBe('{"quantity":2}');
+  });
+
+  it('shortens long values to the maximum length', () => {
+    expect(formatAuditValue('abcdefghij', 5)).toBe('abcd…');
+  });
+});
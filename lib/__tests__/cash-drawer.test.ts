@@ -0,0 +1,96 @@
+import { calculateCashVariance, getSessionCashSales } from '@/lib/cash-drawer';
+import { CashSession, Transaction } from '@/types/sales';
+
+const session = (id: string, userId: string, openedAt: string, closedAt?: string): CashSession => ({
+  id,
+  eventId: 'e1',
+  userId,
+  userName: userId,
+  openedAt: new Date(openedAt),
+  closedAt: closedAt ? new Date(closedAt) : undefined,
+  openingFloat: { USD: 0, EUR: 50, GBP: 0 },
+  movements: [],
+});
+
+const sale = (id: string, total: number, timestamp: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  items: [],
+  subtotal: total,
+  discount: 0,
+  total,
+  currency: 'EUR',
+  paymentMethod: 'cash',
+  timestamp: new Date(timestamp),
+  appliedPromotions: [],
+  ...overrides,
+});
+
+// Two cashiers with drawers open over the same hour
+const alice = session('s_alice', 'alice', '2024-06-01T10:00:00Z', '2024-06-01T11:00:00Z');
+const bob = session('s_bob', 'bob', '2024-06-01T10:15:00Z', '2024-06-01T11:15:00Z');
+
+describe('getSessionCashSales', () => {
+  it('counts only the sales taken in the session when drawers overlap', () => {
+    const transactions = [
+      sale('a1', 10, '2024-06-01T10:30:00Z', { cashSessionId: 's_alice' }),
+      sale('b1', 7, '2024-06-01T10:31:00Z', { cashSessionId: 's_bob' }),
+      sale('a2', 5, '2024-06-01T10:45:00Z', { cashSessionId: 's_alice' }),
+    ];
+
+    expect(getSessionCashSales(alice, transactions).EUR).toBe(15);
+    expect(getSessionCashSales(bob, transactions).EUR).toBe(7);
+  });
+
+  it('counts a tagged sale even when its clock falls outside the session', () => {
+    const late = sale('a3', 4, '2024-06-01T11:00:01Z', { cashSessionId: 's_alice' });
+    expect(getSessionCashSales(alice, [late]).EUR).toBe(4);
+  });
+
+  it('falls back to the open period for sales without a session', () => {
+    const transactions = [
+      sale('old_1', 10, '2024-06-01T10:30:00Z'),
+      sale('old_2', 3, '2024-06-01T11:10:00Z'),
+    ];
+
+    expect(getSessionCashSales(alice, transactions).EUR).toBe(10);
+    expect(getSessionCashSales(bob, transactions).EUR).toBe(13);
+  });
+
+  it('counts only cash legs and subtracts cash refunds', () => {
+    const transactions = [
+      sale('split', 20, '2024-06-01T10:30:00Z', {
+        cashSessionId: 's_alice',
+        paymentMethod: 'card',
+        payments: [
+          { method: 'card', currency: 'EUR', amount: 12, baseAmount: 12 },
+          { method: 'cash', currency: 'GBP', amount: 7, baseAmount: 8 },
+        ],
+      }),
+      sale('card', 9, '2024-06-01T10:35:00Z', { cashSessionId: 's_alice', paymentMethod: 'card' }),
+      sale('refund', -5, '2024-06-01T10:40:00Z', { cashSessionId: 's_alice', refundOf: 'a1' }),
+    ];
+
+    expect(getSessionCashSales(alice, transactions)).toEqual({ USD: 0, EUR: -5, GBP: 7 });
+  });
+});
+
+describe('calculateCashVariance', () => {
+  it('compares the counted cash with float, session sales and movements', () => {
+    const withMovements: CashSession = {
+      ...alice,
+      movements: [
+        { id: 'm1', type: 'in', currency: 'EUR', amount: 20, reason: 'Change top-up', timestamp: new Date('2024-06-01T10:20:00Z') },
+        { id: 'm2', type: 'out', currency: 'EUR', amount: 15, reason: 'Supplies', timestamp: new Date('2024-06-01T10:50:00Z') },
+      ],
+    };
+    const transactions = [
+      sale('a1', 10, '2024-06-01T10:30:00Z', { cashSessionId: 's_alice' }),
+      sale('b1', 7, '2024-06-01T10:31:00Z', { cashSessionId: 's_bob' }),
+    ];
+
+    const eur = calculateCashVariance(withMovements, transactions, { USD: 0, EUR: 64, GBP: 0 })
+      .find(line => line.currency === 'EUR');
+
+    expect(eur).toEqual({ currency: 'EUR', openingFloat: 50, cashSales: 10, cashIn: 20, cashOut: 15, expected: 65, counted: 64, variance: -1 });
+  });
+});
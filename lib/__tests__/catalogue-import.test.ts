@@ -0,0 +1,179 @@
+import {
+  applyCatalogueImport,
+  buildCatalogueImportPreview,
+  ColumnMapping,
+  guessColumnMapping,
+  ImportedProduct,
+  readCatalogueSheet,
+} from '@/lib/catalogue-import';
+import { testProduct } from '@/test-utils/database';
+import { ProductType } from '@/types/sales';
+
+const mugs: ProductType = { id: 'type_1', name: 'Mugs', color: '#E3F2FD', order: 0, enabled: true };
+
+const mapping = (overrides: Partial<ColumnMapping> = {}): ColumnMapping => ({
+  name: 0,
+  price: 1,
+  color: null,
+  type: null,
+  subgroup: null,
+  promoEligible: null,
+  initialQuantity: null,
+  ...overrides,
+});
+
+const preview = (csv: string, columns: ColumnMapping = mapping(), types: ProductType[] = [mugs]) =>
+  buildCatalogueImportPreview(readCatalogueSheet(csv), columns, types);
+
+describe('readCatalogueSheet', () => {
+  it('reads quoted fields with delimiters, quotes and line breaks inside them', () => {
+    const sheet = readCatalogueSheet('Name,Price\n"Mug, large",12\n"Say ""hi""",3\n"Two\nlines",4\n');
+
+    expect(sheet).toEqual({
+      headers: ['Name', 'Price'],
+      rows: [['Mug, large', '12'], ['Say "hi"', '3'], ['Two\nlines', '4']],
+    });
+  });
+
+  it('drops a byte order mark from the first header', () => {
+    expect(readCatalogueSheet('\uFEFFName,Price\nMug,12\n').headers).toEqual(['Name', 'Price']);
+    expect(readCatalogueSheet(new TextEncoder().encode('\uFEFFName,Price\nCrème,12\n'))).toEqual({
+      headers: ['Name', 'Price'],
+      rows: [['Crème', '12']],
+    });
+  });
+
+  it.each([
+    ['semicolons', 'Name;Price\nMug;3,50\n'],
+    ['tabs', 'Name\tPrice\nMug\t3,50\n'],
+  ])('detects %s as the delimiter', (_delimiter, csv) => {
+    expect(readCatalogueSheet(csv)).toEqual({ headers: ['Name', 'Price'], rows: [['Mug', '3,50']] });
+  });
+
+  it('trims cells and drops blank rows and CRLF line endings', () => {
+    expect(readCatalogueSheet('Name , Price\r\n  Mug ,12\r\n\r\n,\r\nBadge,3\r\n')).toEqual({
+      headers: ['Name', 'Price'],
+      rows: [['Mug', '12'], ['Badge', '3']],
+    });
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(readCatalogueSheet('')).toEqual({ headers: [], rows: [] });
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('recognises header spellings regardless of case, spaces and punctuation', () => {
+    expect(guessColumnMapping(['Item Name', 'Unit-Price', 'Colour', 'Category', 'Sub group', 'Promo?', 'Opening Stock'])).toEqual({
+      name: 0,
+      price: 1,
+      color: 2,
+      type: 3,
+      subgroup: 4,
+      promoEligible: 5,
+      initialQuantity: 6,
+    });
+  });
+
+  it('leaves fields without a matching header unmapped', () => {
+    expect(guessColumnMapping(['SKU', 'Product', 'Notes', 'Cost'])).toEqual(mapping({ name: 1, price: 3 }));
+  });
+
+  it('maps each column to one field at most', () => {
+    expect(guessColumnMapping(['Name', 'Name', 'Price'])).toMatchObject({ name: 0, price: 2 });
+  });
+});
+
+describe('buildCatalogueImportPreview', () => {
+  const columns = mapping({ color: 2, type: 3, subgroup: 4, promoEligible: 5, initialQuantity: 6 });
+
+  it('maps every column onto the product', () => {
+    const result = preview('Name,Price,Color,Type,Subgroup,Promo,Qty\nMug,"€3,50",007aff,mugs,Large,yes,10\n', columns);
+
+    expect(result.rows).toEqual([{
+      rowNumber: 2,
+      errors: [],
+      product: { name: 'Mug', price: 3.5, color: '#007AFF', typeName: 'mugs', subgroup: 'Large', promoEligible: true, initialQuantity: 10 },
+    }]);
+    expect(result.newTypeNames).toEqual([]);
+  });
+
+  it('reads columns in the order the mapping gives', () => {
+    const result = preview('Price,Name\n3,Badge\n', mapping({ name: 1, price: 0 }));
+
+    expect(result.rows[0].product).toMatchObject({ name: 'Badge', price: 3 });
+  });
+
+  it('reports every problem of a row against its spreadsheet row number', () => {
+    const result = preview('Name,Price,Color,Type,Subgroup,Promo,Qty\nMug,12\n,free,blue,,,maybe,1.5\n', columns);
+
+    expect(result.rows[1]).toEqual({
+      rowNumber: 3,
+      product: null,
+      errors: [
+        'Name is empty',
+        'Invalid price: "free"',
+        'Invalid color: "blue" (use a hex value such as #007AFF)',
+        'Invalid promo eligible value: "maybe"',
+        'Invalid initial quantity: "1.5"',
+      ],
+    });
+    expect(result.validCount).toBe(1);
+    expect(result.errorCount).toBe(1);
+  });
+
+  it('rejects negative prices and quantities', () => {
+    const result = preview('Name,Price,Qty\nMug,-1,-2\n', mapping({ initialQuantity: 2 }));
+
+    expect(result.rows[0].errors).toEqual(['Invalid price: "-1"', 'Invalid initial quantity: "-2"']);
+  });
+
+  it('flags repeated names within a type but not across types', () => {
+    const result = preview('Name,Price,Type\nMug,12,Mugs\nmug,10,mugs\nMug,5,Seconds\n', mapping({ type: 2 }));
+
+    expect(result.rows.map(row => row.errors)).toEqual([[], ['Duplicate of an earlier row: mug'], []]);
+    expect(result.newTypeNames).toEqual(['Seconds']);
+  });
+
+  it('needs the name and price columns mapped', () => {
+    const result = preview('Name,Price\nMug,12\n', mapping({ price: null }));
+
+    expect(result.rows[0].errors).toEqual(['Name and price columns must be mapped']);
+    expect(result.validCount).toBe(0);
+  });
+});
+
+describe('applyCatalogueImport', () => {
+  const mug = testProduct('mug', 12, { name: 'Mug', order: 0 });
+  const badge = testProduct('badge', 3, { name: 'Badge', order: 1 });
+  const imported: ImportedProduct[] = [
+    { name: 'mug', price: 14, initialQuantity: 5 },
+    { name: 'Sticker', price: 1, typeName: 'Paper' },
+  ];
+  let nextId: number;
+  const createId = () => `new_${++nextId}`;
+
+  beforeEach(() => {
+    nextId = 0;
+  });
+
+  it('updates matching products and appends the rest in merge mode', () => {
+    const result = applyCatalogueImport([badge, mug], [mugs], imported, 'merge', createId);
+
+    expect(result.products.map(p => [p.id, p.name, p.price, p.order])).toEqual([
+      ['mug', 'mug', 14, 0],
+      ['badge', 'Badge', 3, 1],
+      ['new_2', 'Sticker', 1, 2],
+    ]);
+    expect(result.products[0].initialQuantity).toBe(5);
+    expect(result.productTypes).toEqual([mugs, { id: 'new_1', name: 'Paper', color: '#E3F2FD', order: 1, enabled: true }]);
+    expect(result.products[2].typeId).toBe('new_1');
+  });
+
+  it('rebuilds the catalogue from the file in replace mode, keeping matched ids', () => {
+    const result = applyCatalogueImport([mug, badge], [mugs], imported, 'replace', createId);
+
+    expect(result.products.map(p => p.id)).toEqual(['mug', 'new_2']);
+    expect(result.products[0]).toMatchObject({ price: 14, color: mug.color, enabled: true });
+  });
+});
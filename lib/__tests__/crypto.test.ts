@@ -0,0 +1,111 @@
+import {
+  decryptWithPassword,
+  DecryptionError,
+  EncryptedPayload,
+  encryptWithPassword,
+  getRandomBytes,
+  pbkdf2Sha256,
+  sha256Hex,
+  toHex,
+} from '@/lib/crypto';
+
+const textEncoder = new TextEncoder();
+const webCrypto = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+
+// Swaps the global crypto object, e.g. to run as Hermes does without WebCrypto
+const setGlobalCrypto = (value: unknown) => {
+  Object.defineProperty(globalThis, 'crypto', { value, configurable: true, writable: true });
+};
+
+afterEach(() => {
+  Object.defineProperty(globalThis, 'crypto', webCrypto);
+});
+
+const runtimes = [
+  ['WebCrypto', () => {}],
+  ['the JS fallback', () => setGlobalCrypto({ getRandomValues: (bytes: Uint8Array) => webCrypto.value.getRandomValues(bytes) })],
+] as const;
+
+describe.each(runtimes)('with %s', (_runtime, useRuntime) => {
+  beforeEach(() => useRuntime());
+
+  // FIPS 180-2 appendix B and the NIST example vectors
+  it.each([
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    ['abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'],
+  ])('hashes %p to the SHA-256 test vector', async (text, digest) => {
+    expect(await sha256Hex(text)).toBe(digest);
+  });
+
+  it('hashes a million repetitions of "a" to the SHA-256 test vector', async () => {
+    expect(await sha256Hex('a'.repeat(1000000))).toBe('cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0');
+  });
+
+  // RFC 7914 section 11, and RFC 6070's inputs with SHA-256 in place of SHA-1
+  it.each([
+    ['passwd', 'salt', 1, 64, '55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783'],
+    ['Password', 'NaCl', 80000, 64, '4ddcd8f60b98be21830cee5ef22701f9641a4418d04c0414aeff08876b34ab56a1d425a1225833549adb841b51c9b3176a272bdebba1d078478f62b397f33c8d'],
+    ['password', 'salt', 1, 32, '120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b'],
+    ['password', 'salt', 2, 32, 'ae4d0c95af6b46d32d0adff928f06dd02a303f8ef3c251dfd6e2d85a95474c43'],
+    ['password', 'salt', 4096, 32, 'c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a'],
+    ['passwordPASSWORDpassword', 'saltSALTsaltSALTsaltSALTsaltSALTsalt', 4096, 40, '348c89dbcbd32b2f32d814b8116e84cf2b17347ebc1800181c4e2a1fb8dd53e1c635518c7dac47e9'],
+  ])('derives the PBKDF2-HMAC-SHA256 test vector for %p / %p, %i iterations', async (password, salt, iterations, keyLength, key) => {
+    expect(toHex(await pbkdf2Sha256(password, textEncoder.encode(salt), iterations, keyLength))).toBe(key);
+  });
+});
+
+describe('getRandomBytes', () => {
+  it('fills the requested number of bytes', () => {
+    expect(getRandomBytes(16)).toHaveLength(16);
+    expect(toHex(getRandomBytes(16))).not.toBe(toHex(getRandomBytes(16)));
+  });
+
+  it('refuses to run without a secure random number generator', () => {
+    setGlobalCrypto(undefined);
+
+    expect(() => getRandomBytes(16)).toThrow('No secure random number generator is available on this device');
+  });
+});
+
+describe('encryptWithPassword', () => {
+  const plaintext = JSON.stringify({ event: 'Spring Fair', note: 'Crème brûlée ☕ 🎉' });
+  let payload: EncryptedPayload;
+
+  beforeAll(async () => {
+    payload = await encryptWithPassword(plaintext, 'correct horse');
+  });
+
+  it('round-trips through decryptWithPassword', async () => {
+    expect(payload.ciphertext).not.toContain('Spring Fair');
+    expect(await decryptWithPassword(payload, 'correct horse')).toBe(plaintext);
+  });
+
+  it('uses a fresh salt and nonce every time', async () => {
+    const again = await encryptWithPassword(plaintext, 'correct horse');
+
+    expect(again.salt).not.toBe(payload.salt);
+    expect(again.nonce).not.toBe(payload.nonce);
+    expect(again.ciphertext).not.toBe(payload.ciphertext);
+  });
+
+  it('rejects a wrong password', async () => {
+    await expect(decryptWithPassword(payload, 'correct horse!')).rejects.toThrow(DecryptionError);
+  });
+
+  it('rejects a tampered ciphertext', async () => {
+    const bytes = Uint8Array.from(atob(payload.ciphertext), c => c.charCodeAt(0));
+    bytes[0] ^= 1;
+    const ciphertext = btoa(String.fromCharCode(...bytes));
+
+    await expect(decryptWithPassword({ ...payload, ciphertext }, 'correct horse')).rejects.toThrow('Wrong password or the backup file is damaged');
+  });
+
+  it('rejects tampered envelope fields and MACs', async () => {
+    const flipLast = (hex: string) => hex.slice(0, -1) + (hex.endsWith('0') ? '1' : '0');
+
+    await expect(decryptWithPassword({ ...payload, nonce: flipLast(payload.nonce) }, 'correct horse')).rejects.toThrow(DecryptionError);
+    await expect(decryptWithPassword({ ...payload, mac: flipLast(payload.mac) }, 'correct horse')).rejects.toThrow(DecryptionError);
+    await expect(decryptWithPassword({ ...payload, algorithm: 'aes-gcm' as EncryptedPayload['algorithm'] }, 'correct horse')).rejects.toThrow('Unsupported encryption algorithm: aes-gcm');
+  });
+});
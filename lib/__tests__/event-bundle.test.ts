@@ -0,0 +1,187 @@
+import { createEventBundle, EVENT_BUNDLE_FORMAT, EVENT_BUNDLE_VERSION, EventBundleContent, parseEventBundle } from '@/lib/event-bundle';
+import { DEFAULT_SETTINGS } from '@/constants/products';
+import { testProduct, testSale } from '@/test-utils/database';
+import { ProductType, Promo } from '@/types/sales';
+
+const mugs: ProductType = { id: 'type_1', name: 'Mugs', color: '#E3F2FD', order: 0, enabled: true };
+const mug = testProduct('mug', 12);
+const badge = testProduct('badge', 3);
+const twoMugs: Promo = { id: 'promo_1', name: 'Two mugs', mode: 'type_list', typeId: 'type_1', maxQuantity: 2, prices: { 2: 20 }, order: 0 };
+
+const content = (overrides: Partial<EventBundleContent> = {}): EventBundleContent => ({
+  settings: { ...DEFAULT_SETTINGS, eventName: 'Spring Fair', isSetupComplete: true },
+  products: [mug, badge],
+  productTypes: [mugs],
+  promos: [twoMugs],
+  transactions: [testSale('sale_1', [{ product: mug, quantity: 2 }])],
+  ...overrides,
+});
+
+// Export files are read back from JSON, so key order and dates are whatever the file holds
+const reloaded = <T>(file: T): any => JSON.parse(JSON.stringify(file));
+
+describe('checksums', () => {
+  it('verifies a file exported with a checksum', async () => {
+    const file = await createEventBundle(content(), { includeChecksum: true });
+
+    const { bundle, report } = await parseEventBundle(reloaded(file));
+
+    expect(file.checksum?.value).toMatch(/^[0-9a-f]{64}$/);
+    expect(report.checksum).toBe('valid');
+    expect(report.errors).toEqual([]);
+    expect(bundle?.transactions.map(t => t.id)).toEqual(['sale_1']);
+  });
+
+  it('does not depend on the order of keys in the file', async () => {
+    const { checksum, ...rest } = reloaded(await createEventBundle(content(), { includeChecksum: true }));
+    const reordered: Record<string, any> = Object.fromEntries(Object.entries({ ...rest, checksum }).reverse());
+    reordered.settings = Object.fromEntries(Object.entries(reordered.settings).reverse());
+
+    expect((await parseEventBundle(reordered)).report.checksum).toBe('valid');
+  });
+
+  it('rejects a file changed after export', async () => {
+    const file = reloaded(await createEventBundle(content(), { includeChecksum: true }));
+    file.transactions[0].total = 2;
+
+    const { bundle, report } = await parseEventBundle(file);
+
+    expect(bundle).toBeNull();
+    expect(report.checksum).toBe('invalid');
+    expect(report.errors).toEqual(['Checksum mismatch: the file was modified after it was exported']);
+  });
+
+  it('rejects a malformed checksum', async () => {
+    const file = reloaded(await createEventBundle(content(), { includeChecksum: true }));
+    file.checksum = 'not a checksum';
+
+    expect((await parseEventBundle(file)).report.checksum).toBe('invalid');
+  });
+
+  it('imports a file without a checksum with a warning', async () => {
+    const { bundle, report } = await parseEventBundle(reloaded(await createEventBundle(content(), { includeChecksum: false })));
+
+    expect(bundle).not.toBeNull();
+    expect(report.checksum).toBe('missing');
+    expect(report.warnings).toContain('The file has no checksum, so changes made after export cannot be detected');
+  });
+});
+
+describe('version migrations', () => {
+  it('leaves a current file as it is', async () => {
+    const { bundle, report } = await parseEventBundle(reloaded(await createEventBundle(content(), { includeChecksum: false })));
+
+    expect(report.sourceVersion).toBe(EVENT_BUNDLE_VERSION);
+    expect(report.migrations).toEqual([]);
+    expect(bundle?.products).toEqual([mug, badge]);
+    expect(bundle?.settings.promos).toEqual([twoMugs]);
+  });
+
+  it('upgrades an unversioned file step by step', async () => {
+    const file = {
+      settings: { eventName: 'Old Fair', currency: 'GBP', promos: [{ id: 'promo_1', name: 'Two mugs', maxQuantity: 2, prices: { 2: 20 } }] },
+      products: [{ id: 'mug', name: 'Mug', price: 12 }],
+      transactions: [{ id: 'sale_1', total: 24, timestamp: '2023-05-01T10:00:00.000Z', items: [{ product: { id: 'mug', name: 'Mug', price: 12 }, quantity: 2 }] }],
+    };
+
+    const { bundle, report } = await parseEventBundle(file);
+
+    expect(report.errors).toEqual([]);
+    expect(report.sourceVersion).toBe(0);
+    expect(report.migrations).toEqual([
+      'v0 → v1: Moved promos out of settings and added product types',
+      'v1 → v2: Filled defaults for fields added since version 1.0',
+    ]);
+    expect(bundle?.exportedAt).toEqual(new Date(0));
+    expect(bundle?.promos).toEqual([expect.objectContaining({ id: 'promo_1', mode: 'type_list', order: 0 })]);
+    // Products without a type land in one placeholder type
+    expect(bundle?.productTypes).toEqual([{ id: 'type_1', name: 'Products', color: '#E3F2FD', order: 0, enabled: true }]);
+    expect(bundle?.products[0]).toMatchObject({ typeId: 'type_1', enabled: true, promoEligible: true, order: 0 });
+    expect(bundle?.transactions[0]).toMatchObject({ subtotal: 24, discount: 0, currency: 'GBP', paymentMethod: 'cash', appliedPromotions: [] });
+    expect(bundle?.transactions[0].items[0].product).toMatchObject({ typeId: 'type_1', enabled: true });
+  });
+
+  it('upgrades a version 1.0 file and keeps its export date', async () => {
+    const { productTypes, promos, products, transactions } = reloaded(content());
+    const file = { version: '1.0', exportDate: '2024-05-01T08:00:00.000Z', settings: { eventName: 'Spring Fair', currency: 'EUR' }, products, productTypes, promos, transactions };
+
+    const { bundle, report } = await parseEventBundle(file);
+
+    expect(report.sourceVersion).toBe(1);
+    expect(report.migrations).toHaveLength(1);
+    expect(bundle?.exportedAt).toEqual(new Date('2024-05-01T08:00:00.000Z'));
+    expect(bundle?.settings).toMatchObject({ eventName: 'Spring Fair', currencyRoundUp: false, appPromoPricing: DEFAULT_SETTINGS.appPromoPricing });
+  });
+
+  it('refuses a file from a newer app', async () => {
+    const { bundle, report } = await parseEventBundle({ format: EVENT_BUNDLE_FORMAT, version: EVENT_BUNDLE_VERSION + 1 });
+
+    expect(bundle).toBeNull();
+    expect(report.errors).toEqual([`The file was exported by a newer app (format version ${EVENT_BUNDLE_VERSION + 1}). Update the app to import it.`]);
+  });
+
+  it('reports what is wrong with an invalid file', async () => {
+    const file = reloaded(await createEventBundle(content(), { includeChecksum: false }));
+    file.products[1].price = 'three';
+
+    const { bundle, report } = await parseEventBundle(file);
+
+    expect(bundle).toBeNull();
+    expect(report.errors).toEqual([expect.stringMatching(/^products\.1\.price: /)]);
+    expect((await parseEventBundle([])).report.errors).toEqual(['The file is not an event export']);
+  });
+});
+
+describe('id remapping', () => {
+  it('gives records a fresh id when the file repeats one', async () => {
+    const file = reloaded(await createEventBundle(content({
+      products: [mug, testProduct('mug_2', 5), { ...badge, id: 'mug' }],
+      transactions: [testSale('sale_1', [{ product: mug, quantity: 1 }]), testSale('sale_1', [{ product: badge, quantity: 1 }])],
+    }), { includeChecksum: true }));
+
+    const { bundle, report } = await parseEventBundle(file);
+
+    expect(bundle?.products.map(p => p.id)).toEqual(['mug', 'mug_2', 'mug_3']);
+    expect(bundle?.products[2].name).toBe('badge');
+    expect(bundle?.transactions.map(t => t.id)).toEqual(['sale_1', 'sale_1_2']);
+    expect(report.remappedIds).toEqual([
+      { kind: 'product', from: 'mug', to: 'mug_3' },
+      { kind: 'transaction', from: 'sale_1', to: 'sale_1_2' },
+    ]);
+  });
+
+  it('keeps references pointing at the first record with the id', async () => {
+    const file = reloaded(await createEventBundle(content({
+      productTypes: [mugs, { ...mugs, name: 'More mugs' }],
+      transactions: [
+        testSale('sale_1', [{ product: mug, quantity: 1 }]),
+        testSale('sale_1', [{ product: mug, quantity: 1 }]),
+        testSale('refund_1', [{ product: mug, quantity: -1 }], { refundOf: 'sale_1' }),
+      ],
+    }), { includeChecksum: false }));
+
+    const { bundle, report } = await parseEventBundle(file);
+
+    expect(bundle?.productTypes.map(t => [t.id, t.name])).toEqual([['type_1', 'Mugs'], ['type_1_2', 'More mugs']]);
+    expect(bundle?.products.every(p => p.typeId === 'type_1')).toBe(true);
+    expect(bundle?.transactions[2].refundOf).toBe('sale_1');
+    expect(report.warnings).toEqual(['The file has no checksum, so changes made after export cannot be detected']);
+  });
+
+  it('warns about references to records missing from the file', async () => {
+    const file = reloaded(await createEventBundle(content({
+      products: [{ ...mug, typeId: 'type_9' }],
+      promos: [{ ...twoMugs, typeId: 'type_8' }],
+      transactions: [testSale('refund_1', [{ product: mug, quantity: -1 }], { refundOf: 'sale_0' })],
+    }), { includeChecksum: true }));
+
+    const { bundle, report } = await parseEventBundle(file);
+
+    expect(bundle).not.toBeNull();
+    expect(report.warnings).toEqual([
+      'Product "mug" refers to a missing type (type_9)',
+      'Promo "Two mugs" refers to a missing type (type_8)',
+      'Refund refund_1 refers to a sale that is not in the file (sale_0)',
+    ]);
+  });
+});
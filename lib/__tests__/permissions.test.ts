@@ -0,0 +1,122 @@
+import {
+  assertCapability,
+  DEFAULT_ROLE_CAPABILITIES,
+  DEFAULT_USER_ROLE,
+  DEVICE_CAPABILITIES,
+  getRoleCapabilities,
+  hasCapability,
+  normalizeRole,
+  PermissionError,
+  ROLES,
+} from '@/lib/permissions';
+import { createDatabaseHarness, getTestAdmin, loadDatabaseService } from '@/test-utils/database';
+import { RolePermissions, UserRole } from '@/types/auth';
+
+const as = (role: unknown) => ({ role: role as UserRole });
+
+describe('normalizeRole', () => {
+  it.each(ROLES)('keeps the current role %s', (role) => {
+    expect(normalizeRole(role)).toBe(role);
+  });
+
+  it('maps the legacy standard role to manager', () => {
+    expect(normalizeRole('standard')).toBe('manager');
+  });
+
+  it.each([undefined, null, '', 'owner', 42])('falls back to cashier for %p', (role) => {
+    expect(normalizeRole(role)).toBe('cashier');
+  });
+});
+
+describe('DEFAULT_USER_ROLE', () => {
+  it('gives self-registered accounts the least access', () => {
+    expect(DEFAULT_USER_ROLE).toBe('cashier');
+    expect(getRoleCapabilities(DEFAULT_USER_ROLE)).toEqual(DEFAULT_ROLE_CAPABILITIES.cashier);
+    for (const capability of ['override.approve', 'transaction.delete', 'settings.edit', 'event.unlock', 'event.finalize', 'snapshot.restore', 'user.manage'] as const) {
+      expect(hasCapability(as(DEFAULT_USER_ROLE), capability)).toBe(false);
+    }
+  });
+
+  it('is the role of users who register after the first', async () => {
+    createDatabaseHarness('web');
+    const databaseService = loadDatabaseService();
+
+    const first = await databaseService.createUser('first', 'hash');
+    // Web user ids are timestamps, so the next user needs a later millisecond
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await databaseService.createUser('second', 'hash');
+
+    expect(first.role).toBe('admin');
+    expect(second.role).toBe(DEFAULT_USER_ROLE);
+  });
+
+  it('needs user management to pick another role', async () => {
+    createDatabaseHarness('ios');
+    const databaseService = loadDatabaseService();
+    const admin = await getTestAdmin(databaseService);
+    const selfRegistered = await databaseService.createUser('reg', 'hash');
+
+    await expect(databaseService.createUser('casey', 'hash', '', '', 'cashier', selfRegistered)).rejects.toMatchObject({ name: 'PermissionError', capability: 'user.manage' });
+    await expect(databaseService.createUser('casey', 'hash', '', '', 'cashier', admin)).resolves.toMatchObject({ role: 'cashier' });
+  });
+});
+
+describe('hasCapability', () => {
+  it('uses the default capabilities of each role', () => {
+    expect(hasCapability(as('cashier'), 'price.override')).toBe(true);
+    expect(hasCapability(as('cashier'), 'override.approve')).toBe(false);
+    expect(hasCapability(as('supervisor'), 'override.approve')).toBe(true);
+    expect(hasCapability(as('supervisor'), 'transaction.delete')).toBe(false);
+    expect(hasCapability(as('manager'), 'audit.view')).toBe(true);
+    expect(hasCapability(as('manager'), 'backup.manage')).toBe(false);
+    expect(hasCapability(as('admin'), 'user.manage')).toBe(true);
+  });
+
+  it('never grants anything without a user', () => {
+    expect(hasCapability(null, 'price.override')).toBe(false);
+  });
+
+  it('treats stored legacy and unknown roles by their normalized role', () => {
+    expect(hasCapability(as('standard'), 'catalogue.edit')).toBe(true);
+    expect(hasCapability(as('owner'), 'catalogue.edit')).toBe(false);
+    expect(hasCapability(as('owner'), 'price.override')).toBe(true);
+  });
+});
+
+describe('event role permissions', () => {
+  const rolePermissions: RolePermissions = {
+    cashier: ['price.override', 'transaction.refund', 'user.manage'],
+    manager: ['catalogue.edit'],
+    admin: [],
+  };
+
+  it('replace the event capabilities of a role', () => {
+    expect(hasCapability(as('cashier'), 'transaction.refund', rolePermissions)).toBe(true);
+    expect(hasCapability(as('manager'), 'settings.edit', rolePermissions)).toBe(false);
+    expect(getRoleCapabilities('manager', rolePermissions)).toEqual(['catalogue.edit']);
+  });
+
+  it('cannot grant device capabilities', () => {
+    expect(hasCapability(as('cashier'), 'user.manage', rolePermissions)).toBe(false);
+    expect(getRoleCapabilities('cashier', rolePermissions).filter(c => DEVICE_CAPABILITIES.includes(c))).toEqual([]);
+  });
+
+  it('never change what an admin may do', () => {
+    expect(getRoleCapabilities('admin', rolePermissions)).toEqual(DEFAULT_ROLE_CAPABILITIES.admin);
+  });
+
+  it('leave roles without an entry at their defaults', () => {
+    expect(getRoleCapabilities('supervisor', rolePermissions)).toEqual(DEFAULT_ROLE_CAPABILITIES.supervisor);
+  });
+});
+
+describe('assertCapability', () => {
+  it('throws a PermissionError naming the missing capability', () => {
+    expect(() => assertCapability(as('cashier'), 'event.finalize')).toThrow(PermissionError);
+    expect(() => assertCapability(as('cashier'), 'event.finalize')).toThrow('You do not have permission to finalize events.');
+  });
+
+  it('passes when the role has the capability', () => {
+    expect(() => assertCapability(as('manager'), 'event.finalize')).not.toThrow();
+  });
+});
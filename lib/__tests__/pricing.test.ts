@@ -0,0 +1,212 @@
+import { calculateCartTotals, getTypeListPromoPrice, PricingRates } from '@/lib/pricing';
+import { CartItem, Product, ProductType, Promo } from '@/types/sales';
+
+const product = (id: string, price: number, typeId: string, overrides: Partial<Product> = {}): Product => ({
+  id,
+  name: id,
+  price,
+  color: '#fff',
+  enabled: true,
+  initialQuantity: 0,
+  promoEligible: true,
+  order: 0,
+  typeId,
+  ...overrides,
+});
+
+const item = (p: Product, quantity: number, overridePrice?: number): CartItem => ({ product: p, quantity, overridePrice });
+
+const types: ProductType[] = [
+  { id: 'apps', name: 'Apps', color: '#fff', order: 0, enabled: true },
+  { id: 'magic', name: 'Magic', color: '#fff', order: 1, enabled: true },
+];
+
+const sameCurrency: PricingRates = {
+  mainCurrency: 'USD',
+  displayCurrency: 'USD',
+  effectiveRates: { USD: 1, EUR: 0.9, GBP: 0.8 },
+  currencyRoundUp: false,
+};
+
+const appsPromo: Promo = {
+  id: 'promo_apps',
+  name: 'Apps Deal',
+  mode: 'type_list',
+  typeId: 'apps',
+  maxQuantity: 3,
+  prices: { 2: 15, 3: 20 },
+  order: 0,
+};
+
+const sumLines = (lines: { pricedTotal: number }[]) => lines.reduce((sum, line) => sum + line.pricedTotal, 0);
+
+describe('getTypeListPromoPrice', () => {
+  it('does not apply to a single unit', () => {
+    expect(getTypeListPromoPrice(appsPromo, 1)).toBeUndefined();
+  });
+
+  it('uses the price table up to maxQuantity', () => {
+    expect(getTypeListPromoPrice(appsPromo, 2)).toBe(15);
+    expect(getTypeListPromoPrice(appsPromo, 3)).toBe(20);
+  });
+
+  it('does not apply beyond the table without incremental prices', () => {
+    expect(getTypeListPromoPrice(appsPromo, 4)).toBeUndefined();
+  });
+
+  it('adds incrementalPrice for the first five extra units', () => {
+    const promo = { ...appsPromo, incrementalPrice: 5 };
+    expect(getTypeListPromoPrice(promo, 4)).toBe(25);
+    expect(getTypeListPromoPrice(promo, 8)).toBe(45);
+  });
+
+  it('switches to incrementalPrice10Plus after five extra units', () => {
+    const promo = { ...appsPromo, incrementalPrice: 5, incrementalPrice10Plus: 4 };
+    // 3 in the table, 5 extra at 5, then 3 more at 4
+    expect(getTypeListPromoPrice(promo, 11)).toBe(20 + 25 + 12);
+  });
+
+  it('needs incrementalPrice10Plus once past five extra units', () => {
+    const promo = { ...appsPromo, incrementalPrice: 5 };
+    expect(getTypeListPromoPrice(promo, 9)).toBeUndefined();
+  });
+});
+
+describe('calculateCartTotals', () => {
+  const appA = product('app_a', 10, 'apps');
+  const appB = product('app_b', 10, 'apps');
+  const wand = product('wand', 5, 'magic');
+
+  it('charges catalogue prices when no promo applies', () => {
+    const totals = calculateCartTotals([item(appA, 1), item(wand, 2)], [appsPromo], types, sameCurrency);
+    expect(totals.subtotal).toBe(20);
+    expect(totals.total).toBe(20);
+    expect(totals.discount).toBe(0);
+    expect(totals.appliedPromotions).toEqual([]);
+  });
+
+  describe('type_list promos', () => {
+    it('prices the eligible units of the type from the table', () => {
+      const totals = calculateCartTotals([item(appA, 2), item(appB, 1)], [appsPromo], types, sameCurrency);
+      expect(totals.subtotal).toBe(30);
+      expect(totals.total).toBe(20);
+      expect(totals.discount).toBe(10);
+      expect(totals.appliedPromotions).toEqual(['Apps Deal']);
+      expect(totals.typeSubtotals.find(t => t.typeId === 'apps')).toEqual({ typeId: 'apps', subtotal: 20, promoName: 'Apps Deal' });
+    });
+
+    it('spreads the promo price across lines by their natural price', () => {
+      const totals = calculateCartTotals([item(appA, 2), item(appB, 1)], [appsPromo], types, sameCurrency);
+      const lineA = totals.lines.find(l => l.productId === 'app_a')!;
+      expect(lineA.pricedTotal).toBeCloseTo(20 * 2 / 3);
+      expect(lineA.allocatedDiscount).toBeCloseTo(20 - 20 * 2 / 3);
+      expect(lineA.appliedPromotions).toEqual(['Apps Deal']);
+      expect(sumLines(totals.lines)).toBeCloseTo(totals.total);
+    });
+
+    it('charges non-eligible products at their natural price', () => {
+      const fixed = product('fixed', 8, 'apps', { promoEligible: false });
+      const totals = calculateCartTotals([item(appA, 2), item(fixed, 1)], [appsPromo], types, sameCurrency);
+      expect(totals.total).toBe(15 + 8);
+      expect(totals.lines.find(l => l.productId === 'fixed')!.allocatedDiscount).toBe(0);
+    });
+
+    it('uses incremental prices beyond the table', () => {
+      const promo = { ...appsPromo, incrementalPrice: 5, incrementalPrice10Plus: 4 };
+      expect(calculateCartTotals([item(appA, 5)], [promo], types, sameCurrency).total).toBe(30);
+      expect(calculateCartTotals([item(appA, 11)], [promo], types, sameCurrency).total).toBe(57);
+    });
+  });
+
+  describe('combo promos', () => {
+    const combo: Promo = {
+      id: 'promo_combo',
+      name: 'App + Wand',
+      mode: 'combo',
+      maxQuantity: 0,
+      prices: {},
+      comboProductIds: ['app_a', 'wand'],
+      comboPrice: 12,
+      order: 0,
+    };
+
+    it('prices complete combos and leaves the remainder for other rules', () => {
+      const totals = calculateCartTotals([item(appA, 2), item(wand, 1)], [combo], types, sameCurrency);
+      expect(totals.total).toBe(12 + 10);
+      expect(totals.appliedPromotions).toEqual(['App + Wand']);
+      expect(sumLines(totals.lines)).toBeCloseTo(22);
+    });
+
+    it('takes priority over type_list promos', () => {
+      const totals = calculateCartTotals([item(appA, 1), item(appB, 1), item(wand, 1)], [appsPromo, combo], types, sameCurrency);
+      // app_a is used by the combo, leaving a single app for the type promo, which then does not apply
+      expect(totals.total).toBe(12 + 10);
+      expect(totals.appliedPromotions).toEqual(['App + Wand']);
+    });
+
+    it('does not apply when a component is missing or not promo eligible', () => {
+      expect(calculateCartTotals([item(appA, 1)], [combo], types, sameCurrency).total).toBe(10);
+
+      const plainWand = product('wand', 5, 'magic', { promoEligible: false });
+      expect(calculateCartTotals([item(appA, 1), item(plainWand, 1)], [combo], types, sameCurrency).total).toBe(15);
+    });
+  });
+
+  describe('overrides', () => {
+    it('uses item override prices and disables promos', () => {
+      const totals = calculateCartTotals([item(appA, 2, 6), item(appB, 1)], [appsPromo], types, sameCurrency);
+      expect(totals.subtotal).toBe(22);
+      expect(totals.total).toBe(22);
+      expect(totals.appliedPromotions).toEqual([]);
+      expect(totals.hasOverrides).toBe(true);
+    });
+
+    it('replaces the total and spreads it across lines', () => {
+      const totals = calculateCartTotals([item(appA, 1), item(wand, 2)], [appsPromo], types, sameCurrency, 15);
+      expect(totals.total).toBe(15);
+      expect(totals.hasOverrides).toBe(true);
+      expect(totals.lines.find(l => l.productId === 'app_a')!.pricedTotal).toBeCloseTo(7.5);
+      expect(sumLines(totals.lines)).toBeCloseTo(15);
+    });
+
+    it('splits a total override evenly when nothing was charged', () => {
+      const free = product('free', 0, 'apps');
+      const totals = calculateCartTotals([item(free, 1), item(product('gift', 0, 'magic'), 1)], [], types, sameCurrency, 4);
+      expect(totals.lines.map(l => l.pricedTotal)).toEqual([2, 2]);
+    });
+  });
+
+  it('charges products whose type no longer exists at their natural price', () => {
+    const orphan = product('orphan', 7, 'deleted_type');
+    const totals = calculateCartTotals([item(orphan, 2), item(appA, 2)], [appsPromo], types, sameCurrency);
+    expect(totals.total).toBe(14 + 15);
+    expect(totals.typeSubtotals.map(t => t.typeId)).toEqual(['apps', 'magic']);
+    expect(totals.lines.find(l => l.productId === 'orphan')!.pricedTotal).toBe(14);
+  });
+
+  describe('currency conversion', () => {
+    const inEuros: PricingRates = { ...sameCurrency, displayCurrency: 'EUR' };
+
+    it('converts totals to the display currency', () => {
+      const totals = calculateCartTotals([item(product('p', 10.5, 'apps'), 1)], [], types, inEuros);
+      expect(totals.subtotal).toBeCloseTo(9.45);
+      expect(totals.total).toBeCloseTo(9.45);
+    });
+
+    it('rounds converted totals up when currency round-up is on', () => {
+      const totals = calculateCartTotals([item(product('p', 10.5, 'apps'), 1)], [], types, { ...inEuros, currencyRoundUp: true });
+      expect(totals.subtotal).toBe(10);
+      expect(totals.total).toBe(10);
+    });
+
+    it('does not round when the display currency is the main currency', () => {
+      const totals = calculateCartTotals([item(product('p', 10.5, 'apps'), 1)], [], types, { ...sameCurrency, currencyRoundUp: true });
+      expect(totals.total).toBe(10.5);
+    });
+
+    it('keeps line amounts in the main currency', () => {
+      const totals = calculateCartTotals([item(product('p', 10.5, 'apps'), 1)], [], types, inEuros);
+      expect(totals.lines[0].pricedTotal).toBe(10.5);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { ExportData, generateProductsData } from '@/lib/sheet-data';
+import { aggregateProductSales } from '@/lib/transaction-items';
+import { Product, Transaction } from '@/types/sales';
+
+const product = (id: string, price: number, subgroup?: string): Product => ({
+  id,
+  name: id,
+  price,
+  color: '#fff',
+  enabled: true,
+  initialQuantity: 0,
+  promoEligible: true,
+  order: 0,
+  typeId: 'type_1',
+  subgroup,
+});
+
+const sale = (id: string, currency: Transaction['currency'], items: Transaction['items']): Transaction => ({
+  id,
+  items,
+  subtotal: 0,
+  discount: 0,
+  total: 0,
+  currency,
+  paymentMethod: 'cash',
+  timestamp: new Date('2024-06-01T12:00:00Z'),
+  appliedPromotions: [],
+});
+
+const transactions = [
+  sale('t1', 'EUR', [
+    { product: product('mug', 10, 'Kitchen'), quantity: 2, listPrice: 12, allocatedDiscount: 4 },
+    { product: product('badge', 3), quantity: 1 },
+  ]),
+  sale('t2', 'USD', [{ product: product('mug', 13, 'Kitchen'), quantity: 1, listPrice: 13, allocatedDiscount: 0 }]),
+];
+
+const data: ExportData = {
+  userName: 'fsj',
+  eventName: 'Fair',
+  transactions,
+  products: [],
+  settings: { currency: 'EUR' },
+  exchangeRates: { USD: 1, EUR: 0.5, GBP: 0.4 },
+};
+
+describe('generateProductsData', () => {
+  it('merges each product across currencies into the main currency, highest amount first', () => {
+    expect(generateProductsData(data)).toEqual([
+      ['Product', 'Subgroup', 'Quantity Sold', 'Total Amount (EUR)'],
+      ['mug', 'Kitchen', 3, 26.5],
+      ['badge', '', 1, 3],
+    ]);
+  });
+
+  it('gives the same rows from precomputed line item totals', () => {
+    const fromTotals = generateProductsData({ ...data, transactions: [], productSales: aggregateProductSales(transactions) });
+    expect(fromTotals).toEqual(generateProductsData(data));
+  });
+});
@@ -0,0 +1,42 @@
+import { AuditActor, AuditChange } from '@/types/sales';
+import { User } from '@/types/auth';
+
+// AUDIT LOG - FIELD-LEVEL DIFFS OF EVENT CHANGES
+//
+// Values are stored the way they serialise to JSON (dates become ISO strings), so an entry
+// reads the same after it has been written and loaded back.
+
+const toAuditValue = (value: unknown): unknown =>
+  value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+/**
+ * Fields whose value differs between two versions of a record. Pass undefined as `after`
+ * for a deletion, which records every field's last value.
+ */
+export function diffFields(before: object | undefined, after: object | undefined): AuditChange[] {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+
+  const changes: AuditChange[] = [];
+  fields.forEach(field => {
+    const beforeValue = toAuditValue(beforeRecord[field]);
+    const afterValue = toAuditValue(afterRecord[field]);
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  });
+  return changes;
+}
+
+export const toAuditActor = (user: User | null): AuditActor => ({
+  userId: user?.id ?? null,
+  userName: user?.fullName || user?.username || 'Unknown user',
+});
+
+// Short display form of a recorded value, for the audit log screen
+export function formatAuditValue(value: unknown, maxLength: number = 60): string {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
@@ -0,0 +1,89 @@
+import { CashSession, CashVarianceLine, Currency, CurrencyAmounts, Transaction } from '@/types/sales';
+import { getPaymentLegs } from '@/lib/payments';
+
+// CASH DRAWER - EXPECTED VS COUNTED CASH FOR ONE SESSION
+
+export const DRAWER_CURRENCIES: Currency[] = ['USD', 'EUR', 'GBP'];
+
+export const emptyCurrencyAmounts = (): CurrencyAmounts => ({ USD: 0, EUR: 0, GBP: 0 });
+
+/**
+ * Cash taken per currency by the session's transactions. Split payments only count their
+ * cash legs; refunds paid back in cash subtract.
+ *
+ * Transactions without a cashSessionId (recorded before sales were linked to a session,
+ * or by a seller with no drawer open) fall back to the time the session was open, so
+ * drawers open at the same time still share those.
+ */
+export function getSessionCashSales(session: CashSession, transactions: Transaction[], until: Date = new Date()): CurrencyAmounts {
+  const sales = emptyCurrencyAmounts();
+  const openedAt = new Date(session.openedAt).getTime();
+  const closedAt = (session.closedAt ? new Date(session.closedAt) : until).getTime();
+
+  transactions
+    .filter(t => {
+      if (t.cashSessionId) return t.cashSessionId === session.id;
+      const time = new Date(t.timestamp).getTime();
+      return time >= openedAt && time <= closedAt;
+    })
+    .forEach(transaction => {
+      getPaymentLegs(transaction)
+        .filter(leg => leg.method === 'cash')
+        .forEach(leg => {
+          sales[leg.currency] += leg.amount;
+        });
+    });
+
+  return sales;
+}
+
+export function calculateCashVariance(
+  session: CashSession,
+  transactions: Transaction[],
+  counted: CurrencyAmounts,
+  until: Date = new Date()
+): CashVarianceLine[] {
+  const cashSales = getSessionCashSales(session, transactions, until);
+
+  return DRAWER_CURRENCIES.map(currency => {
+    const movements = session.movements.filter(m => m.currency === currency);
+    const cashIn = movements.filter(m => m.type === 'in').reduce((sum, m) => sum + m.amount, 0);
+    const cashOut = movements.filter(m => m.type === 'out').reduce((sum, m) => sum + m.amount, 0);
+    const openingFloat = session.openingFloat[currency] || 0;
+    const expected = openingFloat + cashSales[currency] + cashIn - cashOut;
+    const countedAmount = counted[currency] || 0;
+
+    return {
+      currency,
+      openingFloat,
+      cashSales: cashSales[currency],
+      cashIn,
+      cashOut,
+      expected,
+      counted: countedAmount,
+      variance: countedAmount - expected
+    };
+  });
+}
+
+// CHANGE CALCULATION - QUICK TENDER AMOUNTS FOR CASH SALES
+
+const TENDER_DENOMINATIONS = [5, 10, 20, 50, 100];
+
+/**
+ * Suggested amounts a customer is likely to hand over for `due`: the exact amount,
+ * then the next few round note values above it.
+ */
+export function getQuickTenderAmounts(due: number, count: number = 4): number[] {
+  const amounts = [Math.round(due * 100) / 100];
+  TENDER_DENOMINATIONS.forEach(note => {
+    const rounded = Math.ceil(due / note) * note;
+    if (rounded > amounts[amounts.length - 1] && amounts.length < count) {
+      amounts.push(rounded);
+    }
+  });
+  return amounts;
+}
+
+export const calculateChange = (due: number, tendered: number): number =>
+  Math.round((tendered - due) * 100) / 100;
@@ -0,0 +1,307 @@
+import * as XLSX from 'xlsx';
+import { Product, ProductType } from '@/types/sales';
+
+// PRODUCT CATALOGUE IMPORT - CSV/XLSX ROWS MAPPED ONTO PRODUCTS
+//
+// Both formats go through SheetJS, which reads CSV text as a one-sheet workbook. Only the
+// first sheet is imported and its first row is treated as the header.
+
+export type CatalogueField =
+  | 'name'
+  | 'price'
+  | 'color'
+  | 'type'
+  | 'subgroup'
+  | 'promoEligible'
+  | 'initialQuantity';
+
+export type CatalogueImportMode = 'merge' | 'replace';
+
+// Column index per field, or null when the field is not in the file
+export type ColumnMapping = Record<CatalogueField, number | null>;
+
+export interface CatalogueSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportedProduct {
+  name: string;
+  price: number;
+  color?: string;
+  typeName?: string;
+  subgroup?: string;
+  promoEligible?: boolean;
+  initialQuantity?: number;
+}
+
+export interface CatalogueRowPreview {
+  rowNumber: number; // 1-based spreadsheet row, header included
+  product: ImportedProduct | null; // null when the row has errors
+  errors: string[];
+}
+
+export interface CatalogueImportPreview {
+  rows: CatalogueRowPreview[];
+  validCount: number;
+  errorCount: number;
+  newTypeNames: string[]; // Types referenced by the file that do not exist yet
+}
+
+export const CATALOGUE_FIELDS: { field: CatalogueField; label: string; required: boolean }[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'price', label: 'Price', required: true },
+  { field: 'color', label: 'Color', required: false },
+  { field: 'type', label: 'Type', required: false },
+  { field: 'subgroup', label: 'Subgroup', required: false },
+  { field: 'promoEligible', label: 'Promo Eligible', required: false },
+  { field: 'initialQuantity', label: 'Initial Quantity', required: false },
+];
+
+// Header spellings recognised when guessing the mapping (compared without case, spaces or punctuation)
+const FIELD_ALIASES: Record<CatalogueField, string[]> = {
+  name: ['name', 'product', 'productname', 'item', 'itemname'],
+  price: ['price', 'unitprice', 'amount', 'cost'],
+  color: ['color', 'colour', 'buttoncolor', 'buttoncolour'],
+  type: ['type', 'typename', 'producttype', 'category'],
+  subgroup: ['subgroup', 'group', 'subcategory'],
+  promoEligible: ['promoeligible', 'promo', 'promotion', 'eligible'],
+  initialQuantity: ['initialquantity', 'quantity', 'qty', 'stock', 'openingstock'],
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const normalizeTypeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Reads the first sheet of a CSV or XLSX file into a header row and string cells.
+ * Blank rows are dropped.
+ */
+export function readCatalogueSheet(data: ArrayBuffer | Uint8Array | string): CatalogueSheet {
+  const workbook = typeof data === 'string'
+    ? XLSX.read(data, { type: 'string' })
+    : XLSX.read(data, { type: 'array' });
+
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    return { headers: [], rows: [] };
+  }
+
+  const cells = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: false,
+  });
+
+  const [headerRow = [], ...dataRows] = cells.map(row => row.map(cell => String(cell ?? '').trim()));
+  return {
+    headers: headerRow,
+    rows: dataRows.filter(row => row.some(cell => cell !== '')),
+  };
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  const used = new Set<number>();
+
+  CATALOGUE_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex((header, i) => !used.has(i) && FIELD_ALIASES[field].includes(header));
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+
+  return mapping;
+}
+
+// Accepts an optional currency symbol and a comma decimal separator ("€3,50")
+const parseNumber = (value: string) => {
+  const cleaned = value.replace(/^[^0-9.,-]+/, '').replace(',', '.');
+  return /^-?\d*\.?\d+$/.test(cleaned) ? Number(cleaned) : NaN;
+};
+
+const parseColor = (value: string): string | null => {
+  const hex = value.startsWith('#') ? value : `#${value}`;
+  return /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(hex) ? hex.toUpperCase() : null;
+};
+
+/**
+ * Maps and validates every data row. Rows with errors are kept in the preview so they
+ * can be shown, but only rows without errors are imported.
+ */
+export function buildCatalogueImportPreview(
+  sheet: CatalogueSheet,
+  mapping: ColumnMapping,
+  productTypes: ProductType[]
+): CatalogueImportPreview {
+  const existingTypes = new Set(productTypes.map(t => normalizeTypeName(t.name)));
+  const newTypeNames = new Map<string, string>();
+  const seenNames = new Set<string>();
+
+  const rows = sheet.rows.map((cells, index): CatalogueRowPreview => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const cell = (field: CatalogueField) => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] ?? '').trim();
+    };
+
+    if (mapping.name === null || mapping.price === null) {
+      return { rowNumber, product: null, errors: ['Name and price columns must be mapped'] };
+    }
+
+    const name = cell('name');
+    if (!name) {
+      errors.push('Name is empty');
+    } else if (seenNames.has(`${normalizeTypeName(cell('type'))}|${name.toLowerCase()}`)) {
+      errors.push(`Duplicate of an earlier row: ${name}`);
+    }
+
+    const priceText = cell('price');
+    const price = parseNumber(priceText);
+    if (!priceText || !Number.isFinite(price) || price < 0) {
+      errors.push(`Invalid price: "${priceText}"`);
+    }
+
+    const colorText = cell('color');
+    const color = colorText ? parseColor(colorText) : null;
+    if (colorText && !color) {
+      errors.push(`Invalid color: "${colorText}" (use a hex value such as #007AFF)`);
+    }
+
+    const promoText = cell('promoEligible').toLowerCase();
+    let promoEligible: boolean | undefined;
+    if (promoText) {
+      if (TRUE_VALUES.includes(promoText)) {
+        promoEligible = true;
+      } else if (FALSE_VALUES.includes(promoText)) {
+        promoEligible = false;
+      } else {
+        errors.push(`Invalid promo eligible value: "${promoText}"`);
+      }
+    }
+
+    const quantityText = cell('initialQuantity');
+    const initialQuantity = quantityText ? parseNumber(quantityText) : undefined;
+    if (initialQuantity !== undefined && (!Number.isInteger(initialQuantity) || initialQuantity < 0)) {
+      errors.push(`Invalid initial quantity: "${quantityText}"`);
+    }
+
+    if (errors.length > 0) {
+      return { rowNumber, product: null, errors };
+    }
+
+    const typeName = cell('type');
+    seenNames.add(`${normalizeTypeName(typeName)}|${name.toLowerCase()}`);
+    if (typeName && !existingTypes.has(normalizeTypeName(typeName))) {
+      newTypeNames.set(normalizeTypeName(typeName), typeName);
+    }
+
+    return {
+      rowNumber,
+      errors,
+      product: {
+        name,
+        price: Math.round(price * 100) / 100,
+        color: color ?? undefined,
+        typeName: typeName || undefined,
+        subgroup: cell('subgroup') || undefined,
+        promoEligible,
+        initialQuantity,
+      },
+    };
+  });
+
+  const validCount = rows.filter(row => row.product).length;
+  return {
+    rows,
+    validCount,
+    errorCount: rows.length - validCount,
+    newTypeNames: [...newTypeNames.values()],
+  };
+}
+
+/**
+ * Merges imported rows into the catalogue. Products are matched on name within the same
+ * type: in merge mode matches are updated in place and the rest appended; in replace mode
+ * the catalogue is rebuilt from the file, keeping the ids of matched products so their
+ * sales history still lines up.
+ */
+export function applyCatalogueImport(
+  existingProducts: Product[],
+  productTypes: ProductType[],
+  imported: ImportedProduct[],
+  mode: CatalogueImportMode,
+  createId: () => string
+): { products: Product[]; productTypes: ProductType[] } {
+  const types = [...productTypes];
+  const defaultTypeId = [...types].sort((a, b) => a.order - b.order)[0]?.id;
+
+  const resolveTypeId = (typeName?: string): string => {
+    if (!typeName) {
+      if (defaultTypeId) return defaultTypeId;
+      typeName = 'Products';
+    }
+    const existing = types.find(t => normalizeTypeName(t.name) === normalizeTypeName(typeName!));
+    if (existing) return existing.id;
+
+    const created: ProductType = {
+      id: createId(),
+      name: typeName.trim(),
+      color: '#E3F2FD',
+      order: Math.max(...types.map(t => t.order), -1) + 1,
+      enabled: true,
+    };
+    types.push(created);
+    return created.id;
+  };
+
+  const productKey = (name: string, typeId: string) => `${typeId}|${name.trim().toLowerCase()}`;
+  const existingByKey = new Map(existingProducts.map(p => [productKey(p.name, p.typeId), p]));
+
+  const sortedExisting = [...existingProducts].sort((a, b) => a.order - b.order);
+  const result: Product[] = mode === 'merge' ? sortedExisting.map(p => ({ ...p })) : [];
+  const resultIndexById = new Map(result.map((p, index) => [p.id, index]));
+
+  imported.forEach(item => {
+    const typeId = resolveTypeId(item.typeName);
+    const match = existingByKey.get(productKey(item.name, typeId));
+    const updates = {
+      name: item.name,
+      price: item.price,
+      typeId,
+      ...(item.color !== undefined && { color: item.color }),
+      ...(item.subgroup !== undefined && { subgroup: item.subgroup }),
+      ...(item.promoEligible !== undefined && { promoEligible: item.promoEligible }),
+      ...(item.initialQuantity !== undefined && { initialQuantity: item.initialQuantity }),
+    };
+
+    const existingIndex = match ? resultIndexById.get(match.id) : undefined;
+    if (existingIndex !== undefined) {
+      result[existingIndex] = { ...result[existingIndex], ...updates };
+      return;
+    }
+
+    const product: Product = {
+      id: match?.id ?? createId(),
+      color: '#007AFF',
+      enabled: true,
+      initialQuantity: 0,
+      promoEligible: true,
+      ...match,
+      ...updates,
+      order: 0,
+    };
+    resultIndexById.set(product.id, result.length);
+    result.push(product);
+  });
+
+  return {
+    products: result.map((product, index) => ({ ...product, order: index })),
+    productTypes: types,
+  };
+}
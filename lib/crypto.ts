@@ -0,0 +1,388 @@
+// CRYPTO PRIMITIVES - SHA-256, HMAC AND PBKDF2 WITH WEBCRYPTO WHERE AVAILABLE
+//
+// Hermes has no WebCrypto, so everything has a pure JS path. Password hashing and
+// encrypted backups are built on these.
+
+const textEncoder = new TextEncoder();
+
+export const toHex = (bytes: Uint8Array): string => {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+export const fromHex = (hex: string): Uint8Array => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+export const getRandomBytes = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  const cryptoApi = (globalThis as any).crypto;
+  // Math.random is predictable, so nonces from it could repeat a keystream across backups
+  if (!cryptoApi?.getRandomValues) {
+    throw new Error('No secure random number generator is available on this device');
+  }
+  cryptoApi.getRandomValues(bytes);
+  return bytes;
+};
+
+/**
+ * Constant-time comparison so a mismatch position cannot be inferred from timing.
+ */
+export const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// ---------------------------------------------------------------------------
+// Pure JS SHA-256 / PBKDF2 fallback for runtimes without WebCrypto (Hermes)
+// ---------------------------------------------------------------------------
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const SHA256_IV = new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+]);
+
+const schedule = new Uint32Array(64);
+
+/**
+ * Runs the SHA-256 compression function over one 64-byte block (as 16 big-endian words).
+ */
+const compressBlock = (state: Uint32Array, block: Uint32Array): void => {
+  for (let i = 0; i < 16; i++) schedule[i] = block[i];
+  for (let i = 16; i < 64; i++) {
+    const w15 = schedule[i - 15];
+    const w2 = schedule[i - 2];
+    const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+    const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+    schedule[i] = (schedule[i - 16] + s0 + schedule[i - 7] + s1) | 0;
+  }
+
+  let a = state[0], b = state[1], c = state[2], d = state[3];
+  let e = state[4], f = state[5], g = state[6], h = state[7];
+
+  for (let i = 0; i < 64; i++) {
+    const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+    const ch = (e & f) ^ (~e & g);
+    const t1 = (h + S1 + ch + SHA256_K[i] + schedule[i]) | 0;
+    const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+    const maj = (a & b) ^ (a & c) ^ (b & c);
+    const t2 = (S0 + maj) | 0;
+    h = g; g = f; f = e; e = (d + t1) | 0;
+    d = c; c = b; b = a; a = (t1 + t2) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0; state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0; state[3] = (state[3] + d) | 0;
+  state[4] = (state[4] + e) | 0; state[5] = (state[5] + f) | 0;
+  state[6] = (state[6] + g) | 0; state[7] = (state[7] + h) | 0;
+};
+
+/**
+ * SHA-256 of `data`, continuing from `initialState` when `prefixLength` bytes (a whole
+ * number of blocks) have already been absorbed. Returns the final state words.
+ */
+const sha256 = (data: Uint8Array, initialState: Uint32Array = SHA256_IV, prefixLength: number = 0): Uint32Array => {
+  const state = new Uint32Array(initialState);
+  const totalLength = prefixLength + data.length;
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const bitLength = totalLength * 8;
+  padded[paddedLength - 4] = (bitLength >>> 24) & 0xff;
+  padded[paddedLength - 3] = (bitLength >>> 16) & 0xff;
+  padded[paddedLength - 2] = (bitLength >>> 8) & 0xff;
+  padded[paddedLength - 1] = bitLength & 0xff;
+  padded[paddedLength - 5] = Math.floor(totalLength / 0x20000000) & 0xff;
+
+  const block = new Uint32Array(16);
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const p = offset + i * 4;
+      block[i] = (padded[p] << 24) | (padded[p + 1] << 16) | (padded[p + 2] << 8) | padded[p + 3];
+    }
+    compressBlock(state, block);
+  }
+  return state;
+};
+
+const stateToBytes = (state: Uint32Array): Uint8Array => {
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < 8; i++) {
+    bytes[i * 4] = state[i] >>> 24;
+    bytes[i * 4 + 1] = (state[i] >>> 16) & 0xff;
+    bytes[i * 4 + 2] = (state[i] >>> 8) & 0xff;
+    bytes[i * 4 + 3] = state[i] & 0xff;
+  }
+  return bytes;
+};
+
+/**
+ * HMAC-SHA256 keyed once: the states after absorbing the inner and outer pads are
+ * precomputed, so each MAC of a short message costs two compressions.
+ */
+const createHmacSha256 = (keyBytes: Uint8Array) => {
+  // Keys longer than a block are hashed first
+  const key = keyBytes.length > 64 ? stateToBytes(sha256(keyBytes)) : keyBytes;
+  const innerPad = new Uint8Array(64);
+  const outerPad = new Uint8Array(64);
+  innerPad.set(key);
+  outerPad.set(key);
+  for (let i = 0; i < 64; i++) {
+    innerPad[i] ^= 0x36;
+    outerPad[i] ^= 0x5c;
+  }
+
+  const padWords = (pad: Uint8Array) => {
+    const words = new Uint32Array(16);
+    for (let i = 0; i < 16; i++) {
+      words[i] = (pad[i * 4] << 24) | (pad[i * 4 + 1] << 16) | (pad[i * 4 + 2] << 8) | pad[i * 4 + 3];
+    }
+    return words;
+  };
+  const innerState = new Uint32Array(SHA256_IV);
+  compressBlock(innerState, padWords(innerPad));
+  const outerState = new Uint32Array(SHA256_IV);
+  compressBlock(outerState, padWords(outerPad));
+
+  const hmac = (message: Uint8Array): Uint32Array => {
+    const inner = stateToBytes(sha256(message, innerState, 64));
+    return sha256(inner, outerState, 64);
+  };
+
+  return { innerState, outerState, hmac };
+};
+
+const pbkdf2Sha256Js = (password: Uint8Array, salt: Uint8Array, iterations: number, keyLength: number): Uint8Array => {
+  const { innerState, outerState, hmac } = createHmacSha256(password);
+
+  // Fast path for the 32-byte iterations: a fixed single-block message after the pad
+  const digestBlock = new Uint32Array(16);
+  digestBlock[8] = 0x80000000;
+  digestBlock[15] = (64 + 32) * 8;
+  const hmacDigest = (digest: Uint32Array): Uint32Array => {
+    const inner = new Uint32Array(innerState);
+    for (let i = 0; i < 8; i++) digestBlock[i] = digest[i];
+    compressBlock(inner, digestBlock);
+    const outer = new Uint32Array(outerState);
+    for (let i = 0; i < 8; i++) digestBlock[i] = inner[i];
+    compressBlock(outer, digestBlock);
+    return outer;
+  };
+
+  const blocks = Math.ceil(keyLength / 32);
+  const output = new Uint8Array(blocks * 32);
+  for (let blockIndex = 1; blockIndex <= blocks; blockIndex++) {
+    const firstMessage = new Uint8Array(salt.length + 4);
+    firstMessage.set(salt);
+    firstMessage[salt.length] = (blockIndex >>> 24) & 0xff;
+    firstMessage[salt.length + 1] = (blockIndex >>> 16) & 0xff;
+    firstMessage[salt.length + 2] = (blockIndex >>> 8) & 0xff;
+    firstMessage[salt.length + 3] = blockIndex & 0xff;
+
+    let u = hmac(firstMessage);
+    const t = new Uint32Array(u);
+    for (let i = 1; i < iterations; i++) {
+      u = hmacDigest(u);
+      for (let j = 0; j < 8; j++) t[j] ^= u[j];
+    }
+    output.set(stateToBytes(t), (blockIndex - 1) * 32);
+  }
+  return output.slice(0, keyLength);
+};
+
+export const pbkdf2Sha256 = async (password: string, salt: Uint8Array, iterations: number, keyLength: number): Promise<Uint8Array> => {
+  const passwordBytes = textEncoder.encode(password);
+  const subtle = (globalThis as any).crypto?.subtle;
+
+  if (subtle) {
+    try {
+      const baseKey = await subtle.importKey('raw', passwordBytes, 'PBKDF2', false, ['deriveBits']);
+      const bits = await subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        baseKey,
+        keyLength * 8
+      );
+      return new Uint8Array(bits);
+    } catch (error) {
+      console.warn('⚠️ WebCrypto PBKDF2 unavailable, using JS fallback:', error);
+    }
+  }
+
+  return pbkdf2Sha256Js(passwordBytes, salt, iterations, keyLength);
+};
+
+/**
+ * Hex SHA-256 digest of a UTF-8 string, for integrity checks on exported files.
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const bytes = textEncoder.encode(text);
+  const subtle = (globalThis as any).crypto?.subtle;
+
+  if (subtle) {
+    try {
+      return toHex(new Uint8Array(await subtle.digest('SHA-256', bytes)));
+    } catch (error) {
+      console.warn('⚠️ WebCrypto SHA-256 unavailable, using JS fallback:', error);
+    }
+  }
+
+  return toHex(stateToBytes(sha256(bytes)));
+}
+
+// ---------------------------------------------------------------------------
+// Password-based encryption
+// ---------------------------------------------------------------------------
+//
+// PBKDF2 stretches the password into an encryption key and a MAC key. The plaintext is
+// XORed with an HMAC-SHA256 keystream (HMAC(encKey, nonce || counter)) and the whole
+// envelope is authenticated with HMAC-SHA256 (encrypt-then-MAC), so a wrong password or
+// any tampering fails the MAC check before anything is decrypted.
+
+export const ENCRYPTION_ALGORITHM = 'pbkdf2-sha256/hmac-sha256-ctr/hmac-sha256';
+const ENCRYPTION_ITERATIONS = 100000;
+const ENCRYPTION_SALT_BYTES = 16;
+const ENCRYPTION_NONCE_BYTES = 16;
+
+export interface EncryptedPayload {
+  algorithm: typeof ENCRYPTION_ALGORITHM;
+  iterations: number;
+  salt: string; // hex
+  nonce: string; // hex
+  ciphertext: string; // base64
+  mac: string; // hex
+}
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Hermes ships TextEncoder but not always TextDecoder
+const decodeUtf8 = (bytes: Uint8Array): string => {
+  if (typeof TextDecoder !== 'undefined') {
+    return new TextDecoder().decode(bytes);
+  }
+  let result = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    let codePoint: number;
+    if (byte < 0x80) {
+      codePoint = byte;
+    } else if (byte < 0xe0) {
+      codePoint = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte < 0xf0) {
+      codePoint = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      codePoint = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    }
+    result += String.fromCodePoint(codePoint);
+  }
+  return result;
+};
+
+const applyKeystream = (data: Uint8Array, encKey: Uint8Array, nonce: Uint8Array): Uint8Array => {
+  const { hmac } = createHmacSha256(encKey);
+  const counterBlock = new Uint8Array(nonce.length + 4);
+  counterBlock.set(nonce);
+  const output = new Uint8Array(data.length);
+
+  for (let offset = 0, counter = 0; offset < data.length; offset += 32, counter++) {
+    counterBlock[nonce.length] = (counter >>> 24) & 0xff;
+    counterBlock[nonce.length + 1] = (counter >>> 16) & 0xff;
+    counterBlock[nonce.length + 2] = (counter >>> 8) & 0xff;
+    counterBlock[nonce.length + 3] = counter & 0xff;
+    const keystream = stateToBytes(hmac(counterBlock));
+    const end = Math.min(offset + 32, data.length);
+    for (let i = offset; i < end; i++) {
+      output[i] = data[i] ^ keystream[i - offset];
+    }
+  }
+  return output;
+};
+
+// The MAC covers every envelope field, so parameters cannot be swapped either
+const computeMac = (macKey: Uint8Array, payload: Omit<EncryptedPayload, 'mac'>): string => {
+  const { hmac } = createHmacSha256(macKey);
+  const header = textEncoder.encode(`${payload.algorithm}|${payload.iterations}|${payload.salt}|${payload.nonce}|`);
+  const ciphertext = fromBase64(payload.ciphertext);
+  const message = new Uint8Array(header.length + ciphertext.length);
+  message.set(header);
+  message.set(ciphertext, header.length);
+  return toHex(stateToBytes(hmac(message)));
+};
+
+export async function encryptWithPassword(plaintext: string, password: string): Promise<EncryptedPayload> {
+  const salt = getRandomBytes(ENCRYPTION_SALT_BYTES);
+  const nonce = getRandomBytes(ENCRYPTION_NONCE_BYTES);
+  const keys = await pbkdf2Sha256(password, salt, ENCRYPTION_ITERATIONS, 64);
+
+  const unsigned = {
+    algorithm: ENCRYPTION_ALGORITHM,
+    iterations: ENCRYPTION_ITERATIONS,
+    salt: toHex(salt),
+    nonce: toHex(nonce),
+    ciphertext: toBase64(applyKeystream(textEncoder.encode(plaintext), keys.subarray(0, 32), nonce)),
+  } as const;
+  return { ...unsigned, mac: computeMac(keys.subarray(32), unsigned) };
+}
+
+/**
+ * Throws DecryptionError when the password is wrong or the payload was altered.
+ */
+export async function decryptWithPassword(payload: EncryptedPayload, password: string): Promise<string> {
+  if (payload.algorithm !== ENCRYPTION_ALGORITHM) {
+    throw new DecryptionError(`Unsupported encryption algorithm: ${payload.algorithm}`);
+  }
+
+  const keys = await pbkdf2Sha256(password, fromHex(payload.salt), payload.iterations, 64);
+  const { mac, ...unsigned } = payload;
+  if (!safeEqual(computeMac(keys.subarray(32), unsigned), mac)) {
+    throw new DecryptionError('Wrong password or the backup file is damaged');
+  }
+
+  const plaintext = applyKeystream(fromBase64(payload.ciphertext), keys.subarray(0, 32), fromHex(payload.nonce));
+  return decodeUtf8(plaintext);
+}
@@ -0,0 +1,329 @@
+import * as z from 'zod';
+import { AppSettings, Product, ProductType, Promo, Transaction } from '@/types/sales';
+import { DEFAULT_SETTINGS } from '@/constants/products';
+import { productSchema, productTypeSchema, promoSchema, transactionSchema } from '@/backend/sync/schemas';
+import { sha256Hex } from '@/lib/crypto';
+
+// EVENT BUNDLE - THE VERSIONED FILE FORMAT FOR EVENT EXPORT/IMPORT
+//
+// Version history:
+//   0 - unversioned files: settings/products/transactions, promos inside settings, no types
+//   1 - { version: '1.0', exportDate, settings, products, productTypes, promos, transactions }
+//   2 - { format, version: 2, exportedAt, ..., checksum? } with every record fully populated
+//
+// Older files are migrated step by step up to the current version before validation. The
+// optional checksum is a SHA-256 over the canonical JSON of the file without the checksum.
+
+export const EVENT_BUNDLE_FORMAT = 'sales-event-bundle';
+export const EVENT_BUNDLE_VERSION = 2;
+
+const settingsSchema = z.looseObject({
+  eventName: z.string(),
+  userName: z.string().default(''),
+  currency: z.enum(['USD', 'EUR', 'GBP']),
+  currencyRoundUp: z.boolean().default(false),
+  isSetupComplete: z.boolean().default(true),
+  appPromoPricing: z.object({
+    maxAppsForPromo: z.number(),
+    prices: z.record(z.string(), z.number()),
+  }).default(DEFAULT_SETTINGS.appPromoPricing),
+});
+
+export const eventBundleSchema = z.object({
+  format: z.literal(EVENT_BUNDLE_FORMAT),
+  version: z.literal(EVENT_BUNDLE_VERSION),
+  exportedAt: z.iso.datetime(),
+  settings: settingsSchema,
+  products: z.array(productSchema),
+  productTypes: z.array(productTypeSchema),
+  promos: z.array(promoSchema),
+  transactions: z.array(transactionSchema),
+  checksum: z.object({
+    algorithm: z.literal('sha256'),
+    value: z.string().regex(/^[0-9a-f]{64}$/),
+  }).optional(),
+});
+
+export interface EventBundleContent {
+  settings: AppSettings;
+  products: Product[];
+  productTypes: ProductType[];
+  promos: Promo[];
+  transactions: Transaction[];
+}
+
+export interface EventBundle extends EventBundleContent {
+  exportedAt: Date;
+}
+
+export type ChecksumStatus = 'valid' | 'missing' | 'invalid';
+
+export interface RemappedId {
+  kind: 'productType' | 'product' | 'promo' | 'transaction';
+  from: string;
+  to: string;
+}
+
+export interface EventBundleReport {
+  sourceVersion: number;
+  migrations: string[];
+  checksum: ChecksumStatus;
+  errors: string[]; // Any error means the file cannot be imported
+  warnings: string[];
+  remappedIds: RemappedId[];
+}
+
+export interface ParsedEventBundle {
+  bundle: EventBundle | null;
+  report: EventBundleReport;
+}
+
+const MAX_REPORTED_ISSUES = 20;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+/**
+ * JSON with object keys sorted at every level, so the checksum does not depend on
+ * property order.
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (isRecord(value)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const computeChecksum = (file: Record<string, any>): Promise<string> => {
+  const { checksum: _checksum, ...content } = file;
+  return sha256Hex(canonicalJson(content));
+};
+
+/**
+ * Builds the JSON-ready export file for an event.
+ */
+export async function createEventBundle(
+  content: EventBundleContent,
+  options: { includeChecksum: boolean }
+): Promise<z.input<typeof eventBundleSchema>> {
+  // Round-trip through JSON so the checksum covers exactly what gets written
+  const file = JSON.parse(JSON.stringify({
+    format: EVENT_BUNDLE_FORMAT,
+    version: EVENT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: { ...content.settings, promos: undefined },
+    products: content.products,
+    productTypes: content.productTypes,
+    promos: content.promos,
+    transactions: content.transactions,
+  }));
+
+  if (options.includeChecksum) {
+    file.checksum = { algorithm: 'sha256', value: await computeChecksum(file) };
+  }
+  return file;
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+const detectVersion = (raw: Record<string, any>): number => {
+  if (raw.format === EVENT_BUNDLE_FORMAT && typeof raw.version === 'number') {
+    return raw.version;
+  }
+  if (raw.version === '1.0' || raw.version === '1' || raw.version === 1) {
+    return 1;
+  }
+  return 0;
+};
+
+interface Migration {
+  description: string;
+  migrate: (bundle: Record<string, any>) => Record<string, any>;
+}
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  0: {
+    description: 'Moved promos out of settings and added product types',
+    migrate: bundle => ({
+      ...bundle,
+      version: '1.0',
+      exportDate: bundle.exportDate ?? new Date(0).toISOString(),
+      promos: bundle.promos ?? bundle.settings?.promos ?? [],
+      productTypes: bundle.productTypes ?? [],
+    }),
+  },
+  1: {
+    description: 'Filled defaults for fields added since version 1.0',
+    migrate: bundle => {
+      const settings = isRecord(bundle.settings) ? bundle.settings : {};
+      const productTypes = asArray(bundle.productTypes);
+      const fallbackTypeId = productTypes[0]?.id ?? 'type_1';
+
+      const withProductDefaults = (product: any, index: number) => isRecord(product) ? {
+        color: '#007AFF',
+        enabled: true,
+        initialQuantity: 0,
+        promoEligible: true,
+        order: index,
+        typeId: fallbackTypeId,
+        ...product,
+      } : product;
+
+      // Products pointing at types the file does not contain get a placeholder type
+      const products = asArray(bundle.products).map(withProductDefaults);
+      const knownTypeIds = new Set(productTypes.map(t => t?.id));
+      const missingTypeIds = [...new Set(products.map(p => p?.typeId).filter(id => typeof id === 'string' && !knownTypeIds.has(id)))];
+      const placeholderTypes = missingTypeIds.map((id, index) => ({
+        id,
+        name: missingTypeIds.length === 1 ? 'Products' : `Type ${productTypes.length + index + 1}`,
+        color: '#E3F2FD',
+        order: productTypes.length + index,
+        enabled: true,
+      }));
+
+      const { version: _version, exportDate, ...rest } = bundle;
+      return {
+        ...rest,
+        format: EVENT_BUNDLE_FORMAT,
+        version: 2,
+        exportedAt: typeof exportDate === 'string' ? exportDate : new Date(0).toISOString(),
+        settings: { ...settings, promos: undefined },
+        products,
+        productTypes: [...productTypes, ...placeholderTypes],
+        promos: asArray(bundle.promos).map((promo, index) => isRecord(promo) ? { mode: 'type_list', order: index, ...promo } : promo),
+        transactions: asArray(bundle.transactions).map(t => isRecord(t) ? {
+          discount: 0,
+          subtotal: t.total,
+          currency: settings.currency ?? DEFAULT_SETTINGS.currency,
+          paymentMethod: 'cash',
+          appliedPromotions: [],
+          ...t,
+          items: asArray(t.items).map(item => isRecord(item) ? { ...item, product: withProductDefaults(item.product, 0) } : item),
+        } : t),
+      };
+    },
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Id remapping
+// ---------------------------------------------------------------------------
+
+/**
+ * Gives every record with an id already used earlier in the file a fresh id. References
+ * keep pointing at the first record with that id.
+ */
+const remapDuplicateIds = <T extends { id: string }>(records: T[], kind: RemappedId['kind'], remapped: RemappedId[]): T[] => {
+  const used = new Set<string>();
+  return records.map(record => {
+    if (!used.has(record.id)) {
+      used.add(record.id);
+      return record;
+    }
+    let suffix = 2;
+    while (used.has(`${record.id}_${suffix}`)) suffix++;
+    const id = `${record.id}_${suffix}`;
+    used.add(id);
+    remapped.push({ kind, from: record.id, to: id });
+    return { ...record, id };
+  });
+};
+
+const formatIssues = (error: z.ZodError): string[] => {
+  const issues = error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+  return issues.length > MAX_REPORTED_ISSUES
+    ? [...issues.slice(0, MAX_REPORTED_ISSUES), `…and ${issues.length - MAX_REPORTED_ISSUES} more problems`]
+    : issues;
+};
+
+/**
+ * Verifies, migrates and validates an event export file. The report lists everything
+ * that was changed or found; `bundle` is null whenever the report has errors.
+ */
+export async function parseEventBundle(raw: unknown): Promise<ParsedEventBundle> {
+  const report: EventBundleReport = {
+    sourceVersion: 0,
+    migrations: [],
+    checksum: 'missing',
+    errors: [],
+    warnings: [],
+    remappedIds: [],
+  };
+
+  if (!isRecord(raw)) {
+    report.errors.push('The file is not an event export');
+    return { bundle: null, report };
+  }
+
+  const sourceVersion = detectVersion(raw);
+  report.sourceVersion = sourceVersion;
+  if (sourceVersion > EVENT_BUNDLE_VERSION) {
+    report.errors.push(`The file was exported by a newer app (format version ${sourceVersion}). Update the app to import it.`);
+    return { bundle: null, report };
+  }
+
+  if (raw.checksum !== undefined) {
+    const expected = isRecord(raw.checksum) ? raw.checksum.value : undefined;
+    report.checksum = expected === await computeChecksum(raw) ? 'valid' : 'invalid';
+    if (report.checksum === 'invalid') {
+      report.errors.push('Checksum mismatch: the file was modified after it was exported');
+      return { bundle: null, report };
+    }
+  } else {
+    report.warnings.push('The file has no checksum, so changes made after export cannot be detected');
+  }
+
+  let migrated: Record<string, any> = raw;
+  for (let version = sourceVersion; version < EVENT_BUNDLE_VERSION; version++) {
+    migrated = MIGRATIONS[version].migrate(migrated);
+    report.migrations.push(`v${version} → v${version + 1}: ${MIGRATIONS[version].description}`);
+  }
+
+  const result = eventBundleSchema.safeParse(migrated);
+  if (!result.success) {
+    report.errors.push(...formatIssues(result.error));
+    return { bundle: null, report };
+  }
+
+  const file = result.data;
+  const productTypes = remapDuplicateIds(file.productTypes, 'productType', report.remappedIds);
+  const products = remapDuplicateIds(file.products, 'product', report.remappedIds);
+  const promos = remapDuplicateIds(file.promos, 'promo', report.remappedIds);
+  const transactions = remapDuplicateIds(file.transactions, 'transaction', report.remappedIds);
+
+  const typeIds = new Set(productTypes.map(t => t.id));
+  const transactionIds = new Set(transactions.map(t => t.id));
+  products
+    .filter(p => !typeIds.has(p.typeId))
+    .forEach(p => report.warnings.push(`Product "${p.name}" refers to a missing type (${p.typeId})`));
+  promos
+    .filter(p => p.typeId && !typeIds.has(p.typeId))
+    .forEach(p => report.warnings.push(`Promo "${p.name}" refers to a missing type (${p.typeId})`));
+  transactions
+    .filter(t => t.refundOf && !transactionIds.has(t.refundOf))
+    .forEach(t => report.warnings.push(`Refund ${t.id} refers to a sale that is not in the file (${t.refundOf})`));
+
+  return {
+    report,
+    bundle: {
+      exportedAt: new Date(file.exportedAt),
+      settings: { ...file.settings, promos } as AppSettings,
+      products: products as Product[],
+      productTypes: productTypes as ProductType[],
+      promos: promos as unknown as Promo[],
+      transactions: transactions as unknown as Transaction[],
+    },
+  };
+}
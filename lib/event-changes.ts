@@ -0,0 +1,96 @@
+import { AppSettings, EventChangeSet, Product, ProductType, Transaction } from '@/types/sales';
+
+// DIRTY TRACKING - WHICH EVENT ROWS CHANGED SINCE THE LAST WRITE
+//
+// Store updates replace a changed row with a new object and keep the others as they are,
+// so a row is dirty exactly when it is not the object that was last written.
+
+export interface EventRows {
+  products: Product[];
+  productTypes: ProductType[];
+  transactions: Transaction[];
+  settings: AppSettings; // Promos included
+}
+
+export interface PersistedEventState {
+  products: Map<string, Product>;
+  productTypes: Map<string, ProductType>;
+  transactions: Map<string, Transaction>;
+  settingsJson: string;
+}
+
+export function createPersistedEventState(rows: EventRows): PersistedEventState {
+  return {
+    products: new Map(rows.products.map(p => [p.id, p])),
+    productTypes: new Map(rows.productTypes.map(t => [t.id, t])),
+    transactions: new Map(rows.transactions.map(t => [t.id, t])),
+    settingsJson: JSON.stringify(rows.settings),
+  };
+}
+
+// The rows as last written, in the order they were loaded
+export const persistedEventRows = (persisted: PersistedEventState): EventRows => ({
+  products: [...persisted.products.values()],
+  productTypes: [...persisted.productTypes.values()],
+  transactions: [...persisted.transactions.values()],
+  settings: JSON.parse(persisted.settingsJson),
+});
+
+const diffRows = <T extends { id: string }>(persisted: Map<string, T>, rows: T[]) => {
+  const currentIds = new Set(rows.map(row => row.id));
+  return {
+    upserts: rows.filter(row => persisted.get(row.id) !== row),
+    deleteIds: [...persisted.keys()].filter(id => !currentIds.has(id)),
+  };
+};
+
+export function diffEventRows(persisted: PersistedEventState, rows: EventRows): EventChangeSet {
+  const products = diffRows(persisted.products, rows.products);
+  const productTypes = diffRows(persisted.productTypes, rows.productTypes);
+  const transactions = diffRows(persisted.transactions, rows.transactions);
+  const settingsChanged = JSON.stringify(rows.settings) !== persisted.settingsJson;
+
+  return {
+    upsertProducts: products.upserts,
+    deleteProductIds: products.deleteIds,
+    upsertProductTypes: productTypes.upserts,
+    deleteProductTypeIds: productTypes.deleteIds,
+    upsertTransactions: transactions.upserts,
+    deleteTransactionIds: transactions.deleteIds,
+    settings: settingsChanged ? rows.settings : undefined,
+  };
+}
+
+/**
+ * Applies upserts and deletes to a list of rows by id, keeping the order of the rows that stay.
+ * Transactions are listed newest first, so new ones are prepended.
+ */
+export const applyRowChanges = <T extends { id: string }>(
+  rows: T[] | undefined,
+  upserts: T[] = [],
+  deleteIds: string[] = [],
+  insertAt: 'append' | 'prepend'
+): T[] => {
+  const deleted = new Set(deleteIds);
+  const result = (rows || []).filter(row => !deleted.has(row.id));
+  const indexById = new Map(result.map((row, index) => [row.id, index]));
+  const inserted: T[] = [];
+  upserts.forEach(row => {
+    const index = indexById.get(row.id);
+    if (index !== undefined) {
+      result[index] = row;
+    } else {
+      inserted.push(row);
+    }
+  });
+  return insertAt === 'prepend' ? [...inserted, ...result] : [...result, ...inserted];
+};
+
+export const countChanges = (changes: EventChangeSet): number =>
+  (changes.upsertProducts?.length || 0) +
+  (changes.deleteProductIds?.length || 0) +
+  (changes.upsertProductTypes?.length || 0) +
+  (changes.deleteProductTypeIds?.length || 0) +
+  (changes.upsertTransactions?.length || 0) +
+  (changes.deleteTransactionIds?.length || 0) +
+  (changes.settings ? 1 : 0);
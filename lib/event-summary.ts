@@ -0,0 +1,268 @@
+import { Currency, ExchangeRates, Product, ProductType, Transaction } from '@/types/sales';
+import { getPaymentLegs, getPaymentShares, toLegCurrency } from '@/lib/payments';
+
+// EVENT SUMMARIES - THE BREAKDOWNS SHOWN ON THE TOTALS SCREEN AND IN EVENT REPORTS
+
+export interface MethodBreakdown {
+  [currency: string]: {
+    [method: string]: {
+      quantity: number;
+      total: number;
+    };
+  };
+}
+
+export interface ProductSummary {
+  product: Product;
+  byCurrencyAndMethod: MethodBreakdown;
+  totalQuantity: number;
+}
+
+export interface CurrencySummary {
+  [currency: string]: {
+    [method: string]: {
+      total: number;
+      transactionCount: number;
+    };
+  };
+}
+
+export interface SummaryItem {
+  productName: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface TypeSubtotal {
+  typeId: string;
+  name: string;
+  color: string;
+  total: number;
+  order: number;
+}
+
+export interface TypeGroupSummary {
+  type: string;
+  total: number;
+  byCurrencyAndMethod: MethodBreakdown;
+  items: SummaryItem[];
+}
+
+export interface SubgroupSummary {
+  subgroupName: string;
+  type: string;
+  total: number;
+  items: SummaryItem[];
+}
+
+// Factor converting a transaction's amounts into the main currency
+const toMainCurrencyRate = (transaction: Transaction, mainCurrency: Currency, exchangeRates: ExchangeRates) =>
+  exchangeRates[mainCurrency] / exchangeRates[transaction.currency];
+
+const addToItems = (items: SummaryItem[], productName: string, quantity: number, amount: number) => {
+  const existingItem = items.find(i => i.productName === productName);
+  if (existingItem) {
+    existingItem.quantity += quantity;
+    existingItem.amount += amount;
+  } else {
+    items.push({ productName, quantity, amount });
+  }
+};
+
+const addToBreakdown = (breakdown: MethodBreakdown, currency: string, method: string, quantity: number, total: number) => {
+  if (!breakdown[currency]) {
+    breakdown[currency] = {};
+  }
+  if (!breakdown[currency][method]) {
+    breakdown[currency][method] = { quantity: 0, total: 0 };
+  }
+  breakdown[currency][method].quantity += quantity;
+  breakdown[currency][method].total += total;
+};
+
+export function calculateMainCurrencyTotal(transactions: Transaction[], mainCurrency: Currency, exchangeRates: ExchangeRates): number {
+  return transactions.reduce(
+    (sum, transaction) => sum + transaction.total * toMainCurrencyRate(transaction, mainCurrency, exchangeRates),
+    0
+  );
+}
+
+export function calculateCurrencySummaries(transactions: Transaction[]): CurrencySummary {
+  const summary: CurrencySummary = {};
+
+  transactions.forEach(transaction => {
+    // Split payments count towards every currency and method they were tendered in
+    getPaymentLegs(transaction).forEach(leg => {
+      if (!summary[leg.currency]) {
+        summary[leg.currency] = {};
+      }
+      if (!summary[leg.currency][leg.method]) {
+        summary[leg.currency][leg.method] = { total: 0, transactionCount: 0 };
+      }
+
+      summary[leg.currency][leg.method].total += leg.amount;
+      summary[leg.currency][leg.method].transactionCount += 1;
+    });
+  });
+
+  return summary;
+}
+
+/**
+ * Per-product quantities and amounts by payment currency and method, for products that sold.
+ */
+export function calculateProductSummaries(transactions: Transaction[], products: Product[]): ProductSummary[] {
+  const summaryMap = new Map<string, ProductSummary>();
+
+  products.forEach(product => {
+    summaryMap.set(product.id, { product, byCurrencyAndMethod: {}, totalQuantity: 0 });
+  });
+
+  transactions.forEach(transaction => {
+    const paymentShares = getPaymentShares(transaction);
+
+    transaction.items.forEach(item => {
+      const summary = summaryMap.get(item.product.id);
+      if (!summary) return;
+
+      // Each payment leg is credited with its share of every line, at the effective
+      // price stored on the transaction (which includes proportional discounts)
+      paymentShares.forEach(leg => {
+        addToBreakdown(
+          summary.byCurrencyAndMethod,
+          leg.currency,
+          leg.method,
+          item.quantity * leg.share,
+          toLegCurrency(leg, item.product.price * item.quantity * leg.share)
+        );
+      });
+      summary.totalQuantity += item.quantity;
+    });
+  });
+
+  return Array.from(summaryMap.values()).filter(s => s.totalQuantity > 0);
+}
+
+/**
+ * Sales per product type in the main currency, including types with no sales, in type order.
+ */
+export function calculateTypeSubtotals(
+  transactions: Transaction[],
+  productTypes: ProductType[],
+  mainCurrency: Currency,
+  exchangeRates: ExchangeRates
+): TypeSubtotal[] {
+  const typeMap = new Map<string, TypeSubtotal>();
+
+  productTypes.forEach(type => {
+    typeMap.set(type.id, { typeId: type.id, name: type.name, color: type.color, total: 0, order: type.order });
+  });
+
+  transactions.forEach(transaction => {
+    const conversionRate = toMainCurrencyRate(transaction, mainCurrency, exchangeRates);
+
+    transaction.items.forEach(item => {
+      const typeData = typeMap.get(item.product.typeId);
+      if (typeData) {
+        typeData.total += item.product.price * item.quantity * conversionRate;
+      } else {
+        console.log(`⚠️ Type not found for typeId: ${item.product.typeId}`);
+      }
+    });
+  });
+
+  return Array.from(typeMap.values()).sort((a, b) => a.order - b.order);
+}
+
+export function calculateTypeGroupSummaries(
+  transactions: Transaction[],
+  productTypes: ProductType[],
+  mainCurrency: Currency,
+  exchangeRates: ExchangeRates
+): TypeGroupSummary[] {
+  const typeMap = new Map<string, TypeGroupSummary>();
+
+  transactions.forEach(transaction => {
+    const conversionRate = toMainCurrencyRate(transaction, mainCurrency, exchangeRates);
+    const paymentShares = getPaymentShares(transaction);
+
+    transaction.items.forEach(item => {
+      const type = productTypes.find(t => t.id === item.product.typeId)?.name || 'Unknown';
+
+      if (!typeMap.has(type)) {
+        typeMap.set(type, { type, total: 0, byCurrencyAndMethod: {}, items: [] });
+      }
+
+      const group = typeMap.get(type)!;
+      const convertedAmount = item.product.price * item.quantity * conversionRate;
+      group.total += convertedAmount;
+
+      paymentShares.forEach(leg => {
+        addToBreakdown(
+          group.byCurrencyAndMethod,
+          leg.currency,
+          leg.method,
+          item.quantity * leg.share,
+          toLegCurrency(leg, item.product.price * item.quantity * leg.share)
+        );
+      });
+
+      addToItems(group.items, item.product.name, item.quantity, convertedAmount);
+    });
+  });
+
+  // Sort by the order defined in productTypes
+  return Array.from(typeMap.values()).sort((a, b) => {
+    const typeA = productTypes.find(t => t.name === a.type);
+    const typeB = productTypes.find(t => t.name === b.type);
+    return (typeA?.order || 999) - (typeB?.order || 999);
+  });
+}
+
+export function calculateSubgroupSummaries(
+  transactions: Transaction[],
+  productTypes: ProductType[],
+  mainCurrency: Currency,
+  exchangeRates: ExchangeRates
+): SubgroupSummary[] {
+  const subgroupMap = new Map<string, SubgroupSummary>();
+
+  transactions.forEach(transaction => {
+    const conversionRate = toMainCurrencyRate(transaction, mainCurrency, exchangeRates);
+
+    transaction.items.forEach(item => {
+      const subgroupName = item.product.subgroup;
+      if (!subgroupName || subgroupName.trim() === '') return;
+
+      if (!subgroupMap.has(subgroupName)) {
+        subgroupMap.set(subgroupName, {
+          subgroupName,
+          total: 0,
+          items: [],
+          type: productTypes.find(t => t.id === item.product.typeId)?.name || 'Unknown'
+        });
+      }
+
+      const subgroup = subgroupMap.get(subgroupName)!;
+      const convertedAmount = item.product.price * item.quantity * conversionRate;
+      subgroup.total += convertedAmount;
+      addToItems(subgroup.items, item.product.name, item.quantity, convertedAmount);
+    });
+  });
+
+  return Array.from(subgroupMap.values()).sort((a, b) => b.total - a.total);
+}
+
+export const getPaymentMethodLabel = (method: string) => {
+  switch (method) {
+    case 'cash': return 'Cash';
+    case 'card': return 'Card';
+    case 'qr': return 'QR';
+    default: return method;
+  }
+};
+
+// Split payments can credit a fraction of a unit to each payment method
+export const formatQuantity = (quantity: number) => {
+  return Number.isInteger(quantity) ? `${quantity}` : quantity.toFixed(1);
+};
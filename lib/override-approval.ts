@@ -0,0 +1,27 @@
+import { CartItem, OverrideApprovalRules } from '@/types/sales';
+
+// OVERRIDE APPROVAL - WHEN A PRICE OR TOTAL OVERRIDE NEEDS A SUPERVISOR
+//
+// Discounts are measured against catalogue prices in the main currency, so a total override
+// on a cart that a promo would have priced lower still counts from the full price.
+
+const APPROVAL_PIN_PATTERN = /^\d{4,8}$/;
+
+export const isValidApprovalPin = (pin: string): boolean => APPROVAL_PIN_PATTERN.test(pin);
+
+const discountPercent = (listAmount: number, newAmount: number): number =>
+  listAmount > 0 ? ((listAmount - newAmount) / listAmount) * 100 : 0;
+
+export function priceOverrideNeedsApproval(rules: OverrideApprovalRules | undefined, listPrice: number, newPrice: number): boolean {
+  if (rules?.maxDiscountPercent === undefined) return false;
+  return discountPercent(listPrice, newPrice) > rules.maxDiscountPercent;
+}
+
+export function totalOverrideNeedsApproval(rules: OverrideApprovalRules | undefined, cart: CartItem[], newTotal: number): boolean {
+  if (!rules) return false;
+  if (rules.minTotal !== undefined && newTotal < rules.minTotal) return true;
+  if (rules.maxDiscountPercent === undefined) return false;
+
+  const listTotal = cart.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+  return discountPercent(listTotal, newTotal) > rules.maxDiscountPercent;
+}
@@ -0,0 +1,57 @@
+import { fromHex, getRandomBytes, pbkdf2Sha256, safeEqual, toHex } from '@/lib/crypto';
+
+// PASSWORD HASHING - SALTED PBKDF2-HMAC-SHA256 WITH A VERSIONED STORAGE FORMAT
+//
+// Stored format: v1$pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>
+// Anything without the version prefix is a legacy 32-bit string hash from earlier builds.
+
+const HASH_VERSION = 'v1';
+const HASH_ALGORITHM = 'pbkdf2-sha256';
+const PBKDF2_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+/**
+ * The 32-bit string hash used before versioned hashes existed. Only used to verify
+ * (and then upgrade) credentials stored by older builds.
+ */
+export function legacyHashPassword(password: string): string {
+  let hash = 0;
+  for (let i = 0; i < password.length; i++) {
+    const char = password.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return hash.toString();
+}
+
+export function isLegacyPasswordHash(storedHash: string): boolean {
+  return !storedHash.startsWith(`${HASH_VERSION}$`);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = getRandomBytes(SALT_BYTES);
+  const derived = await pbkdf2Sha256(password, salt, PBKDF2_ITERATIONS, KEY_BYTES);
+  return [HASH_VERSION, HASH_ALGORITHM, PBKDF2_ITERATIONS, toHex(salt), toHex(derived)].join('$');
+}
+
+/**
+ * Checks a password against a stored hash of any supported version.
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  if (!storedHash) return false;
+
+  if (isLegacyPasswordHash(storedHash)) {
+    return safeEqual(legacyHashPassword(password), storedHash);
+  }
+
+  const [, algorithm, iterationsText, saltHex, hashHex] = storedHash.split('$');
+  const iterations = parseInt(iterationsText, 10);
+  if (algorithm !== HASH_ALGORITHM || !iterations || !saltHex || !hashHex) {
+    console.warn('⚠️ Unrecognised password hash format');
+    return false;
+  }
+
+  const derived = await pbkdf2Sha256(password, fromHex(saltHex), iterations, hashHex.length / 2);
+  return safeEqual(toHex(derived), hashHex);
+}
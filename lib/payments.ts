@@ -0,0 +1,42 @@
+import { PaymentLeg, Transaction } from '@/types/sales';
+
+// PAYMENT LEGS - HOW A TRANSACTION WAS PAID, WHETHER SPLIT OR NOT
+
+export interface PaymentShare extends PaymentLeg {
+  share: number; // Fraction of the transaction this leg paid for (all shares sum to 1)
+}
+
+/**
+ * The legs a transaction was paid with. Single-method transactions (including every
+ * transaction recorded before split tender existed) become one leg for the full total.
+ */
+export function getPaymentLegs(transaction: Transaction): PaymentLeg[] {
+  if (transaction.payments && transaction.payments.length > 0) {
+    return transaction.payments;
+  }
+  return [{
+    method: transaction.paymentMethod,
+    currency: transaction.currency,
+    amount: transaction.total,
+    baseAmount: transaction.total
+  }];
+}
+
+export function getPaymentShares(transaction: Transaction): PaymentShare[] {
+  const legs = getPaymentLegs(transaction);
+  const baseTotal = legs.reduce((sum, leg) => sum + leg.baseAmount, 0);
+  return legs.map(leg => ({
+    ...leg,
+    share: baseTotal !== 0 ? leg.baseAmount / baseTotal : 1 / legs.length
+  }));
+}
+
+/**
+ * Converts an amount in the transaction currency into the leg's currency, using the
+ * rate implied by the leg itself so reports match what was actually tendered.
+ */
+export function toLegCurrency(leg: PaymentLeg, amount: number): number {
+  return leg.baseAmount !== 0 ? amount * (leg.amount / leg.baseAmount) : amount;
+}
+
+export const isSplitPayment = (transaction: Transaction): boolean => (transaction.payments?.length || 0) > 1;
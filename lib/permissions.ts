@@ -0,0 +1,106 @@
+import { Capability, RolePermissions, User, UserRole } from '@/types/auth';
+
+// PERMISSIONS - WHAT EACH ROLE MAY DO
+//
+// Every role has a default set of capabilities. An event can replace the set for any role
+// except admin through AppSettings.rolePermissions; device-wide capabilities (users and
+// backups) are not tied to an event and always use the defaults.
+
+export const ROLES: UserRole[] = ['cashier', 'supervisor', 'manager', 'admin'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  cashier: 'Cashier',
+  supervisor: 'Supervisor',
+  manager: 'Manager',
+  admin: 'Admin',
+};
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  'transaction.edit': 'Edit transactions',
+  'transaction.refund': 'Refund transactions',
+  'transaction.delete': 'Delete transactions',
+  'price.override': 'Override prices and totals',
+  'override.approve': 'Approve overrides above the limits',
+  'catalogue.edit': 'Edit products and types',
+  'settings.edit': 'Edit event settings',
+  'event.unlock': 'Unlock events',
+  'event.finalize': 'Finalize events',
+  'event.delete': 'Delete events',
+  'snapshot.restore': 'Restore snapshots',
+  'audit.view': 'View the audit log',
+  'backup.manage': 'Back up and restore the device',
+  'user.manage': 'Manage users and permissions',
+};
+
+export const ALL_CAPABILITIES = Object.keys(CAPABILITY_LABELS) as Capability[];
+
+export const DEVICE_CAPABILITIES: Capability[] = ['backup.manage', 'user.manage'];
+
+export const EVENT_CAPABILITIES = ALL_CAPABILITIES.filter(c => !DEVICE_CAPABILITIES.includes(c));
+
+// Cashiers may override within the event's approval limits; anything beyond needs a supervisor
+const CASHIER_CAPABILITIES: Capability[] = ['price.override'];
+
+const SUPERVISOR_CAPABILITIES: Capability[] = [...CASHIER_CAPABILITIES, 'override.approve', 'transaction.edit', 'transaction.refund'];
+
+export const DEFAULT_ROLE_CAPABILITIES: Record<UserRole, Capability[]> = {
+  cashier: CASHIER_CAPABILITIES,
+  supervisor: SUPERVISOR_CAPABILITIES,
+  manager: [
+    ...SUPERVISOR_CAPABILITIES,
+    'transaction.delete',
+    'catalogue.edit',
+    'settings.edit',
+    'event.unlock',
+    'event.finalize',
+    'event.delete',
+    'snapshot.restore',
+    'audit.view',
+  ],
+  admin: ALL_CAPABILITIES,
+};
+
+// Anyone can create an account on the login screen, so new accounts start with the least
+// access; an admin promotes them in Manage Users
+export const DEFAULT_USER_ROLE: UserRole = 'cashier';
+
+/**
+ * Maps stored roles onto the current set. 'standard' predates named roles and could do
+ * everything but manage users, which is what a manager can do.
+ */
+export function normalizeRole(role: unknown): UserRole {
+  if (ROLES.includes(role as UserRole)) return role as UserRole;
+  return role === 'standard' ? 'manager' : 'cashier';
+}
+
+export function getRoleCapabilities(role: UserRole, rolePermissions?: RolePermissions): Capability[] {
+  const defaults = DEFAULT_ROLE_CAPABILITIES[role] ?? [];
+  const override = role !== 'admin' ? rolePermissions?.[role] : undefined;
+  if (!override) return defaults;
+
+  return [
+    ...override.filter(c => EVENT_CAPABILITIES.includes(c)),
+    ...defaults.filter(c => DEVICE_CAPABILITIES.includes(c)),
+  ];
+}
+
+export function hasCapability(user: Pick<User, 'role'> | null, capability: Capability, rolePermissions?: RolePermissions): boolean {
+  if (!user) return false;
+  return getRoleCapabilities(normalizeRole(user.role), rolePermissions).includes(capability);
+}
+
+export class PermissionError extends Error {
+  readonly capability: Capability;
+
+  constructor(capability: Capability) {
+    super(`You do not have permission to ${CAPABILITY_LABELS[capability].toLowerCase()}.`);
+    this.name = 'PermissionError';
+    this.capability = capability;
+  }
+}
+
+export function assertCapability(user: Pick<User, 'role'> | null, capability: Capability, rolePermissions?: RolePermissions): void {
+  if (!hasCapability(user, capability, rolePermissions)) {
+    throw new PermissionError(capability);
+  }
+}
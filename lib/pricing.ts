@@ -0,0 +1,252 @@
+import { CartItem, Currency, Product, ProductType, Promo } from '@/types/sales';
+
+// PRICING ENGINE - PURE CART TOTALS (NO REACT, NO STORAGE)
+
+export interface PricingRates {
+  mainCurrency: Currency;
+  displayCurrency: Currency;
+  effectiveRates: Record<Currency, number>; // Effective rates relative to USD (custom rates already applied)
+  currencyRoundUp: boolean;
+}
+
+export interface TypeSubtotal {
+  typeId: string;
+  subtotal: number; // In display currency
+  promoName?: string; // Type List promo that priced this type, if any
+}
+
+export interface LinePricing {
+  productId: string;
+  quantity: number;
+  naturalTotal: number; // In main currency, using the override price when set
+  pricedTotal: number; // In main currency, after promos and any total override
+  allocatedDiscount: number; // naturalTotal - pricedTotal
+  appliedPromotions: string[]; // Promos that priced at least one unit of this line
+}
+
+export interface CartTotals {
+  subtotal: number;
+  discount: number;
+  total: number;
+  appliedPromotions: string[];
+  hasOverrides: boolean;
+  typeSubtotals: TypeSubtotal[];
+  lines: LinePricing[];
+}
+
+interface PromoLine {
+  product: Product;
+  quantity: number;
+  overridePrice?: number;
+}
+
+const getEffectivePrice = (item: PromoLine): number => {
+  return item.overridePrice !== undefined ? item.overridePrice : item.product.price;
+};
+
+const sumNaturalPrice = (items: PromoLine[]): number => {
+  return items.reduce((sum, item) => sum + (getEffectivePrice(item) * item.quantity), 0);
+};
+
+/**
+ * Price for `quantity` promo-eligible units under a Type List promo, or undefined
+ * when the promo does not apply (fewer than 2 units or no price configured).
+ */
+export function getTypeListPromoPrice(promo: Promo, quantity: number): number | undefined {
+  if (quantity < 2) return undefined;
+
+  if (quantity <= promo.maxQuantity) {
+    return promo.prices[quantity] || undefined;
+  }
+
+  // Use incremental pricing beyond the price table
+  const basePrice = promo.prices[promo.maxQuantity] || 0;
+  const extraQuantity = quantity - promo.maxQuantity;
+
+  if (extraQuantity < 6 && promo.incrementalPrice !== undefined) {
+    // First 5 extra units use incrementalPrice
+    return basePrice + (extraQuantity * promo.incrementalPrice);
+  }
+  if (extraQuantity >= 6 && promo.incrementalPrice !== undefined && promo.incrementalPrice10Plus !== undefined) {
+    // After the first 5 extra units, incrementalPrice10Plus kicks in
+    return basePrice + (5 * promo.incrementalPrice) + ((extraQuantity - 5) * promo.incrementalPrice10Plus);
+  }
+  return undefined;
+}
+
+/**
+ * Calculates cart totals in the display currency: combo promos first, then Type List
+ * promos on the remaining promo-eligible units of each type. Any per-item price override
+ * or a total override disables automatic promos.
+ */
+export function calculateCartTotals(
+  cart: CartItem[],
+  promos: Promo[],
+  productTypes: ProductType[],
+  rates: PricingRates,
+  overrideTotal?: number
+): CartTotals {
+  const { mainCurrency, displayCurrency, effectiveRates, currencyRoundUp } = rates;
+  const isConverted = displayCurrency !== mainCurrency;
+  const conversionRate = effectiveRates[displayCurrency] / effectiveRates[mainCurrency];
+
+  const convert = (amount: number) => isConverted ? amount * conversionRate : amount;
+  const convertAndRound = (amount: number) => {
+    const converted = convert(amount);
+    return currencyRoundUp && isConverted ? Math.ceil(converted) : converted;
+  };
+
+  // Natural subtotal uses override prices when available
+  const naturalSubtotal = sumNaturalPrice(cart);
+  const hasItemOverrides = cart.some(item => item.overridePrice !== undefined);
+  const promosEnabled = !hasItemOverrides && overrideTotal === undefined;
+
+  const appliedPromos: string[] = [];
+  const typeTotals = new Map<string, { subtotal: number; promoName?: string }>();
+  productTypes.forEach(type => typeTotals.set(type.id, { subtotal: 0 }));
+  const addToType = (typeId: string, amount: number) => {
+    const entry = typeTotals.get(typeId);
+    if (entry) entry.subtotal += amount;
+  };
+
+  // Track how many units of each cart line are still unpriced, and what each line has been charged
+  const remaining = new Map<string, number>();
+  cart.forEach(item => remaining.set(item.product.id, item.quantity));
+  const linePriced = new Map<string, { total: number; promos: string[] }>();
+  cart.forEach(item => linePriced.set(item.product.id, { total: 0, promos: [] }));
+  const chargeLine = (productId: string, amount: number, promoName?: string) => {
+    const line = linePriced.get(productId);
+    if (!line) return;
+    line.total += amount;
+    if (promoName && !line.promos.includes(promoName)) line.promos.push(promoName);
+  };
+
+  let promoTotal = 0;
+
+  if (promosEnabled) {
+    // Combo promos take priority
+    const comboPromos = promos.filter(p => p.mode === 'combo' && p.comboProductIds && p.comboProductIds.length > 0);
+
+    for (const comboPromo of comboPromos) {
+      if (!comboPromo.comboProductIds || !comboPromo.comboPrice) continue;
+
+      let maxCombos = Infinity;
+      for (const productId of comboPromo.comboProductIds) {
+        const item = cart.find(i => i.product.id === productId);
+        const left = remaining.get(productId) || 0;
+        if (!item || left < 1 || !item.product.promoEligible) {
+          maxCombos = 0;
+          break;
+        }
+        maxCombos = Math.min(maxCombos, left);
+      }
+
+      if (maxCombos <= 0 || maxCombos === Infinity) continue;
+
+      const comboSubtotal = comboPromo.comboPrice * maxCombos;
+      promoTotal += comboSubtotal;
+      appliedPromos.push(`${comboPromo.name}`);
+
+      // Attribute the combo price to each component's type in proportion to its natural price
+      const components = comboPromo.comboProductIds
+        .map(productId => cart.find(i => i.product.id === productId)!)
+        .map(item => ({ ...item, quantity: maxCombos }));
+      const componentsNatural = sumNaturalPrice(components);
+      components.forEach(item => {
+        const share = componentsNatural > 0
+          ? (getEffectivePrice(item) * item.quantity) / componentsNatural
+          : 1 / components.length;
+        addToType(item.product.typeId, comboSubtotal * share);
+        chargeLine(item.product.id, comboSubtotal * share, comboPromo.name);
+        remaining.set(item.product.id, (remaining.get(item.product.id) || 0) - maxCombos);
+      });
+    }
+  }
+
+  // Type List promos and remaining units, per type
+  productTypes.forEach(type => {
+    const typeItems: PromoLine[] = cart
+      .filter(item => item.product.typeId === type.id)
+      .map(item => ({ ...item, quantity: remaining.get(item.product.id) || 0 }))
+      .filter(item => item.quantity > 0);
+
+    const eligibleItems = typeItems.filter(item => item.product.promoEligible);
+    const nonEligibleItems = typeItems.filter(item => !item.product.promoEligible);
+
+    const naturalEligibleSubtotal = sumNaturalPrice(eligibleItems);
+    let eligibleSubtotal = naturalEligibleSubtotal;
+    let pricedByPromo: string | undefined;
+    const typeListPromo = promosEnabled
+      ? promos.find(p => p.mode === 'type_list' && p.typeId === type.id)
+      : undefined;
+
+    if (typeListPromo && eligibleItems.length > 0) {
+      const promoQuantity = eligibleItems.reduce((sum, item) => sum + item.quantity, 0);
+      const promoPrice = getTypeListPromoPrice(typeListPromo, promoQuantity);
+      if (promoPrice !== undefined) {
+        eligibleSubtotal = promoPrice;
+        pricedByPromo = typeListPromo.name;
+        appliedPromos.push(`${typeListPromo.name}`);
+        typeTotals.get(type.id)!.promoName = typeListPromo.name;
+      }
+    }
+
+    // Spread the eligible subtotal across its lines in proportion to their natural price
+    eligibleItems.forEach(item => {
+      const lineNatural = getEffectivePrice(item) * item.quantity;
+      const share = naturalEligibleSubtotal > 0 ? lineNatural / naturalEligibleSubtotal : 1 / eligibleItems.length;
+      chargeLine(item.product.id, eligibleSubtotal * share, pricedByPromo);
+    });
+    nonEligibleItems.forEach(item => {
+      chargeLine(item.product.id, getEffectivePrice(item) * item.quantity);
+    });
+
+    const typeSubtotal = eligibleSubtotal + sumNaturalPrice(nonEligibleItems);
+    addToType(type.id, typeSubtotal);
+    promoTotal += typeSubtotal;
+  });
+
+  // Items whose type no longer exists are charged at their natural price
+  cart
+    .filter(item => !typeTotals.has(item.product.typeId))
+    .forEach(item => {
+      const amount = getEffectivePrice(item) * (remaining.get(item.product.id) || 0);
+      promoTotal += amount;
+      chargeLine(item.product.id, amount);
+    });
+
+  const discount = naturalSubtotal - promoTotal;
+  const finalTotal = overrideTotal !== undefined ? overrideTotal : promoTotal;
+
+  // A total override is spread across every line in proportion to what it was charged
+  const lineScale = overrideTotal !== undefined && promoTotal > 0 ? overrideTotal / promoTotal : 1;
+  const lines: LinePricing[] = cart.map(item => {
+    const naturalTotal = getEffectivePrice(item) * item.quantity;
+    const priced = linePriced.get(item.product.id)!;
+    const pricedTotal = overrideTotal !== undefined && promoTotal <= 0
+      ? overrideTotal / cart.length
+      : priced.total * lineScale;
+    return {
+      productId: item.product.id,
+      quantity: item.quantity,
+      naturalTotal,
+      pricedTotal,
+      allocatedDiscount: naturalTotal - pricedTotal,
+      appliedPromotions: priced.promos
+    };
+  });
+
+  return {
+    subtotal: convertAndRound(naturalSubtotal),
+    discount: convert(discount),
+    total: convertAndRound(finalTotal),
+    appliedPromotions: appliedPromos,
+    hasOverrides: hasItemOverrides || overrideTotal !== undefined,
+    typeSubtotals: productTypes.map(type => ({
+      typeId: type.id,
+      subtotal: convertAndRound(typeTotals.get(type.id)!.subtotal),
+      promoName: typeTotals.get(type.id)!.promoName
+    })),
+    lines
+  };
+}
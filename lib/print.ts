@@ -0,0 +1,243 @@
+import { Platform } from 'react-native';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { Currency, Transaction } from '@/types/sales';
+import { CURRENCIES } from '@/constants/products';
+import { getPaymentLegs } from '@/lib/payments';
+import {
+  CurrencySummary,
+  SubgroupSummary,
+  TypeGroupSummary,
+  TypeSubtotal,
+  formatQuantity,
+  getPaymentMethodLabel,
+} from '@/lib/event-summary';
+import { TopSeller } from '@/lib/transaction-items';
+
+// PRINTABLE DOCUMENTS - RECEIPTS AND END-OF-EVENT REPORTS AS SELF-CONTAINED HTML
+//
+// The HTML carries its own print stylesheet, so opening it in any browser and printing
+// (or "Save as PDF") gives a paper-ready page.
+
+export interface EventReport {
+  eventName: string;
+  preparedBy: string;
+  mainCurrency: Currency;
+  generatedAt: Date;
+  isFinalized: boolean;
+  transactionCount: number;
+  mainCurrencyTotal: number;
+  typeSubtotals: TypeSubtotal[];
+  currencySummaries: CurrencySummary;
+  typeGroupSummaries: TypeGroupSummary[];
+  subgroupSummaries: SubgroupSummary[];
+  topSellers: TopSeller[];
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatMoney = (amount: number, currency: string) => {
+  const symbol = CURRENCIES[currency]?.symbol ?? '';
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}${symbol}${Math.abs(amount).toFixed(2)}`;
+};
+
+const renderDocument = (title: string, pageStyle: string, body: string) => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #1a1a1a; margin: 0 auto; padding: 16px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    h2 { font-size: 16px; margin: 24px 0 8px; border-bottom: 1px solid #1a1a1a; padding-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; }
+    td, th { padding: 4px 0; text-align: left; vertical-align: top; }
+    th { font-size: 12px; color: #666; border-bottom: 1px solid #ddd; }
+    .amount { text-align: right; white-space: nowrap; }
+    .muted { color: #666; font-size: 12px; }
+    .total td { font-weight: bold; font-size: 16px; border-top: 1px solid #1a1a1a; padding-top: 8px; }
+    .signatures { display: flex; gap: 32px; margin-top: 48px; }
+    .signature { flex: 1; border-top: 1px solid #1a1a1a; padding-top: 4px; font-size: 12px; }
+    ${pageStyle}
+    @media print { body { padding: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+/**
+ * Paper receipt for one sale or refund, sized for narrow receipt printers.
+ */
+export function renderReceiptDocument(transaction: Transaction, eventName?: string): string {
+  const currency = transaction.currency;
+
+  // Line amounts are scaled onto the charged total so they add up in the receipt currency
+  const itemsValue = transaction.items.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+  const scale = itemsValue !== 0 ? transaction.total / itemsValue : 0;
+
+  const itemRows = transaction.items.map(item => `
+      <tr>
+        <td>${item.quantity} × ${escapeHtml(item.product.name)}</td>
+        <td class="amount">${formatMoney(item.product.price * item.quantity * scale, currency)}</td>
+      </tr>`).join('');
+
+  const paymentRows = getPaymentLegs(transaction).map(leg => `
+      <tr>
+        <td>${getPaymentMethodLabel(leg.method)}</td>
+        <td class="amount">${formatMoney(leg.amount, leg.currency)} ${leg.currency}</td>
+      </tr>`).join('');
+
+  const tender = transaction.cashTender;
+  const title = transaction.refundOf ? 'Refund Receipt' : 'Receipt';
+
+  return renderDocument(title, '@page { size: 80mm auto; margin: 4mm; } body { max-width: 320px; }', `
+  <h1>${title}</h1>
+  ${eventName ? `<div><strong>${escapeHtml(eventName)}</strong></div>` : ''}
+  <div class="muted">${new Date(transaction.timestamp).toLocaleString()}<br />Transaction #${escapeHtml(transaction.id)}</div>
+  <h2>Items</h2>
+  <table>${itemRows}
+  </table>
+  <table style="margin-top: 8px;">
+    <tr><td>Subtotal</td><td class="amount">${formatMoney(transaction.subtotal, currency)}</td></tr>
+    ${transaction.discount !== 0 ? `<tr><td>Discount</td><td class="amount">${formatMoney(-transaction.discount, currency)}</td></tr>` : ''}
+    <tr class="total"><td>Total</td><td class="amount">${formatMoney(transaction.total, currency)} ${currency}</td></tr>
+    ${transaction.originalCurrency && transaction.originalTotal !== undefined
+      ? `<tr><td class="muted">Shown as</td><td class="amount muted">${formatMoney(transaction.originalTotal, transaction.originalCurrency)} ${transaction.originalCurrency}</td></tr>`
+      : ''}
+  </table>
+  ${transaction.appliedPromotions.length > 0 ? `<p class="muted">Promotions: ${transaction.appliedPromotions.map(escapeHtml).join(', ')}</p>` : ''}
+  <h2>Payment</h2>
+  <table>${paymentRows}
+    ${tender ? `
+      <tr><td>Tendered</td><td class="amount">${formatMoney(tender.tendered, tender.currency)} ${tender.currency}</td></tr>
+      <tr><td>Change</td><td class="amount">${formatMoney(tender.change, tender.currency)} ${tender.currency}</td></tr>` : ''}
+  </table>
+  <p class="muted" style="text-align: center; margin-top: 24px;">Thank you for your purchase!</p>`);
+}
+
+/**
+ * A4 end-of-event report with the totals screen breakdowns and sign-off lines.
+ */
+export function renderEventReportDocument(report: EventReport): string {
+  const { mainCurrency } = report;
+
+  const typeRows = report.typeSubtotals.map(type => `
+      <tr><td>${escapeHtml(type.name)}</td><td class="amount">${formatMoney(type.total, mainCurrency)}</td></tr>`).join('');
+
+  const currencyRows = Object.entries(report.currencySummaries).flatMap(([currency, methods]) =>
+    Object.entries(methods).map(([method, data]) => `
+      <tr>
+        <td>${currency}</td>
+        <td>${getPaymentMethodLabel(method)}</td>
+        <td class="amount">${data.transactionCount}</td>
+        <td class="amount">${formatMoney(data.total, currency)}</td>
+      </tr>`)
+  ).join('');
+
+  const renderItems = (items: { productName: string; quantity: number; amount: number }[]) => items.map(item => `
+      <tr>
+        <td>${escapeHtml(item.productName)}</td>
+        <td class="amount">${formatQuantity(item.quantity)}</td>
+        <td class="amount">${formatMoney(item.amount, mainCurrency)}</td>
+      </tr>`).join('');
+
+  const topSellerRows = report.topSellers.map(seller => `
+      <tr>
+        <td>${escapeHtml(seller.productName)}</td>
+        <td class="amount">${formatQuantity(seller.quantity)}</td>
+        <td class="amount">${seller.transactionCount}</td>
+      </tr>`).join('');
+
+  const groupSections = report.typeGroupSummaries.map(group => `
+  <h2>${escapeHtml(group.type)} — ${formatMoney(group.total, mainCurrency)}</h2>
+  <table>
+    <tr><th>Product</th><th class="amount">Qty</th><th class="amount">Amount (${mainCurrency})</th></tr>${renderItems(group.items)}
+  </table>`).join('');
+
+  const subgroupSections = report.subgroupSummaries.map(subgroup => `
+  <h2>${escapeHtml(subgroup.subgroupName)} <span class="muted">(${escapeHtml(subgroup.type)})</span> — ${formatMoney(subgroup.total, mainCurrency)}</h2>
+  <table>
+    <tr><th>Product</th><th class="amount">Qty</th><th class="amount">Amount (${mainCurrency})</th></tr>${renderItems(subgroup.items)}
+  </table>`).join('');
+
+  return renderDocument(`${report.eventName} - Event Report`, '@page { size: A4; margin: 16mm; } body { max-width: 800px; }', `
+  <h1>${escapeHtml(report.eventName)} — Event Report</h1>
+  <div class="muted">
+    Generated ${report.generatedAt.toLocaleString()} by ${escapeHtml(report.preparedBy)}<br />
+    Status: ${report.isFinalized ? 'Finalized' : 'Open (figures may still change)'}
+  </div>
+  <table style="margin-top: 16px;">
+    <tr><td>Transactions</td><td class="amount">${report.transactionCount}</td></tr>
+    <tr class="total"><td>Total Sales (${mainCurrency})</td><td class="amount">${formatMoney(report.mainCurrencyTotal, mainCurrency)}</td></tr>
+  </table>
+  <h2>Subtotals by Type (${mainCurrency})</h2>
+  <table>${typeRows}
+  </table>
+  <h2>Payments by Currency</h2>
+  <table>
+    <tr><th>Currency</th><th>Method</th><th class="amount">Transactions</th><th class="amount">Total</th></tr>${currencyRows}
+  </table>
+  ${report.topSellers.length > 0 ? `<h2>Top Sellers</h2>
+  <table>
+    <tr><th>Product</th><th class="amount">Qty</th><th class="amount">Transactions</th></tr>${topSellerRows}
+  </table>` : ''}
+  ${groupSections}
+  ${subgroupSections}
+  <div class="signatures">
+    <div class="signature">Prepared by</div>
+    <div class="signature">Approved by</div>
+    <div class="signature">Date</div>
+  </div>`);
+}
+
+/**
+ * Downloads the document on web, or writes it to the cache and opens the share sheet on
+ * device (from where it can be printed, saved as PDF or sent on).
+ */
+export async function shareHtmlDocument(html: string, fileName: string, dialogTitle: string): Promise<{ success: boolean; error?: string }> {
+  const safeName = fileName.replace(/[^a-z0-9_-]/gi, '_').toLowerCase();
+  const fullName = `${safeName}.html`;
+
+  try {
+    if (Platform.OS === 'web') {
+      const blob = new Blob([html], { type: 'text/html' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fullName;
+      link.click();
+      URL.revokeObjectURL(url);
+      console.log('✅ Document downloaded on web:', fullName);
+      return { success: true };
+    }
+
+    const file = new File(Paths.cache, fullName);
+    file.write(html);
+    console.log('📄 Document created at:', file.uri);
+
+    const isAvailable = await Sharing.isAvailableAsync();
+    if (!isAvailable) {
+      return { success: false, error: 'Sharing is not available on this device' };
+    }
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: 'text/html',
+      dialogTitle,
+      UTI: 'public.html',
+    });
+    console.log('✅ Document shared successfully');
+    return { success: true };
+  } catch (error: any) {
+    console.error('❌ Error sharing document:', error);
+    return { success: false, error: error.message || String(error) };
+  }
+}
@@ -0,0 +1,19 @@
+import { Transaction } from '@/types/sales';
+
+// RECEIPTS - THE NOTES FIELD DOUBLES AS THE CUSTOMER'S EMAIL ADDRESS
+
+export const isEmailAddress = (value?: string): boolean =>
+  !!value && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim());
+
+/**
+ * Input for the receipts.send procedure. Items are copied into plain objects so they
+ * match the wire schema, which keeps unknown product fields.
+ */
+export const buildReceiptRequest = (email: string, transaction: Transaction, eventName?: string) => ({
+  email: email.trim(),
+  eventName,
+  transaction: {
+    ...transaction,
+    items: transaction.items.map(item => ({ ...item, product: { ...item.product } }))
+  }
+});
@@ -0,0 +1,102 @@
+import { Transaction } from '@/types/sales';
+
+// REFUNDS - NEGATIVE TRANSACTIONS LINKED TO THE SALE THEY REVERSE
+//
+// Refund lines carry negative quantities at the unit price the customer actually paid,
+// so every total, export and stock count nets them out by simply summing.
+
+export interface RefundLine {
+  productId: string;
+  quantity: number; // Positive number of units being returned
+}
+
+export const isRefund = (transaction: Transaction): boolean => !!transaction.refundOf;
+
+/**
+ * Units of each product in `sale` that have not been refunded yet.
+ */
+export function getRefundableQuantities(sale: Transaction, transactions: Transaction[]): Record<string, number> {
+  const refundable: Record<string, number> = {};
+  sale.items.forEach(item => {
+    refundable[item.product.id] = (refundable[item.product.id] || 0) + item.quantity;
+  });
+
+  transactions
+    .filter(t => t.refundOf === sale.id)
+    .forEach(refund => {
+      refund.items.forEach(item => {
+        if (refundable[item.product.id] !== undefined) {
+          // Refund quantities are negative
+          refundable[item.product.id] = Math.max(0, refundable[item.product.id] + item.quantity);
+        }
+      });
+    });
+
+  return refundable;
+}
+
+/**
+ * Builds the refund for `lines` of `sale` (all remaining units when omitted).
+ * Throws when nothing is left to refund or a line asks for more than was sold.
+ */
+export function buildRefundTransaction(sale: Transaction, transactions: Transaction[], lines?: RefundLine[]): Transaction {
+  if (isRefund(sale)) {
+    throw new Error('A refund cannot itself be refunded.');
+  }
+
+  const refundable = getRefundableQuantities(sale, transactions);
+  const requested = lines ?? Object.entries(refundable).map(([productId, quantity]) => ({ productId, quantity }));
+
+  const items = requested
+    .filter(line => line.quantity > 0)
+    .map(line => {
+      const saleItem = sale.items.find(item => item.product.id === line.productId);
+      if (!saleItem) {
+        throw new Error('That product is not part of this sale.');
+      }
+      if (line.quantity > (refundable[line.productId] || 0)) {
+        throw new Error(`Only ${refundable[line.productId] || 0} × ${saleItem.product.name} can still be refunded.`);
+      }
+      return {
+        product: saleItem.product,
+        quantity: -line.quantity,
+        appliedPromotions: saleItem.appliedPromotions,
+        listPrice: saleItem.listPrice,
+        overridePrice: saleItem.overridePrice,
+        allocatedDiscount: saleItem.allocatedDiscount !== undefined
+          ? saleItem.allocatedDiscount * (-line.quantity / saleItem.quantity)
+          : undefined
+      };
+    });
+
+  if (items.length === 0) {
+    throw new Error('Nothing left to refund on this sale.');
+  }
+
+  // Unit prices already include each line's share of promos, so the refunded fraction of
+  // the sale's item value is the fraction of its totals to reverse (whatever the currency)
+  const saleValue = sale.items.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+  const refundValue = items.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+  const saleUnits = sale.items.reduce((sum, item) => sum + item.quantity, 0);
+  const refundUnits = items.reduce((sum, item) => sum + item.quantity, 0);
+  // Free sales (zero value) fall back to the share of units returned; either way share is negative
+  const share = saleValue !== 0 ? refundValue / saleValue : refundUnits / saleUnits;
+
+  return {
+    id: Date.now().toString(),
+    items,
+    subtotal: sale.subtotal * share,
+    discount: sale.discount * share,
+    total: sale.total * share,
+    currency: sale.currency,
+    paymentMethod: sale.paymentMethod,
+    timestamp: new Date(),
+    appliedPromotions: [],
+    email: sale.email,
+    originalCurrency: sale.originalCurrency,
+    originalTotal: sale.originalTotal !== undefined ? sale.originalTotal * share : undefined,
+    originalSubtotal: sale.originalSubtotal !== undefined ? sale.originalSubtotal * share : undefined,
+    payments: sale.payments?.map(leg => ({ ...leg, amount: leg.amount * share, baseAmount: leg.baseAmount * share })),
+    refundOf: sale.id
+  };
+}
@@ -0,0 +1,145 @@
+import { AppSettings, ExchangeRates, Product, ProductType, Transaction } from '@/types/sales';
+import { getPaymentLegs, isSplitPayment } from '@/lib/payments';
+import { aggregateProductSales, ProductSalesTotal } from '@/lib/transaction-items';
+
+// SPREADSHEET DATA - THE ROWS BEHIND EVERY SPREADSHEET EXPORT
+//
+// Shared by the on-device XLSX export and the backend Google Sheets export, so only
+// the fields the sheets read are required.
+
+export interface ExportData {
+  userName: string;
+  eventName: string;
+  transactions: Transaction[];
+  products: Product[];
+  settings: Pick<AppSettings, 'currency'>;
+  exchangeRates: Pick<ExchangeRates, 'USD' | 'EUR' | 'GBP'>;
+  productTypes?: ProductType[];
+  productSales?: ProductSalesTotal[]; // From the line-item table on device; aggregated from transactions when missing
+}
+
+function getRate(exchangeRates: ExportData['exchangeRates'], currency: string): number {
+  if (currency === 'USD') return exchangeRates.USD;
+  if (currency === 'EUR') return exchangeRates.EUR;
+  if (currency === 'GBP') return exchangeRates.GBP;
+  return 1;
+}
+
+export function generateRegistryData(data: ExportData): (string | number)[][] {
+  const headers = ['Transaction ID', 'Date', 'Time', 'Items', 'Subtotal', 'Discount', 'Total', 'Currency', 'Payment Method', 'Email', 'Promotions', 'Refund Of'];
+  const rows: (string | number)[][] = [headers];
+
+  const sortedTransactions = [...data.transactions].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+
+  sortedTransactions.forEach(transaction => {
+    const date = new Date(transaction.timestamp);
+    const itemsList = transaction.items
+      .map(item => `${item.product.name} x${item.quantity}`)
+      .join('; ');
+
+    rows.push([
+      transaction.id,
+      date.toLocaleDateString(),
+      date.toLocaleTimeString(),
+      itemsList,
+      transaction.subtotal,
+      transaction.discount,
+      transaction.total,
+      transaction.currency,
+      isSplitPayment(transaction)
+        ? getPaymentLegs(transaction).map(leg => `${leg.method} ${leg.amount.toFixed(2)} ${leg.currency}`).join(' + ')
+        : transaction.paymentMethod,
+      transaction.email || '',
+      transaction.appliedPromotions.join('; '),
+      transaction.refundOf || '',
+    ]);
+  });
+
+  return rows;
+}
+
+export function generateProductsData(data: ExportData): (string | number)[][] {
+  const mainCurrency = data.settings.currency;
+  const headers = ['Product', 'Subgroup', 'Quantity Sold', `Total Amount (${mainCurrency})`];
+  const rows: (string | number)[][] = [headers];
+
+  const productSales = new Map<string, { name: string; subgroup: string; quantity: number; amount: number }>();
+  const toRate = getRate(data.exchangeRates, mainCurrency);
+
+  // One total per product and currency, merged into the main currency
+  (data.productSales ?? aggregateProductSales(data.transactions)).forEach(total => {
+    const existing = productSales.get(total.productId);
+    const convertedAmount = total.netAmount * toRate / getRate(data.exchangeRates, total.currency);
+
+    if (existing) {
+      existing.quantity += total.quantity;
+      existing.amount += convertedAmount;
+    } else {
+      productSales.set(total.productId, {
+        name: total.productName,
+        subgroup: total.subgroup || '',
+        quantity: total.quantity,
+        amount: convertedAmount,
+      });
+    }
+  });
+
+  Array.from(productSales.values())
+    .sort((a, b) => b.amount - a.amount)
+    .forEach(({ name, subgroup, quantity, amount }) => {
+      rows.push([
+        name,
+        subgroup,
+        quantity,
+        Math.round(amount * 100) / 100,
+      ]);
+    });
+
+  return rows;
+}
+
+export function generateCurrenciesData(data: ExportData): (string | number)[][] {
+  const headers = ['Currency', 'Payment Method', 'Transactions', 'Total Amount'];
+  const rows: (string | number)[][] = [headers];
+
+  const currencySummary = new Map<string, Map<string, { count: number; total: number }>>();
+
+  data.transactions.forEach(transaction => {
+    getPaymentLegs(transaction).forEach(leg => {
+      const currency = leg.currency;
+      const method = leg.method;
+
+      if (!currencySummary.has(currency)) {
+        currencySummary.set(currency, new Map());
+      }
+
+      const currencyMethods = currencySummary.get(currency)!;
+      const existing = currencyMethods.get(method);
+
+      if (existing) {
+        existing.count += 1;
+        existing.total += leg.amount;
+      } else {
+        currencyMethods.set(method, {
+          count: 1,
+          total: leg.amount,
+        });
+      }
+    });
+  });
+
+  currencySummary.forEach((methods, currency) => {
+    methods.forEach((methodData, method) => {
+      rows.push([
+        currency,
+        method,
+        methodData.count,
+        Math.round(methodData.total * 100) / 100,
+      ]);
+    });
+  });
+
+  return rows;
+}
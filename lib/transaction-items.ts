@@ -0,0 +1,116 @@
+import { CartItem, Currency, Transaction } from '@/types/sales';
+
+// TRANSACTION LINE ITEMS - ONE FLAT ROW PER LINE OF A SALE OR REFUND
+//
+// The shape of the transaction_items table, which lets totals run as SQL aggregates. Lines
+// recorded before list prices were kept on the transaction only know the price actually
+// charged: for them unitPrice is that price and the allocated discount is zero, so net
+// amounts are right either way.
+
+export interface TransactionItemRow {
+  lineIndex: number;
+  productId: string;
+  productName: string; // As named at the time of sale
+  typeId: string | null;
+  subgroup: string | null;
+  quantity: number; // Negative on refunds
+  unitPrice: number; // Catalogue price per unit, in the transaction currency
+  overridePrice: number | null; // Manual price per unit that replaced unitPrice
+  allocatedDiscount: number; // The line's share of promo and total-override discounts
+}
+
+export interface ProductSalesTotal {
+  productId: string;
+  productName: string;
+  typeId: string | null;
+  subgroup: string | null;
+  currency: Currency;
+  quantity: number;
+  grossAmount: number; // Before discounts, at the override price when one was set
+  discountAmount: number;
+  netAmount: number; // What was charged
+}
+
+export interface TopSeller {
+  productId: string;
+  productName: string;
+  quantity: number;
+  transactionCount: number;
+}
+
+export function toTransactionItemRows(items: CartItem[]): TransactionItemRow[] {
+  return items.map((item, lineIndex) => {
+    const hasListPrice = item.listPrice !== undefined;
+    return {
+      lineIndex,
+      productId: item.product.id,
+      productName: item.product.name,
+      typeId: item.product.typeId ?? null,
+      subgroup: item.product.subgroup ?? null,
+      quantity: item.quantity,
+      unitPrice: hasListPrice ? item.listPrice! : item.product.price,
+      overridePrice: hasListPrice && item.overridePrice !== undefined ? item.overridePrice : null,
+      allocatedDiscount: hasListPrice ? item.allocatedDiscount ?? 0 : 0,
+    };
+  });
+}
+
+/**
+ * In-memory equivalent of the SQL product totals, for the web storage fallback.
+ * Sorted by quantity, best sellers first.
+ */
+export function aggregateProductSales(transactions: Transaction[]): ProductSalesTotal[] {
+  const totals = new Map<string, ProductSalesTotal>();
+
+  transactions.forEach(transaction => {
+    toTransactionItemRows(transaction.items).forEach(row => {
+      const key = `${row.productId}|${transaction.currency}`;
+      const total = totals.get(key) ?? {
+        productId: row.productId,
+        productName: row.productName,
+        typeId: row.typeId,
+        subgroup: row.subgroup,
+        currency: transaction.currency,
+        quantity: 0,
+        grossAmount: 0,
+        discountAmount: 0,
+        netAmount: 0,
+      };
+      const gross = (row.overridePrice ?? row.unitPrice) * row.quantity;
+      total.quantity += row.quantity;
+      total.grossAmount += gross;
+      total.discountAmount += row.allocatedDiscount;
+      total.netAmount += gross - row.allocatedDiscount;
+      totals.set(key, total);
+    });
+  });
+
+  return [...totals.values()].sort((a, b) => b.quantity - a.quantity);
+}
+
+/**
+ * In-memory equivalent of the SQL top-seller query, for the web storage fallback.
+ */
+export function findTopSellers(transactions: Transaction[], limit: number): TopSeller[] {
+  const sellers = new Map<string, TopSeller & { transactionIds: Set<string> }>();
+
+  transactions.forEach(transaction => {
+    toTransactionItemRows(transaction.items).forEach(row => {
+      const seller = sellers.get(row.productId) ?? {
+        productId: row.productId,
+        productName: row.productName,
+        quantity: 0,
+        transactionCount: 0,
+        transactionIds: new Set<string>(),
+      };
+      seller.quantity += row.quantity;
+      seller.transactionIds.add(transaction.id);
+      sellers.set(row.productId, seller);
+    });
+  });
+
+  return [...sellers.values()]
+    .map(({ transactionIds, ...seller }) => ({ ...seller, transactionCount: transactionIds.size }))
+    .sort((a, b) => b.quantity - a.quantity)
+    .slice(0, limit);
+}
@@ -1,4 +1,4 @@
-import { httpLink } from "@trpc/client";
+import { createTRPCClient, httpLink } from "@trpc/client";
 import { createTRPCReact } from "@trpc/react-query";
 import superjson from "superjson";
 
@@ -18,11 +18,33 @@ const getBaseUrl = () => {
   return url;
 };
 
+// Device token from pairing with the sync server; set once it is loaded from storage
+let syncAuthToken: string | null = null;
+
+export const setSyncAuthToken = (token: string | null) => {
+  syncAuthToken = token;
+};
+
+const authHeaders = (): Record<string, string> =>
+  syncAuthToken ? { authorization: `Bearer ${syncAuthToken}` } : {};
+
 export const trpcClient = trpc.createClient({
   links: [
     httpLink({
       url: `${getBaseUrl()}/api/trpc`,
       transformer: superjson,
+      headers: authHeaders,
+    }),
+  ],
+});
+
+// Plain client for work that runs outside React rendering (background sync)
+export const trpcSyncClient = createTRPCClient<AppRouter>({
+  links: [
+    httpLink({
+      url: `${getBaseUrl()}/api/trpc`,
+      transformer: superjson,
+      headers: authHeaders,
     }),
   ],
 });
@@ -0,0 +1,73 @@
+import type AsyncStorageStatic from '@react-native-async-storage/async-storage';
+import type { databaseService as DatabaseServiceInstance } from '@/hooks/database';
+import type * as SQLiteModule from './expo-sqlite';
+import type * as ReactNativeModule from './react-native';
+import { DEFAULT_SETTINGS } from '@/constants/products';
+import { CartItem, Product, Transaction } from '@/types/sales';
+import { User } from '@/types/auth';
+
+export interface DatabaseHarness {
+  sqlite: typeof SQLiteModule;
+  storage: typeof AsyncStorageStatic;
+  platform: typeof ReactNativeModule.Platform;
+}
+
+/**
+ * Fresh copies of the storage mocks, for seeding before the service opens them. Every call
+ * resets the module registry, so each test starts from an empty database and storage.
+ */
+export function createDatabaseHarness(os: 'ios' | 'web' = 'ios'): DatabaseHarness {
+  jest.resetModules();
+  const platform = (require('react-native') as typeof ReactNativeModule).Platform;
+  platform.OS = os;
+  return {
+    sqlite: require('expo-sqlite'),
+    storage: require('@react-native-async-storage/async-storage'),
+    platform,
+  };
+}
+
+// The service singleton from the same module registry as the last harness
+export const loadDatabaseService = (): typeof DatabaseServiceInstance =>
+  require('@/hooks/database').databaseService;
+
+export const testProduct = (id: string, price: number, overrides: Partial<Product> = {}): Product => ({
+  id,
+  name: id,
+  price,
+  color: '#fff',
+  enabled: true,
+  initialQuantity: 0,
+  promoEligible: false,
+  order: 0,
+  typeId: 'type_1',
+  ...overrides,
+});
+
+export const testSale = (id: string, items: CartItem[], overrides: Partial<Transaction> = {}): Transaction => {
+  const total = items.reduce((sum, item) => sum + (item.overridePrice ?? item.product.price) * item.quantity, 0);
+  return {
+    id,
+    items,
+    subtotal: total,
+    discount: 0,
+    total,
+    currency: 'EUR',
+    paymentMethod: 'cash',
+    timestamp: new Date('2024-06-01T12:00:00.000Z'),
+    appliedPromotions: [],
+    ...overrides,
+  };
+};
+
+// The default admin; web storage has none until someone registers, and the first user is made admin
+export async function getTestAdmin(databaseService: typeof DatabaseServiceInstance): Promise<User> {
+  return await databaseService.getUserByUsername('fsj') ?? await databaseService.createUser('fsj', 'hash');
+}
+
+// An event owned by the admin, ready for sales
+export async function createTestEvent(databaseService: typeof DatabaseServiceInstance, eventName = 'Test Fair'): Promise<string> {
+  const admin = await getTestAdmin(databaseService);
+  const event = await databaseService.createEvent(admin.id, eventName, admin.username, { ...DEFAULT_SETTINGS, eventName, isSetupComplete: true });
+  return event.id;
+}
@@ -0,0 +1,66 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+
+// IN-MEMORY EXPO-SQLITE FOR JEST - THE ASYNC API THE APP USES, BACKED BY SQL.JS
+//
+// Databases are kept by name for the life of the module, so a test can seed 'sales.db'
+// before the database service opens it. jest.resetModules() starts from empty databases.
+
+export type SQLiteBindValue = string | number | null | boolean | Uint8Array;
+
+let sqlJs: SqlJsStatic | null = null;
+
+const toSqlValue = (value: SQLiteBindValue | undefined): SqlValue => {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+};
+
+export class SQLiteDatabase {
+  constructor(readonly raw: Database) {}
+
+  async execAsync(sql: string): Promise<void> {
+    this.raw.exec(sql);
+  }
+
+  async runAsync(sql: string, params: SQLiteBindValue[] = []): Promise<{ lastInsertRowId: number; changes: number }> {
+    this.raw.run(sql, params.map(toSqlValue));
+    const changes = this.raw.getRowsModified();
+    const lastRow = this.raw.exec('SELECT last_insert_rowid() AS id');
+    return { lastInsertRowId: Number(lastRow[0]?.values[0][0] ?? 0), changes };
+  }
+
+  async getAllAsync<T = unknown>(sql: string, params: SQLiteBindValue[] = []): Promise<T[]> {
+    const statement = this.raw.prepare(sql);
+    try {
+      statement.bind(params.map(toSqlValue));
+      const rows: T[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async getFirstAsync<T = unknown>(sql: string, params: SQLiteBindValue[] = []): Promise<T | null> {
+    const rows = await this.getAllAsync<T>(sql, params);
+    return rows[0] ?? null;
+  }
+
+  async closeAsync(): Promise<void> {
+    this.raw.close();
+  }
+}
+
+const databases = new Map<string, SQLiteDatabase>();
+
+export async function openDatabaseAsync(name: string): Promise<SQLiteDatabase> {
+  if (!sqlJs) sqlJs = await initSqlJs();
+  let database = databases.get(name);
+  if (!database) {
+    database = new SQLiteDatabase(new sqlJs.Database());
+    databases.set(name, database);
+  }
+  return database;
+}
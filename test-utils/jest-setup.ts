@@ -0,0 +1,2 @@
+// The app logs every storage step; keep test output to failures and warnings
+console.log = () => {};
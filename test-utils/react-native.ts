@@ -0,0 +1,5 @@
+// Just enough of react-native for storage code under jest; tests switch OS to cover the web branch
+export const Platform = {
+  OS: 'ios' as 'ios' | 'android' | 'web',
+  select: <T>(options: { [os: string]: T; default: T }): T => options[Platform.OS] ?? options.default,
+};
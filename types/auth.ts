@@ -1,4 +1,24 @@
-export type UserRole = 'admin' | 'standard';
+// Ordered from least to most trusted
+export type UserRole = 'cashier' | 'supervisor' | 'manager' | 'admin';
+
+export type Capability =
+  | 'transaction.edit'
+  | 'transaction.refund'
+  | 'transaction.delete'
+  | 'price.override'
+  | 'override.approve'
+  | 'catalogue.edit'
+  | 'settings.edit'
+  | 'event.unlock'
+  | 'event.finalize'
+  | 'event.delete'
+  | 'snapshot.restore'
+  | 'audit.view'
+  | 'backup.manage'
+  | 'user.manage';
+
+// Per-event capability lists that replace a role's defaults (admins always keep every capability)
+export type RolePermissions = Partial<Record<UserRole, Capability[]>>;
 
 export interface User {
   id: string;
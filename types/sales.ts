@@ -1,3 +1,5 @@
+import { RolePermissions } from '@/types/auth';
+
 export interface ProductType {
   id: string;
   name: string;
@@ -20,10 +22,21 @@ export interface Product {
   subgroup?: string;
 }
 
+export interface StockLevel {
+  productId: string;
+  opening: number; // Product.initialQuantity at the time of calculation
+  sold: number; // Units sold across all event transactions
+  remaining: number; // opening - sold, never below 0
+}
+
 export interface CartItem {
   product: Product;
   quantity: number;
   overridePrice?: number;
+  appliedPromotions?: string[]; // Promos that priced this line (recorded on completed transactions)
+  listPrice?: number; // Catalogue price per unit at the time of sale (recorded on completed transactions)
+  allocatedDiscount?: number; // The line's share of promo and override discounts (recorded on completed transactions)
+  overrideApproval?: OverrideApproval; // Sign-off for overridePrice while in the cart; moved to the transaction on completion
 }
 
 export type PromoMode = 'type_list' | 'combo';
@@ -58,6 +71,172 @@ export interface Transaction {
   originalCurrency?: Currency; // The currency that was displayed during the transaction
   originalTotal?: number; // The total in the original display currency
   originalSubtotal?: number; // The subtotal in the original display currency
+  payments?: PaymentLeg[]; // Split tender legs; paymentMethod then holds the largest leg's method
+  refundOf?: string; // Set on refunds: id of the sale being reversed (refund items have negative quantities)
+  cashTender?: CashTender; // Cash handed over and change given back, for drawer reconciliation
+  overrideApprovals?: OverrideApproval[]; // Supervisor sign-offs for overrides beyond the event's limits
+  cashSessionId?: string; // The seller's open cash drawer session; unset on older transactions and sales made without one
+}
+
+// Outcome of checking a supervisor's approval PIN
+export interface ApprovalPinCheck {
+  approved: boolean;
+  attemptsLeft: number; // Wrong PINs allowed before the approver is locked out
+  lockedUntil: Date | null; // Set while the approver is locked out; the PIN is not checked then
+}
+
+// A supervisor's sign-off on one price or total override
+export interface OverrideApproval {
+  kind: 'price' | 'total';
+  productId?: string; // Price overrides only
+  amount: number; // The approved unit price or total, in the transaction currency
+  approverId: string;
+  approverName: string;
+  reason: string;
+}
+
+// Limits beyond which an override needs a supervisor's PIN (unset limits never apply)
+export interface OverrideApprovalRules {
+  maxDiscountPercent?: number; // Price or total overrides cutting more than this off catalogue prices
+  minTotal?: number; // Total overrides below this amount, in the main currency
+}
+
+export interface PaymentLeg {
+  method: PaymentMethod;
+  currency: Currency; // Currency this leg was tendered in
+  amount: number; // In the leg currency
+  baseAmount: number; // The same value in the transaction currency
+}
+
+export interface CashTender {
+  currency: Currency; // Currency the customer paid in; change is given back in the same currency
+  tendered: number;
+  change: number;
+}
+
+export type CurrencyAmounts = Record<Currency, number>;
+
+export interface CashMovement {
+  id: string;
+  type: 'in' | 'out'; // Manual cash added to or taken out of the drawer
+  currency: Currency;
+  amount: number; // Always positive; type gives the direction
+  reason: string;
+  timestamp: Date;
+}
+
+export interface CashVarianceLine {
+  currency: Currency;
+  openingFloat: number;
+  cashSales: number; // Net cash takings (refunds subtract)
+  cashIn: number;
+  cashOut: number;
+  expected: number; // openingFloat + cashSales + cashIn - cashOut
+  counted: number;
+  variance: number; // counted - expected; negative means the drawer is short
+}
+
+export interface CashSession {
+  id: string;
+  eventId: string;
+  userId: string;
+  userName: string;
+  openedAt: Date;
+  closedAt?: Date;
+  openingFloat: CurrencyAmounts;
+  movements: CashMovement[];
+  closingCount?: CurrencyAmounts;
+  varianceReport?: CashVarianceLine[]; // Stored when the session is closed
+}
+
+export type SyncStatus = 'pending' | 'synced' | 'failed';
+
+export interface SheetsSyncState {
+  eventId: string;
+  spreadsheetId: string;
+  spreadsheetUrl: string;
+  syncedTransactionIds: string[]; // Transactions already appended to the Registry sheet
+  lastSyncedAt: Date;
+}
+
+export type BackupRestoreMode = 'replace' | 'merge';
+
+// Raw rows of every backed-up table (native) or storage collection (web)
+export interface DeviceBackupSnapshot {
+  platform: 'native' | 'web';
+  tables: Record<string, Record<string, unknown>[]>;
+}
+
+// Row-level changes to one event, written together in one database transaction
+export interface EventChangeSet {
+  upsertProducts?: Product[];
+  deleteProductIds?: string[];
+  upsertProductTypes?: ProductType[];
+  deleteProductTypeIds?: string[];
+  upsertTransactions?: Transaction[];
+  deleteTransactionIds?: string[];
+  settings?: AppSettings; // Promos included; only set when the settings changed
+}
+
+export type EventSnapshotReason = 'scheduled' | 'finalize' | 'manual' | 'pre-restore';
+
+// A point-in-time copy of one event's catalogue, settings and sales (payload not included)
+export interface EventSnapshot {
+  id: string;
+  eventId: string;
+  reason: EventSnapshotReason;
+  createdAt: Date;
+  productCount: number;
+  transactionCount: number;
+}
+
+export type AuditEntityType = 'product' | 'transaction' | 'settings' | 'event' | 'user';
+export type AuditAction = 'update' | 'delete' | 'unlock' | 'finalize' | 'pin_failed';
+
+// One changed field; values are as they were serialised (null when absent)
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Who made a change, as recorded on audit entries
+export interface AuditActor {
+  userId: string | null;
+  userName: string;
+}
+
+// Append-only record of one change to an event
+export interface AuditLogEntry extends AuditActor {
+  id: string;
+  eventId: string;
+  timestamp: Date;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  changes: AuditChange[];
+}
+
+export interface AuditLogFilter {
+  entityType?: AuditEntityType;
+  userId?: string;
+  since?: Date;
+}
+
+export type OutboxOperation = 'push' | 'remove';
+
+export interface OutboxEntry {
+  transactionId: string;
+  eventId: string;
+  operation: OutboxOperation; // 'remove' entries tell the server a synced sale was deleted
+  version: number; // Bumped on every enqueue, so a push only settles the version it sent
+  transaction?: Transaction; // Absent for removals
+  status: SyncStatus; // 'failed' entries are retried once nextAttemptAt has passed
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  createdAt: Date;
+  syncedAt?: Date;
 }
 
 export type Currency = 'USD' | 'EUR' | 'GBP';
@@ -71,6 +250,8 @@ export interface AppSettings {
   isSetupComplete: boolean;
   appPromoPricing: AppPromoPricing;
   promos?: Promo[];
+  rolePermissions?: RolePermissions; // Per-event overrides of the default role capabilities
+  overrideApproval?: OverrideApprovalRules;
 }
 
 export interface AppPromoPricing {